@@ -19,6 +19,18 @@ import Users from "@/pages/Users";
 import Expenses from "@/pages/Expenses";
 import Profile from "@/pages/Profile";
 import Settings from "@/pages/Settings";
+import Appointments from "@/pages/Appointments";
+import Subscriptions from "@/pages/Subscriptions";
+import CashRegister from "@/pages/CashRegister";
+import GiftCards from "@/pages/GiftCards";
+import Accounts from "@/pages/Accounts";
+import AccountInvoice from "@/pages/AccountInvoice";
+import Receivables from "@/pages/Receivables";
+import Inventory from "@/pages/Inventory";
+import JobBoard from "@/pages/JobBoard";
+import CheckIn from "@/pages/CheckIn";
+import CustomerStatement from "@/pages/CustomerStatement";
+import AuditLog from "@/pages/AuditLog";
 import AuthPage from "@/pages/auth-page";
 
 function Router() {
@@ -35,12 +47,17 @@ function Router() {
           <Dashboard />
         </Layout>
       </ProtectedRoute>
-      <ProtectedRoute path="/new-job">
+      <ProtectedRoute path="/check-in" permission="jobs.manage">
+        <Layout>
+          <CheckIn />
+        </Layout>
+      </ProtectedRoute>
+      <ProtectedRoute path="/new-job" permission="jobs.manage">
         <Layout>
           <NewJob />
         </Layout>
       </ProtectedRoute>
-      <ProtectedRoute path="/new-job/:id">
+      <ProtectedRoute path="/new-job/:id" permission="jobs.manage">
         <Layout>
           <NewJob />
         </Layout>
@@ -55,52 +72,107 @@ function Router() {
           <Dashboard />
         </Layout>
       </ProtectedRoute>
+      <ProtectedRoute path="/board" permission="jobs.view">
+        <Layout>
+          <JobBoard />
+        </Layout>
+      </ProtectedRoute>
       <ProtectedRoute path="/jobs/:id">
         <Layout>
           <ViewJob />
         </Layout>
       </ProtectedRoute>
-      <ProtectedRoute path="/customers">
+      <ProtectedRoute path="/customers" permission="customers.view">
         <Layout>
           <Customers />
         </Layout>
       </ProtectedRoute>
-      <ProtectedRoute path="/customer/:id">
+      <ProtectedRoute path="/customer/:id" permission="customers.view">
         <Layout>
           <CustomerDetail />
         </Layout>
       </ProtectedRoute>
-      <ProtectedRoute path="/expenses">
+      <ProtectedRoute path="/customer/:id/statement" permission="receivables.view">
+        <Layout>
+          <CustomerStatement />
+        </Layout>
+      </ProtectedRoute>
+      <ProtectedRoute path="/appointments" permission="appointments.view">
+        <Layout>
+          <Appointments />
+        </Layout>
+      </ProtectedRoute>
+      <ProtectedRoute path="/subscriptions" permission="subscriptions.view">
+        <Layout>
+          <Subscriptions />
+        </Layout>
+      </ProtectedRoute>
+      <ProtectedRoute path="/cash" permission="cash.view">
+        <Layout>
+          <CashRegister />
+        </Layout>
+      </ProtectedRoute>
+      <ProtectedRoute path="/gift-cards" permission="giftCards.view">
+        <Layout>
+          <GiftCards />
+        </Layout>
+      </ProtectedRoute>
+      <ProtectedRoute path="/accounts" permission="accounts.view">
+        <Layout>
+          <Accounts />
+        </Layout>
+      </ProtectedRoute>
+      <ProtectedRoute path="/receivables" permission="receivables.view">
+        <Layout>
+          <Receivables />
+        </Layout>
+      </ProtectedRoute>
+      <ProtectedRoute path="/inventory" permission="inventory.view">
+        <Layout>
+          <Inventory />
+        </Layout>
+      </ProtectedRoute>
+      <ProtectedRoute path="/account-invoices/:id" permission="accounts.view">
+        <Layout>
+          <AccountInvoice />
+        </Layout>
+      </ProtectedRoute>
+      <ProtectedRoute path="/expenses" permission="expenses.view">
         <Layout>
           <Expenses />
         </Layout>
       </ProtectedRoute>
-      <ProtectedRoute path="/reports">
+      <ProtectedRoute path="/reports" permission="reports.view">
         <Layout>
           <Reports />
         </Layout>
       </ProtectedRoute>
-      <ProtectedRoute path="/price-list">
+      <ProtectedRoute path="/price-list" permission="services.view">
         <Layout>
           <PriceList />
         </Layout>
       </ProtectedRoute>
-      <ProtectedRoute path="/vehicle-list">
+      <ProtectedRoute path="/vehicle-list" permission="vehicles.view">
         <Layout>
           <VehicleList />
         </Layout>
       </ProtectedRoute>
-      <ProtectedRoute path="/users" adminOnly={true}>
+      <ProtectedRoute path="/users" permission="users.manage">
         <Layout>
           <Users />
         </Layout>
       </ProtectedRoute>
+      <ProtectedRoute path="/audit-log" permission="audit.view">
+        <Layout>
+          <AuditLog />
+        </Layout>
+      </ProtectedRoute>
       <ProtectedRoute path="/profile">
         <Layout>
           <Profile />
         </Layout>
       </ProtectedRoute>
-      <ProtectedRoute path="/settings">
+      <ProtectedRoute path="/settings" permission="settings.manage">
         <Layout>
           <Settings />
         </Layout>
@@ -0,0 +1,157 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format, subMonths } from "date-fns";
+import { z } from "zod";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { AccountInvoice, billingPeriodSchema, Customer } from "@shared/schema";
+import { apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface AccountInvoiceFormProps {
+  customerId?: number; // Müşteri sayfasından açıldığında sabit
+  onSaved: (invoice: AccountInvoice) => void;
+}
+
+const formSchema = z.object({
+  customerId: z.string().min(1, "Müşteri seçiniz"),
+  period: billingPeriodSchema,
+  notes: z.string().optional(),
+});
+
+type AccountInvoiceFormValues = z.infer<typeof formSchema>;
+
+export default function AccountInvoiceForm({ customerId, onSaved }: AccountInvoiceFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<AccountInvoiceFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      customerId: customerId ? customerId.toString() : "",
+      // Varsayılan dönem geçen aydır
+      period: format(subMonths(new Date(), 1), "yyyy-MM"),
+      notes: "",
+    },
+  });
+
+  const customersQuery = useQuery<Customer[]>({
+    queryKey: ["/api/customers"],
+  });
+
+  const createInvoiceMutation = useMutation({
+    mutationFn: async (values: AccountInvoiceFormValues) => {
+      const res = await apiRequest("POST", "/api/account-invoices", {
+        customerId: parseInt(values.customerId),
+        period: values.period,
+        notes: values.notes,
+      });
+      return res.json();
+    },
+    onSuccess: (invoice: AccountInvoice) => {
+      invalidateQueriesByPrefix("/api/account-invoices");
+      invalidateQueriesByPrefix("/api/reports/receivables-aging");
+      toast({
+        title: "Başarılı",
+        description: `#${invoice.id} numaralı fatura oluşturuldu.`,
+      });
+      onSaved(invoice);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Hata",
+        description: error.message.startsWith("409")
+          ? "Bu dönem için faturalanacak tamamlanmış cari hesap işi yok."
+          : "Fatura oluşturulurken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const corporateCustomers = (customersQuery.data || []).filter(customer => customer.isCorporate);
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => createInvoiceMutation.mutate(values))} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="customerId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Kurumsal Müşteri</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange} disabled={!!customerId}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Müşteri seçin" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {corporateCustomers.map((customer) => (
+                      <SelectItem key={customer.id} value={customer.id.toString()}>
+                        {customer.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="period"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Dönem</FormLabel>
+                <FormControl>
+                  <Input type="month" {...field} />
+                </FormControl>
+                <FormDescription>Dönem sonuna kadar tamamlanan, faturalanmamış işler eklenir</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notlar</FormLabel>
+              <FormControl>
+                <Textarea rows={2} {...field} value={field.value || ''} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end pt-4">
+          <Button type="submit" disabled={createInvoiceMutation.isPending}>
+            Fatura Oluştur
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
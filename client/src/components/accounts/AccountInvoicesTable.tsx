@@ -0,0 +1,93 @@
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AccountInvoiceDetail } from "@shared/schema";
+import { formatCurrency } from "@/lib/utils";
+
+interface AccountInvoicesTableProps {
+  invoices: AccountInvoiceDetail[];
+  isLoading?: boolean;
+  showCustomer?: boolean;
+}
+
+// Fatura durumu: iptal, ödendi, vadesi geçti veya açık
+export function getInvoiceStatusDisplay(invoice: AccountInvoiceDetail): { label: string; className: string } {
+  if (invoice.status === "iptal") {
+    return { label: "İptal", className: "bg-gray-100 text-gray-700" };
+  }
+  if (invoice.remaining <= 0) {
+    return { label: "Ödendi", className: "bg-green-100 text-green-800" };
+  }
+  if (new Date(invoice.dueDate) < new Date()) {
+    return { label: "Vadesi Geçti", className: "bg-red-100 text-red-800" };
+  }
+  return { label: "Açık", className: "bg-yellow-100 text-yellow-800" };
+}
+
+export default function AccountInvoicesTable({ invoices, isLoading, showCustomer = true }: AccountInvoicesTableProps) {
+  const columnCount = showCustomer ? 8 : 7;
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Fatura No</TableHead>
+            {showCustomer && <TableHead>Müşteri</TableHead>}
+            <TableHead>Dönem</TableHead>
+            <TableHead>İş Sayısı</TableHead>
+            <TableHead>Vade</TableHead>
+            <TableHead>Durum</TableHead>
+            <TableHead className="text-right">Tutar</TableHead>
+            <TableHead className="text-right">Kalan</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {invoices.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={columnCount} className="text-center text-muted-foreground h-16">
+                {isLoading ? "Yükleniyor..." : "Fatura bulunamadı"}
+              </TableCell>
+            </TableRow>
+          ) : (
+            invoices.map((invoice) => {
+              const status = getInvoiceStatusDisplay(invoice);
+              return (
+                <TableRow key={invoice.id}>
+                  <TableCell>
+                    <Link href={`/account-invoices/${invoice.id}`} className="text-primary hover:underline font-medium">
+                      #{invoice.id}
+                    </Link>
+                  </TableCell>
+                  {showCustomer && (
+                    <TableCell>
+                      <Link href={`/customer/${invoice.customerId}`} className="hover:underline">
+                        {invoice.customerName}
+                      </Link>
+                    </TableCell>
+                  )}
+                  <TableCell>{invoice.period}</TableCell>
+                  <TableCell>{invoice.jobCount}</TableCell>
+                  <TableCell>{format(new Date(invoice.dueDate), "dd.MM.yyyy")}</TableCell>
+                  <TableCell>
+                    <Badge className={status.className}>{status.label}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(invoice.totalAmount)} TL</TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(invoice.remaining)} TL</TableCell>
+                </TableRow>
+              );
+            })
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CustomerServicePrice, Service } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+
+interface CustomerPriceListProps {
+  customerId: number;
+  canManage: boolean;
+}
+
+// Kurumsal müşterinin anlaşmalı fiyatları; boş bırakılan hizmetlerde liste fiyatı uygulanır
+export default function CustomerPriceList({ customerId, canManage }: CustomerPriceListProps) {
+  const { toast } = useToast();
+  const [prices, setPrices] = useState<Record<number, string>>({});
+
+  const servicesQuery = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+  });
+
+  const pricesQuery = useQuery<CustomerServicePrice[]>({
+    queryKey: [`/api/customers/${customerId}/prices`],
+  });
+
+  useEffect(() => {
+    if (pricesQuery.data) {
+      setPrices(Object.fromEntries(pricesQuery.data.map(price => [price.serviceId, price.price])));
+    }
+  }, [pricesQuery.data]);
+
+  const savePricesMutation = useMutation({
+    mutationFn: async () => {
+      const body = Object.entries(prices)
+        .filter(([, price]) => price !== "")
+        .map(([serviceId, price]) => ({ serviceId: Number(serviceId), price }));
+      const res = await apiRequest("PUT", `/api/customers/${customerId}/prices`, body);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${customerId}/prices`] });
+      toast({
+        title: "Başarılı",
+        description: "Fiyat listesi kaydedildi.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Hata",
+        description: "Fiyat listesi kaydedilirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const services = servicesQuery.data || [];
+
+  return (
+    <div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Hizmet</TableHead>
+            <TableHead className="text-right">Liste Fiyatı</TableHead>
+            <TableHead className="text-right w-48">Anlaşmalı Fiyat (TL)</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {services.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={3} className="text-center text-muted-foreground h-16">
+                {servicesQuery.isLoading || pricesQuery.isLoading ? "Yükleniyor..." : "Hizmet bulunamadı"}
+              </TableCell>
+            </TableRow>
+          ) : (
+            services.map((service) => (
+              <TableRow key={service.id}>
+                <TableCell>{service.name}</TableCell>
+                <TableCell className="text-right">{formatCurrency(service.price)} TL</TableCell>
+                <TableCell className="text-right">
+                  {canManage ? (
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="Liste fiyatı"
+                      className="text-right"
+                      value={prices[service.id] ?? ""}
+                      onChange={(e) => setPrices({ ...prices, [service.id]: e.target.value })}
+                    />
+                  ) : prices[service.id] ? (
+                    `${formatCurrency(prices[service.id])} TL`
+                  ) : (
+                    <span className="text-muted-foreground">-</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+      {canManage && (
+        <div className="flex justify-end p-4">
+          <Button onClick={() => savePricesMutation.mutate()} disabled={savePricesMutation.isPending}>
+            Fiyatları Kaydet
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
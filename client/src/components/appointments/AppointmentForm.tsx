@@ -0,0 +1,391 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { 
+  Form, 
+  FormControl, 
+  FormField, 
+  FormItem, 
+  FormLabel, 
+  FormMessage 
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { 
+  Select, 
+  SelectContent, 
+  SelectItem, 
+  SelectTrigger, 
+  SelectValue 
+} from "@/components/ui/select";
+import { AppointmentDetail, Customer, Vehicle, Service, WashBay } from "@shared/schema";
+import { apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface AppointmentFormProps {
+  appointment?: AppointmentDetail; // For editing an existing appointment
+  defaultStart?: Date;
+  onSaved: () => void;
+}
+
+const formSchema = z.object({
+  customerId: z.number({ required_error: "Lütfen müşteri seçiniz" }).positive("Lütfen müşteri seçiniz"),
+  vehicleId: z.number({ required_error: "Lütfen araç seçiniz" }).positive("Lütfen araç seçiniz"),
+  date: z.string().min(1, "Tarih zorunludur"),
+  time: z.string().min(1, "Saat zorunludur"),
+  bayId: z.string(), // "auto", "none" veya alan ID'si
+  serviceIds: z.array(z.number()),
+  status: z.enum(["planlandi", "geldi", "iptal"]),
+  notes: z.string().optional(),
+});
+
+type AppointmentFormValues = z.infer<typeof formSchema>;
+
+export default function AppointmentForm({ appointment, defaultStart, onSaved }: AppointmentFormProps) {
+  const { toast } = useToast();
+  const [_, navigate] = useLocation();
+  
+  const start = appointment ? new Date(appointment.startTime) : defaultStart || new Date();
+  
+  const form = useForm<AppointmentFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      customerId: appointment?.customerId,
+      vehicleId: appointment?.vehicleId,
+      date: format(start, "yyyy-MM-dd"),
+      time: format(start, "HH:mm"),
+      bayId: appointment ? (appointment.bayId ? appointment.bayId.toString() : "none") : "auto",
+      serviceIds: appointment?.serviceIds || [],
+      status: (appointment?.status as AppointmentFormValues["status"]) || "planlandi",
+      notes: appointment?.notes || "",
+    },
+  });
+  
+  // Fetch customers
+  const customersQuery = useQuery<Customer[]>({
+    queryKey: ["/api/customers"],
+  });
+  
+  // Fetch vehicles
+  const vehiclesQuery = useQuery<Vehicle[]>({
+    queryKey: ["/api/vehicles"],
+  });
+  
+  // Fetch services
+  const servicesQuery = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+  });
+  
+  // Fetch wash bays
+  const washBaysQuery = useQuery<WashBay[]>({
+    queryKey: ["/api/wash-bays"],
+  });
+  
+  const selectedCustomerId = form.watch("customerId");
+  const selectedServiceIds = form.watch("serviceIds");
+  
+  const customerVehicles = vehiclesQuery.data?.filter(
+    vehicle => vehicle.customerId === selectedCustomerId
+  ) || [];
+  
+  // Tahmini süre seçilen hizmetlerin toplamıdır
+  const estimatedDuration = (servicesQuery.data || [])
+    .filter(service => selectedServiceIds.includes(service.id))
+    .reduce((total, service) => total + service.durationMinutes, 0);
+  
+  // Müşteri değişince araç seçimini temizle
+  useEffect(() => {
+    if (appointment && selectedCustomerId === appointment.customerId) return;
+    form.setValue("vehicleId", undefined as unknown as number);
+  }, [selectedCustomerId]);
+  
+  const saveAppointmentMutation = useMutation({
+    mutationFn: async (values: AppointmentFormValues) => {
+      const payload: Record<string, unknown> = {
+        customerId: values.customerId,
+        vehicleId: values.vehicleId,
+        startTime: new Date(`${values.date}T${values.time}`).toISOString(),
+        serviceIds: values.serviceIds,
+        status: values.status,
+        notes: values.notes,
+      };
+      
+      // "auto" seçiliyse alanı sunucu atar
+      if (values.bayId === "none") {
+        payload.bayId = null;
+      } else if (values.bayId !== "auto") {
+        payload.bayId = parseInt(values.bayId);
+      }
+      
+      const res = appointment
+        ? await apiRequest("PUT", `/api/appointments/${appointment.id}`, payload)
+        : await apiRequest("POST", "/api/appointments", payload);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateQueriesByPrefix("/api/appointments");
+      toast({
+        title: "Başarılı",
+        description: `Randevu başarıyla ${appointment ? "güncellendi" : "oluşturuldu"}.`,
+      });
+      onSaved();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Hata",
+        description: error.message.startsWith("409")
+          ? "Seçilen saatte yıkama alanı dolu. Başka bir saat veya alan seçin."
+          : "Randevu kaydedilirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const deleteAppointmentMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/appointments/${id}`);
+    },
+    onSuccess: () => {
+      invalidateQueriesByPrefix("/api/appointments");
+      toast({
+        title: "Başarılı",
+        description: "Randevu silindi.",
+      });
+      onSaved();
+    },
+    onError: () => {
+      toast({
+        title: "Hata",
+        description: "Randevu silinirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => saveAppointmentMutation.mutate(values))} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="customerId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Müşteri</FormLabel>
+                <Select
+                  value={field.value?.toString()}
+                  onValueChange={(value) => field.onChange(parseInt(value))}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Müşteri seçin" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {customersQuery.data?.map((customer) => (
+                      <SelectItem key={customer.id} value={customer.id.toString()}>
+                        {customer.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          
+          <FormField
+            control={form.control}
+            name="vehicleId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Araç</FormLabel>
+                <Select
+                  value={field.value?.toString() ?? ""}
+                  onValueChange={(value) => field.onChange(parseInt(value))}
+                  disabled={!selectedCustomerId}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Araç seçin" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {customerVehicles.map((vehicle) => (
+                      <SelectItem key={vehicle.id} value={vehicle.id.toString()}>
+                        {vehicle.plate} - {vehicle.brand} {vehicle.model}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tarih</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          
+          <FormField
+            control={form.control}
+            name="time"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Saat</FormLabel>
+                <FormControl>
+                  <Input type="time" step="900" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          
+          <FormField
+            control={form.control}
+            name="bayId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Yıkama Alanı</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Yıkama alanı seçin" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="auto">Otomatik (ilk boş alan)</SelectItem>
+                    <SelectItem value="none">Atanmamış</SelectItem>
+                    {washBaysQuery.data?.filter(bay => bay.isActive).map((bay) => (
+                      <SelectItem key={bay.id} value={bay.id.toString()}>
+                        {bay.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          
+          <FormField
+            control={form.control}
+            name="status"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Durum</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Durum seçin" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="planlandi">Planlandı</SelectItem>
+                    <SelectItem value="geldi">Geldi</SelectItem>
+                    <SelectItem value="iptal">İptal</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        
+        <FormField
+          control={form.control}
+          name="serviceIds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>
+                İstenen Hizmetler {estimatedDuration > 0 && `(tahmini ${estimatedDuration} dk)`}
+              </FormLabel>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {servicesQuery.data?.map((service) => (
+                  <div key={service.id} className="flex flex-row items-center space-x-2">
+                    <Checkbox
+                      checked={field.value.includes(service.id)}
+                      onCheckedChange={(checked) => {
+                        field.onChange(checked
+                          ? [...field.value, service.id]
+                          : field.value.filter(id => id !== service.id));
+                      }}
+                    />
+                    <span className="text-sm">{service.name} ({service.durationMinutes} dk)</span>
+                  </div>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notlar</FormLabel>
+              <FormControl>
+                <Textarea rows={2} {...field} value={field.value || ''} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        
+        <div className="flex justify-between pt-4">
+          <div className="space-x-2">
+            {appointment && (
+              <Button
+                type="button"
+                variant="destructive"
+                onClick={() => deleteAppointmentMutation.mutate(appointment.id)}
+                disabled={deleteAppointmentMutation.isPending}
+              >
+                Sil
+              </Button>
+            )}
+            {appointment && !appointment.jobId && appointment.status !== "iptal" && (
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => navigate(`/new-job?appointmentId=${appointment.id}`)}
+              >
+                İş Emrine Dönüştür
+              </Button>
+            )}
+            {appointment?.jobId && (
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => navigate(`/view-job/${appointment.jobId}`)}
+              >
+                İş Emrini Görüntüle
+              </Button>
+            )}
+          </div>
+          <Button type="submit" disabled={saveAppointmentMutation.isPending}>
+            {appointment ? "Güncelle" : "Kaydet"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
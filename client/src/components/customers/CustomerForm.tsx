@@ -7,6 +7,7 @@ import { useLocation } from "wouter";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -14,6 +15,8 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
 import { insertCustomerSchema, Customer } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
@@ -22,20 +25,37 @@ interface CustomerFormProps {
   customerId?: string; // For editing an existing customer
 }
 
+// Kurumsal müşteride vergi numarası zorunludur
+const formSchema = insertCustomerSchema.extend({
+  paymentTermDays: z.coerce.number().int().min(0, "Vade negatif olamaz").max(365, "Vade en fazla 365 gün olabilir"),
+}).refine(data => !data.isCorporate || !!data.taxNumber, {
+  message: "Kurumsal müşteri için vergi numarası zorunludur",
+  path: ["taxNumber"],
+});
+
+type CustomerFormValues = z.infer<typeof formSchema>;
+
 export default function CustomerForm({ customerId }: CustomerFormProps) {
   const { toast } = useToast();
   const [_, navigate] = useLocation();
   
   // Define the form
-  const form = useForm<z.infer<typeof insertCustomerSchema>>({
-    resolver: zodResolver(insertCustomerSchema),
+  const form = useForm<CustomerFormValues>({
+    resolver: zodResolver(formSchema),
     defaultValues: {
       name: "",
       phone: "",
       email: "",
+      isCorporate: false,
+      taxNumber: "",
+      taxOffice: "",
+      address: "",
+      paymentTermDays: 30,
     },
   });
   
+  const isCorporate = form.watch("isCorporate");
+  
   // Fetch customer details if editing
   const customerQuery = useQuery<Customer>({
     queryKey: [`/api/customers/${customerId}`],
@@ -49,13 +69,18 @@ export default function CustomerForm({ customerId }: CustomerFormProps) {
         name: customerQuery.data.name,
         phone: customerQuery.data.phone || "",
         email: customerQuery.data.email || "",
+        isCorporate: customerQuery.data.isCorporate,
+        taxNumber: customerQuery.data.taxNumber || "",
+        taxOffice: customerQuery.data.taxOffice || "",
+        address: customerQuery.data.address || "",
+        paymentTermDays: customerQuery.data.paymentTermDays,
       });
     }
   }, [customerId, customerQuery.data, form]);
   
   // Create customer mutation
   const createCustomerMutation = useMutation({
-    mutationFn: async (data: z.infer<typeof insertCustomerSchema>) => {
+    mutationFn: async (data: CustomerFormValues) => {
       const res = await apiRequest("POST", "/api/customers", data);
       return res.json();
     },
@@ -78,7 +103,7 @@ export default function CustomerForm({ customerId }: CustomerFormProps) {
   
   // Update customer mutation
   const updateCustomerMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number; data: z.infer<typeof insertCustomerSchema> }) => {
+    mutationFn: async ({ id, data }: { id: number; data: CustomerFormValues }) => {
       const res = await apiRequest("PUT", `/api/customers/${id}`, data);
       return res.json();
     },
@@ -99,7 +124,7 @@ export default function CustomerForm({ customerId }: CustomerFormProps) {
     },
   });
   
-  const onSubmit = (data: z.infer<typeof insertCustomerSchema>) => {
+  const onSubmit = (data: CustomerFormValues) => {
     if (customerId) {
       updateCustomerMutation.mutate({
         id: parseInt(customerId),
@@ -178,6 +203,82 @@ export default function CustomerForm({ customerId }: CustomerFormProps) {
           }}
         />
         
+        <FormField
+          control={form.control}
+          name="isCorporate"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+              <FormControl>
+                <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+              </FormControl>
+              <FormLabel>Kurumsal (filo) müşteri</FormLabel>
+            </FormItem>
+          )}
+        />
+        
+        {isCorporate && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="taxNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vergi / T.C. Kimlik No</FormLabel>
+                    <FormControl>
+                      <Input placeholder="1234567890" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={form.control}
+                name="taxOffice"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vergi Dairesi</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Fatura Adresi</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <FormField
+              control={form.control}
+              name="paymentTermDays"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Ödeme Vadesi (gün)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="0" max="365" {...field} />
+                  </FormControl>
+                  <FormDescription>Fatura tarihinden itibaren</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </>
+        )}
+        
         <div className="flex justify-end pt-4">
           <Button
             type="button"
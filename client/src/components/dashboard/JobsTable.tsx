@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { Eye, Edit, Trash, ChevronLeft, ChevronRight, ArrowUpDown } from "lucide-react";
 import { format, parseISO } from "date-fns";
@@ -7,11 +7,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { formatDate, formatCurrency, getJobStatusDisplay } from "@/lib/utils";
-import { Job, Customer, Vehicle } from "@shared/schema";
+import { formatDate, formatCurrency, getJobStatusDisplay, jobStatusOptions, paymentMethodOptions } from "@/lib/utils";
+import { JobListResult, JobListSortField } from "@shared/schema";
 import ConfirmDialog from "@/components/common/ConfirmDialog";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
 
 interface JobsTableProps {
   title: string;
@@ -22,127 +22,62 @@ export default function JobsTable({ title, date }: JobsTableProps) {
   const { toast } = useToast();
   
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [paymentMethodFilter, setPaymentMethodFilter] = useState("all");
   const [pageSize, setPageSize] = useState("10");
   const [page, setPage] = useState(1);
-  const [sortBy, setSortBy] = useState<string | null>(null);
-  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
+  const [sortBy, setSortBy] = useState<JobListSortField>("date");
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
   const [jobToDelete, setJobToDelete] = useState<number | null>(null);
   
-  // Fetch jobs
   const today = new Date().toISOString().split('T')[0]; // 'YYYY-MM-DD' formatında bugünün tarihi
   const formattedDate = date || today;
   
-  console.log("JobsTable - Tarih:", formattedDate);
-  console.log(`JobsTable - API isteği: /api/jobs?date=${formattedDate}`);
+  // Her tuş vuruşunda istek atmamak için aramayı geciktir
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
   
-  const jobsQuery = useQuery<Job[]>({
-    queryKey: [`/api/jobs?date=${formattedDate}`],
-    refetchInterval: 3000, // Her 3 saniyede bir otomatik yenileme
-    staleTime: 0, // Her zaman en güncel veriyi alalım
-  });
+  // Filtre değişince ilk sayfaya dön
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch, statusFilter, paymentMethodFilter, pageSize, formattedDate]);
   
-  // Fetch customers for displaying names
-  const customersQuery = useQuery<Customer[]>({
-    queryKey: ["/api/customers"],
-    refetchInterval: 3000, // Her 3 saniyede bir otomatik yenileme
-    staleTime: 0, // Her zaman en güncel veriyi alalım
+  // Filtreleme, sıralama ve sayfalama sunucuda yapılır
+  const params = new URLSearchParams({
+    page: String(page),
+    pageSize,
+    sort: sortBy,
+    order: sortOrder,
+    dateFrom: formattedDate,
+    dateTo: formattedDate,
   });
+  if (debouncedSearch) params.set("q", debouncedSearch);
+  if (statusFilter !== "all") params.set("status", statusFilter);
+  if (paymentMethodFilter !== "all") params.set("paymentMethod", paymentMethodFilter);
   
-  // Fetch vehicles for displaying details
-  const vehiclesQuery = useQuery<Vehicle[]>({
-    queryKey: ["/api/vehicles"],
+  const jobsQuery = useQuery<JobListResult>({
+    queryKey: [`/api/jobs?${params.toString()}`],
     refetchInterval: 3000, // Her 3 saniyede bir otomatik yenileme
     staleTime: 0, // Her zaman en güncel veriyi alalım
+    placeholderData: keepPreviousData, // Sayfa değişirken tablo boşalmasın
   });
   
-  const isLoading = jobsQuery.isLoading || customersQuery.isLoading || vehiclesQuery.isLoading;
-  
-  // Filter, sort, and paginate jobs
-  const filteredJobs = jobsQuery.data?.filter(job => {
-    if (!searchTerm) return true;
-    
-    const vehicle = vehiclesQuery.data?.find(v => v.id === job.vehicleId);
-    const customer = customersQuery.data?.find(c => c.id === job.customerId);
-    
-    const searchLower = searchTerm.toLowerCase();
-    
-    return (
-      vehicle?.plate.toLowerCase().includes(searchLower) ||
-      vehicle?.brand.toLowerCase().includes(searchLower) ||
-      vehicle?.model?.toLowerCase().includes(searchLower) ||
-      customer?.name.toLowerCase().includes(searchLower)
-    );
-  }) || [];
-  
-  // Sort jobs
-  const sortedJobs = [...filteredJobs].sort((a, b) => {
-    if (!sortBy) return 0;
-    
-    let valueA, valueB;
-    
-    switch (sortBy) {
-      case "id":
-        valueA = a.id;
-        valueB = b.id;
-        break;
-      case "plate":
-        valueA = vehiclesQuery.data?.find(v => v.id === a.vehicleId)?.plate || "";
-        valueB = vehiclesQuery.data?.find(v => v.id === b.vehicleId)?.plate || "";
-        break;
-      case "brand":
-        const vehicleA = vehiclesQuery.data?.find(v => v.id === a.vehicleId);
-        const vehicleB = vehiclesQuery.data?.find(v => v.id === b.vehicleId);
-        valueA = `${vehicleA?.brand || ""} ${vehicleA?.model || ""}`;
-        valueB = `${vehicleB?.brand || ""} ${vehicleB?.model || ""}`;
-        break;
-      case "customer":
-        valueA = customersQuery.data?.find(c => c.id === a.customerId)?.name || "";
-        valueB = customersQuery.data?.find(c => c.id === b.customerId)?.name || "";
-        break;
-      case "total":
-        valueA = Number(a.totalAmount);
-        valueB = Number(b.totalAmount);
-        break;
-      case "paid":
-        valueA = Number(a.paidAmount);
-        valueB = Number(b.paidAmount);
-        break;
-      case "remaining":
-        valueA = Number(a.totalAmount) - Number(a.paidAmount);
-        valueB = Number(b.totalAmount) - Number(b.paidAmount);
-        break;
-      case "date":
-        valueA = new Date(a.createdAt).getTime();
-        valueB = new Date(b.createdAt).getTime();
-        break;
-      case "status":
-        valueA = a.status;
-        valueB = b.status;
-        break;
-      default:
-        return 0;
-    }
-    
-    if (valueA < valueB) return sortOrder === "asc" ? -1 : 1;
-    if (valueA > valueB) return sortOrder === "asc" ? 1 : -1;
-    return 0;
-  });
+  const isLoading = jobsQuery.isLoading;
+  const jobs = jobsQuery.data?.items ?? [];
+  const totalJobs = jobsQuery.data?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(totalJobs / parseInt(pageSize)));
   
-  // Paginate jobs
-  const paginatedJobs = sortedJobs.slice(
-    (page - 1) * parseInt(pageSize),
-    page * parseInt(pageSize)
-  );
-  
-  const totalPages = Math.ceil(filteredJobs.length / parseInt(pageSize));
-  
-  const handleSort = (column: string) => {
+  const handleSort = (column: JobListSortField) => {
     if (sortBy === column) {
       setSortOrder(sortOrder === "asc" ? "desc" : "asc");
     } else {
       setSortBy(column);
       setSortOrder("asc");
     }
+    setPage(1);
   };
   
   const handlePageChange = (newPage: number) => {
@@ -158,7 +93,7 @@ export default function JobsTable({ title, date }: JobsTableProps) {
       await apiRequest("DELETE", `/api/jobs/${jobToDelete}`);
       
       // Invalidate queries to refetch data
-      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      invalidateQueriesByPrefix("/api/jobs");
       
       toast({
         title: "Başarılı",
@@ -203,6 +138,31 @@ export default function JobsTable({ title, date }: JobsTableProps) {
             <span className="text-sm text-gray-dark ml-4 mr-2">kayıt göster</span>
           </div>
           
+          <div className="flex flex-wrap items-center gap-2 mb-2 sm:mb-0">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue placeholder="Durum" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Tüm Durumlar</SelectItem>
+                {jobStatusOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={paymentMethodFilter} onValueChange={setPaymentMethodFilter}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="Ödeme Yöntemi" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Tüm Ödemeler</SelectItem>
+                {paymentMethodOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          
           <div className="flex items-center">
             <label className="text-sm text-gray-dark mr-2">Ara:</label>
             <Input
@@ -227,7 +187,7 @@ export default function JobsTable({ title, date }: JobsTableProps) {
                   PLAKA
                   <ArrowUpDown className="inline h-4 w-4 ml-1" />
                 </th>
-                <th className="py-3 font-medium" onClick={() => handleSort("brand")}>
+                <th className="py-3 font-medium" onClick={() => handleSort("vehicle")}>
                   MARKA / MODEL
                   <ArrowUpDown className="inline h-4 w-4 ml-1" />
                 </th>
@@ -251,7 +211,7 @@ export default function JobsTable({ title, date }: JobsTableProps) {
                   TARİH
                   <ArrowUpDown className="inline h-4 w-4 ml-1" />
                 </th>
-                <th className="py-3 font-medium" onClick={() => handleSort("time")}>
+                <th className="py-3 font-medium" onClick={() => handleSort("date")}>
                   SAAT
                   <ArrowUpDown className="inline h-4 w-4 ml-1" />
                 </th>
@@ -271,27 +231,25 @@ export default function JobsTable({ title, date }: JobsTableProps) {
                     Yükleniyor...
                   </td>
                 </tr>
-              ) : paginatedJobs.length === 0 ? (
+              ) : jobs.length === 0 ? (
                 <tr>
                   <td colSpan={10} className="py-4 text-center text-gray-medium">
                     Tabloda herhangi bir veri mevcut değil
                   </td>
                 </tr>
               ) : (
-                paginatedJobs.map((job) => {
-                  const vehicle = vehiclesQuery.data?.find(v => v.id === job.vehicleId);
-                  const customer = customersQuery.data?.find(c => c.id === job.customerId);
+                jobs.map((job) => {
                   const remaining = Number(job.totalAmount) - Number(job.paidAmount);
                   const statusInfo = getJobStatusDisplay(job.status);
                   
                   return (
                     <tr key={job.id} className="border-b border-gray-100">
                       <td className="py-3">{job.id}</td>
-                      <td className="py-3 font-medium">{vehicle?.plate}</td>
-                      <td className="py-3">{vehicle?.brand} {vehicle?.model}</td>
+                      <td className="py-3 font-medium">{job.vehiclePlate}</td>
+                      <td className="py-3">{job.vehicleBrand} {job.vehicleModel}</td>
                       <td className="py-3">
-                        <Link href={`/customer/${customer?.id}`} className="text-primary hover:underline">
-                          {customer?.name}
+                        <Link href={`/customer/${job.customerId}`} className="text-primary hover:underline">
+                          {job.customerName}
                         </Link>
                       </td>
                       <td className="py-3">{formatCurrency(job.totalAmount)}</td>
@@ -349,8 +307,8 @@ export default function JobsTable({ title, date }: JobsTableProps) {
         
         <div className="flex flex-wrap items-center justify-between mt-4">
           <div className="text-sm text-gray-dark mb-2 sm:mb-0">
-            Toplam {filteredJobs.length} kayıttan {Math.min(1 + (page - 1) * parseInt(pageSize), filteredJobs.length)}-
-            {Math.min(page * parseInt(pageSize), filteredJobs.length)} arası gösteriliyor
+            Toplam {totalJobs} kayıttan {Math.min(1 + (page - 1) * parseInt(pageSize), totalJobs)}-
+            {Math.min(page * parseInt(pageSize), totalJobs)} arası gösteriliyor
           </div>
           
           <div className="flex">
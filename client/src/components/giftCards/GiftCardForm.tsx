@@ -0,0 +1,201 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Customer, GiftCard, moneyPaymentMethodEnum, PAYMENT_METHOD_LABELS } from "@shared/schema";
+import { apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface GiftCardFormProps {
+  onSaved: (card: GiftCard) => void;
+}
+
+const formSchema = z.object({
+  code: z.string().optional(),
+  customerId: z.string(), // "none" veya müşteri ID'si
+  initialAmount: z.string().refine(val => val === "" || Number(val) > 0, "Tutar sıfırdan büyük olmalıdır"),
+  method: moneyPaymentMethodEnum,
+  notes: z.string().optional(),
+});
+
+type GiftCardFormValues = z.infer<typeof formSchema>;
+
+export default function GiftCardForm({ onSaved }: GiftCardFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<GiftCardFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      code: "",
+      customerId: "none",
+      initialAmount: "",
+      method: "nakit",
+      notes: "",
+    },
+  });
+
+  // Fetch customers
+  const customersQuery = useQuery<Customer[]>({
+    queryKey: ["/api/customers"],
+  });
+
+  const createGiftCardMutation = useMutation({
+    mutationFn: async (values: GiftCardFormValues) => {
+      const res = await apiRequest("POST", "/api/gift-cards", {
+        code: values.code || undefined,
+        customerId: values.customerId === "none" ? null : parseInt(values.customerId),
+        initialAmount: values.initialAmount || undefined,
+        method: values.method,
+        notes: values.notes,
+      });
+      return res.json();
+    },
+    onSuccess: (card: GiftCard) => {
+      invalidateQueriesByPrefix("/api/gift-cards");
+      invalidateQueriesByPrefix("/api/reports/gift-cards");
+      invalidateQueriesByPrefix("/api/cash-sessions");
+      toast({
+        title: "Başarılı",
+        description: `${card.code} kodlu hediye kartı oluşturuldu.`,
+      });
+      onSaved(card);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Hata",
+        description: error.message.startsWith("409")
+          ? "Bu kod başka bir kartta kullanılıyor."
+          : "Hediye kartı oluşturulurken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => createGiftCardMutation.mutate(values))} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="code"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Kart Kodu</FormLabel>
+                <FormControl>
+                  <Input placeholder="Otomatik" {...field} className="uppercase" />
+                </FormControl>
+                <FormDescription>Boş bırakılırsa kod otomatik üretilir</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="customerId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Müşteri</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Müşteri seçin" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="none">Hediye kartı (sahipsiz)</SelectItem>
+                    {customersQuery.data?.map((customer) => (
+                      <SelectItem key={customer.id} value={customer.id.toString()}>
+                        {customer.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Ön ödemeli müşteri bakiyesi için müşteri seçin</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="initialAmount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Yüklenecek Tutar (TL)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" min="0" placeholder="0.00" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="method"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Ödeme Yöntemi</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Ödeme yöntemi seçin" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {moneyPaymentMethodEnum.options.map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {PAYMENT_METHOD_LABELS[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notlar</FormLabel>
+              <FormControl>
+                <Textarea rows={2} {...field} value={field.value || ''} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end pt-4">
+          <Button type="submit" disabled={createGiftCardMutation.isPending}>
+            Kaydet
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
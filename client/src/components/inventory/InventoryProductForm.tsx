@@ -0,0 +1,178 @@
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { INVENTORY_UNITS, InventoryProduct, InventoryUnit, inventoryUnitEnum } from "@shared/schema";
+import { apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface InventoryProductFormProps {
+  product?: InventoryProduct; // Düzenlenecek ürün
+  onSaved: () => void;
+}
+
+const formSchema = z.object({
+  name: z.string().min(1, "Ürün adı zorunludur"),
+  unit: inventoryUnitEnum,
+  minStock: z.string().refine(val => val === "" || Number(val) >= 0, "Minimum stok negatif olamaz"),
+  isActive: z.boolean(),
+  notes: z.string().optional(),
+});
+
+type InventoryProductFormValues = z.infer<typeof formSchema>;
+
+export default function InventoryProductForm({ product, onSaved }: InventoryProductFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<InventoryProductFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: product?.name ?? "",
+      unit: (product?.unit as InventoryUnit) ?? "adet",
+      minStock: product ? String(Number(product.minStock)) : "",
+      isActive: product?.isActive ?? true,
+      notes: product?.notes ?? "",
+    },
+  });
+
+  const saveProductMutation = useMutation({
+    mutationFn: async (values: InventoryProductFormValues) => {
+      const body = { ...values, minStock: values.minStock || "0" };
+      const res = product
+        ? await apiRequest("PUT", `/api/inventory/products/${product.id}`, body)
+        : await apiRequest("POST", "/api/inventory/products", body);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateQueriesByPrefix("/api/inventory");
+      invalidateQueriesByPrefix("/api/reports/inventory");
+      toast({
+        title: "Başarılı",
+        description: product ? "Ürün güncellendi." : "Ürün eklendi.",
+      });
+      onSaved();
+    },
+    onError: () => {
+      toast({
+        title: "Hata",
+        description: "Ürün kaydedilirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => saveProductMutation.mutate(values))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Ürün Adı</FormLabel>
+              <FormControl>
+                <Input placeholder="Örn. Köpük şampuan" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="unit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Birim</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Birim seçin" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {INVENTORY_UNITS.map((unit) => (
+                      <SelectItem key={unit} value={unit}>
+                        {unit}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="minStock"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Minimum Stok</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.001" min="0" placeholder="0" {...field} />
+                </FormControl>
+                <FormDescription>Stok bu miktarın altına düşünce uyarı verilir</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="isActive"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+              <FormControl>
+                <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+              </FormControl>
+              <FormLabel>Kullanımda</FormLabel>
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notlar</FormLabel>
+              <FormControl>
+                <Textarea rows={2} {...field} value={field.value || ''} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end pt-4">
+          <Button type="submit" disabled={saveProductMutation.isPending}>
+            Kaydet
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
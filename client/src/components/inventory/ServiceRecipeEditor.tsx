@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { InventoryProductDetail, ServiceConsumption } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface ServiceRecipeEditorProps {
+  serviceId: number;
+  canManage: boolean;
+}
+
+// Hizmetin bir adedinde tüketilen malzemeler; iş tamamlandığında bu miktarlar stoktan düşülür
+export default function ServiceRecipeEditor({ serviceId, canManage }: ServiceRecipeEditorProps) {
+  const { toast } = useToast();
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+
+  const productsQuery = useQuery<InventoryProductDetail[]>({
+    queryKey: ["/api/inventory/products"],
+  });
+
+  const recipeQuery = useQuery<ServiceConsumption[]>({
+    queryKey: [`/api/inventory/consumptions?serviceId=${serviceId}`],
+  });
+
+  useEffect(() => {
+    if (recipeQuery.data) {
+      setQuantities(Object.fromEntries(recipeQuery.data.map(item => [item.productId, String(Number(item.quantity))])));
+    }
+  }, [recipeQuery.data]);
+
+  const saveRecipeMutation = useMutation({
+    mutationFn: async () => {
+      const body = Object.entries(quantities)
+        .filter(([, quantity]) => Number(quantity) > 0)
+        .map(([productId, quantity]) => ({ productId: Number(productId), quantity }));
+      const res = await apiRequest("PUT", `/api/services/${serviceId}/consumptions`, body);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/inventory/consumptions?serviceId=${serviceId}`] });
+      toast({
+        title: "Başarılı",
+        description: "Hizmet reçetesi kaydedildi.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Hata",
+        description: "Hizmet reçetesi kaydedilirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Pasif ürünler yalnızca reçetede kayıtlıysa gösterilir
+  const products = (productsQuery.data || []).filter(product => product.isActive || quantities[product.id]);
+
+  return (
+    <div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Ürün</TableHead>
+            <TableHead>Birim</TableHead>
+            <TableHead className="text-right w-48">Hizmet Başına Miktar</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {products.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={3} className="text-center text-muted-foreground h-16">
+                {productsQuery.isLoading || recipeQuery.isLoading ? "Yükleniyor..." : "Ürün bulunamadı"}
+              </TableCell>
+            </TableRow>
+          ) : (
+            products.map((product) => (
+              <TableRow key={product.id}>
+                <TableCell>
+                  {product.name}
+                  {!product.isActive && <span className="text-muted-foreground"> (pasif)</span>}
+                </TableCell>
+                <TableCell>{product.unit}</TableCell>
+                <TableCell className="text-right">
+                  {canManage ? (
+                    <Input
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      placeholder="Kullanılmıyor"
+                      className="text-right"
+                      value={quantities[product.id] ?? ""}
+                      onChange={(e) => setQuantities({ ...quantities, [product.id]: e.target.value })}
+                    />
+                  ) : quantities[product.id] ? (
+                    `${quantities[product.id]} ${product.unit}`
+                  ) : (
+                    <span className="text-muted-foreground">-</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+      {canManage && (
+        <div className="flex justify-end p-4">
+          <Button onClick={() => saveRecipeMutation.mutate()} disabled={saveRecipeMutation.isPending}>
+            Reçeteyi Kaydet
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
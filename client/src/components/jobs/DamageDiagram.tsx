@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  DamageType,
+  JobDamageMark,
+  JobDamageMarkInput,
+  VehiclePanel,
+  DAMAGE_TYPE_LABELS,
+  VEHICLE_PANEL_LABELS,
+  damageTypeEnum,
+} from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+
+// Aracın üstten görünümü; ön taraf yukarıda, sürücü (sol) tarafı solda
+const PANEL_SHAPES: Record<VehiclePanel, { x: number; y: number; width: number; height: number }> = {
+  on_tampon: { x: 60, y: 10, width: 80, height: 20 },
+  kaput: { x: 60, y: 32, width: 80, height: 60 },
+  on_cam: { x: 62, y: 94, width: 76, height: 30 },
+  tavan: { x: 62, y: 126, width: 76, height: 110 },
+  arka_cam: { x: 62, y: 238, width: 76, height: 30 },
+  bagaj: { x: 60, y: 270, width: 80, height: 60 },
+  arka_tampon: { x: 60, y: 332, width: 80, height: 20 },
+  sol_on_camurluk: { x: 30, y: 32, width: 28, height: 70 },
+  sol_on_kapi: { x: 30, y: 104, width: 28, height: 80 },
+  sol_arka_kapi: { x: 30, y: 186, width: 28, height: 80 },
+  sol_arka_camurluk: { x: 30, y: 268, width: 28, height: 62 },
+  sol_ayna: { x: 10, y: 100, width: 18, height: 14 },
+  sag_on_camurluk: { x: 142, y: 32, width: 28, height: 70 },
+  sag_on_kapi: { x: 142, y: 104, width: 28, height: 80 },
+  sag_arka_kapi: { x: 142, y: 186, width: 28, height: 80 },
+  sag_arka_camurluk: { x: 142, y: 268, width: 28, height: 62 },
+  sag_ayna: { x: 172, y: 100, width: 18, height: 14 },
+};
+
+type MarkState = Partial<Record<VehiclePanel, { damageType: DamageType; note: string }>>;
+
+function toMarkState(marks: JobDamageMark[]): MarkState {
+  const state: MarkState = {};
+  for (const mark of marks) {
+    state[mark.panel as VehiclePanel] = { damageType: mark.damageType as DamageType, note: mark.note ?? "" };
+  }
+  return state;
+}
+
+interface DamageDiagramProps {
+  jobId: number;
+}
+
+export default function DamageDiagram({ jobId }: DamageDiagramProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canManage = hasPermission(user, "jobs.manage");
+  const [marks, setMarks] = useState<MarkState>({});
+  const [selectedPanel, setSelectedPanel] = useState<VehiclePanel | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const damageQuery = useQuery<JobDamageMark[]>({
+    queryKey: [`/api/jobs/${jobId}/damage`],
+  });
+
+  // Kaydedilmemiş değişiklikler periyodik yenilemeyle ezilmesin
+  useEffect(() => {
+    if (damageQuery.data && !isDirty) {
+      setMarks(toMarkState(damageQuery.data));
+    }
+  }, [damageQuery.data, isDirty]);
+
+  const saveDamageMutation = useMutation({
+    mutationFn: async (data: JobDamageMarkInput[]) => {
+      const res = await apiRequest("PUT", `/api/jobs/${jobId}/damage`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      setIsDirty(false);
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/damage`] });
+      toast({
+        title: "Başarılı",
+        description: "Hasar kayıtları kaydedildi.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Hata",
+        description: "Hasar kayıtları kaydedilirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMark = (panel: VehiclePanel, mark: { damageType: DamageType; note: string } | undefined) => {
+    setMarks(current => {
+      const next = { ...current };
+      if (mark) {
+        next[panel] = mark;
+      } else {
+        delete next[panel];
+      }
+      return next;
+    });
+    setIsDirty(true);
+  };
+
+  const handlePanelClick = (panel: VehiclePanel) => {
+    if (!canManage) return;
+    setSelectedPanel(panel);
+    // İşaretsiz panele tıklanınca en sık durum olan çizik varsayılır
+    if (!marks[panel]) {
+      updateMark(panel, { damageType: "cizik", note: "" });
+    }
+  };
+
+  const saveMarks = () => {
+    saveDamageMutation.mutate(
+      (Object.keys(marks) as VehiclePanel[]).map(panel => ({
+        panel,
+        damageType: marks[panel]!.damageType,
+        note: marks[panel]!.note.trim() || undefined,
+      }))
+    );
+  };
+
+  const markedPanels = (Object.keys(PANEL_SHAPES) as VehiclePanel[]).filter(panel => marks[panel]);
+  const selectedMark = selectedPanel ? marks[selectedPanel] : undefined;
+
+  if (damageQuery.isLoading) {
+    return <p className="text-gray-500">Yükleniyor...</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <svg viewBox="0 0 200 362" className="w-full max-w-[220px] mx-auto">
+        {(Object.keys(PANEL_SHAPES) as VehiclePanel[]).map(panel => {
+          const shape = PANEL_SHAPES[panel];
+          return (
+            <rect
+              key={panel}
+              {...shape}
+              rx={4}
+              onClick={() => handlePanelClick(panel)}
+              className={cn(
+                "stroke-gray-400",
+                marks[panel] ? "fill-red-300" : "fill-gray-100",
+                selectedPanel === panel && "stroke-primary stroke-2",
+                canManage && "cursor-pointer hover:opacity-80"
+              )}
+            >
+              <title>{VEHICLE_PANEL_LABELS[panel]}</title>
+            </rect>
+          );
+        })}
+      </svg>
+
+      <div>
+        {canManage && selectedPanel && selectedMark && (
+          <div className="border rounded-md p-3 mb-4 space-y-2 print:hidden">
+            <p className="font-medium">{VEHICLE_PANEL_LABELS[selectedPanel]}</p>
+            <Select
+              value={selectedMark.damageType}
+              onValueChange={(value) => updateMark(selectedPanel, { ...selectedMark, damageType: value as DamageType })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {damageTypeEnum.options.map(type => (
+                  <SelectItem key={type} value={type}>{DAMAGE_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={selectedMark.note}
+              onChange={(e) => updateMark(selectedPanel, { ...selectedMark, note: e.target.value })}
+              placeholder="Not (isteğe bağlı)"
+              maxLength={200}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                updateMark(selectedPanel, undefined);
+                setSelectedPanel(null);
+              }}
+            >
+              İşareti Kaldır
+            </Button>
+          </div>
+        )}
+
+        {markedPanels.length === 0 ? (
+          <p className="text-gray-500 italic">Hasar kaydı bulunmuyor.</p>
+        ) : (
+          <ul className="space-y-1 text-sm">
+            {markedPanels.map(panel => (
+              <li key={panel}>
+                <span className="font-medium">{VEHICLE_PANEL_LABELS[panel]}:</span>{" "}
+                {DAMAGE_TYPE_LABELS[marks[panel]!.damageType]}
+                {marks[panel]!.note && <span className="text-gray-600"> - {marks[panel]!.note}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {canManage && (
+          <div className="mt-4 print:hidden">
+            <Button onClick={saveMarks} disabled={!isDirty || saveDamageMutation.isPending}>
+              Hasarları Kaydet
+            </Button>
+            <p className="text-xs text-muted-foreground mt-1">İşaretlemek için şemada panele tıklayın.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
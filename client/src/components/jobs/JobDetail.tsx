@@ -1,19 +1,27 @@
-import { useQuery } from "@tanstack/react-query";
-import { useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Link } from "wouter";
-import { useReactToPrint } from "react-to-print";
-// @ts-ignore - Workaround for react-to-print type issue
 import { Button } from "@/components/ui/button";
-import { Job, Customer, Vehicle, Service } from "@shared/schema";
-import { formatDate, formatCurrency, getJobStatusDisplay } from "@/lib/utils";
-import { Printer, ChevronLeft } from "lucide-react";
+import { Job, Customer, Vehicle, JobService, StaffMember, calculateJobLineTotal } from "@shared/schema";
+import { formatDate, formatCurrency, getJobStatusDisplay, getPaymentMethodLabel } from "@/lib/utils";
+import JobPayments from "@/components/jobs/JobPayments";
+import JobPhotos from "@/components/jobs/JobPhotos";
+import DamageDiagram from "@/components/jobs/DamageDiagram";
+import { useAppSettings } from "@/hooks/use-app-settings";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { hasPermission } from "@shared/permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Printer, Receipt, ChevronLeft } from "lucide-react";
 
 interface JobDetailProps {
   jobId: string;
 }
 
 export default function JobDetail({ jobId }: JobDetailProps) {
-  const printRef = useRef<HTMLDivElement>(null);
+  const { settings } = useAppSettings();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canIssueReceipt = hasPermission(user, "payments.manage");
   
   // Fetch job details
   const jobQuery = useQuery<Job>({
@@ -35,24 +43,59 @@ export default function JobDetail({ jobId }: JobDetailProps) {
   });
   
   // Fetch job services
-  const jobServicesQuery = useQuery<Service[]>({
+  const jobServicesQuery = useQuery<JobService[]>({
     queryKey: [`/api/jobs/${jobId}/services`],
     enabled: !!jobId,
   });
   
+  // İşi yapan personel
+  const jobStaffQuery = useQuery<StaffMember[]>({
+    queryKey: [`/api/jobs/${jobId}/staff`],
+    enabled: !!jobId,
+  });
+  
   const isLoading = 
     jobQuery.isLoading || 
     (customerId && customerQuery.isLoading) || 
     (vehicleId && vehicleQuery.isLoading) || 
     jobServicesQuery.isLoading;
   
-  // @ts-ignore - Explicitly ignore type issues with react-to-print
-  const handlePrint = useReactToPrint({
-    documentTitle: `İş Emri #${jobId}`,
-    onPrintError: (error) => console.error("Print failed:", error),
-    content: () => printRef.current,
+  // Fiş kesme işleme sıradaki fiş numarasını verir; numarası olan işte aynı numara döner
+  const issueReceiptMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/jobs/${jobId}/receipt`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}`] });
+    },
   });
   
+  // Fiş sunucuda PDF olarak üretilir, yeni sekmede açılıp yazdırılır.
+  // Yetkisi olan kullanıcı yazdırırken fiş kesilir; diğerleri numarasız ön izleme görür.
+  const openReceipt = async (format: "a4" | "thermal") => {
+    const query = format === "thermal" ? "?format=thermal" : "";
+    const url = `/api/jobs/${jobId}/receipt.pdf${query}`;
+    if (!canIssueReceipt || jobQuery.data?.receiptNumber !== null) {
+      window.open(url, "_blank");
+      return;
+    }
+    
+    // Açılır pencere engellenmesin diye sekme istekten önce açılır
+    const receiptWindow = window.open("", "_blank");
+    try {
+      await issueReceiptMutation.mutateAsync();
+      if (receiptWindow) receiptWindow.location.href = url;
+    } catch {
+      receiptWindow?.close();
+      toast({
+        title: "Hata",
+        description: "Fiş kesilirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    }
+  };
+  
   if (isLoading) {
     return <div className="text-center py-10">Yükleniyor...</div>;
   }
@@ -64,7 +107,7 @@ export default function JobDetail({ jobId }: JobDetailProps) {
   const job = jobQuery.data;
   const customer = customerQuery.data;
   const vehicle = vehicleQuery.data;
-  const services = jobServicesQuery.data || [];
+  const lines = jobServicesQuery.data || [];
   
   const statusInfo = getJobStatusDisplay(job.status);
   const remaining = Number(job.totalAmount) - Number(job.paidAmount);
@@ -77,13 +120,19 @@ export default function JobDetail({ jobId }: JobDetailProps) {
           Geri Dön
         </Link>
         
-        <Button onClick={handlePrint} className="flex items-center">
-          <Printer className="h-4 w-4 mr-2" />
-          Yazdır
-        </Button>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => openReceipt("thermal")} className="flex items-center">
+            <Receipt className="h-4 w-4 mr-2" />
+            Termal Fiş
+          </Button>
+          <Button onClick={() => openReceipt("a4")} className="flex items-center">
+            <Printer className="h-4 w-4 mr-2" />
+            PDF Fiş
+          </Button>
+        </div>
       </div>
       
-      <div ref={printRef} className="bg-white rounded-lg shadow-sm p-6">
+      <div className="bg-white rounded-lg shadow-sm p-6">
         <div className="text-center mb-8 print:mb-4">
           <div className="flex justify-center items-center mb-2">
             <svg 
@@ -102,8 +151,14 @@ export default function JobDetail({ jobId }: JobDetailProps) {
               <path d="M1 18v-4a4 4 0 0 1 4-4h13.5M8 9l-2-2V3h10l2 2" />
               <path d="M15 19v-3h-4v3" />
             </svg>
-            <h2 className="text-2xl font-bold text-primary">Oto Yıkama</h2>
+            <h2 className="text-2xl font-bold text-primary">{settings.companyName}</h2>
           </div>
+          {settings.address && <p className="text-sm text-gray-500">{settings.address}</p>}
+          {(settings.phone || settings.taxId) && (
+            <p className="text-sm text-gray-500">
+              {[settings.phone && `Tel: ${settings.phone}`, settings.taxId && `Vergi No: ${settings.taxId}`].filter(Boolean).join(" · ")}
+            </p>
+          )}
           <p className="text-sm text-gray-500">İş Emri No: {job.id}</p>
           <p className="text-sm text-gray-500">Tarih: {formatDate(job.createdAt)}</p>
         </div>
@@ -130,27 +185,33 @@ export default function JobDetail({ jobId }: JobDetailProps) {
         
         <div className="mb-8">
           <h3 className="text-lg font-semibold mb-3 border-b pb-2">Yapılan İşlemler</h3>
-          {services.length === 0 ? (
+          {lines.length === 0 ? (
             <p className="text-gray-500 italic">Herhangi bir işlem kaydedilmemiş.</p>
           ) : (
             <table className="w-full border-collapse">
               <thead>
                 <tr className="bg-gray-50">
                   <th className="text-left py-2 px-4 border-b">İşlem</th>
-                  <th className="text-left py-2 px-4 border-b">Açıklama</th>
-                  <th className="text-right py-2 px-4 border-b">Fiyat</th>
+                  <th className="text-right py-2 px-4 border-b">Birim Fiyat</th>
+                  <th className="text-right py-2 px-4 border-b">Adet</th>
+                  <th className="text-right py-2 px-4 border-b">İndirim</th>
+                  <th className="text-right py-2 px-4 border-b">Tutar</th>
                 </tr>
               </thead>
               <tbody>
-                {services.map((service) => (
-                  <tr key={service.id} className="border-b">
-                    <td className="py-2 px-4">{service.name}</td>
-                    <td className="py-2 px-4">{service.description || "-"}</td>
-                    <td className="py-2 px-4 text-right">{formatCurrency(service.price)} TL</td>
+                {lines.map((line) => (
+                  <tr key={line.id} className="border-b">
+                    <td className="py-2 px-4">{line.label}</td>
+                    <td className="py-2 px-4 text-right">{formatCurrency(line.unitPrice)} TL</td>
+                    <td className="py-2 px-4 text-right">{line.quantity}</td>
+                    <td className="py-2 px-4 text-right">
+                      {Number(line.discount) > 0 ? `-${formatCurrency(line.discount)} TL` : "-"}
+                    </td>
+                    <td className="py-2 px-4 text-right">{formatCurrency(calculateJobLineTotal(line))} TL</td>
                   </tr>
                 ))}
                 <tr className="font-semibold">
-                  <td className="py-2 px-4" colSpan={2}>Toplam</td>
+                  <td className="py-2 px-4" colSpan={4}>Toplam</td>
                   <td className="py-2 px-4 text-right">{formatCurrency(job.totalAmount)} TL</td>
                 </tr>
               </tbody>
@@ -165,11 +226,7 @@ export default function JobDetail({ jobId }: JobDetailProps) {
               <p><span className="font-medium">Toplam Tutar:</span> {formatCurrency(job.totalAmount)} TL</p>
               <p><span className="font-medium">Ödenen:</span> {formatCurrency(job.paidAmount)} TL</p>
               <p><span className="font-medium">Kalan:</span> {formatCurrency(remaining)} TL</p>
-              <p><span className="font-medium">Ödeme Yöntemi:</span> {
-                job.paymentMethod === 'nakit' ? 'Nakit' :
-                job.paymentMethod === 'kredi_karti' ? 'Kredi Kartı' :
-                job.paymentMethod === 'havale_eft' ? 'Havale/EFT' : 'Belirtilmemiş'
-              }</p>
+              <p><span className="font-medium">Ödeme Yöntemi:</span> {getPaymentMethodLabel(job.paymentMethod)}</p>
             </div>
           </div>
           
@@ -182,6 +239,12 @@ export default function JobDetail({ jobId }: JobDetailProps) {
                   {statusInfo.label}
                 </span>
               </p>
+              {jobStaffQuery.data && jobStaffQuery.data.length > 0 && (
+                <p>
+                  <span className="font-medium">Personel:</span>{" "}
+                  {jobStaffQuery.data.map(member => member.fullName).join(", ")}
+                </p>
+              )}
               {job.notes && (
                 <>
                   <p className="font-medium">Notlar:</p>
@@ -192,7 +255,23 @@ export default function JobDetail({ jobId }: JobDetailProps) {
           </div>
         </div>
         
+        <div className="mb-8">
+          <h3 className="text-lg font-semibold mb-3 border-b pb-2">Hasar Kayıtları</h3>
+          <DamageDiagram jobId={job.id} />
+        </div>
+        
+        <div className="mb-8">
+          <h3 className="text-lg font-semibold mb-3 border-b pb-2">Araç Fotoğrafları</h3>
+          <JobPhotos jobId={job.id} />
+        </div>
+        
+        <div className="mb-8">
+          <h3 className="text-lg font-semibold mb-3 border-b pb-2">Tahsilatlar</h3>
+          <JobPayments job={job} />
+        </div>
+        
         <div className="mt-10 pt-6 border-t border-gray-200 text-center print:fixed print:bottom-10 print:left-0 print:right-0">
+          {settings.receiptFooter && <p className="text-sm text-gray-700 mb-2">{settings.receiptFooter}</p>}
           <p className="text-sm text-gray-500">Bu belge bilgilendirme amaçlıdır. Kaşe ve imza olmaksızın geçerli değildir.</p>
         </div>
       </div>
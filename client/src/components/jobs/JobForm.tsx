@@ -7,12 +7,14 @@ import { useLocation } from "wouter";
 import { 
   Form, 
   FormControl, 
+  FormDescription,
   FormField, 
   FormItem, 
   FormLabel, 
   FormMessage 
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { 
@@ -23,21 +25,44 @@ import {
   SelectValue 
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import { insertJobSchema, jobStatusEnum, paymentMethodEnum, Customer, Vehicle, Service, Job } from "@shared/schema";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { insertJobSchema, jobStatusEnum, paymentMethodEnum, PAYMENT_METHOD_LABELS, PaymentMethod, calculateJobLineTotal, Customer, Vehicle, Service, Job, JobService, AppointmentDetail, CustomerSubscriptionDetail, CustomerLoyalty, CustomerServicePrice, StaffMember } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { formatPlate, isValidPlate, normalizePlate } from "@shared/plate";
+import { queryClient, apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { formatCurrency } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
 
 interface JobFormProps {
   jobId?: string; // For editing an existing job
+  appointmentId?: string; // For converting an appointment into a job
 }
 
-export default function JobForm({ jobId }: JobFormProps) {
+// Formda tutulan iş satırı; lineId kayıtlı satırlarda bulunur
+const jobLineSchema = z.object({
+  lineId: z.number().optional(),
+  serviceId: z.number(),
+  label: z.string(),
+  unitPrice: z.string(),
+  quantity: z.number().int().min(1),
+  discount: z.string(),
+  subscriptionId: z.number().nullable().optional(), // Üyelik kapsamında ücretsiz satır
+  loyaltyPoints: z.number().optional(), // Puan indirimi satırında kullanılan puan
+  loyaltyStamps: z.number().optional(), // Ücretsiz yıkama satırında kullanılan damga
+});
+
+type JobLine = z.infer<typeof jobLineSchema>;
+
+export default function JobForm({ jobId, appointmentId }: JobFormProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [_, navigate] = useLocation();
   
   const [selectedCustomerId, setSelectedCustomerId] = useState<number | null>(null);
   const [isNewCustomer, setIsNewCustomer] = useState(false);
   const [isNewVehicle, setIsNewVehicle] = useState(false);
+  const [redeemPoints, setRedeemPoints] = useState("");
   
   // Create an extended schema with required validation
   const formSchema = insertJobSchema.extend({
@@ -59,6 +84,11 @@ export default function JobForm({ jobId }: JobFormProps) {
           code: z.ZodIssueCode.custom,
           message: "Plaka zorunludur",
         });
+      } else if (isNewVehicle && val && !isValidPlate(val)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Geçersiz plaka (örn. 34 ABC 123)",
+        });
       }
     }),
     vehicleBrand: z.string().optional().superRefine((val, ctx) => {
@@ -72,7 +102,8 @@ export default function JobForm({ jobId }: JobFormProps) {
     vehicleModel: z.string().optional(),
     vehicleColor: z.string().optional(),
     
-    selectedServices: z.array(z.number()).optional(),
+    lines: z.array(jobLineSchema).optional(),
+    staffIds: z.array(z.number()).optional(), // İşi yapan personel (prim hesabı için)
     
     // Override required fields
     status: jobStatusEnum,
@@ -106,7 +137,9 @@ export default function JobForm({ jobId }: JobFormProps) {
       totalAmount: "0",
       paidAmount: "0",
       notes: "",
-      selectedServices: [],
+      onAccount: false,
+      lines: [],
+      staffIds: [],
       customerName: "",
       customerPhone: "",
       customerEmail: "",
@@ -132,6 +165,25 @@ export default function JobForm({ jobId }: JobFormProps) {
     queryKey: ["/api/services"],
   });
   
+  // Müşterinin üyelikleri - kapsanan hizmetler ücretsiz eklenir
+  const subscriptionsQuery = useQuery<CustomerSubscriptionDetail[]>({
+    queryKey: [`/api/subscriptions?customerId=${selectedCustomerId}`],
+    enabled: !!selectedCustomerId && hasPermission(user, "subscriptions.view"),
+  });
+  
+  // Müşterinin sadakat bakiyesi - puan indirimi ve ücretsiz yıkama için
+  const loyaltyQuery = useQuery<CustomerLoyalty>({
+    queryKey: [`/api/customers/${selectedCustomerId}/loyalty`],
+    enabled: !!selectedCustomerId && hasPermission(user, "customers.view"),
+  });
+  
+  // Kurumsal müşterinin anlaşmalı fiyatları
+  const selectedCustomer = customersQuery.data?.find(customer => customer.id === selectedCustomerId);
+  const pricesQuery = useQuery<CustomerServicePrice[]>({
+    queryKey: [`/api/customers/${selectedCustomerId}/prices`],
+    enabled: !!selectedCustomer?.isCorporate && hasPermission(user, "customers.view"),
+  });
+  
   // Fetch job details if editing
   const jobQuery = useQuery<Job>({
     queryKey: [`/api/jobs/${jobId}`],
@@ -139,38 +191,196 @@ export default function JobForm({ jobId }: JobFormProps) {
   });
   
   // Fetch job services if editing
-  const jobServicesQuery = useQuery<Service[]>({
+  const jobServicesQuery = useQuery<JobService[]>({
     queryKey: [`/api/jobs/${jobId}/services`],
     enabled: !!jobId,
   });
   
-  // Calculate total price based on selected services
-  const calculateTotalPrice = (selectedServiceIds: number[]) => {
-    if (!servicesQuery.data) return 0;
-    
-    return selectedServiceIds.reduce((total, serviceId) => {
-      const service = servicesQuery.data.find(s => s.id === serviceId);
-      return total + (service ? Number(service.price) : 0);
-    }, 0);
+  // İşe atanabilecek personel ve düzenlenen işin mevcut personeli
+  const staffQuery = useQuery<StaffMember[]>({
+    queryKey: ["/api/staff"],
+  });
+  
+  const jobStaffQuery = useQuery<StaffMember[]>({
+    queryKey: [`/api/jobs/${jobId}/staff`],
+    enabled: !!jobId,
+  });
+  
+  // Fetch appointment if converting
+  const appointmentQuery = useQuery<AppointmentDetail>({
+    queryKey: [`/api/appointments/${appointmentId}`],
+    enabled: !!appointmentId && !jobId,
+  });
+  
+  // Calculate total price from the job lines (kayıtlı satırlar kendi fiyat kopyasını kullanır)
+  const calculateTotalPrice = (jobLines: JobLine[]) => {
+    return jobLines.reduce((total, line) => total + calculateJobLineTotal(line), 0);
   };
   
-  // Watch selected services to update total amount
-  const selectedServices = form.watch("selectedServices") || [];
+  // Watch job lines to update total amount
+  const lines = form.watch("lines") || [];
   
-  // Update total amount when services change
+  // Update total amount when lines change
   useEffect(() => {
-    const totalPrice = calculateTotalPrice(selectedServices);
+    const totalPrice = calculateTotalPrice(lines);
     form.setValue("totalAmount", totalPrice.toString());
-  }, [selectedServices, form, servicesQuery.data]);
+  }, [JSON.stringify(lines), form]);
+  
+  // Yeni işte kurumsal müşteri seçilince iş varsayılan olarak cari hesaba yazılır (hızlı kabulde de böyle)
+  useEffect(() => {
+    if (!jobId) {
+      form.setValue("onAccount", !!selectedCustomer?.isCorporate);
+    }
+  }, [selectedCustomer?.isCorporate, jobId]);
+  
+  // Hizmeti kapsayan, bu araç için geçerli ve ziyaret hakkı kalan aktif üyelik
+  const selectedVehicleId = form.watch("vehicleId");
+  const findCoveringSubscription = (serviceId: number) => {
+    const now = new Date();
+    const savedSubscriptionIds = (jobServicesQuery.data || []).map(line => line.subscriptionId);
+    return subscriptionsQuery.data?.find(subscription =>
+      subscription.status === "aktif" &&
+      new Date(subscription.startDate) <= now &&
+      new Date(subscription.endDate) > now &&
+      (subscription.vehicleId === null || subscription.vehicleId === selectedVehicleId) &&
+      subscription.serviceIds.includes(serviceId) &&
+      // Bu iş emri zaten ziyaret olarak sayıldıysa hak kontrolü gerekmez
+      (subscription.visitLimit === null ||
+        subscription.visitsUsed < subscription.visitLimit ||
+        savedSubscriptionIds.includes(subscription.id))
+    );
+  };
+  
+  // Kurumsal müşteride anlaşmalı fiyat, diğerlerinde liste fiyatı
+  const getServicePrice = (service: Service) => {
+    const negotiated = selectedCustomer?.isCorporate
+      ? pricesQuery.data?.find(price => price.serviceId === service.id)
+      : undefined;
+    return negotiated?.price ?? service.price;
+  };
+  
+  // Hizmet için yeni satır: üyelik kapsamındaysa ücretsiz, değilse güncel fiyat
+  const buildServiceLine = (service: Service): JobLine => {
+    const subscription = findCoveringSubscription(service.id);
+    return {
+      serviceId: service.id,
+      label: service.name,
+      unitPrice: subscription ? "0" : getServicePrice(service),
+      quantity: 1,
+      discount: "0",
+      subscriptionId: subscription?.id ?? null,
+    };
+  };
+  
+  // Müşteri, araç, üyelik veya anlaşmalı fiyat değişince kaydedilmemiş satırların fiyatını yeniden hesapla
+  useEffect(() => {
+    const current = form.getValues("lines") || [];
+    if (!servicesQuery.data || current.every(line => line.lineId)) return;
+    
+    const updated = current.map(line => {
+      const service = servicesQuery.data.find(s => s.id === line.serviceId);
+      if (line.lineId || !service || line.loyaltyStamps) return line;
+      
+      const subscription = findCoveringSubscription(service.id);
+      if (subscription) {
+        return line.subscriptionId === subscription.id
+          ? line
+          : { ...line, unitPrice: "0", discount: "0", subscriptionId: subscription.id };
+      }
+      const price = getServicePrice(service);
+      return !line.subscriptionId && line.unitPrice === price
+        ? line
+        : { ...line, unitPrice: price, subscriptionId: null };
+    });
+    form.setValue("lines", updated);
+  }, [subscriptionsQuery.data, selectedVehicleId, servicesQuery.data, pricesQuery.data, selectedCustomer?.isCorporate]);
+  
+  // Hizmet seçildiğinde yeni satır ekle, kaldırıldığında satırı çıkar
+  const toggleServiceLine = (service: Service, checked: boolean) => {
+    const current = form.getValues("lines") || [];
+    if (checked) {
+      form.setValue("lines", [...current, buildServiceLine(service)]);
+    } else {
+      form.setValue("lines", current.filter(line => line.serviceId !== service.id));
+    }
+  };
+  
+  const updateLine = (serviceId: number, changes: Partial<JobLine>) => {
+    const current = form.getValues("lines") || [];
+    form.setValue("lines", current.map(line =>
+      line.serviceId === serviceId ? { ...line, ...changes } : line
+    ));
+  };
+  
+  const removeLine = (serviceId: number) => {
+    const current = form.getValues("lines") || [];
+    form.setValue("lines", current.filter(line => line.serviceId !== serviceId));
+  };
+  
+  // Sadakat: kaydedilmemiş satırlarda kullanılacak puan ve ücretsiz yıkamalar bakiyeden henüz düşülmemiştir
+  const loyalty = loyaltyQuery.data?.enabled ? loyaltyQuery.data : undefined;
+  const pendingFreeWashes = lines.filter(line => !line.lineId && line.loyaltyStamps).length;
+  const availableFreeWashes = (loyalty?.availableFreeWashes ?? 0) - pendingFreeWashes;
+  const pointsLine = lines.find(line => line.loyaltyPoints);
+  
+  // Puan indirimini eksi tutarlı satır olarak ekle; puan, kaydedilince bakiyeden düşülür
+  const applyLoyaltyPoints = () => {
+    if (!loyalty) return;
+    const points = parseInt(redeemPoints);
+    if (!points || points <= 0 || points > loyalty.points) {
+      toast({
+        title: "Hata",
+        description: "Müşterinin puan bakiyesi yetersiz",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    const amount = Math.round(points * loyalty.pointValue * 100) / 100;
+    if (amount > calculateTotalPrice(lines)) {
+      toast({
+        title: "Hata",
+        description: "Puan indirimi iş emri tutarını aşamaz",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    form.setValue("lines", [...lines, {
+      serviceId: 0,
+      label: `Puan indirimi (${points} puan)`,
+      unitPrice: (-amount).toFixed(2),
+      quantity: 1,
+      discount: "0",
+      subscriptionId: null,
+      loyaltyPoints: points,
+    }]);
+    setRedeemPoints("");
+  };
+  
+  // Hizmet satırını ücretsiz yıkama hakkıyla ücretsiz yap veya geri al
+  const toggleFreeWash = (line: JobLine) => {
+    const service = servicesQuery.data?.find(s => s.id === line.serviceId);
+    if (!service || !loyalty) return;
+    updateLine(line.serviceId, line.loyaltyStamps
+      ? { unitPrice: getServicePrice(service), loyaltyStamps: 0 }
+      : { unitPrice: "0", discount: "0", loyaltyStamps: loyalty.freeWashEvery });
+  };
   
   // Filter vehicles by selected customer
   const customerVehicles = vehiclesQuery.data?.filter(
     vehicle => vehicle.customerId === selectedCustomerId
   ) || [];
   
+  // Yeni araç olarak girilen plaka zaten kayıtlıysa (boşluk/harf büyüklüğü farkı gözetilmez) uyar
+  const newVehiclePlate = form.watch("vehiclePlate");
+  const existingPlateVehicle = isNewVehicle && newVehiclePlate?.trim()
+    ? vehiclesQuery.data?.find(vehicle => normalizePlate(vehicle.plate) === normalizePlate(newVehiclePlate))
+    : undefined;
+  
   // Load job data when editing
   useEffect(() => {
-    if (jobId && jobQuery.data && vehiclesQuery.data && customersQuery.data && jobServicesQuery.data) {
+    if (jobId && jobQuery.data && vehiclesQuery.data && customersQuery.data && jobServicesQuery.data && jobStaffQuery.data) {
       const job = jobQuery.data;
       const vehicle = vehiclesQuery.data.find(v => v.id === job.vehicleId);
       
@@ -180,7 +390,7 @@ export default function JobForm({ jobId }: JobFormProps) {
         
         // Cast status and payment method to the proper enum types to fix type issues
         const typedStatus = job.status as "bekliyor" | "devam_ediyor" | "tamamlandi" | "iptal";
-        const typedPaymentMethod = job.paymentMethod as "nakit" | "kredi_karti" | "havale_eft";
+        const typedPaymentMethod = job.paymentMethod as PaymentMethod;
         
         // Hafif gecikme ekleyerek, müşteri değişikliğinin arayüzü etkilemesini sağlıyoruz
         setTimeout(() => {
@@ -192,12 +402,41 @@ export default function JobForm({ jobId }: JobFormProps) {
             status: typedStatus,
             paymentMethod: typedPaymentMethod || "nakit",
             notes: job.notes,
-            selectedServices: jobServicesQuery.data.map(s => s.id),
+            onAccount: job.onAccount,
+            lines: jobServicesQuery.data.map(line => ({
+              lineId: line.id,
+              serviceId: line.serviceId ?? 0,
+              label: line.label,
+              unitPrice: line.unitPrice,
+              quantity: line.quantity,
+              discount: line.discount,
+              subscriptionId: line.subscriptionId,
+              loyaltyPoints: line.loyaltyPoints,
+              loyaltyStamps: line.loyaltyStamps,
+            })),
+            staffIds: jobStaffQuery.data.map(member => member.id),
           });
         }, 100);
       }
     }
-  }, [jobId, jobQuery.data, vehiclesQuery.data, customersQuery.data, jobServicesQuery.data, form]);
+  }, [jobId, jobQuery.data, vehiclesQuery.data, customersQuery.data, jobServicesQuery.data, jobStaffQuery.data, form]);
+  
+  // Load appointment data when converting an appointment
+  useEffect(() => {
+    if (!jobId && appointmentQuery.data && servicesQuery.data) {
+      const appointment = appointmentQuery.data;
+      setSelectedCustomerId(appointment.customerId);
+      
+      setTimeout(() => {
+        form.setValue("customerId", appointment.customerId);
+        form.setValue("vehicleId", appointment.vehicleId);
+        form.setValue("notes", appointment.notes || "");
+        form.setValue("lines", servicesQuery.data
+          .filter(service => appointment.serviceIds.includes(service.id))
+          .map(buildServiceLine));
+      }, 100);
+    }
+  }, [jobId, appointmentQuery.data, servicesQuery.data, form]);
   
   // Create customer mutation
   const createCustomerMutation = useMutation({
@@ -250,10 +489,49 @@ export default function JobForm({ jobId }: JobFormProps) {
     },
   });
   
-  // Add job service mutation
+  // Create payment mutation
+  const createPaymentMutation = useMutation({
+    mutationFn: async ({ jobId, amount, method }: { jobId: number; amount: string; method: string }) => {
+      const res = await apiRequest("POST", `/api/jobs/${jobId}/payments`, { amount, method });
+      return res.json();
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${variables.jobId}/payments`] });
+    },
+  });
+  
+  // Add job service mutation (sadakat satırları puan/damga kullanımı olarak eklenir)
   const addJobServiceMutation = useMutation({
-    mutationFn: async ({ jobId, serviceId }: { jobId: number; serviceId: number }) => {
-      const res = await apiRequest("POST", `/api/jobs/${jobId}/services`, { serviceId });
+    mutationFn: async ({ jobId, line }: { jobId: number; line: JobLine }) => {
+      if (line.loyaltyPoints || line.loyaltyStamps) {
+        const res = await apiRequest("POST", `/api/jobs/${jobId}/loyalty-redemptions`, line.loyaltyPoints
+          ? { type: "puan", points: line.loyaltyPoints }
+          : { type: "ucretsiz_yikama", serviceId: line.serviceId });
+        return res.json();
+      }
+      
+      const res = await apiRequest("POST", `/api/jobs/${jobId}/services`, {
+        serviceId: line.serviceId,
+        label: line.label,
+        unitPrice: line.unitPrice,
+        quantity: line.quantity,
+        discount: line.discount,
+        subscriptionId: line.subscriptionId ?? null,
+      });
+      return res.json();
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${variables.jobId}/services`] });
+    },
+  });
+  
+  // Update job service mutation
+  const updateJobServiceMutation = useMutation({
+    mutationFn: async ({ jobId, line }: { jobId: number; line: JobLine }) => {
+      const res = await apiRequest("PUT", `/api/jobs/${jobId}/services/${line.lineId}`, {
+        quantity: line.quantity,
+        discount: line.discount,
+      });
       return res.json();
     },
     onSuccess: (_, variables) => {
@@ -263,8 +541,8 @@ export default function JobForm({ jobId }: JobFormProps) {
   
   // Remove job service mutation
   const removeJobServiceMutation = useMutation({
-    mutationFn: async ({ jobId, serviceId }: { jobId: number; serviceId: number }) => {
-      await apiRequest("DELETE", `/api/jobs/${jobId}/services/${serviceId}`);
+    mutationFn: async ({ jobId, lineId }: { jobId: number; lineId: number }) => {
+      await apiRequest("DELETE", `/api/jobs/${jobId}/services/${lineId}`);
     },
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: [`/api/jobs/${variables.jobId}/services`] });
@@ -347,7 +625,7 @@ export default function JobForm({ jobId }: JobFormProps) {
       if (isNewVehicle && formData.vehiclePlate && formData.vehicleBrand && customerId) {
         try {
           const newVehicle = await createVehicleMutation.mutateAsync({
-            plate: formData.vehiclePlate,
+            plate: formatPlate(formData.vehiclePlate),
             brand: formData.vehicleBrand,
             model: formData.vehicleModel || "",
             color: formData.vehicleColor || "",
@@ -357,7 +635,9 @@ export default function JobForm({ jobId }: JobFormProps) {
         } catch (error) {
           toast({
             title: "Hata",
-            description: "Araç oluşturulurken bir hata oluştu",
+            description: error instanceof Error && error.message.startsWith("409")
+              ? "Bu plaka ile kayıtlı bir araç zaten var"
+              : "Araç oluşturulurken bir hata oluştu",
             variant: "destructive",
           });
           return;
@@ -386,24 +666,59 @@ export default function JobForm({ jobId }: JobFormProps) {
       };
       
       let newJobId: number;
+      // Satırı olan işin tutarı sunucuda satırlardan hesaplanır; elle girilen tutar yalnızca satırsız işte gönderilir
+      const hasLines = (formData.lines?.length ?? 0) > 0;
+      
+      // Puan indirimi, iş tutarını aşmadığı sunucuda doğrulanabilsin diye en son eklenir
+      const orderedLines = [...(formData.lines || [])].sort((a, b) => Number(!!a.loyaltyPoints) - Number(!!b.loyaltyPoints));
       
       // Create or update job
       if (jobId) {
+        newJobId = parseInt(jobId);
+        
+        // Satırlar işten önce eşitlenir; tüm satırlar kaldırıldıysa iş güncellenirken elle girilen tutar yazılabilir
+        if (jobServicesQuery.data) {
+          const keptLineIds = orderedLines
+            .filter(line => line.lineId)
+            .map(line => line.lineId);
+          
+          // Remove lines that were deselected
+          for (const existing of jobServicesQuery.data) {
+            if (!keptLineIds.includes(existing.id)) {
+              await removeJobServiceMutation.mutateAsync({
+                jobId: newJobId,
+                lineId: existing.id,
+              });
+            }
+          }
+          
+          for (const line of orderedLines) {
+            if (!line.lineId) {
+              // Add lines that were newly selected
+              await addJobServiceMutation.mutateAsync({ jobId: newJobId, line });
+            } else {
+              // Update quantity or discount of kept lines if they changed
+              const existing = jobServicesQuery.data.find(l => l.id === line.lineId);
+              if (existing && (existing.quantity !== line.quantity || Number(existing.discount) !== Number(line.discount))) {
+                await updateJobServiceMutation.mutateAsync({ jobId: newJobId, line });
+              }
+            }
+          }
+        }
+        
         // Update existing job
         try {
           await updateJobMutation.mutateAsync({
-            id: parseInt(jobId),
+            id: newJobId,
             data: {
               vehicleId: vehicleId as number,
               customerId: customerId as number,
-              totalAmount: formData.totalAmount,
-              paidAmount: formData.paidAmount || "0",
-              paymentMethod: formData.paymentMethod,
+              ...(hasLines ? {} : { totalAmount: formData.totalAmount }),
               status: formData.status as "bekliyor" | "devam_ediyor" | "tamamlandi" | "iptal",
-              notes: formData.notes
+              notes: formData.notes,
+              onAccount: selectedCustomer?.isCorporate ? formData.onAccount : false,
             },
           });
-          newJobId = parseInt(jobId);
         } catch (error) {
           toast({
             title: "Hata",
@@ -418,13 +733,36 @@ export default function JobForm({ jobId }: JobFormProps) {
           const newJob = await createJobMutation.mutateAsync({
             vehicleId: vehicleId as number,
             customerId: customerId as number,
-            totalAmount: formData.totalAmount,
-            paidAmount: formData.paidAmount || "0",
+            totalAmount: hasLines ? "0" : formData.totalAmount,
             paymentMethod: formData.paymentMethod,
             status: formData.status,
-            notes: formData.notes
+            notes: formData.notes,
+            onAccount: selectedCustomer?.isCorporate ? formData.onAccount : false,
           });
           newJobId = newJob.id;
+          
+          // Randevuyu oluşturulan iş emrine bağla
+          if (appointmentId) {
+            await apiRequest("PUT", `/api/appointments/${appointmentId}`, {
+              jobId: newJobId,
+              status: "geldi",
+            });
+            invalidateQueriesByPrefix("/api/appointments");
+          }
+          
+          // Add all lines for a new job
+          for (const line of orderedLines) {
+            await addJobServiceMutation.mutateAsync({ jobId: newJobId, line });
+          }
+          
+          // İş oluşturulurken alınan ödemeyi tahsilat olarak kaydet; tutar satırlardan hesaplandıktan sonra
+          if (Number(formData.paidAmount) > 0) {
+            await createPaymentMutation.mutateAsync({
+              jobId: newJobId,
+              amount: formData.paidAmount || "0",
+              method: formData.paymentMethod,
+            });
+          }
         } catch (error) {
           toast({
             title: "Hata",
@@ -435,40 +773,10 @@ export default function JobForm({ jobId }: JobFormProps) {
         }
       }
       
-      // Handle services
-      if (newJobId && formData.selectedServices) {
-        // If editing, we need to sync the services
-        if (jobId && jobServicesQuery.data) {
-          const existingServiceIds = jobServicesQuery.data.map(s => s.id);
-          
-          // Remove services that were deselected
-          for (const existingId of existingServiceIds) {
-            if (!formData.selectedServices.includes(existingId)) {
-              await removeJobServiceMutation.mutateAsync({
-                jobId: newJobId,
-                serviceId: existingId,
-              });
-            }
-          }
-          
-          // Add services that were newly selected
-          for (const selectedId of formData.selectedServices) {
-            if (!existingServiceIds.includes(selectedId)) {
-              await addJobServiceMutation.mutateAsync({
-                jobId: newJobId,
-                serviceId: selectedId,
-              });
-            }
-          }
-        } else {
-          // Add all selected services for a new job
-          for (const serviceId of formData.selectedServices) {
-            await addJobServiceMutation.mutateAsync({
-              jobId: newJobId,
-              serviceId,
-            });
-          }
-        }
+      // Personel ataması: düzenlemede her zaman, yeni işte seçim varsa kaydedilir
+      const staffIds = formData.staffIds || [];
+      if (newJobId && (jobId || staffIds.length > 0)) {
+        await apiRequest("PUT", `/api/jobs/${newJobId}/staff`, staffIds);
       }
       
       // İnvalidate all relevant queries to refresh data
@@ -651,8 +959,32 @@ export default function JobForm({ jobId }: JobFormProps) {
                     <FormItem className="mb-4">
                       <FormLabel>Plaka</FormLabel>
                       <FormControl>
-                        <Input placeholder="34ABC123" {...field} />
+                        <Input
+                          placeholder="34 ABC 123"
+                          {...field}
+                          onBlur={() => {
+                            if (field.value && isValidPlate(field.value)) {
+                              field.onChange(formatPlate(field.value));
+                            }
+                            field.onBlur();
+                          }}
+                        />
                       </FormControl>
+                      {existingPlateVehicle && (
+                        <div className="text-sm text-amber-700">
+                          Bu plaka zaten kayıtlı: {existingPlateVehicle.plate} - {existingPlateVehicle.brand} {existingPlateVehicle.model}
+                          {existingPlateVehicle.customerId === selectedCustomerId && (
+                            <Button
+                              type="button"
+                              variant="link"
+                              className="h-auto p-0 ml-2"
+                              onClick={() => handleVehicleChange(existingPlateVehicle.id.toString())}
+                            >
+                              Bu aracı seç
+                            </Button>
+                          )}
+                        </div>
+                      )}
                       <FormMessage />
                     </FormItem>
                   )}
@@ -710,42 +1042,147 @@ export default function JobForm({ jobId }: JobFormProps) {
           <h4 className="text-gray-darkest font-medium mb-4">Yapılacak İşlemler</h4>
           <FormField
             control={form.control}
-            name="selectedServices"
-            render={() => (
+            name="lines"
+            render={({ field }) => (
               <FormItem>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-                  {servicesQuery.data?.map((service) => (
-                    <FormField
-                      key={service.id}
-                      control={form.control}
-                      name="selectedServices"
-                      render={({ field }) => {
-                        return (
-                          <FormItem
-                            key={service.id}
-                            className="flex flex-row items-start space-x-3 space-y-0"
-                          >
-                            <FormControl>
-                              <Checkbox
-                                checked={field.value?.includes(service.id)}
-                                onCheckedChange={(checked) => {
-                                  const current = field.value || [];
-                                  const updated = checked
-                                    ? [...current, service.id]
-                                    : current.filter((id) => id !== service.id);
-                                  field.onChange(updated);
-                                }}
-                              />
-                            </FormControl>
-                            <FormLabel className="font-normal">
-                              {service.name} ({service.price} TL)
-                            </FormLabel>
-                          </FormItem>
-                        );
-                      }}
-                    />
-                  ))}
+                  {servicesQuery.data?.map((service) => {
+                    const line = field.value?.find(l => l.serviceId === service.id);
+                    return (
+                      <div
+                        key={service.id}
+                        className="flex flex-row items-start space-x-3 space-y-0"
+                      >
+                        <Checkbox
+                          checked={!!line}
+                          onCheckedChange={(checked) => toggleServiceLine(service, !!checked)}
+                        />
+                        <FormLabel className="font-normal">
+                          {service.name} ({line ? line.unitPrice : service.price} TL)
+                          {(line ? line.subscriptionId : findCoveringSubscription(service.id)) && (
+                            <Badge variant="outline" className="ml-2 text-green-700 border-green-300">Üyelik</Badge>
+                          )}
+                        </FormLabel>
+                      </div>
+                    );
+                  })}
                 </div>
+                
+                {field.value && field.value.length > 0 && (
+                  <table className="w-full border-collapse mb-6">
+                    <thead>
+                      <tr className="bg-gray-50">
+                        <th className="text-left py-2 px-2 border-b">İşlem</th>
+                        <th className="text-right py-2 px-2 border-b">Birim Fiyat</th>
+                        <th className="text-right py-2 px-2 border-b w-24">Adet</th>
+                        <th className="text-right py-2 px-2 border-b w-32">İndirim (₺)</th>
+                        <th className="text-right py-2 px-2 border-b">Tutar</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {field.value.map((line) => (
+                        <tr key={line.serviceId} className="border-b">
+                          <td className="py-2 px-2">
+                            {line.label}
+                            {line.subscriptionId && (
+                              <Badge variant="outline" className="ml-2 text-green-700 border-green-300">Üyelik</Badge>
+                            )}
+                            {!!line.loyaltyStamps && (
+                              <Badge variant="outline" className="ml-2 text-amber-700 border-amber-300">Ücretsiz Yıkama</Badge>
+                            )}
+                            {!line.lineId && !line.subscriptionId && !line.loyaltyPoints && line.serviceId > 0 &&
+                              (!!line.loyaltyStamps || availableFreeWashes > 0) && (
+                              <Button
+                                type="button"
+                                variant="link"
+                                size="sm"
+                                className="h-auto p-0 ml-2"
+                                onClick={() => toggleFreeWash(line)}
+                              >
+                                {line.loyaltyStamps ? "Geri al" : "Ücretsiz yıkama kullan"}
+                              </Button>
+                            )}
+                            {!!line.loyaltyPoints && (
+                              <Button
+                                type="button"
+                                variant="link"
+                                size="sm"
+                                className="h-auto p-0 ml-2 text-red-600"
+                                onClick={() => removeLine(line.serviceId)}
+                              >
+                                Kaldır
+                              </Button>
+                            )}
+                          </td>
+                          <td className="py-2 px-2 text-right">{formatCurrency(line.unitPrice)} TL</td>
+                          <td className="py-2 px-2">
+                            <Input
+                              type="number"
+                              min="1"
+                              step="1"
+                              value={line.quantity}
+                              disabled={!!line.loyaltyPoints || !!line.loyaltyStamps}
+                              onChange={(e) => updateLine(line.serviceId, {
+                                quantity: Math.max(1, parseInt(e.target.value) || 1),
+                              })}
+                            />
+                          </td>
+                          <td className="py-2 px-2">
+                            <Input
+                              type="number"
+                              min="0"
+                              max={Math.max(Number(line.unitPrice) * line.quantity, 0)}
+                              step="0.01"
+                              value={line.discount}
+                              disabled={!!line.subscriptionId || !!line.loyaltyPoints || !!line.loyaltyStamps}
+                              onChange={(e) => updateLine(line.serviceId, {
+                                discount: e.target.value || "0",
+                              })}
+                            />
+                          </td>
+                          <td className="py-2 px-2 text-right">{formatCurrency(calculateJobLineTotal(line))} TL</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                
+                {loyalty && form.watch("status") !== "iptal" && (
+                  <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 p-4 mb-6 border rounded-md bg-gray-50">
+                    <div className="text-sm space-y-1">
+                      <div>
+                        Puan bakiyesi: <span className="font-medium">{loyalty.points}</span> puan
+                        ({formatCurrency(loyalty.points * loyalty.pointValue)} TL)
+                      </div>
+                      {loyalty.freeWashEvery > 0 && (
+                        <div>
+                          Damga: <span className="font-medium">{loyalty.stamps % loyalty.freeWashEvery} / {loyalty.freeWashEvery}</span>
+                          {availableFreeWashes > 0 && ` - ${availableFreeWashes} ücretsiz yıkama hakkı`}
+                        </div>
+                      )}
+                    </div>
+                    {!pointsLine && loyalty.points > 0 && (
+                      <div className="flex items-end gap-2">
+                        <div className="space-y-1">
+                          <Label htmlFor="redeemPoints">Puan Kullan</Label>
+                          <Input
+                            id="redeemPoints"
+                            type="number"
+                            min="1"
+                            max={loyalty.points}
+                            step="1"
+                            className="w-32"
+                            value={redeemPoints}
+                            onChange={(e) => setRedeemPoints(e.target.value)}
+                          />
+                        </div>
+                        <Button type="button" variant="outline" onClick={applyLoyaltyPoints} disabled={!redeemPoints}>
+                          Uygula
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
                 <FormMessage />
               </FormItem>
             )}
@@ -802,9 +1239,13 @@ export default function JobForm({ jobId }: JobFormProps) {
                       step="0.01"
                       min="0"
                       max={form.watch("totalAmount")}
+                      disabled={!!jobId}
                       {...field}
                     />
                   </FormControl>
+                  {jobId && (
+                    <FormDescription>Tahsilatlar iş emri detayından eklenir</FormDescription>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
@@ -846,6 +1287,7 @@ export default function JobForm({ jobId }: JobFormProps) {
                   <Select
                     value={field.value}
                     onValueChange={field.onChange}
+                    disabled={!!jobId}
                   >
                     <FormControl>
                       <SelectTrigger>
@@ -856,15 +1298,77 @@ export default function JobForm({ jobId }: JobFormProps) {
                       <SelectItem value="nakit">Nakit</SelectItem>
                       <SelectItem value="kredi_karti">Kredi Kartı</SelectItem>
                       <SelectItem value="havale_eft">Havale/EFT</SelectItem>
+                      {/* Hediye kartı tahsilatı kart kodu ister, yalnızca iş detayından alınır */}
+                      {field.value === "hediye_karti" && (
+                        <SelectItem value="hediye_karti">{PAYMENT_METHOD_LABELS.hediye_karti}</SelectItem>
+                      )}
                     </SelectContent>
                   </Select>
                   <FormMessage />
                 </FormItem>
               )}
             />
+            
+            {selectedCustomer?.isCorporate && (
+              <FormField
+                control={form.control}
+                name="onAccount"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={!!field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Cari hesaba yaz</FormLabel>
+                      <FormDescription>Ödeme aylık fatura ile tahsil edilir</FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+            )}
           </div>
         </div>
         
+        {staffQuery.data && staffQuery.data.length > 0 && (
+          <FormField
+            control={form.control}
+            name="staffIds"
+            render={({ field }) => (
+              <FormItem className="mt-6">
+                <FormLabel>İşi Yapan Personel</FormLabel>
+                <div className="flex flex-wrap gap-4">
+                  {staffQuery.data.map((member) => {
+                    const selected = field.value?.includes(member.id) ?? false;
+                    return (
+                      <div key={member.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`staff-${member.id}`}
+                          checked={selected}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked === true
+                                ? [...(field.value || []), member.id]
+                                : (field.value || []).filter(id => id !== member.id)
+                            )
+                          }
+                        />
+                        <Label htmlFor={`staff-${member.id}`}>{member.fullName}</Label>
+                      </div>
+                    );
+                  })}
+                </div>
+                <FormDescription>Hizmet primleri seçilen personel arasında eşit bölünür</FormDescription>
+              </FormItem>
+            )}
+          />
+        )}
+        
+        {jobQuery.data?.invoiceId && (
+          <p className="mt-6 text-sm text-amber-700">
+            Bu iş emri #{jobQuery.data.invoiceId} numaralı cari hesap faturasında; değiştirmek için önce faturayı iptal edin.
+          </p>
+        )}
+        
         <div className="flex justify-end mt-8">
           <Button
             type="button"
@@ -880,7 +1384,8 @@ export default function JobForm({ jobId }: JobFormProps) {
               createJobMutation.isPending || 
               updateJobMutation.isPending || 
               createCustomerMutation.isPending || 
-              createVehicleMutation.isPending
+              createVehicleMutation.isPending ||
+              !!jobQuery.data?.invoiceId
             }
           >
             {jobId ? "Güncelle" : "Kaydet"}
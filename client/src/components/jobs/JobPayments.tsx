@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Trash, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { 
+  Select, 
+  SelectContent, 
+  SelectItem, 
+  SelectTrigger, 
+  SelectValue 
+} from "@/components/ui/select";
+import { GiftCardDetail, Job, PaymentWithUser } from "@shared/schema";
+import { formatCurrency, formatDateTime, getPaymentMethodLabel, paymentMethodOptions } from "@/lib/utils";
+import ConfirmDialog from "@/components/common/ConfirmDialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
+
+interface JobPaymentsProps {
+  job: Job;
+}
+
+export default function JobPayments({ job }: JobPaymentsProps) {
+  const { toast } = useToast();
+  
+  const remaining = Number(job.totalAmount) - Number(job.paidAmount);
+  const [amount, setAmount] = useState("");
+  const [method, setMethod] = useState("nakit");
+  const [giftCardCode, setGiftCardCode] = useState("");
+  const [paymentToDelete, setPaymentToDelete] = useState<number | null>(null);
+  
+  // Fetch job payments
+  const paymentsQuery = useQuery<PaymentWithUser[]>({
+    queryKey: [`/api/jobs/${job.id}/payments`],
+  });
+  
+  // Hediye kartıyla ödemede girilen kodun bakiyesini göster
+  const trimmedGiftCardCode = giftCardCode.trim().toUpperCase();
+  const giftCardQuery = useQuery<GiftCardDetail>({
+    queryKey: [`/api/gift-cards/lookup/${encodeURIComponent(trimmedGiftCardCode)}`],
+    enabled: method === "hediye_karti" && trimmedGiftCardCode.length >= 4,
+    retry: false,
+  });
+  
+  const invalidatePaymentQueries = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/jobs/${job.id}/payments`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/jobs/${job.id}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+  };
+  
+  // Create payment mutation
+  const createPaymentMutation = useMutation({
+    mutationFn: async (data: { amount: string; method: string; giftCardCode?: string }) => {
+      const res = await apiRequest("POST", `/api/jobs/${job.id}/payments`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidatePaymentQueries();
+      invalidateQueriesByPrefix("/api/gift-cards");
+      setAmount("");
+      setGiftCardCode("");
+      toast({
+        title: "Başarılı",
+        description: "Tahsilat kaydedildi.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Hata",
+        description: error.message.startsWith("404")
+          ? "Hediye kartı bulunamadı."
+          : error.message.startsWith("400") && method === "hediye_karti"
+            ? "Hediye kartı kullanıma kapalı veya bakiyesi yetersiz."
+            : "Tahsilat kaydedilirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Delete payment mutation
+  const deletePaymentMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/jobs/${job.id}/payments/${id}`);
+    },
+    onSuccess: () => {
+      invalidatePaymentQueries();
+      // Silinen hediye kartı tahsilatı karta iade edilir
+      invalidateQueriesByPrefix("/api/gift-cards");
+      setPaymentToDelete(null);
+      toast({
+        title: "Başarılı",
+        description: "Tahsilat silindi.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Hata",
+        description: "Tahsilat silinirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const handleAddPayment = () => {
+    if (!amount || Number(amount) <= 0) {
+      toast({
+        title: "Hata",
+        description: "Geçerli bir tutar giriniz.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    if (Number(amount) > remaining + 0.005) {
+      toast({
+        title: "Hata",
+        description: "Tutar işin kalan tutarını aşamaz.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    if (method === "hediye_karti" && !trimmedGiftCardCode) {
+      toast({
+        title: "Hata",
+        description: "Hediye kartı kodunu giriniz.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    createPaymentMutation.mutate(
+      method === "hediye_karti" ? { amount, method, giftCardCode: trimmedGiftCardCode } : { amount, method }
+    );
+  };
+  
+  const payments = paymentsQuery.data || [];
+  
+  return (
+    <div>
+      {payments.length === 0 ? (
+        <p className="text-gray-500 italic mb-4">Henüz tahsilat kaydı yok.</p>
+      ) : (
+        <table className="w-full border-collapse mb-4">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="text-left py-2 px-4 border-b">Tarih</th>
+              <th className="text-left py-2 px-4 border-b">Yöntem</th>
+              <th className="text-left py-2 px-4 border-b">Alan</th>
+              <th className="text-right py-2 px-4 border-b">Tutar</th>
+              <th className="py-2 px-4 border-b no-print"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {payments.map((payment) => (
+              <tr key={payment.id} className="border-b">
+                <td className="py-2 px-4">{formatDateTime(payment.createdAt)}</td>
+                <td className="py-2 px-4">
+                  {getPaymentMethodLabel(payment.method)}
+                  {payment.giftCardCode && (
+                    <span className="text-gray-500 font-mono text-sm"> ({payment.giftCardCode})</span>
+                  )}
+                </td>
+                <td className="py-2 px-4">{payment.userName || "-"}</td>
+                <td className="py-2 px-4 text-right">{formatCurrency(payment.amount)} TL</td>
+                <td className="py-2 px-4 text-right no-print">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPaymentToDelete(payment.id)}
+                  >
+                    <Trash className="h-4 w-4 text-red-600" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      
+      {remaining > 0 && job.status !== "iptal" && (
+        <div className="flex flex-col md:flex-row gap-2 no-print">
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            max={remaining}
+            placeholder={`Kalan: ${formatCurrency(remaining)}`}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+          <Select value={method} onValueChange={setMethod}>
+            <SelectTrigger>
+              <SelectValue placeholder="Ödeme yöntemi seçin" />
+            </SelectTrigger>
+            <SelectContent>
+              {paymentMethodOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {method === "hediye_karti" && (
+            <div className="flex flex-col">
+              <Input
+                placeholder="Kart kodu"
+                className="uppercase font-mono"
+                value={giftCardCode}
+                onChange={(e) => setGiftCardCode(e.target.value)}
+              />
+              {giftCardQuery.data && (
+                <span className="text-xs text-gray-500 mt-1">
+                  {giftCardQuery.data.isActive
+                    ? `Bakiye: ${formatCurrency(giftCardQuery.data.balance)} TL`
+                    : "Kart kullanıma kapalı"}
+                </span>
+              )}
+              {giftCardQuery.isError && (
+                <span className="text-xs text-red-600 mt-1">Kart bulunamadı</span>
+              )}
+            </div>
+          )}
+          <Button
+            onClick={handleAddPayment}
+            disabled={createPaymentMutation.isPending}
+            className="flex items-center"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Tahsilat Ekle
+          </Button>
+        </div>
+      )}
+      
+      <ConfirmDialog
+        open={paymentToDelete !== null}
+        onOpenChange={() => setPaymentToDelete(null)}
+        title="Tahsilatı Sil"
+        description="Bu tahsilat kaydını silmek istediğinizden emin misiniz? İşin ödenen tutarı yeniden hesaplanacaktır."
+        confirmText="Sil"
+        cancelText="İptal"
+        onConfirm={() => paymentToDelete !== null && deletePaymentMutation.mutate(paymentToDelete)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Camera, Trash } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { JobPhoto, JobPhotoStage, UploadJobPhoto, JOB_PHOTO_STAGE_LABELS, jobPhotoStageEnum } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { formatDateTime } from "@/lib/utils";
+import ConfirmDialog from "@/components/common/ConfirmDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+
+// Fotoğraf yüklenmeden önce tarayıcıda küçültülür; önizleme de burada üretilir
+const PHOTO_MAX_SIZE = 1600;
+const THUMB_MAX_SIZE = 320;
+
+function loadImage(file: File): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Görüntü okunamadı"));
+    };
+    image.src = url;
+  });
+}
+
+function resizeImage(image: HTMLImageElement, maxSize: number, quality: number): string {
+  const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  canvas.getContext("2d")!.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", quality);
+}
+
+interface JobPhotosProps {
+  jobId: number;
+}
+
+export default function JobPhotos({ jobId }: JobPhotosProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canManage = hasPermission(user, "jobs.manage");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploadStage, setUploadStage] = useState<JobPhotoStage>("giris");
+  const [caption, setCaption] = useState("");
+  const [photoToDelete, setPhotoToDelete] = useState<number | null>(null);
+
+  const photosQuery = useQuery<JobPhoto[]>({
+    queryKey: [`/api/jobs/${jobId}/photos`],
+  });
+
+  const uploadPhotoMutation = useMutation({
+    mutationFn: async (data: UploadJobPhoto) => {
+      const res = await apiRequest("POST", `/api/jobs/${jobId}/photos`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/photos`] });
+      setCaption("");
+      toast({
+        title: "Başarılı",
+        description: "Fotoğraf yüklendi.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Hata",
+        description: "Fotoğraf yüklenirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePhotoMutation = useMutation({
+    mutationFn: async (photoId: number) => {
+      await apiRequest("DELETE", `/api/jobs/${jobId}/photos/${photoId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/jobs/${jobId}/photos`] });
+      toast({
+        title: "Başarılı",
+        description: "Fotoğraf silindi.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Hata",
+        description: "Fotoğraf silinirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectFile = (stage: JobPhotoStage) => {
+    setUploadStage(stage);
+    fileInputRef.current?.click();
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    for (const file of files) {
+      let image: HTMLImageElement;
+      try {
+        image = await loadImage(file);
+      } catch {
+        toast({
+          title: "Hata",
+          description: `${file.name} okunamadı.`,
+          variant: "destructive",
+        });
+        continue;
+      }
+      // Yükleme hatası mutasyonun onError'ında bildirilir, kalan dosyalar yine denenir
+      await uploadPhotoMutation.mutateAsync({
+        stage: uploadStage,
+        image: resizeImage(image, PHOTO_MAX_SIZE, 0.85),
+        thumbnail: resizeImage(image, THUMB_MAX_SIZE, 0.7),
+        caption: caption.trim() || undefined,
+      }).catch(() => undefined);
+    }
+  };
+
+  const photos = photosQuery.data || [];
+
+  return (
+    <div>
+      {canManage && (
+        <div className="flex flex-wrap items-center gap-2 mb-4 print:hidden">
+          <Input
+            value={caption}
+            onChange={(e) => setCaption(e.target.value)}
+            placeholder="Açıklama (isteğe bağlı)"
+            maxLength={200}
+            className="w-64"
+          />
+          {jobPhotoStageEnum.options.map(stage => (
+            <Button
+              key={stage}
+              variant="outline"
+              onClick={() => selectFile(stage)}
+              disabled={uploadPhotoMutation.isPending}
+            >
+              <Camera className="h-4 w-4 mr-2" />
+              {JOB_PHOTO_STAGE_LABELS[stage]} Fotoğrafı Ekle
+            </Button>
+          ))}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/jpeg,image/png"
+            capture="environment"
+            multiple
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          {uploadPhotoMutation.isPending && <span className="text-sm text-muted-foreground">Yükleniyor...</span>}
+        </div>
+      )}
+
+      {photosQuery.isLoading ? (
+        <p className="text-gray-500">Yükleniyor...</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {jobPhotoStageEnum.options.map(stage => {
+            const stagePhotos = photos.filter(photo => photo.stage === stage);
+            return (
+              <div key={stage}>
+                <h4 className="font-medium mb-2">{JOB_PHOTO_STAGE_LABELS[stage]}</h4>
+                {stagePhotos.length === 0 ? (
+                  <p className="text-gray-500 italic text-sm">Fotoğraf eklenmemiş.</p>
+                ) : (
+                  <div className="grid grid-cols-3 gap-2">
+                    {stagePhotos.map(photo => (
+                      <div key={photo.id} className="relative group">
+                        <a href={`/api/jobs/${jobId}/photos/${photo.id}/image`} target="_blank" rel="noreferrer">
+                          <img
+                            src={`/api/jobs/${jobId}/photos/${photo.id}/image?size=thumb`}
+                            alt={photo.caption || JOB_PHOTO_STAGE_LABELS[stage]}
+                            className="w-full aspect-square object-cover rounded border"
+                          />
+                        </a>
+                        <p className="text-xs text-gray-500 truncate" title={photo.caption || undefined}>
+                          {photo.caption || formatDateTime(photo.createdAt)}
+                        </p>
+                        {canManage && (
+                          <Button
+                            size="icon"
+                            variant="destructive"
+                            className="absolute top-1 right-1 h-6 w-6 opacity-0 group-hover:opacity-100 print:hidden"
+                            onClick={() => setPhotoToDelete(photo.id)}
+                          >
+                            <Trash className="h-3 w-3" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={photoToDelete !== null}
+        onOpenChange={(open) => !open && setPhotoToDelete(null)}
+        title="Fotoğrafı Sil"
+        description="Bu fotoğrafı silmek istediğinize emin misiniz?"
+        confirmText="Sil"
+        cancelText="İptal"
+        onConfirm={() => {
+          if (photoToDelete !== null) deletePhotoMutation.mutate(photoToDelete);
+          setPhotoToDelete(null);
+        }}
+      />
+    </div>
+  );
+}
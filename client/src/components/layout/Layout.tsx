@@ -1,13 +1,21 @@
-import React from "react";
+import React, { useEffect } from "react";
 import Navbar from "@/components/layout/Navbar";
 import Navigation from "@/components/layout/Navigation";
 import ActionButtons from "@/components/layout/ActionButtons";
+import { useAppSettings, THEME_COLOR_HSL } from "@/hooks/use-app-settings";
 
 interface LayoutProps {
   children: React.ReactNode;
 }
 
 export default function Layout({ children }: LayoutProps) {
+  const { settings } = useAppSettings();
+  
+  // Görünüm ayarlarındaki tema rengini uygula
+  useEffect(() => {
+    document.documentElement.style.setProperty("--primary", THEME_COLOR_HSL[settings.themeColor]);
+  }, [settings.themeColor]);
+  
   return (
     <div className="flex flex-col min-h-screen">
       <Navbar />
@@ -3,6 +3,7 @@ import { Link, useLocation } from "wouter";
 import { Moon, ChevronDown, Search, X, Car, UserRound, Settings } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { hasPermission } from "@shared/permissions";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { 
@@ -25,7 +26,7 @@ export default function Navbar() {
   const [search, setSearch] = useState("");
   const [location, setLocation] = useLocation();
   const [open, setOpen] = useState(false);
-  const { logoutMutation } = useAuth();
+  const { user, logoutMutation } = useAuth();
   
   // Veri sorgulama
   const customersQuery = useQuery<any[]>({
@@ -278,9 +279,11 @@ export default function Navbar() {
                   <DropdownMenuItem onClick={() => handleSelect("/profile")}>
                     Profil
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => handleSelect("/settings")}>
-                    Ayarlar
-                  </DropdownMenuItem>
+                  {hasPermission(user, "settings.manage") && (
+                    <DropdownMenuItem onClick={() => handleSelect("/settings")}>
+                      Ayarlar
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem onClick={handleLogout}>
                     Çıkış Yap
                   </DropdownMenuItem>
@@ -9,21 +9,42 @@ import {
   Car, 
   User,
   DollarSign,
-  ShieldAlert
+  ShieldAlert,
+  CalendarDays,
+  BadgeCheck,
+  Wallet,
+  Gift,
+  Building2,
+  HandCoins,
+  Package,
+  Kanban,
+  ScanLine,
+  History
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/use-auth";
+import { hasPermission, type Permission } from "@shared/permissions";
 
-const navItems = [
+const navItems: { href: string; icon: typeof Home; label: string; permission?: Permission }[] = [
   { href: "/", icon: Home, label: "ANASAYFA" },
-  { href: "/new-job", icon: PlusCircle, label: "YENİ İŞ EMRİ" },
-  { href: "/jobs", icon: Eye, label: "İŞ EMİRLERİ" },
-  { href: "/customers", icon: Users, label: "MÜŞTERİLER" },
-  { href: "/expenses", icon: DollarSign, label: "GİDERLER" },
-  { href: "/reports", icon: BarChart2, label: "RAPORLAR" },
-  { href: "/price-list", icon: FileText, label: "FİYAT LİSTESİ" },
-  { href: "/vehicle-list", icon: Car, label: "ARAÇ LİSTESİ" },
-  { href: "/users", icon: ShieldAlert, label: "YÖNETİM", adminOnly: true },
+  { href: "/check-in", icon: ScanLine, label: "HIZLI KABUL", permission: "jobs.manage" },
+  { href: "/new-job", icon: PlusCircle, label: "YENİ İŞ EMRİ", permission: "jobs.manage" },
+  { href: "/jobs", icon: Eye, label: "İŞ EMİRLERİ", permission: "jobs.view" },
+  { href: "/board", icon: Kanban, label: "İŞ AKIŞI", permission: "jobs.view" },
+  { href: "/appointments", icon: CalendarDays, label: "RANDEVULAR", permission: "appointments.view" },
+  { href: "/customers", icon: Users, label: "MÜŞTERİLER", permission: "customers.view" },
+  { href: "/subscriptions", icon: BadgeCheck, label: "ÜYELİKLER", permission: "subscriptions.view" },
+  { href: "/cash", icon: Wallet, label: "KASA", permission: "cash.view" },
+  { href: "/gift-cards", icon: Gift, label: "HEDİYE KARTLARI", permission: "giftCards.view" },
+  { href: "/receivables", icon: HandCoins, label: "ALACAKLAR", permission: "receivables.view" },
+  { href: "/accounts", icon: Building2, label: "CARİ HESAPLAR", permission: "accounts.view" },
+  { href: "/inventory", icon: Package, label: "STOK", permission: "inventory.view" },
+  { href: "/expenses", icon: DollarSign, label: "GİDERLER", permission: "expenses.view" },
+  { href: "/reports", icon: BarChart2, label: "RAPORLAR", permission: "reports.view" },
+  { href: "/price-list", icon: FileText, label: "FİYAT LİSTESİ", permission: "services.view" },
+  { href: "/vehicle-list", icon: Car, label: "ARAÇ LİSTESİ", permission: "vehicles.view" },
+  { href: "/users", icon: ShieldAlert, label: "YÖNETİM", permission: "users.manage" },
+  { href: "/audit-log", icon: History, label: "DENETİM KAYITLARI", permission: "audit.view" },
 ];
 
 export default function Navigation() {
@@ -35,8 +56,8 @@ export default function Navigation() {
       <div className="container mx-auto px-4">
         <div className="flex items-center overflow-x-auto whitespace-nowrap">
           {navItems.map((item) => {
-            // Admin kontrolü - eğer admin değilse ve admin gerektiren bir linke yöneldiyse gösterme
-            if (item.adminOnly && !user?.isAdmin) {
+            // Yetki kontrolü - kullanıcının rolü bu sayfaya izin vermiyorsa linki gösterme
+            if (item.permission && !hasPermission(user, item.permission)) {
               return null;
             }
             
@@ -2,14 +2,15 @@ import { ReactNode, useEffect } from "react";
 import { Route, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
+import { hasPermission, type Permission } from "@shared/permissions";
 
 interface ProtectedRouteProps {
   path: string;
   children: ReactNode;
-  adminOnly?: boolean;
+  permission?: Permission;
 }
 
-export function ProtectedRoute({ path, children, adminOnly = false }: ProtectedRouteProps) {
+export function ProtectedRoute({ path, children, permission }: ProtectedRouteProps) {
   const { user, isLoading } = useAuth();
   const [, setLocation] = useLocation();
 
@@ -19,12 +20,12 @@ export function ProtectedRoute({ path, children, adminOnly = false }: ProtectedR
       if (!user) {
         // Kullanıcı giriş yapmamışsa giriş sayfasına yönlendir
         setLocation('/auth');
-      } else if (adminOnly && !user.isAdmin) {
-        // Admin gerektiren sayfa ve kullanıcı admin değilse ana sayfaya yönlendir
+      } else if (permission && !hasPermission(user, permission)) {
+        // Sayfa için gereken yetki kullanıcının rolünde yoksa ana sayfaya yönlendir
         setLocation('/');
       }
     }
-  }, [user, isLoading, setLocation, adminOnly]);
+  }, [user, isLoading, setLocation, permission]);
 
   // Route bileşeni
   return (
@@ -50,13 +51,13 @@ export function ProtectedRoute({ path, children, adminOnly = false }: ProtectedR
           );
         }
         
-        if (adminOnly && !user.isAdmin) {
-          // Admin gerektiren sayfa ve kullanıcı admin değilse yetki hatası göster
+        if (permission && !hasPermission(user, permission)) {
+          // Kullanıcının rolü bu sayfaya erişime izin vermiyorsa yetki hatası göster
           return (
             <div className="flex h-screen items-center justify-center">
               <div className="text-center">
                 <p className="mb-2 text-red-500">Bu sayfaya erişim yetkiniz bulunmamaktadır.</p>
-                <p>Yönetici hesabı gerektiren bir sayfaya erişmeye çalışıyorsunuz.</p>
+                <p>Rolünüz bu sayfayı görüntülemek için yeterli değil.</p>
               </div>
             </div>
           );
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { MoneyPaymentMethod, moneyPaymentMethodEnum, PAYMENT_METHOD_LABELS } from "@shared/schema";
+import { apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+
+interface SettlementFormProps {
+  customerId: number;
+  remaining: number; // Seçilen (veya tüm) açık işlerin kalan toplamı
+  jobIds?: number[]; // Verilmezse tüm açık işler
+  onSaved?: () => void;
+}
+
+// Tek ödemeyle birden fazla açık işi kapat; tutar en eski işten başlayarak dağıtılır
+export default function SettlementForm({ customerId, remaining, jobIds, onSaved }: SettlementFormProps) {
+  const { toast } = useToast();
+  const [amount, setAmount] = useState("");
+  const [method, setMethod] = useState<MoneyPaymentMethod>("nakit");
+
+  const settlementMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/customers/${customerId}/settlements`, {
+        amount,
+        method,
+        jobIds,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateQueriesByPrefix("/api/receivables");
+      invalidateQueriesByPrefix(`/api/customers/${customerId}`);
+      invalidateQueriesByPrefix("/api/jobs");
+      invalidateQueriesByPrefix("/api/account-invoices");
+      invalidateQueriesByPrefix("/api/reports/receivables-aging");
+      // Nakit tahsilatlar açık kasa oturumuna girer
+      invalidateQueriesByPrefix("/api/cash-sessions");
+      setAmount("");
+      toast({
+        title: "Başarılı",
+        description: "Ödeme açık işlere dağıtılarak kaydedildi.",
+      });
+      onSaved?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Hata",
+        description: error.message.startsWith("400")
+          ? "Ödeme tutarı kalan borcu aşıyor."
+          : "Ödeme kaydedilirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Kalan borç: <span className="font-medium text-foreground">{formatCurrency(remaining)} TL</span>.
+        Ödeme en eski işten başlayarak dağıtılır.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="settlementAmount">Tutar (TL)</Label>
+          <div className="flex space-x-2">
+            <Input
+              id="settlementAmount"
+              type="number"
+              step="0.01"
+              min="0"
+              max={remaining}
+              placeholder="0.00"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+            <Button type="button" variant="outline" onClick={() => setAmount(remaining.toFixed(2))}>
+              Tamamı
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Ödeme Yöntemi</Label>
+          <Select value={method} onValueChange={(value) => setMethod(value as MoneyPaymentMethod)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Ödeme yöntemi seçin" />
+            </SelectTrigger>
+            <SelectContent>
+              {moneyPaymentMethodEnum.options.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {PAYMENT_METHOD_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          onClick={() => settlementMutation.mutate()}
+          disabled={settlementMutation.isPending || !(Number(amount) > 0) || remaining <= 0}
+        >
+          Ödeme Al
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { tr } from "date-fns/locale";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatCurrency } from "@/lib/utils";
+import { GiftCardLiabilityReport } from "@shared/schema";
+
+// Hediye kartı / ön ödemeli bakiye yükümlülüğü ve seçilen ayın kart hareketleri
+export default function GiftCardReportCard() {
+  const [month, setMonth] = useState(format(new Date(), "yyyy-MM"));
+
+  const reportQuery = useQuery<GiftCardLiabilityReport>({
+    queryKey: [`/api/reports/gift-cards?month=${month}`],
+    enabled: /^\d{4}-\d{2}$/.test(month),
+  });
+
+  const report = reportQuery.data;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex justify-between items-center">
+          <span>Hediye Kartı Raporu</span>
+          <Input
+            type="month"
+            className="w-44"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+          />
+        </CardTitle>
+        <CardDescription>
+          {/^\d{4}-\d{2}$/.test(month)
+            ? `${format(new Date(`${month}-01T00:00:00`), "MMMM yyyy", { locale: tr })} dönemi hareketleri ve güncel bakiye yükümlülüğü`
+            : "Dönem seçin"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {reportQuery.isLoading ? (
+          <p className="text-center py-6">Yükleniyor...</p>
+        ) : reportQuery.isError || !report ? (
+          <p className="text-center py-6">Hediye kartı raporu yüklenirken bir hata oluştu</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Kullanılmamış Bakiye (Yükümlülük)</CardDescription>
+                  <CardTitle className="text-2xl text-amber-600">{formatCurrency(report.outstandingLiability)} TL</CardTitle>
+                  <p className="text-xs text-gray-500">{report.cardsWithBalance} kartta bakiye var</p>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Dönem Yüklemeleri</CardDescription>
+                  <CardTitle className="text-2xl text-green-600">{formatCurrency(report.topUps)} TL</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Dönem Harcamaları</CardDescription>
+                  <CardTitle className="text-2xl">{formatCurrency(report.spent)} TL</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Dönem İadeleri</CardDescription>
+                  <CardTitle className="text-2xl">{formatCurrency(report.refunds)} TL</CardTitle>
+                </CardHeader>
+              </Card>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-medium mb-2">En Yüksek Bakiyeli Kartlar</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Kod</TableHead>
+                    <TableHead>Müşteri</TableHead>
+                    <TableHead>Durum</TableHead>
+                    <TableHead className="text-right">Bakiye</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.topCards.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">
+                        Bakiyesi olan kart bulunmuyor
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    report.topCards.map((card) => (
+                      <TableRow key={card.id}>
+                        <TableCell className="font-mono">{card.code}</TableCell>
+                        <TableCell>{card.customerName || "-"}</TableCell>
+                        <TableCell>{card.isActive ? "Aktif" : "Kapalı"}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(card.balance)} TL</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
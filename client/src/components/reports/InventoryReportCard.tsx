@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { tr } from "date-fns/locale";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatCurrency } from "@/lib/utils";
+import { InventoryReport } from "@shared/schema";
+
+function formatQuantity(value: number): string {
+  return value.toLocaleString("tr-TR", { maximumFractionDigits: 3 });
+}
+
+// Seçilen ayın malzeme alımları ile hizmetlerde tüketilen malzemenin karşılaştırması
+export default function InventoryReportCard() {
+  const [month, setMonth] = useState(format(new Date(), "yyyy-MM"));
+
+  const reportQuery = useQuery<InventoryReport>({
+    queryKey: [`/api/reports/inventory?month=${month}`],
+    enabled: /^\d{4}-\d{2}$/.test(month),
+  });
+
+  const report = reportQuery.data;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex justify-between items-center">
+          <span>Malzeme Alım / Tüketim Raporu</span>
+          <Input
+            type="month"
+            className="w-44"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+          />
+        </CardTitle>
+        <CardDescription>
+          {/^\d{4}-\d{2}$/.test(month)
+            ? `${format(new Date(`${month}-01T00:00:00`), "MMMM yyyy", { locale: tr })} dönemi; tüketim maliyeti ortalama alım fiyatıyla hesaplanır`
+            : "Dönem seçin"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {reportQuery.isLoading ? (
+          <p className="text-center py-6">Yükleniyor...</p>
+        ) : reportQuery.isError || !report ? (
+          <p className="text-center py-6">Stok raporu yüklenirken bir hata oluştu</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Dönem Alımları</CardDescription>
+                  <CardTitle className="text-2xl">{formatCurrency(report.totals.purchaseCost)} TL</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Dönem Tüketimi (Tahmini Maliyet)</CardDescription>
+                  <CardTitle className="text-2xl text-amber-600">{formatCurrency(report.totals.consumptionCost)} TL</CardTitle>
+                </CardHeader>
+              </Card>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ürün</TableHead>
+                  <TableHead className="text-right">Alınan</TableHead>
+                  <TableHead className="text-right">Alım Tutarı</TableHead>
+                  <TableHead className="text-right">Tüketilen</TableHead>
+                  <TableHead className="text-right">Tüketim Maliyeti</TableHead>
+                  <TableHead className="text-right">Güncel Stok</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      Ürün bulunmuyor
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  report.rows.map((row) => (
+                    <TableRow key={row.productId}>
+                      <TableCell>{row.name}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(row.purchased)} {row.unit}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.purchaseCost)} TL</TableCell>
+                      <TableCell className="text-right">{formatQuantity(row.consumed)} {row.unit}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.consumptionCost)} TL</TableCell>
+                      <TableCell className="text-right">{formatQuantity(row.stock)} {row.unit}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={2}>Toplam</TableCell>
+                  <TableCell className="text-right">{formatCurrency(report.totals.purchaseCost)} TL</TableCell>
+                  <TableCell />
+                  <TableCell className="text-right">{formatCurrency(report.totals.consumptionCost)} TL</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { tr } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { MoneyPaymentMethod, moneyPaymentMethodEnum, PAYMENT_METHOD_LABELS, PayrollReport } from "@shared/schema";
+import { hasPermission, USER_ROLE_LABELS, userRoleEnum } from "@shared/permissions";
+import { apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import ConfirmDialog from "@/components/common/ConfirmDialog";
+
+// Seçilen ayın personel prim bordrosu; işlenmemiş primler personel gideri olarak kaydedilebilir
+export default function PayrollReportCard() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canPost = hasPermission(user, "expenses.manage");
+  const [month, setMonth] = useState(format(new Date(), "yyyy-MM"));
+  const [paymentMethod, setPaymentMethod] = useState<MoneyPaymentMethod>("havale_eft");
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+  const reportQuery = useQuery<PayrollReport>({
+    queryKey: [`/api/reports/payroll?month=${month}`],
+    enabled: /^\d{4}-\d{2}$/.test(month),
+  });
+
+  const postPayrollMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/staff-payouts", { period: month, paymentMethod });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateQueriesByPrefix("/api/reports/payroll");
+      invalidateQueriesByPrefix("/api/expenses");
+      invalidateQueriesByPrefix("/api/cash-sessions");
+      setIsConfirmOpen(false);
+      toast({
+        title: "Başarılı",
+        description: "Primler personel gideri olarak işlendi.",
+      });
+    },
+    onError: (error: Error) => {
+      setIsConfirmOpen(false);
+      toast({
+        title: "Hata",
+        description: error.message.startsWith("409")
+          ? "Bu dönem için işlenecek prim bulunmuyor."
+          : "Primler işlenirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const report = reportQuery.data;
+  const pendingTotal = report
+    ? report.rows.filter(row => !row.payout).reduce((total, row) => total + row.commission, 0)
+    : 0;
+
+  const getRoleLabel = (role: string) => {
+    const parsed = userRoleEnum.safeParse(role);
+    return parsed.success ? USER_ROLE_LABELS[parsed.data] : "-";
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex justify-between items-center">
+          <span>Personel Prim Bordrosu</span>
+          <Input
+            type="month"
+            className="w-44"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+          />
+        </CardTitle>
+        <CardDescription>
+          {/^\d{4}-\d{2}$/.test(month)
+            ? `${format(new Date(`${month}-01T00:00:00`), "MMMM yyyy", { locale: tr })} döneminde tamamlanan işler; prim, iş tamamlandığındaki hizmet kuralıyla hesaplanır`
+            : "Dönem seçin"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {reportQuery.isLoading ? (
+          <p className="text-center py-6">Yükleniyor...</p>
+        ) : reportQuery.isError || !report ? (
+          <p className="text-center py-6">Prim bordrosu yüklenirken bir hata oluştu</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Personel</TableHead>
+                  <TableHead>Rol</TableHead>
+                  <TableHead className="text-right">İş Emri</TableHead>
+                  <TableHead className="text-right">Hizmet Adedi</TableHead>
+                  <TableHead className="text-right">Prim</TableHead>
+                  <TableHead>Gider Kaydı</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      Bu dönemde personel atanmış tamamlanan iş bulunmuyor
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  report.rows.map((row) => (
+                    <TableRow key={row.userId}>
+                      <TableCell>{row.fullName}</TableCell>
+                      <TableCell>{getRoleLabel(row.role)}</TableCell>
+                      <TableCell className="text-right">{row.jobCount}</TableCell>
+                      <TableCell className="text-right">{row.serviceCount.toLocaleString("tr-TR")}</TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(row.commission)} TL</TableCell>
+                      <TableCell>
+                        {row.payout ? (
+                          <Badge variant="secondary">
+                            İşlendi: {formatCurrency(row.payout.amount)} TL
+                          </Badge>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={4}>Toplam</TableCell>
+                  <TableCell className="text-right">{formatCurrency(report.totalCommission)} TL</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableFooter>
+            </Table>
+
+            {canPost && (
+              <div className="flex justify-end items-center gap-4">
+                <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as MoneyPaymentMethod)}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Ödeme yöntemi seçin" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {moneyPaymentMethodEnum.options.map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {PAYMENT_METHOD_LABELS[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={() => setIsConfirmOpen(true)}
+                  disabled={pendingTotal <= 0 || postPayrollMutation.isPending}
+                >
+                  Primleri Gidere İşle ({formatCurrency(pendingTotal)} TL)
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        open={isConfirmOpen}
+        onOpenChange={setIsConfirmOpen}
+        title="Primleri Gidere İşle"
+        description="İşlenmemiş primler her personel için ayrı bir personel gideri olarak kaydedilecek. Aynı dönem için tekrar işlenemez. Devam etmek istiyor musunuz?"
+        confirmText="İşle"
+        cancelText="Vazgeç"
+        onConfirm={() => postPayrollMutation.mutate()}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,246 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { tr } from "date-fns/locale";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn, formatCurrency } from "@/lib/utils";
+import { RevenueReport, RevenueReportGroupBy, RevenueReportTotals } from "@shared/schema";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from "recharts";
+
+interface RevenueReportCardProps {
+  title: string;
+  startDate: Date;
+  endDate: Date; // Dahil
+  groupBy: RevenueReportGroupBy;
+}
+
+// Dönem etiketleri: günlük gruplamada gün adı, haftalıkta hafta başı, aylıkta ay adı
+const PERIOD_LABEL_FORMATS: Record<RevenueReportGroupBy, string> = {
+  day: "EEE d MMM",
+  week: "d MMM",
+  month: "MMMM",
+  year: "yyyy",
+};
+
+function formatPeriod(period: string, groupBy: RevenueReportGroupBy): string {
+  return format(new Date(`${period}T00:00`), PERIOD_LABEL_FORMATS[groupBy], { locale: tr });
+}
+
+// Önceki döneme göre yüzde değişim; önceki dönem sıfırsa karşılaştırma yapılamaz
+function getChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+}
+
+interface SummaryCardProps {
+  label: string;
+  value: string;
+  current: number;
+  previous?: number;
+  invert?: boolean; // Giderlerde artış olumsuzdur
+}
+
+function SummaryCard({ label, value, current, previous, invert }: SummaryCardProps) {
+  const change = previous === undefined ? null : getChange(current, previous);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{label}</CardDescription>
+        <CardTitle className="text-2xl">{value}</CardTitle>
+        {change !== null && (
+          <p
+            className={cn(
+              "text-xs",
+              change === 0
+                ? "text-gray-500"
+                : (change > 0) !== !!invert
+                  ? "text-green-600"
+                  : "text-red-600"
+            )}
+          >
+            {change > 0 ? "+" : ""}{change.toFixed(1)}% önceki döneme göre
+          </p>
+        )}
+      </CardHeader>
+    </Card>
+  );
+}
+
+// /api/reports/revenue üzerinden dönemsel gelir, tahsilat, iş sayısı ve gider özeti
+export default function RevenueReportCard({ title, startDate, endDate, groupBy }: RevenueReportCardProps) {
+  const params = new URLSearchParams({
+    startDate: format(startDate, "yyyy-MM-dd"),
+    endDate: format(endDate, "yyyy-MM-dd"),
+    groupBy,
+    compare: "true",
+  });
+
+  const reportQuery = useQuery<RevenueReport>({
+    queryKey: [`/api/reports/revenue?${params.toString()}`],
+    refetchInterval: 30000,
+  });
+
+  const report = reportQuery.data;
+  const previous: Partial<RevenueReportTotals> = report?.previous?.totals ?? {};
+  const chartData = report?.buckets.map(bucket => ({
+    ...bucket,
+    label: formatPeriod(bucket.period, groupBy),
+  })) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <SummaryCard
+          label="Toplam Gelir"
+          value={`${formatCurrency(report?.totals.revenue ?? 0)} TL`}
+          current={report?.totals.revenue ?? 0}
+          previous={previous.revenue}
+        />
+        <SummaryCard
+          label="Tahsil Edilen"
+          value={`${formatCurrency(report?.totals.collected ?? 0)} TL`}
+          current={report?.totals.collected ?? 0}
+          previous={previous.collected}
+        />
+        <SummaryCard
+          label="Toplam İş Sayısı"
+          value={`${report?.totals.jobCount ?? 0}`}
+          current={report?.totals.jobCount ?? 0}
+          previous={previous.jobCount}
+        />
+        <SummaryCard
+          label="Ortalama İş Başı Gelir"
+          value={`${formatCurrency(report?.totals.averageTicket ?? 0)} TL`}
+          current={report?.totals.averageTicket ?? 0}
+          previous={previous.averageTicket}
+        />
+        <SummaryCard
+          label="Toplam Gider"
+          value={`${formatCurrency(report?.totals.expenses ?? 0)} TL`}
+          current={report?.totals.expenses ?? 0}
+          previous={previous.expenses}
+          invert
+        />
+        <SummaryCard
+          label="Net Kâr"
+          value={`${formatCurrency(report?.totals.netProfit ?? 0)} TL`}
+          current={report?.totals.netProfit ?? 0}
+          previous={previous.netProfit}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{title}</CardTitle>
+          <CardDescription>
+            {format(startDate, "d MMMM yyyy", { locale: tr })} - {format(endDate, "d MMMM yyyy", { locale: tr })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="h-[400px]">
+            {reportQuery.isLoading ? (
+              <div className="h-full flex items-center justify-center">
+                <p>Yükleniyor...</p>
+              </div>
+            ) : reportQuery.isError ? (
+              <div className="h-full flex items-center justify-center">
+                <p>Veri yüklenirken bir hata oluştu</p>
+              </div>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart
+                  data={chartData}
+                  margin={{
+                    top: 5,
+                    right: 30,
+                    left: 20,
+                    bottom: 5,
+                  }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" />
+                  <YAxis />
+                  <Tooltip formatter={(value) => `${formatCurrency(value as number)} TL`} />
+                  <Legend />
+                  <Bar dataKey="revenue" name="Gelir" fill="#1E88E5" />
+                  <Bar dataKey="collected" name="Tahsilat" fill="#00C49F" />
+                  <Bar dataKey="expenses" name="Gider" fill="#FF6B6B" />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Dönem Detayları</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Dönem</TableHead>
+                <TableHead className="text-right">İş Sayısı</TableHead>
+                <TableHead className="text-right">Gelir</TableHead>
+                <TableHead className="text-right">Tahsilat</TableHead>
+                <TableHead className="text-right">Gider</TableHead>
+                <TableHead className="text-right">Net Kâr</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {chartData.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    {reportQuery.isLoading ? "Yükleniyor..." : "Bu dönem için veri bulunamadı"}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                chartData.map((bucket) => (
+                  <TableRow key={bucket.period}>
+                    <TableCell>{bucket.label}</TableCell>
+                    <TableCell className="text-right">{bucket.jobCount}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(bucket.revenue)} TL</TableCell>
+                    <TableCell className="text-right">{formatCurrency(bucket.collected)} TL</TableCell>
+                    <TableCell className="text-right">{formatCurrency(bucket.expenses)} TL</TableCell>
+                    <TableCell className="text-right">{formatCurrency(bucket.netProfit)} TL</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+            {report && chartData.length > 0 && (
+              <TableFooter>
+                <TableRow>
+                  <TableCell>Toplam</TableCell>
+                  <TableCell className="text-right">{report.totals.jobCount}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(report.totals.revenue)} TL</TableCell>
+                  <TableCell className="text-right">{formatCurrency(report.totals.collected)} TL</TableCell>
+                  <TableCell className="text-right">{formatCurrency(report.totals.expenses)} TL</TableCell>
+                  <TableCell className="text-right">{formatCurrency(report.totals.netProfit)} TL</TableCell>
+                </TableRow>
+              </TableFooter>
+            )}
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
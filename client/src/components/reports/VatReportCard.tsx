@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { tr } from "date-fns/locale";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatCurrency } from "@/lib/utils";
+import { VatRateSummary, VatReport } from "@shared/schema";
+
+interface VatRateTableProps {
+  title: string;
+  rows: VatRateSummary[];
+  emptyText: string;
+}
+
+// Oran bazında matrah / KDV / toplam tablosu
+function VatRateTable({ title, rows, emptyText }: VatRateTableProps) {
+  const totals = rows.reduce(
+    (sum, row) => ({ net: sum.net + row.net, vat: sum.vat + row.vat, gross: sum.gross + row.gross }),
+    { net: 0, vat: 0, gross: 0 }
+  );
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium mb-2">{title}</h3>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>KDV Oranı</TableHead>
+            <TableHead className="text-right">Matrah</TableHead>
+            <TableHead className="text-right">KDV</TableHead>
+            <TableHead className="text-right">Toplam</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={4} className="text-center text-muted-foreground">
+                {emptyText}
+              </TableCell>
+            </TableRow>
+          ) : (
+            rows.map((row) => (
+              <TableRow key={row.vatRate}>
+                <TableCell>%{row.vatRate}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.net)} TL</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.vat)} TL</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.gross)} TL</TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+        {rows.length > 0 && (
+          <TableFooter>
+            <TableRow>
+              <TableCell>Toplam</TableCell>
+              <TableCell className="text-right">{formatCurrency(totals.net)} TL</TableCell>
+              <TableCell className="text-right">{formatCurrency(totals.vat)} TL</TableCell>
+              <TableCell className="text-right">{formatCurrency(totals.gross)} TL</TableCell>
+            </TableRow>
+          </TableFooter>
+        )}
+      </Table>
+    </div>
+  );
+}
+
+// Aylık KDV beyanı için hesaplanan / indirilecek KDV özeti
+export default function VatReportCard() {
+  const [month, setMonth] = useState(format(new Date(), "yyyy-MM"));
+
+  const vatQuery = useQuery<VatReport>({
+    queryKey: [`/api/reports/vat?month=${month}`],
+    enabled: /^\d{4}-\d{2}$/.test(month),
+  });
+
+  const report = vatQuery.data;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex justify-between items-center">
+          <span>KDV Raporu</span>
+          <Input
+            type="month"
+            className="w-44"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+          />
+        </CardTitle>
+        <CardDescription>
+          {/^\d{4}-\d{2}$/.test(month)
+            ? `${format(new Date(`${month}-01T00:00:00`), "MMMM yyyy", { locale: tr })} dönemi KDV özeti`
+            : "Dönem seçin"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {vatQuery.isLoading ? (
+          <p className="text-center py-6">Yükleniyor...</p>
+        ) : vatQuery.isError || !report ? (
+          <p className="text-center py-6">KDV raporu yüklenirken bir hata oluştu</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Hesaplanan KDV (Satışlar)</CardDescription>
+                  <CardTitle className="text-2xl">{formatCurrency(report.outputVat)} TL</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>İndirilecek KDV (Giderler)</CardDescription>
+                  <CardTitle className="text-2xl">{formatCurrency(report.inputVat)} TL</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>
+                    {report.payableVat >= 0 ? "Ödenecek KDV" : "Sonraki Döneme Devreden KDV"}
+                  </CardDescription>
+                  <CardTitle className={report.payableVat >= 0 ? "text-2xl text-red-600" : "text-2xl text-green-600"}>
+                    {formatCurrency(Math.abs(report.payableVat))} TL
+                  </CardTitle>
+                </CardHeader>
+              </Card>
+            </div>
+
+            <VatRateTable
+              title="Hesaplanan KDV"
+              rows={report.output}
+              emptyText="Bu dönemde satış bulunmuyor"
+            />
+            <VatRateTable
+              title="İndirilecek KDV"
+              rows={report.input}
+              emptyText="Bu dönemde KDV'li gider bulunmuyor"
+            />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
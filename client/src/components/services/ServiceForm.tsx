@@ -13,8 +13,16 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { insertServiceSchema, Service } from "@shared/schema";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { CommissionType, commissionTypeEnum, insertServiceSchema, Service, VAT_RATES } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { useAppSettings } from "@/hooks/use-app-settings";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useEffect } from "react";
 
@@ -24,10 +32,24 @@ interface ServiceFormProps {
 
 export default function ServiceForm({ serviceId }: ServiceFormProps) {
   const { toast } = useToast();
+  const { settings } = useAppSettings();
   
   // Define the form with extended schema that requires price to be a string
   const formSchema = insertServiceSchema.extend({
     price: z.string().min(1, "Fiyat zorunludur"),
+    durationMinutes: z.coerce.number().int().min(1, "Süre en az 1 dakika olmalıdır"),
+    vatRate: z.string(),
+    commissionType: commissionTypeEnum,
+    commissionValue: z.string(),
+  }).superRefine((data, ctx) => {
+    const value = Number(data.commissionValue || 0);
+    if (data.commissionType !== "yok" && (isNaN(value) || value < 0 || (data.commissionType === "yuzde" && value > 100))) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["commissionValue"],
+        message: data.commissionType === "yuzde" ? "Yüzde 0 ile 100 arasında olmalıdır" : "Prim negatif olamaz",
+      });
+    }
   });
   
   // Define the form
@@ -37,6 +59,10 @@ export default function ServiceForm({ serviceId }: ServiceFormProps) {
       name: "",
       price: "",
       description: "",
+      durationMinutes: 30,
+      vatRate: String(settings.vatRate),
+      commissionType: "yok",
+      commissionValue: "0",
     },
   });
   
@@ -53,6 +79,10 @@ export default function ServiceForm({ serviceId }: ServiceFormProps) {
         name: serviceQuery.data.name,
         price: serviceQuery.data.price.toString(),
         description: serviceQuery.data.description || "",
+        durationMinutes: serviceQuery.data.durationMinutes,
+        vatRate: String(Number(serviceQuery.data.vatRate)),
+        commissionType: serviceQuery.data.commissionType as CommissionType,
+        commissionValue: String(Number(serviceQuery.data.commissionValue)),
       });
     }
   }, [serviceId, serviceQuery.data, form]);
@@ -165,6 +195,96 @@ export default function ServiceForm({ serviceId }: ServiceFormProps) {
           )}
         />
         
+        <FormField
+          control={form.control}
+          name="vatRate"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>KDV Oranı (fiyata dahil)</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="KDV oranı seçin" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {VAT_RATES.map((rate) => (
+                    <SelectItem key={rate} value={rate.toString()}>
+                      %{rate}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        
+        <FormField
+          control={form.control}
+          name="durationMinutes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Tahmini Süre (dakika)</FormLabel>
+              <FormControl>
+                <Input 
+                  type="number" 
+                  step="5" 
+                  min="1" 
+                  placeholder="30" 
+                  {...field} 
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="commissionType"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Personel Primi</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Prim türü seçin" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="yok">Prim yok</SelectItem>
+                    <SelectItem value="sabit">Sabit tutar (adet başına)</SelectItem>
+                    <SelectItem value="yuzde">Yüzde (KDV hariç tutar)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          
+          <FormField
+            control={form.control}
+            name="commissionValue"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{form.watch("commissionType") === "yuzde" ? "Prim Oranı (%)" : "Prim Tutarı (TL)"}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    disabled={form.watch("commissionType") === "yok"}
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        
         <FormField
           control={form.control}
           name="description"
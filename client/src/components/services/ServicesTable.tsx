@@ -164,6 +164,9 @@ export default function ServicesTable({
               <TableHead onClick={() => handleSort("price")} className="cursor-pointer">
                 Fiyat <ArrowUpDown className="inline h-4 w-4 ml-1" />
               </TableHead>
+              <TableHead>KDV</TableHead>
+              <TableHead>Süre</TableHead>
+              <TableHead>Prim</TableHead>
               <TableHead onClick={() => handleSort("description")} className="cursor-pointer">
                 Açıklama <ArrowUpDown className="inline h-4 w-4 ml-1" />
               </TableHead>
@@ -173,13 +176,13 @@ export default function ServicesTable({
           <TableBody>
             {isLoading ? (
               <TableRow>
-                <TableCell colSpan={5} className="text-center h-24">
+                <TableCell colSpan={8} className="text-center h-24">
                   Yükleniyor...
                 </TableCell>
               </TableRow>
             ) : paginatedServices.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={5} className="text-center h-24">
+                <TableCell colSpan={8} className="text-center h-24">
                   Hizmet bulunamadı
                 </TableCell>
               </TableRow>
@@ -189,6 +192,15 @@ export default function ServicesTable({
                   <TableCell>{service.id}</TableCell>
                   <TableCell className="font-medium">{service.name}</TableCell>
                   <TableCell>{formatCurrency(service.price)} TL</TableCell>
+                  <TableCell>%{Number(service.vatRate)}</TableCell>
+                  <TableCell>{service.durationMinutes} dk</TableCell>
+                  <TableCell>
+                    {service.commissionType === "sabit"
+                      ? `${formatCurrency(service.commissionValue)} TL`
+                      : service.commissionType === "yuzde"
+                        ? `%${Number(service.commissionValue)}`
+                        : "-"}
+                  </TableCell>
                   <TableCell>{service.description || "-"}</TableCell>
                   <TableCell>
                     <div className="flex space-x-2">
@@ -0,0 +1,255 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Customer, Vehicle, SubscriptionPlanDetail } from "@shared/schema";
+import { apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+
+interface SubscriptionFormProps {
+  onSaved: () => void;
+}
+
+const formSchema = z.object({
+  customerId: z.number({ required_error: "Lütfen müşteri seçiniz" }).positive("Lütfen müşteri seçiniz"),
+  planId: z.number({ required_error: "Lütfen paket seçiniz" }).positive("Lütfen paket seçiniz"),
+  vehicleId: z.string(), // "all" veya araç ID'si
+  startDate: z.string().min(1, "Başlangıç tarihi zorunludur"),
+  autoRenew: z.boolean(),
+  notes: z.string().optional(),
+});
+
+type SubscriptionFormValues = z.infer<typeof formSchema>;
+
+export default function SubscriptionForm({ onSaved }: SubscriptionFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<SubscriptionFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      vehicleId: "all",
+      startDate: format(new Date(), "yyyy-MM-dd"),
+      autoRenew: false,
+      notes: "",
+    },
+  });
+
+  // Fetch customers
+  const customersQuery = useQuery<Customer[]>({
+    queryKey: ["/api/customers"],
+  });
+
+  // Fetch vehicles
+  const vehiclesQuery = useQuery<Vehicle[]>({
+    queryKey: ["/api/vehicles"],
+  });
+
+  // Fetch plans
+  const plansQuery = useQuery<SubscriptionPlanDetail[]>({
+    queryKey: ["/api/subscription-plans"],
+  });
+
+  const selectedCustomerId = form.watch("customerId");
+  const customerVehicles = vehiclesQuery.data?.filter(
+    vehicle => vehicle.customerId === selectedCustomerId
+  ) || [];
+  const activePlans = plansQuery.data?.filter(plan => plan.isActive) || [];
+
+  // Müşteri değişince araç seçimini sıfırla
+  useEffect(() => {
+    form.setValue("vehicleId", "all");
+  }, [selectedCustomerId]);
+
+  const createSubscriptionMutation = useMutation({
+    mutationFn: async (values: SubscriptionFormValues) => {
+      const res = await apiRequest("POST", "/api/subscriptions", {
+        customerId: values.customerId,
+        planId: values.planId,
+        vehicleId: values.vehicleId === "all" ? null : parseInt(values.vehicleId),
+        startDate: new Date(`${values.startDate}T00:00`).toISOString(),
+        autoRenew: values.autoRenew,
+        notes: values.notes,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateQueriesByPrefix("/api/subscriptions");
+      invalidateQueriesByPrefix("/api/reports/subscriptions");
+      toast({
+        title: "Başarılı",
+        description: "Üyelik başarıyla oluşturuldu.",
+      });
+      onSaved();
+    },
+    onError: () => {
+      toast({
+        title: "Hata",
+        description: "Üyelik oluşturulurken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => createSubscriptionMutation.mutate(values))} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="customerId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Müşteri</FormLabel>
+                <Select
+                  value={field.value?.toString()}
+                  onValueChange={(value) => field.onChange(parseInt(value))}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Müşteri seçin" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {customersQuery.data?.map((customer) => (
+                      <SelectItem key={customer.id} value={customer.id.toString()}>
+                        {customer.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="vehicleId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Araç</FormLabel>
+                <Select
+                  value={field.value}
+                  onValueChange={field.onChange}
+                  disabled={!selectedCustomerId}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Araç seçin" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="all">Tüm araçlar</SelectItem>
+                    {customerVehicles.map((vehicle) => (
+                      <SelectItem key={vehicle.id} value={vehicle.id.toString()}>
+                        {vehicle.plate} - {vehicle.brand} {vehicle.model}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="planId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Paket</FormLabel>
+                <Select
+                  value={field.value?.toString()}
+                  onValueChange={(value) => field.onChange(parseInt(value))}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Paket seçin" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {activePlans.map((plan) => (
+                      <SelectItem key={plan.id} value={plan.id.toString()}>
+                        {plan.name} - {formatCurrency(plan.price)} TL / {plan.periodMonths} ay
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="startDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Başlangıç Tarihi</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="autoRenew"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+              <FormControl>
+                <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+              </FormControl>
+              <FormLabel>Dönem sonunda otomatik yenile (her dönemin ücreti müşteriye yansıtılır)</FormLabel>
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notlar</FormLabel>
+              <FormControl>
+                <Textarea rows={2} {...field} value={field.value || ''} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end pt-4">
+          <Button type="submit" disabled={createSubscriptionMutation.isPending}>
+            Kaydet
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
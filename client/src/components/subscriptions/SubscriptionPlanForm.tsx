@@ -0,0 +1,212 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Service, SubscriptionPlanDetail } from "@shared/schema";
+import { apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface SubscriptionPlanFormProps {
+  plan?: SubscriptionPlanDetail; // For editing an existing plan
+  onSaved: () => void;
+}
+
+const formSchema = z.object({
+  name: z.string().min(1, "Paket adı zorunludur"),
+  description: z.string().optional(),
+  price: z.string().min(1, "Fiyat zorunludur"),
+  periodMonths: z.coerce.number().int().min(1, "Dönem en az 1 ay olmalıdır").max(24),
+  visitLimit: z.string(), // Boş bırakılırsa sınırsız
+  isActive: z.boolean(),
+  serviceIds: z.array(z.number()).min(1, "En az bir hizmet seçiniz"),
+});
+
+type SubscriptionPlanFormValues = z.infer<typeof formSchema>;
+
+export default function SubscriptionPlanForm({ plan, onSaved }: SubscriptionPlanFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<SubscriptionPlanFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: plan?.name || "",
+      description: plan?.description || "",
+      price: plan ? plan.price.toString() : "",
+      periodMonths: plan?.periodMonths ?? 1,
+      visitLimit: plan?.visitLimit ? plan.visitLimit.toString() : "",
+      isActive: plan?.isActive ?? true,
+      serviceIds: plan?.serviceIds || [],
+    },
+  });
+
+  // Fetch services
+  const servicesQuery = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+  });
+
+  const savePlanMutation = useMutation({
+    mutationFn: async (values: SubscriptionPlanFormValues) => {
+      const payload = {
+        ...values,
+        visitLimit: values.visitLimit ? parseInt(values.visitLimit) : null,
+      };
+
+      const res = plan
+        ? await apiRequest("PUT", `/api/subscription-plans/${plan.id}`, payload)
+        : await apiRequest("POST", "/api/subscription-plans", payload);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateQueriesByPrefix("/api/subscription-plans");
+      toast({
+        title: "Başarılı",
+        description: `Üyelik paketi başarıyla ${plan ? "güncellendi" : "oluşturuldu"}.`,
+      });
+      onSaved();
+    },
+    onError: () => {
+      toast({
+        title: "Hata",
+        description: "Üyelik paketi kaydedilirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => savePlanMutation.mutate(values))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Paket Adı</FormLabel>
+              <FormControl>
+                <Input placeholder="Aylık Sınırsız Yıkama" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="price"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Dönem Ücreti (TL)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" min="0" placeholder="0.00" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="periodMonths"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Dönem (ay)</FormLabel>
+                <FormControl>
+                  <Input type="number" min="1" max="24" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="visitLimit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Ziyaret Hakkı</FormLabel>
+                <FormControl>
+                  <Input type="number" min="1" placeholder="Sınırsız" {...field} />
+                </FormControl>
+                <FormDescription>Dönem başına</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="serviceIds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Pakete Dahil Hizmetler</FormLabel>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {servicesQuery.data?.map((service) => (
+                  <div key={service.id} className="flex flex-row items-center space-x-2">
+                    <Checkbox
+                      checked={field.value.includes(service.id)}
+                      onCheckedChange={(checked) => {
+                        field.onChange(checked
+                          ? [...field.value, service.id]
+                          : field.value.filter(id => id !== service.id));
+                      }}
+                    />
+                    <span className="text-sm">{service.name}</span>
+                  </div>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Açıklama</FormLabel>
+              <FormControl>
+                <Textarea rows={2} {...field} value={field.value || ''} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="isActive"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+              <FormControl>
+                <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+              </FormControl>
+              <FormLabel>Yeni üyeliklerde satışa açık</FormLabel>
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end pt-4">
+          <Button type="submit" disabled={savePlanMutation.isPending}>
+            {plan ? "Güncelle" : "Kaydet"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
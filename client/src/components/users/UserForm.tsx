@@ -12,8 +12,15 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { insertUserSchema, User } from "@shared/schema";
+import { USER_ROLES, USER_ROLE_LABELS, userRoleEnum } from "@shared/permissions";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useEffect } from "react";
@@ -29,7 +36,7 @@ export default function UserForm({ userId }: UserFormProps) {
   const formSchema = insertUserSchema.extend({
     password: z.string().min(6, "Şifre en az 6 karakter olmalıdır"),
     confirmPassword: z.string(),
-    isAdmin: z.boolean().default(false),
+    role: userRoleEnum.default("cashier"),
   }).refine((data) => data.password === data.confirmPassword, {
     message: "Şifreler eşleşmiyor",
     path: ["confirmPassword"],
@@ -43,7 +50,7 @@ export default function UserForm({ userId }: UserFormProps) {
       password: "",
       confirmPassword: "",
       fullName: "",
-      isAdmin: false
+      role: "cashier"
     },
   });
   
@@ -61,7 +68,7 @@ export default function UserForm({ userId }: UserFormProps) {
         password: "", // Don't populate password field for security
         confirmPassword: "",
         fullName: userQuery.data.fullName,
-        isAdmin: userQuery.data.isAdmin
+        role: userRoleEnum.catch("cashier").parse(userQuery.data.role)
       });
     }
   }, [userId, userQuery.data, form]);
@@ -73,7 +80,7 @@ export default function UserForm({ userId }: UserFormProps) {
         username: data.username,
         password: data.password,
         fullName: data.fullName,
-        isAdmin: data.isAdmin
+        role: data.role
       };
       const res = await apiRequest("POST", "/api/users", userData);
       
@@ -108,7 +115,7 @@ export default function UserForm({ userId }: UserFormProps) {
       const userData: Partial<User> = {
         username: data.username,
         fullName: data.fullName,
-        isAdmin: data.isAdmin
+        role: data.role
       };
       
       if (data.password && data.password.length > 0) {
@@ -214,21 +221,25 @@ export default function UserForm({ userId }: UserFormProps) {
         
         <FormField
           control={form.control}
-          name="isAdmin"
+          name="role"
           render={({ field }) => (
-            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
-              <div className="space-y-0.5">
-                <FormLabel>Admin Yetkileri</FormLabel>
-                <div className="text-sm text-muted-foreground">
-                  Bu kullanıcıya yönetici yetkileri verir
-                </div>
-              </div>
-              <FormControl>
-                <Switch
-                  checked={field.value}
-                  onCheckedChange={field.onChange}
-                />
-              </FormControl>
+            <FormItem>
+              <FormLabel>Rol</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Rol seçin" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {USER_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {USER_ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
             </FormItem>
           )}
         />
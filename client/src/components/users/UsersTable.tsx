@@ -22,6 +22,7 @@ import {
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { User } from "@shared/schema";
+import { USER_ROLE_LABELS, userRoleEnum } from "@shared/permissions";
 import ConfirmDialog from "@/components/common/ConfirmDialog";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
@@ -76,9 +77,9 @@ export default function UsersTable({
         valueA = a.fullName;
         valueB = b.fullName;
         break;
-      case "isAdmin":
-        valueA = a.isAdmin ? 1 : 0;
-        valueB = b.isAdmin ? 1 : 0;
+      case "role":
+        valueA = a.role;
+        valueB = b.role;
         break;
       default:
         return 0;
@@ -173,7 +174,7 @@ export default function UsersTable({
               <TableHead onClick={() => handleSort("fullName")} className="cursor-pointer">
                 Ad Soyad <ArrowUpDown className="inline h-4 w-4 ml-1" />
               </TableHead>
-              <TableHead onClick={() => handleSort("isAdmin")} className="cursor-pointer">
+              <TableHead onClick={() => handleSort("role")} className="cursor-pointer">
                 Rol <ArrowUpDown className="inline h-4 w-4 ml-1" />
               </TableHead>
               <TableHead>İşlemler</TableHead>
@@ -199,15 +200,15 @@ export default function UsersTable({
                   <TableCell className="font-medium">{user.username}</TableCell>
                   <TableCell>{user.fullName}</TableCell>
                   <TableCell>
-                    {user.isAdmin ? (
+                    {user.role === "admin" ? (
                       <Badge className="bg-red-100 text-red-800">
                         <ShieldAlert className="h-3 w-3 mr-1" />
-                        Admin
+                        {USER_ROLE_LABELS.admin}
                       </Badge>
                     ) : (
                       <Badge className="bg-blue-100 text-blue-800">
                         <Shield className="h-3 w-3 mr-1" />
-                        Kullanıcı
+                        {USER_ROLE_LABELS[userRoleEnum.catch("cashier").parse(user.role)]}
                       </Badge>
                     )}
                   </TableCell>
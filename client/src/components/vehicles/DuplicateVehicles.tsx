@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Vehicle, Customer, MergeVehicles } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { formatDate } from "@/lib/utils";
+import ConfirmDialog from "@/components/common/ConfirmDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
+
+interface DuplicateVehiclesProps {
+  customers: Customer[];
+}
+
+// Eski kayıtlarda aynı plakayla açılmış araçlar; seçilen kayıt korunur, diğerlerinin geçmişi ona taşınır
+export default function DuplicateVehicles({ customers }: DuplicateVehiclesProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canManage = hasPermission(user, "vehicles.manage");
+  const [mergeTarget, setMergeTarget] = useState<{ target: Vehicle; sourceIds: number[] } | null>(null);
+
+  const duplicatesQuery = useQuery<Vehicle[][]>({
+    queryKey: ["/api/vehicles/duplicates"],
+  });
+
+  const mergeVehiclesMutation = useMutation({
+    mutationFn: async ({ targetId, data }: { targetId: number; data: MergeVehicles }) => {
+      const res = await apiRequest("POST", `/api/vehicles/${targetId}/merge`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateQueriesByPrefix("/api/vehicles");
+      invalidateQueriesByPrefix("/api/jobs");
+      invalidateQueriesByPrefix("/api/appointments");
+      invalidateQueriesByPrefix("/api/subscriptions");
+      toast({
+        title: "Başarılı",
+        description: "Araç kayıtları birleştirildi.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Hata",
+        description: "Araç kayıtları birleştirilirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getCustomerName = (customerId: number): string => {
+    const customer = customers.find(c => c.id === customerId);
+    return customer ? customer.name : "Bilinmeyen Müşteri";
+  };
+
+  const groups = duplicatesQuery.data || [];
+  if (groups.length === 0) return null;
+
+  return (
+    <Card className="mb-6 border-amber-300">
+      <CardHeader className="pb-2">
+        <CardTitle>Çakışan Plakalar</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Aynı plaka birden fazla araç kaydında bulunuyor. Korunacak kaydı seçin; diğer kayıtların iş emri,
+          randevu ve üyelikleri bu kayda taşınır ve diğer kayıtlar silinir.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {groups.map(group => (
+          <Table key={group[0].id}>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Plaka</TableHead>
+                <TableHead>Araç</TableHead>
+                <TableHead>Müşteri</TableHead>
+                <TableHead>Kayıt Tarihi</TableHead>
+                {canManage && <TableHead></TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {group.map(vehicle => (
+                <TableRow key={vehicle.id}>
+                  <TableCell className="font-medium">{vehicle.plate}</TableCell>
+                  <TableCell>{vehicle.brand} {vehicle.model}</TableCell>
+                  <TableCell>{getCustomerName(vehicle.customerId)}</TableCell>
+                  <TableCell>{formatDate(vehicle.createdAt)}</TableCell>
+                  {canManage && (
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={mergeVehiclesMutation.isPending}
+                        onClick={() => setMergeTarget({
+                          target: vehicle,
+                          sourceIds: group.filter(other => other.id !== vehicle.id).map(other => other.id),
+                        })}
+                      >
+                        Bu Kaydı Koru
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ))}
+      </CardContent>
+
+      <ConfirmDialog
+        open={mergeTarget !== null}
+        onOpenChange={(open) => !open && setMergeTarget(null)}
+        title="Kayıtları Birleştir"
+        description={mergeTarget
+          ? `${mergeTarget.sourceIds.length} kayıt ${mergeTarget.target.plate} (${getCustomerName(mergeTarget.target.customerId)}) kaydıyla birleştirilecek. Bu işlem geri alınamaz.`
+          : ""}
+        confirmText="Birleştir"
+        cancelText="İptal"
+        onConfirm={() => {
+          if (mergeTarget) {
+            mergeVehiclesMutation.mutate({ targetId: mergeTarget.target.id, data: { sourceIds: mergeTarget.sourceIds } });
+          }
+          setMergeTarget(null);
+        }}
+      />
+    </Card>
+  );
+}
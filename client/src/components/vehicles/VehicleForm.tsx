@@ -19,10 +19,11 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { insertVehicleSchema, Vehicle, Customer } from "@shared/schema";
+import { createVehicleSchema, insertVehicleSchema, Vehicle, Customer } from "@shared/schema";
+import { formatPlate, isValidPlate, normalizePlate } from "@shared/plate";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { useEffect } from "react";
+import { useEffect, useMemo } from "react";
 
 interface VehicleFormProps {
   vehicleId?: string; // For editing an existing vehicle
@@ -32,9 +33,19 @@ interface VehicleFormProps {
 export default function VehicleForm({ vehicleId, preselectedCustomerId }: VehicleFormProps) {
   const { toast } = useToast();
   
+  // Fetch vehicle details if editing
+  const vehicleQuery = useQuery<Vehicle>({
+    queryKey: [`/api/vehicles/${vehicleId}`],
+    enabled: !!vehicleId,
+  });
+  
+  // Düzenlemede mevcut plaka eski/yabancı biçimde olsa da değiştirilmeden kaydedilebilir
+  const currentPlate = vehicleId ? vehicleQuery.data?.plate : undefined;
+  const vehicleSchema = useMemo(() => createVehicleSchema(currentPlate), [currentPlate]);
+  
   // Define the form
   const form = useForm<z.infer<typeof insertVehicleSchema>>({
-    resolver: zodResolver(insertVehicleSchema),
+    resolver: zodResolver(vehicleSchema),
     defaultValues: {
       plate: "",
       brand: "",
@@ -49,10 +60,9 @@ export default function VehicleForm({ vehicleId, preselectedCustomerId }: Vehicl
     queryKey: ["/api/customers"],
   });
   
-  // Fetch vehicle details if editing
-  const vehicleQuery = useQuery<Vehicle>({
-    queryKey: [`/api/vehicles/${vehicleId}`],
-    enabled: !!vehicleId,
+  // Aynı plakanın başka araçta kayıtlı olup olmadığını göstermek için
+  const { data: vehicles } = useQuery<Vehicle[]>({
+    queryKey: ["/api/vehicles"],
   });
   
   // Load vehicle data when editing
@@ -84,10 +94,12 @@ export default function VehicleForm({ vehicleId, preselectedCustomerId }: Vehicl
       });
       form.reset();
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Hata",
-        description: "Araç oluşturulurken bir hata oluştu.",
+        description: error.message.startsWith("409")
+          ? "Bu plaka ile kayıtlı bir araç zaten var."
+          : "Araç oluşturulurken bir hata oluştu.",
         variant: "destructive",
       });
     },
@@ -101,20 +113,32 @@ export default function VehicleForm({ vehicleId, preselectedCustomerId }: Vehicl
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicles/duplicates"] });
       toast({
         title: "Başarılı",
         description: "Araç başarıyla güncellendi.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Hata",
-        description: "Araç güncellenirken bir hata oluştu.",
+        description: error.message.startsWith("409")
+          ? "Bu plaka ile kayıtlı bir araç zaten var."
+          : "Araç güncellenirken bir hata oluştu.",
         variant: "destructive",
       });
     },
   });
   
+  // Boşluk ve harf büyüklüğü farklı yazılmış aynı plaka da eşleşir
+  const plate = form.watch("plate");
+  const duplicateVehicle = plate?.trim()
+    ? vehicles?.find(vehicle =>
+        vehicle.id !== (vehicleId ? parseInt(vehicleId) : undefined) &&
+        normalizePlate(vehicle.plate) === normalizePlate(plate)
+      )
+    : undefined;
+  
   const onSubmit = (data: z.infer<typeof insertVehicleSchema>) => {
     if (vehicleId) {
       updateVehicleMutation.mutate({
@@ -136,8 +160,22 @@ export default function VehicleForm({ vehicleId, preselectedCustomerId }: Vehicl
             <FormItem>
               <FormLabel>Plaka</FormLabel>
               <FormControl>
-                <Input placeholder="34ABC123" {...field} />
+                <Input
+                  placeholder="34 ABC 123"
+                  {...field}
+                  onBlur={() => {
+                    if (isValidPlate(field.value)) {
+                      field.onChange(formatPlate(field.value));
+                    }
+                    field.onBlur();
+                  }}
+                />
               </FormControl>
+              {duplicateVehicle && (
+                <p className="text-sm text-amber-700">
+                  Bu plaka zaten kayıtlı: {duplicateVehicle.plate} - {duplicateVehicle.brand} {duplicateVehicle.model}
+                </p>
+              )}
               <FormMessage />
             </FormItem>
           )}
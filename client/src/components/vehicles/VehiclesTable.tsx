@@ -20,6 +20,7 @@ import {
   TableRow 
 } from "@/components/ui/table";
 import { Vehicle, Customer } from "@shared/schema";
+import { normalizePlate } from "@shared/plate";
 import { formatDate } from "@/lib/utils";
 import ConfirmDialog from "@/components/common/ConfirmDialog";
 import { useToast } from "@/hooks/use-toast";
@@ -59,9 +60,10 @@ export default function VehiclesTable({
     
     const searchLower = searchTerm.toLowerCase();
     const customerName = getCustomerName(vehicle.customerId).toLowerCase();
+    const searchPlate = normalizePlate(searchTerm);
     
     return (
-      vehicle.plate.toLowerCase().includes(searchLower) ||
+      (searchPlate !== "" && normalizePlate(vehicle.plate).includes(searchPlate)) ||
       vehicle.brand.toLowerCase().includes(searchLower) ||
       (vehicle.model && vehicle.model.toLowerCase().includes(searchLower)) ||
       (vehicle.color && vehicle.color.toLowerCase().includes(searchLower)) ||
@@ -138,6 +140,7 @@ export default function VehiclesTable({
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicles/duplicates"] });
       toast({
         title: "Başarılı",
         description: "Araç başarıyla silindi.",
@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import { AppSettings, DEFAULT_APP_SETTINGS, ThemeColor } from "@shared/settings";
+
+// Tema renklerinin --primary CSS değişkeni karşılıkları (HSL)
+export const THEME_COLOR_HSL: Record<ThemeColor, string> = {
+  blue: "210 84% 52%",
+  green: "142 71% 35%",
+  purple: "262 60% 50%",
+  red: "0 72% 50%",
+  gray: "220 9% 40%",
+};
+
+// Sunucudaki ayarlar; yüklenene kadar varsayılan değerler döner
+export function useAppSettings() {
+  const { data, isLoading } = useQuery<AppSettings>({
+    queryKey: ["/api/settings"],
+    refetchInterval: false, // Ayarlar nadiren değişir, kaydedince yenilenir
+  });
+
+  return {
+    settings: { ...DEFAULT_APP_SETTINGS, ...data },
+    isLoading,
+  };
+}
@@ -0,0 +1,26 @@
+import { useEffect, useState } from "react";
+import { invalidateQueriesByPrefix } from "@/lib/queryClient";
+
+// Sunucunun gönderdiği iş emri olaylarını dinle ve iş sorgularını yenile.
+// Bağlantı koparsa tarayıcı yeniden bağlanır; aradaki olaylar kaçmış olabileceği için bağlanınca da yenilenir.
+export function useJobEvents() {
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    const source = new EventSource("/api/events/jobs", { withCredentials: true });
+
+    source.onopen = () => {
+      setIsConnected(true);
+      invalidateQueriesByPrefix("/api/jobs");
+    };
+    source.onerror = () => setIsConnected(false);
+    source.addEventListener("job", () => {
+      invalidateQueriesByPrefix("/api/jobs");
+      invalidateQueriesByPrefix("/api/stats");
+    });
+
+    return () => source.close();
+  }, []);
+
+  return { isConnected };
+}
@@ -55,3 +55,10 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// Sorgu parametrelerini URL'de taşıyan anahtarları önek ile geçersiz kıl
+export function invalidateQueriesByPrefix(prefix: string) {
+  return queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith(prefix),
+  });
+}
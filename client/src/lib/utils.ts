@@ -2,6 +2,7 @@ import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
 import { format, parseISO } from "date-fns";
 import { tr } from "date-fns/locale";
+import { paymentMethodEnum, PAYMENT_METHOD_LABELS } from "@shared/schema";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -33,6 +34,15 @@ export const jobStatusOptions = [
   { label: "İptal", value: "iptal" }
 ];
 
+export const paymentMethodOptions = paymentMethodEnum.options.map(value => ({
+  label: PAYMENT_METHOD_LABELS[value],
+  value
+}));
+
+export function getPaymentMethodLabel(method: string): string {
+  return paymentMethodOptions.find(option => option.value === method)?.label || "Belirtilmemiş";
+}
+
 export function getJobStatusDisplay(status: string): {
   label: string;
   className: string;
@@ -0,0 +1,320 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { format } from "date-fns";
+import { ArrowLeft, Ban, Printer } from "lucide-react";
+import { useReactToPrint } from "react-to-print";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AccountInvoiceReport,
+  MoneyPaymentMethod,
+  moneyPaymentMethodEnum,
+  PAYMENT_METHOD_LABELS
+} from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useAppSettings } from "@/hooks/use-app-settings";
+import ConfirmDialog from "@/components/common/ConfirmDialog";
+import { getInvoiceStatusDisplay } from "@/components/accounts/AccountInvoicesTable";
+
+// Cari hesap faturası / hesap ekstresi: yazdırılabilir döküm, tahsilat ve iptal
+export default function AccountInvoice() {
+  const { id } = useParams<{ id: string }>();
+  const invoiceId = parseInt(id);
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { settings } = useAppSettings();
+  const canManage = hasPermission(user, "accounts.manage");
+  const printRef = useRef<HTMLDivElement>(null);
+
+  const [paymentAmount, setPaymentAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<MoneyPaymentMethod>("havale_eft");
+  const [isCancelOpen, setIsCancelOpen] = useState(false);
+
+  const invoiceQuery = useQuery<AccountInvoiceReport>({
+    queryKey: [`/api/account-invoices/${invoiceId}`],
+    enabled: !isNaN(invoiceId),
+  });
+
+  const refreshInvoice = () => {
+    invalidateQueriesByPrefix("/api/account-invoices");
+    invalidateQueriesByPrefix("/api/reports/receivables-aging");
+    invalidateQueriesByPrefix("/api/jobs");
+  };
+
+  const paymentMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/account-invoices/${invoiceId}/payments`, {
+        amount: paymentAmount,
+        method: paymentMethod,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      refreshInvoice();
+      // Nakit tahsilatlar açık kasa oturumuna girer
+      invalidateQueriesByPrefix("/api/cash-sessions");
+      setPaymentAmount("");
+      toast({
+        title: "Başarılı",
+        description: "Ödeme faturadaki işlere dağıtılarak kaydedildi.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Hata",
+        description: error.message.startsWith("400")
+          ? "Ödeme tutarı fatura bakiyesini aşıyor."
+          : "Ödeme kaydedilirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/account-invoices/${invoiceId}/cancel`);
+      return res.json();
+    },
+    onSuccess: () => {
+      refreshInvoice();
+      setIsCancelOpen(false);
+      toast({
+        title: "Başarılı",
+        description: "Fatura iptal edildi; işler yeniden faturalanabilir.",
+      });
+    },
+    onError: () => {
+      setIsCancelOpen(false);
+      toast({
+        title: "Hata",
+        description: "Fatura iptal edilirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // @ts-ignore - Explicitly ignore type issues with react-to-print
+  const handlePrint = useReactToPrint({
+    documentTitle: `Cari Hesap Faturası #${invoiceId}`,
+    onPrintError: (error) => console.error("Print failed:", error),
+    // @ts-ignore - content prop is required but not in types
+    content: () => printRef.current,
+  });
+
+  if (invoiceQuery.isLoading) {
+    return <div className="container mx-auto px-4 py-8 text-center">Yükleniyor...</div>;
+  }
+
+  const invoice = invoiceQuery.data;
+  if (!invoice) {
+    return <div className="container mx-auto px-4 py-8 text-center">Fatura bulunamadı.</div>;
+  }
+
+  const status = getInvoiceStatusDisplay(invoice);
+  const isOpen = invoice.status === "acik";
+
+  return (
+    <main className="container max-w-5xl mx-auto px-4 py-6">
+      <div className="flex justify-between items-center mb-6 no-print">
+        <div className="flex items-center">
+          <Link href="/accounts">
+            <Button variant="outline" size="sm" className="mr-2">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Geri
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-medium text-gray-darkest">Fatura #{invoice.id}</h1>
+        </div>
+        <div className="flex space-x-2">
+          {canManage && isOpen && (
+            <Button variant="outline" className="text-red-600" onClick={() => setIsCancelOpen(true)}>
+              <Ban className="mr-2 h-4 w-4" />
+              İptal Et
+            </Button>
+          )}
+          <Button variant="outline" onClick={handlePrint}>
+            <Printer className="mr-2 h-4 w-4" />
+            Yazdır
+          </Button>
+        </div>
+      </div>
+
+      <div ref={printRef} className="bg-white rounded-lg shadow p-8 mb-6">
+        <div className="flex justify-between items-start mb-8">
+          <div>
+            <h2 className="text-2xl font-bold text-primary">{settings.companyName}</h2>
+            {settings.address && <p className="text-sm text-gray-500">{settings.address}</p>}
+            {(settings.phone || settings.taxId) && (
+              <p className="text-sm text-gray-500">
+                {[settings.phone && `Tel: ${settings.phone}`, settings.taxId && `Vergi No: ${settings.taxId}`].filter(Boolean).join(" · ")}
+              </p>
+            )}
+          </div>
+          <div className="text-right">
+            <h3 className="text-xl font-semibold">Hesap Ekstresi</h3>
+            <p className="text-sm text-gray-500">Fatura No: {invoice.id}</p>
+            <p className="text-sm text-gray-500">Dönem: {invoice.period}</p>
+            <p className="text-sm text-gray-500">Tarih: {format(new Date(invoice.createdAt), "dd.MM.yyyy")}</p>
+            <p className="text-sm text-gray-500">Vade: {format(new Date(invoice.dueDate), "dd.MM.yyyy")}</p>
+            <Badge className={`mt-2 ${status.className}`}>{status.label}</Badge>
+          </div>
+        </div>
+
+        <div className="mb-8">
+          <h3 className="text-lg font-semibold mb-3 border-b pb-2">Müşteri Bilgileri</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+            <p><span className="font-medium">Unvan:</span> {invoice.customer.name}</p>
+            <p><span className="font-medium">Vergi No:</span> {invoice.customer.taxNumber || "-"}</p>
+            <p><span className="font-medium">Vergi Dairesi:</span> {invoice.customer.taxOffice || "-"}</p>
+            <p><span className="font-medium">Telefon:</span> {invoice.customer.phone || "-"}</p>
+            <p className="md:col-span-2"><span className="font-medium">Adres:</span> {invoice.customer.address || "-"}</p>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tarih</TableHead>
+              <TableHead>Fiş No</TableHead>
+              <TableHead>Plaka</TableHead>
+              <TableHead>Hizmetler</TableHead>
+              <TableHead className="text-right">Tutar</TableHead>
+              <TableHead className="text-right">Ödenen</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invoice.jobs.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground h-16">
+                  Fatura iptal edildiği için iş listesi boş
+                </TableCell>
+              </TableRow>
+            ) : (
+              invoice.jobs.map((job) => (
+                <TableRow key={job.id}>
+                  <TableCell>{format(new Date(job.createdAt), "dd.MM.yyyy")}</TableCell>
+                  <TableCell>
+                    <Link href={`/view-job/${job.id}`} className="text-primary hover:underline">
+                      {job.receiptNumber ?? `#${job.id}`}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="font-medium">{job.vehiclePlate}</TableCell>
+                  <TableCell>{job.services || "-"}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(job.totalAmount)} TL</TableCell>
+                  <TableCell className="text-right">{formatCurrency(job.paidAmount)} TL</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={4} className="text-right">Ara Toplam (KDV Hariç)</TableCell>
+              <TableCell colSpan={2} className="text-right">{formatCurrency(invoice.netAmount)} TL</TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell colSpan={4} className="text-right">KDV</TableCell>
+              <TableCell colSpan={2} className="text-right">{formatCurrency(invoice.vatAmount)} TL</TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell colSpan={4} className="text-right font-bold">Genel Toplam</TableCell>
+              <TableCell colSpan={2} className="text-right font-bold">{formatCurrency(invoice.totalAmount)} TL</TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell colSpan={4} className="text-right">Ödenen</TableCell>
+              <TableCell colSpan={2} className="text-right">{formatCurrency(invoice.paidAmount)} TL</TableCell>
+            </TableRow>
+            <TableRow>
+              <TableCell colSpan={4} className="text-right font-bold">Kalan</TableCell>
+              <TableCell colSpan={2} className="text-right font-bold">{formatCurrency(invoice.remaining)} TL</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+
+        {invoice.notes && <p className="mt-6 text-sm text-gray-600">Not: {invoice.notes}</p>}
+      </div>
+
+      {canManage && isOpen && invoice.remaining > 0 && (
+        <Card className="no-print">
+          <CardHeader>
+            <CardTitle>Tahsilat</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground mb-4">
+              Ödeme, faturadaki işlerin kalan tutarlarına en eski işten başlayarak dağıtılır.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="invoicePaymentAmount">Tutar (TL)</Label>
+                <Input
+                  id="invoicePaymentAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max={invoice.remaining}
+                  placeholder={formatCurrency(invoice.remaining)}
+                  value={paymentAmount}
+                  onChange={(e) => setPaymentAmount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Ödeme Yöntemi</Label>
+                <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as MoneyPaymentMethod)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Ödeme yöntemi seçin" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {moneyPaymentMethodEnum.options.map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {PAYMENT_METHOD_LABELS[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                onClick={() => paymentMutation.mutate()}
+                disabled={paymentMutation.isPending || !(Number(paymentAmount) > 0)}
+              >
+                Ödeme Al
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <ConfirmDialog
+        open={isCancelOpen}
+        onOpenChange={setIsCancelOpen}
+        title="Faturayı İptal Et"
+        description="Fatura iptal edildiğinde işler serbest kalır ve sonraki faturaya eklenebilir. Alınan ödemeler işlerde kalır. Devam etmek istiyor musunuz?"
+        confirmText="İptal Et"
+        cancelText="Vazgeç"
+        onConfirm={() => cancelMutation.mutate()}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AccountInvoiceDetail, ReceivablesAging, ReceivablesAgingBuckets } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { formatCurrency } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import AccountInvoiceForm from "@/components/accounts/AccountInvoiceForm";
+import AccountInvoicesTable, { getInvoiceStatusDisplay } from "@/components/accounts/AccountInvoicesTable";
+
+const AGING_COLUMNS: { key: keyof ReceivablesAgingBuckets; label: string }[] = [
+  { key: "unbilled", label: "Faturalanmamış" },
+  { key: "current", label: "Vadesi Gelmemiş" },
+  { key: "days1to30", label: "1-30 Gün" },
+  { key: "days31to60", label: "31-60 Gün" },
+  { key: "days61to90", label: "61-90 Gün" },
+  { key: "over90", label: "90+ Gün" },
+  { key: "total", label: "Toplam" },
+];
+
+export default function Accounts() {
+  const { user } = useAuth();
+  const [_, navigate] = useLocation();
+  const canManage = hasPermission(user, "accounts.manage");
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [statusFilter, setStatusFilter] = useState("acik");
+
+  const agingQuery = useQuery<ReceivablesAging>({
+    queryKey: ["/api/reports/receivables-aging"],
+  });
+
+  const invoicesQuery = useQuery<AccountInvoiceDetail[]>({
+    queryKey: ["/api/account-invoices"],
+  });
+
+  const aging = agingQuery.data;
+  const invoices = (invoicesQuery.data || []).filter(invoice => {
+    if (statusFilter === "tumu") return true;
+    if (statusFilter === "acik") return invoice.status === "acik" && invoice.remaining > 0;
+    return getInvoiceStatusDisplay(invoice).label === "Vadesi Geçti";
+  });
+
+  return (
+    <main className="container mx-auto px-4 py-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-medium text-gray-darkest">Cari Hesaplar</h1>
+        {canManage && (
+          <Button onClick={() => setIsFormOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Fatura Oluştur
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Toplam Alacak</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(aging?.totals.total ?? 0)} TL</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Faturalanmamış</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(aging?.totals.unbilled ?? 0)} TL</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Vadesi Geçmiş</CardDescription>
+            <CardTitle className="text-2xl text-red-600">
+              {formatCurrency(aging
+                ? aging.totals.days1to30 + aging.totals.days31to60 + aging.totals.days61to90 + aging.totals.over90
+                : 0)} TL
+            </CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Alacak Yaşlandırma</CardTitle>
+          <CardDescription>Faturalı alacaklar vade tarihinden bu yana geçen güne göre gruplanır</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Müşteri</TableHead>
+                  {AGING_COLUMNS.map((column) => (
+                    <TableHead key={column.key} className="text-right">{column.label}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!aging || aging.rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={AGING_COLUMNS.length + 1} className="text-center text-muted-foreground h-16">
+                      {agingQuery.isLoading ? "Yükleniyor..." : "Açık alacak bulunmuyor"}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  aging.rows.map((row) => (
+                    <TableRow key={row.customerId}>
+                      <TableCell>
+                        <Link href={`/customer/${row.customerId}`} className="text-primary hover:underline">
+                          {row.customerName}
+                        </Link>
+                      </TableCell>
+                      {AGING_COLUMNS.map((column) => (
+                        <TableCell
+                          key={column.key}
+                          className={column.key === "total" ? "text-right font-medium" : "text-right"}
+                        >
+                          {row[column.key] > 0 ? formatCurrency(row[column.key]) : "-"}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+              {aging && aging.rows.length > 0 && (
+                <TableFooter>
+                  <TableRow>
+                    <TableCell className="font-medium">Toplam</TableCell>
+                    {AGING_COLUMNS.map((column) => (
+                      <TableCell key={column.key} className="text-right font-medium">
+                        {formatCurrency(aging.totals[column.key])}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableFooter>
+              )}
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex justify-between items-center">
+            <span>Faturalar</span>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="acik">Ödenmemiş</SelectItem>
+                <SelectItem value="vadesi_gecti">Vadesi Geçmiş</SelectItem>
+                <SelectItem value="tumu">Tümü</SelectItem>
+              </SelectContent>
+            </Select>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <AccountInvoicesTable invoices={invoices} isLoading={invoicesQuery.isLoading} />
+        </CardContent>
+      </Card>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Aylık Fatura Oluştur</DialogTitle>
+          </DialogHeader>
+          <AccountInvoiceForm
+            onSaved={(invoice) => {
+              setIsFormOpen(false);
+              navigate(`/account-invoices/${invoice.id}`);
+            }}
+          />
+        </DialogContent>
+      </Dialog>
+    </main>
+  );
+}
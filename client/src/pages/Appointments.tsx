@@ -0,0 +1,323 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { 
+  addDays, 
+  addWeeks, 
+  endOfDay, 
+  endOfWeek, 
+  format, 
+  isSameDay, 
+  startOfDay, 
+  startOfWeek 
+} from "date-fns";
+import { tr } from "date-fns/locale";
+import { ChevronLeft, ChevronRight, Plus, Settings2, Trash } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AppointmentDetail, WashBay } from "@shared/schema";
+import { cn } from "@/lib/utils";
+import { queryClient, apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import AppointmentForm from "@/components/appointments/AppointmentForm";
+
+// Takvimde gösterilen çalışma saatleri
+const DAY_HOURS = Array.from({ length: 13 }, (_, i) => i + 8); // 08:00 - 20:00
+
+function getAppointmentStatusClass(status: string): string {
+  switch (status) {
+    case "geldi":
+      return "bg-green-100 text-green-800 border-green-300";
+    case "iptal":
+      return "bg-red-50 text-red-400 border-red-200 line-through";
+    default:
+      return "bg-blue-100 text-blue-800 border-blue-300";
+  }
+}
+
+function AppointmentChip({ appointment, onClick }: { appointment: AppointmentDetail; onClick: () => void }) {
+  const start = new Date(appointment.startTime);
+  const end = new Date(start.getTime() + appointment.durationMinutes * 60 * 1000);
+  
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        "w-full text-left text-xs rounded border px-2 py-1 mb-1",
+        getAppointmentStatusClass(appointment.status)
+      )}
+    >
+      <div className="font-medium">
+        {format(start, "HH:mm")}-{format(end, "HH:mm")} {appointment.vehiclePlate}
+      </div>
+      <div className="truncate">{appointment.customerName}</div>
+      {appointment.jobId && <div className="italic">İş emri #{appointment.jobId}</div>}
+    </button>
+  );
+}
+
+export default function Appointments() {
+  const { toast } = useToast();
+  const [view, setView] = useState<"day" | "week">("day");
+  const [currentDate, setCurrentDate] = useState(new Date());
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isBaysOpen, setIsBaysOpen] = useState(false);
+  const [selectedAppointment, setSelectedAppointment] = useState<AppointmentDetail | undefined>();
+  const [defaultStart, setDefaultStart] = useState<Date | undefined>();
+  const [newBayName, setNewBayName] = useState("");
+  
+  const rangeStart = view === "day" ? startOfDay(currentDate) : startOfWeek(currentDate, { weekStartsOn: 1 });
+  const rangeEnd = view === "day" ? endOfDay(currentDate) : endOfWeek(currentDate, { weekStartsOn: 1 });
+  
+  // Fetch appointments for the visible range
+  const appointmentsQuery = useQuery<AppointmentDetail[]>({
+    queryKey: [`/api/appointments?startDate=${rangeStart.toISOString()}&endDate=${rangeEnd.toISOString()}`],
+  });
+  
+  // Fetch wash bays
+  const washBaysQuery = useQuery<WashBay[]>({
+    queryKey: ["/api/wash-bays"],
+  });
+  
+  const appointments = appointmentsQuery.data || [];
+  const activeBays = (washBaysQuery.data || []).filter(bay => bay.isActive);
+  
+  // Gün görünümünde her alan bir sütun, atanmamış randevular ayrı sütunda
+  const bayColumns: { id: number | null; name: string }[] = [
+    ...activeBays.map(bay => ({ id: bay.id, name: bay.name })),
+    { id: null, name: "Atanmamış" },
+  ];
+  
+  const createBayMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", "/api/wash-bays", { name });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wash-bays"] });
+      setNewBayName("");
+    },
+    onError: () => {
+      toast({
+        title: "Hata",
+        description: "Yıkama alanı eklenirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const deleteBayMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/wash-bays/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wash-bays"] });
+      invalidateQueriesByPrefix("/api/appointments");
+    },
+    onError: () => {
+      toast({
+        title: "Hata",
+        description: "Yıkama alanı silinirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const openNewAppointment = (start?: Date) => {
+    setSelectedAppointment(undefined);
+    setDefaultStart(start);
+    setIsFormOpen(true);
+  };
+  
+  const openAppointment = (appointment: AppointmentDetail) => {
+    setSelectedAppointment(appointment);
+    setDefaultStart(undefined);
+    setIsFormOpen(true);
+  };
+  
+  const movePeriod = (direction: 1 | -1) => {
+    setCurrentDate(view === "day" ? addDays(currentDate, direction) : addWeeks(currentDate, direction));
+  };
+  
+  const weekDays = Array.from({ length: 7 }, (_, i) => addDays(rangeStart, i));
+  
+  return (
+    <main className="container mx-auto px-4 py-6">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-medium text-gray-darkest">Randevular</h1>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => setIsBaysOpen(true)} className="flex items-center">
+            <Settings2 className="mr-2 h-4 w-4" /> Yıkama Alanları
+          </Button>
+          <Button onClick={() => openNewAppointment()} className="flex items-center">
+            <Plus className="mr-2 h-4 w-4" /> Yeni Randevu
+          </Button>
+        </div>
+      </div>
+      
+      <Card>
+        <CardHeader className="pb-2">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" size="icon" onClick={() => movePeriod(-1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" onClick={() => setCurrentDate(new Date())}>Bugün</Button>
+              <Button variant="outline" size="icon" onClick={() => movePeriod(1)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <CardTitle className="ml-2">
+                {view === "day"
+                  ? format(currentDate, "d MMMM yyyy, EEEE", { locale: tr })
+                  : `${format(rangeStart, "d MMM", { locale: tr })} - ${format(rangeEnd, "d MMM yyyy", { locale: tr })}`}
+              </CardTitle>
+            </div>
+            <Tabs value={view} onValueChange={(value) => setView(value as "day" | "week")}>
+              <TabsList>
+                <TabsTrigger value="day">Gün</TabsTrigger>
+                <TabsTrigger value="week">Hafta</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {appointmentsQuery.isLoading ? (
+            <div className="text-center py-10">Yükleniyor...</div>
+          ) : view === "day" ? (
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse table-fixed">
+                <thead>
+                  <tr>
+                    <th className="w-16 border-b"></th>
+                    {bayColumns.map((bay) => (
+                      <th key={bay.id ?? "none"} className="border-b py-2 text-sm font-medium">{bay.name}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {DAY_HOURS.map((hour) => (
+                    <tr key={hour} className="border-b align-top">
+                      <td className="py-2 text-xs text-gray-500">{hour.toString().padStart(2, "0")}:00</td>
+                      {bayColumns.map((bay) => {
+                        const slotStart = new Date(currentDate);
+                        slotStart.setHours(hour, 0, 0, 0);
+                        const cellAppointments = appointments.filter(appointment =>
+                          appointment.bayId === bay.id &&
+                          new Date(appointment.startTime).getHours() === hour
+                        );
+                        
+                        return (
+                          <td
+                            key={bay.id ?? "none"}
+                            className="border-l p-1 h-14 cursor-pointer hover:bg-gray-50"
+                            onClick={(e) => {
+                              if (e.target === e.currentTarget) openNewAppointment(slotStart);
+                            }}
+                          >
+                            {cellAppointments.map((appointment) => (
+                              <AppointmentChip
+                                key={appointment.id}
+                                appointment={appointment}
+                                onClick={() => openAppointment(appointment)}
+                              />
+                            ))}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+              {weekDays.map((day) => (
+                <div key={day.toISOString()} className="border rounded-md min-h-[200px]">
+                  <button
+                    type="button"
+                    className={cn(
+                      "w-full text-sm font-medium py-2 border-b",
+                      isSameDay(day, new Date()) ? "bg-primary text-white" : "bg-gray-50"
+                    )}
+                    onClick={() => {
+                      setCurrentDate(day);
+                      setView("day");
+                    }}
+                  >
+                    {format(day, "EEE d MMM", { locale: tr })}
+                  </button>
+                  <div className="p-1">
+                    {appointments
+                      .filter(appointment => isSameDay(new Date(appointment.startTime), day))
+                      .map((appointment) => (
+                        <AppointmentChip
+                          key={appointment.id}
+                          appointment={appointment}
+                          onClick={() => openAppointment(appointment)}
+                        />
+                      ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+      
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-[700px]">
+          <DialogHeader>
+            <DialogTitle>
+              {selectedAppointment ? "Randevu Düzenle" : "Yeni Randevu"}
+            </DialogTitle>
+          </DialogHeader>
+          <AppointmentForm
+            key={selectedAppointment?.id ?? defaultStart?.toISOString() ?? "new"}
+            appointment={selectedAppointment}
+            defaultStart={defaultStart}
+            onSaved={() => setIsFormOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+      
+      <Dialog open={isBaysOpen} onOpenChange={setIsBaysOpen}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Yıkama Alanları</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            {(washBaysQuery.data || []).map((bay) => (
+              <div key={bay.id} className="flex items-center justify-between border rounded px-3 py-2">
+                <span>{bay.name}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-red-500"
+                  onClick={() => deleteBayMutation.mutate(bay.id)}
+                >
+                  <Trash className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex space-x-2 pt-2">
+              <Input
+                placeholder="Alan 1"
+                value={newBayName}
+                onChange={(e) => setNewBayName(e.target.value)}
+              />
+              <Button
+                onClick={() => newBayName.trim() && createBayMutation.mutate(newBayName.trim())}
+                disabled={createBayMutation.isPending}
+              >
+                Ekle
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </main>
+  );
+}
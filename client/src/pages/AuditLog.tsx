@@ -0,0 +1,263 @@
+import { Fragment, useEffect, useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AuditLog as AuditLogEntry, AuditLogResult, User, AUDIT_ACTION_LABELS, auditActionEnum } from "@shared/schema";
+import type { BackupTableReport } from "@shared/backup";
+import { formatDateTime } from "@/lib/utils";
+
+const PAGE_SIZE = 50;
+
+// API yolundaki kaynak adlarının ekrandaki karşılıkları; listede olmayan ad olduğu gibi gösterilir
+const ENTITY_TYPE_LABELS: Record<string, string> = {
+  "customers": "Müşteri",
+  "vehicles": "Araç",
+  "services": "Hizmet",
+  "jobs": "İş emri",
+  "check-in": "Hızlı kabul",
+  "wash-bays": "Yıkama alanı",
+  "appointments": "Randevu",
+  "subscription-plans": "Üyelik paketi",
+  "subscriptions": "Üyelik",
+  "users": "Kullanıcı",
+  "expenses": "Gider",
+  "cash-sessions": "Kasa",
+  "gift-cards": "Hediye kartı",
+  "account-invoices": "Cari fatura",
+  "inventory/products": "Stok ürünü",
+  "staff-payouts": "Personel primi",
+  "settings": "Ayarlar",
+  "backup": "Yedek",
+  "backup/manual": "Manuel yedek",
+  "backup/settings": "Yedekleme ayarları",
+};
+
+function getEntityLabel(entityType: string): string {
+  return ENTITY_TYPE_LABELS[entityType] ?? entityType;
+}
+
+function getActionLabel(action: string): string {
+  const parsed = auditActionEnum.safeParse(action);
+  return parsed.success ? AUDIT_ACTION_LABELS[parsed.data] : action;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "-";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// Önceki ve sonraki kayıtta farklı olan alanlar; ekleme ve silmede tüm alanlar listelenir
+function getChanges(before: unknown, after: unknown): { field: string; before: unknown; after: unknown }[] {
+  const beforeObject = (before ?? {}) as Record<string, unknown>;
+  const afterObject = (after ?? {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(beforeObject), ...Object.keys(afterObject)]));
+  return fields
+    .filter(field => JSON.stringify(beforeObject[field]) !== JSON.stringify(afterObject[field]))
+    .map(field => ({ field, before: beforeObject[field], after: afterObject[field] }));
+}
+
+function AuditLogDetails({ entry }: { entry: AuditLogEntry }) {
+  if (entry.action === "restore") {
+    const tables = ((entry.details as { tables?: BackupTableReport[] } | null)?.tables ?? [])
+      .filter(table => table.added > 0 || table.updated > 0 || table.removed > 0);
+    return (
+      <div className="text-sm space-y-1">
+        <p>Yedek sürümü: {formatValue((entry.details as { version?: string } | null)?.version)}</p>
+        {tables.map(table => (
+          <p key={table.table} className="font-mono text-xs">
+            {table.table}: +{table.added} ~{table.updated} -{table.removed}
+          </p>
+        ))}
+      </div>
+    );
+  }
+
+  const changes = getChanges(entry.before, entry.after);
+  return (
+    <div className="text-sm space-y-2">
+      {changes.length === 0 ? (
+        <p className="text-gray-500 italic">Kayıtta alan değişikliği yok.</p>
+      ) : (
+        <table className="w-full">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1 pr-4 font-medium">Alan</th>
+              <th className="py-1 pr-4 font-medium">Önce</th>
+              <th className="py-1 font-medium">Sonra</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map(change => (
+              <tr key={change.field} className="align-top">
+                <td className="py-1 pr-4 font-mono text-xs">{change.field}</td>
+                <td className="py-1 pr-4 font-mono text-xs text-red-700 break-all">{formatValue(change.before)}</td>
+                <td className="py-1 font-mono text-xs text-green-700 break-all">{formatValue(change.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {entry.details != null && (
+        <p className="font-mono text-xs text-gray-500 break-all">İstek: {formatValue(entry.details)}</p>
+      )}
+    </div>
+  );
+}
+
+export default function AuditLog() {
+  const [userFilter, setUserFilter] = useState("all");
+  const [entityFilter, setEntityFilter] = useState("all");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  // Filtre değişince ilk sayfaya dön
+  useEffect(() => {
+    setPage(1);
+  }, [userFilter, entityFilter, dateFrom, dateTo]);
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  if (userFilter !== "all") params.set("userId", userFilter);
+  if (entityFilter !== "all") params.set("entityType", entityFilter);
+  if (dateFrom) params.set("dateFrom", dateFrom);
+  if (dateTo) params.set("dateTo", dateTo);
+
+  const auditLogsQuery = useQuery<AuditLogResult>({
+    queryKey: [`/api/audit-logs?${params.toString()}`],
+    placeholderData: keepPreviousData,
+  });
+
+  const usersQuery = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const entityTypesQuery = useQuery<string[]>({
+    queryKey: ["/api/audit-logs/entity-types"],
+  });
+
+  const entries = auditLogsQuery.data?.items ?? [];
+  const total = auditLogsQuery.data?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <main className="container mx-auto px-4 py-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-medium text-gray-darkest">Denetim Kayıtları</h1>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <div className="flex flex-wrap items-end gap-4 mb-4">
+          <div>
+            <label className="block text-sm text-gray-dark mb-1">Kullanıcı</label>
+            <Select value={userFilter} onValueChange={setUserFilter}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Tümü</SelectItem>
+                {(usersQuery.data || []).map(user => (
+                  <SelectItem key={user.id} value={String(user.id)}>{user.fullName || user.username}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm text-gray-dark mb-1">Kayıt türü</label>
+            <Select value={entityFilter} onValueChange={setEntityFilter}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Tümü</SelectItem>
+                {(entityTypesQuery.data || []).map(entityType => (
+                  <SelectItem key={entityType} value={entityType}>{getEntityLabel(entityType)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm text-gray-dark mb-1">Başlangıç</label>
+            <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className="w-[160px]" />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-dark mb-1">Bitiş</label>
+            <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className="w-[160px]" />
+          </div>
+        </div>
+
+        {auditLogsQuery.isLoading ? (
+          <p className="text-center py-6">Yükleniyor...</p>
+        ) : auditLogsQuery.isError ? (
+          <p className="text-center py-6">Denetim kayıtları yüklenirken bir hata oluştu</p>
+        ) : entries.length === 0 ? (
+          <p className="text-center py-6 text-gray-500">Kayıt bulunamadı</p>
+        ) : (
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-gray-50 text-left">
+                <th className="py-2 px-4 border-b">Tarih</th>
+                <th className="py-2 px-4 border-b">Kullanıcı</th>
+                <th className="py-2 px-4 border-b">İşlem</th>
+                <th className="py-2 px-4 border-b">Kayıt</th>
+                <th className="py-2 px-4 border-b">İstek</th>
+                <th className="py-2 px-4 border-b"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => (
+                <Fragment key={entry.id}>
+                  <tr className="border-b">
+                    <td className="py-2 px-4 whitespace-nowrap">{formatDateTime(entry.createdAt)}</td>
+                    <td className="py-2 px-4">{entry.username || "-"}</td>
+                    <td className="py-2 px-4">{getActionLabel(entry.action)}</td>
+                    <td className="py-2 px-4">
+                      {getEntityLabel(entry.entityType)}
+                      {entry.entityId !== null && <span className="text-gray-500"> #{entry.entityId}</span>}
+                    </td>
+                    <td className="py-2 px-4 font-mono text-xs text-gray-500">
+                      {entry.method ? `${entry.method} ${entry.path}` : "-"}
+                    </td>
+                    <td className="py-2 px-4 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                      >
+                        {expandedId === entry.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      </Button>
+                    </td>
+                  </tr>
+                  {expandedId === entry.id && (
+                    <tr className="border-b bg-gray-50">
+                      <td colSpan={6} className="py-3 px-4">
+                        <AuditLogDetails entry={entry} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="flex justify-between items-center mt-4">
+          <span className="text-sm text-gray-dark">Toplam {total} kayıt</span>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              <ChevronLeft className="h-4 w-4" />
+              Önceki
+            </Button>
+            <span className="text-sm">{page} / {totalPages}</span>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+              Sonraki
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,484 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowDownCircle, ArrowUpCircle, Lock, Printer, Unlock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CashMovementType, CashSessionDetail, CashSessionReport } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
+import { cn, formatCurrency } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import ConfirmDialog from "@/components/common/ConfirmDialog";
+
+function formatDateTime(value: Date | string | null): string {
+  return value ? format(new Date(value), "dd.MM.yyyy HH:mm") : "-";
+}
+
+// Kasa fazlası yeşil, açığı kırmızı gösterilir
+function VarianceText({ value }: { value: number }) {
+  return (
+    <span className={cn(value > 0 ? "text-green-600" : value < 0 ? "text-red-600" : "")}>
+      {value > 0 ? "+" : ""}{formatCurrency(value)} TL
+    </span>
+  );
+}
+
+function openSessionReport(id: number) {
+  window.open(`/api/cash-sessions/${id}/report.pdf`, "_blank");
+}
+
+// Avans, tahsilat, giriş/çıkış ve giderlerden beklenen kasa tutarının dökümü
+function SessionTotals({ session }: { session: CashSessionDetail }) {
+  const rows = [
+    { label: "Kasa Avansı", value: session.totals.openingFloat },
+    { label: "Nakit Tahsilat", value: session.totals.cashPayments },
+    { label: "Kasa Girişi", value: session.totals.cashIn },
+    { label: "Kasa Çıkışı", value: -session.totals.cashOut },
+    { label: "Nakit Gider", value: -session.totals.cashExpenses },
+  ];
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row) => (
+        <div key={row.label} className="flex justify-between items-center">
+          <span>{row.label}:</span>
+          <span className="font-medium">{formatCurrency(row.value)} TL</span>
+        </div>
+      ))}
+      <div className="flex justify-between items-center border-t pt-2">
+        <span className="font-medium">Beklenen Kasa:</span>
+        <span className="font-semibold">{formatCurrency(session.totals.expectedAmount)} TL</span>
+      </div>
+    </div>
+  );
+}
+
+export default function CashRegister() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canManage = hasPermission(user, "cash.manage");
+
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [movementType, setMovementType] = useState<CashMovementType | null>(null);
+  const [movementAmount, setMovementAmount] = useState("");
+  const [movementReason, setMovementReason] = useState("");
+  const [isCloseOpen, setIsCloseOpen] = useState(false);
+  const [isCloseConfirmOpen, setIsCloseConfirmOpen] = useState(false);
+  const [countedAmount, setCountedAmount] = useState("");
+  const [closeNotes, setCloseNotes] = useState("");
+  const [cashierFilter, setCashierFilter] = useState("all");
+
+  const currentQuery = useQuery<CashSessionReport | null>({
+    queryKey: ["/api/cash-sessions/current"],
+    refetchInterval: 30000,
+  });
+
+  const historyQuery = useQuery<CashSessionDetail[]>({
+    queryKey: [cashierFilter === "all" ? "/api/cash-sessions" : `/api/cash-sessions?userId=${cashierFilter}`],
+  });
+
+  // Kasiyer filtresi, daha önce oturum açmış kullanıcılardan oluşturulur
+  const allSessionsQuery = useQuery<CashSessionDetail[]>({
+    queryKey: ["/api/cash-sessions"],
+  });
+  const cashiers = Array.from(
+    new Map((allSessionsQuery.data || []).map(session => [session.openedBy, session.openedByName])).entries()
+  );
+
+  const current = currentQuery.data;
+  const counted = parseFloat(countedAmount);
+  const previewVariance = current && !isNaN(counted) ? counted - current.totals.expectedAmount : null;
+
+  const openMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/cash-sessions", { openingFloat: openingFloat || 0 });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateQueriesByPrefix("/api/cash-sessions");
+      setOpeningFloat("");
+      toast({
+        title: "Başarılı",
+        description: "Kasa açıldı.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Hata",
+        description: error.message.startsWith("409")
+          ? "Zaten açık bir kasa oturumu var."
+          : "Kasa açılırken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const movementMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/cash-sessions/${current!.id}/movements`, {
+        type: movementType,
+        amount: movementAmount,
+        reason: movementReason,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateQueriesByPrefix("/api/cash-sessions");
+      setMovementType(null);
+      setMovementAmount("");
+      setMovementReason("");
+      toast({
+        title: "Başarılı",
+        description: "Kasa hareketi kaydedildi.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Hata",
+        description: "Kasa hareketi kaydedilirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/cash-sessions/${current!.id}/close`, {
+        countedAmount,
+        notes: closeNotes,
+      });
+      return res.json();
+    },
+    onSuccess: (session: CashSessionDetail) => {
+      invalidateQueriesByPrefix("/api/cash-sessions");
+      setIsCloseConfirmOpen(false);
+      setIsCloseOpen(false);
+      setCountedAmount("");
+      setCloseNotes("");
+      toast({
+        title: "Başarılı",
+        description: "Kasa kapatıldı. Z raporu yazdırılıyor.",
+      });
+      openSessionReport(session.id);
+    },
+    onError: () => {
+      setIsCloseConfirmOpen(false);
+      toast({
+        title: "Hata",
+        description: "Kasa kapatılırken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <main className="container mx-auto px-4 py-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-medium text-gray-darkest">Kasa</h1>
+        {current && (
+          <Button variant="outline" onClick={() => openSessionReport(current.id)}>
+            <Printer className="mr-2 h-4 w-4" />
+            Ara Rapor (X)
+          </Button>
+        )}
+      </div>
+
+      {currentQuery.isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <p>Yükleniyor...</p>
+        </div>
+      ) : !current ? (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Kasa Kapalı</CardTitle>
+            <CardDescription>Gün başında kasadaki avans tutarı ile yeni bir oturum açın.</CardDescription>
+          </CardHeader>
+          {canManage && (
+            <CardContent>
+              <div className="flex flex-col md:flex-row md:items-end gap-4">
+                <div className="space-y-2 md:w-1/3">
+                  <Label htmlFor="openingFloat">Kasa Avansı (TL)</Label>
+                  <Input
+                    id="openingFloat"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="0.00"
+                    value={openingFloat}
+                    onChange={(e) => setOpeningFloat(e.target.value)}
+                  />
+                </div>
+                <Button onClick={() => openMutation.mutate()} disabled={openMutation.isPending}>
+                  <Unlock className="mr-2 h-4 w-4" />
+                  Kasayı Aç
+                </Button>
+              </div>
+            </CardContent>
+          )}
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex justify-between items-center">
+                <span>Açık Oturum #{current.id}</span>
+                <Badge variant="outline" className="text-green-600">Açık</Badge>
+              </CardTitle>
+              <CardDescription>
+                {formatDateTime(current.openedAt)} - {current.openedByName ?? "-"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <SessionTotals session={current} />
+              {canManage && (
+                <div className="flex flex-wrap gap-2 pt-2">
+                  <Button variant="outline" size="sm" onClick={() => setMovementType("giris")}>
+                    <ArrowDownCircle className="mr-2 h-4 w-4" />
+                    Kasa Girişi
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setMovementType("cikis")}>
+                    <ArrowUpCircle className="mr-2 h-4 w-4" />
+                    Kasa Çıkışı
+                  </Button>
+                  <Button size="sm" onClick={() => setIsCloseOpen(true)}>
+                    <Lock className="mr-2 h-4 w-4" />
+                    Kasayı Kapat
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Kasa Hareketleri</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Saat</TableHead>
+                    <TableHead>Tip</TableHead>
+                    <TableHead>Açıklama</TableHead>
+                    <TableHead>Kullanıcı</TableHead>
+                    <TableHead className="text-right">Tutar</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {current.movements.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground h-16">
+                        Bu oturumda kasa hareketi yok
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    current.movements.map((movement) => (
+                      <TableRow key={movement.id}>
+                        <TableCell>{format(new Date(movement.createdAt), "HH:mm")}</TableCell>
+                        <TableCell>{movement.type === "giris" ? "Giriş" : "Çıkış"}</TableCell>
+                        <TableCell>{movement.reason}</TableCell>
+                        <TableCell>{movement.userName ?? "-"}</TableCell>
+                        <TableCell className={cn("text-right", movement.type === "cikis" && "text-red-600")}>
+                          {movement.type === "cikis" ? "-" : ""}{formatCurrency(movement.amount)} TL
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex justify-between items-center">
+            <span>Kasa Geçmişi</span>
+            <Select value={cashierFilter} onValueChange={setCashierFilter}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Kasiyer" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Tüm kasiyerler</SelectItem>
+                {cashiers.map(([id, name]) => (
+                  <SelectItem key={id} value={id.toString()}>
+                    {name ?? `Kullanıcı #${id}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>No</TableHead>
+                  <TableHead>Açılış</TableHead>
+                  <TableHead>Kapanış</TableHead>
+                  <TableHead>Kasiyer</TableHead>
+                  <TableHead className="text-right">Beklenen</TableHead>
+                  <TableHead className="text-right">Sayılan</TableHead>
+                  <TableHead className="text-right">Fark</TableHead>
+                  <TableHead className="text-right">Rapor</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!historyQuery.data || historyQuery.data.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-muted-foreground h-16">
+                      {historyQuery.isLoading ? "Yükleniyor..." : "Kasa oturumu bulunmuyor"}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  historyQuery.data.map((session) => (
+                    <TableRow key={session.id}>
+                      <TableCell>{session.id}</TableCell>
+                      <TableCell>{formatDateTime(session.openedAt)}</TableCell>
+                      <TableCell>
+                        {session.status === "acik"
+                          ? <Badge variant="outline" className="text-green-600">Açık</Badge>
+                          : formatDateTime(session.closedAt)}
+                      </TableCell>
+                      <TableCell>{session.openedByName ?? "-"}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(session.totals.expectedAmount)} TL</TableCell>
+                      <TableCell className="text-right">
+                        {session.countedAmount !== null ? `${formatCurrency(session.countedAmount)} TL` : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {session.variance !== null ? <VarianceText value={Number(session.variance)} /> : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" title="Yazdır" onClick={() => openSessionReport(session.id)}>
+                          <Printer className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={movementType !== null} onOpenChange={(open) => !open && setMovementType(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{movementType === "giris" ? "Kasa Girişi" : "Kasa Çıkışı"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="movementAmount">Tutar (TL)</Label>
+              <Input
+                id="movementAmount"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0.00"
+                value={movementAmount}
+                onChange={(e) => setMovementAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="movementReason">Açıklama</Label>
+              <Input
+                id="movementReason"
+                placeholder={movementType === "giris" ? "Bozuk para" : "Bankaya yatırılan"}
+                value={movementReason}
+                onChange={(e) => setMovementReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => movementMutation.mutate()}
+              disabled={movementMutation.isPending || !movementAmount || !movementReason}
+            >
+              Kaydet
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isCloseOpen} onOpenChange={setIsCloseOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Kasayı Kapat</DialogTitle>
+          </DialogHeader>
+          {current && (
+            <div className="space-y-4">
+              <SessionTotals session={current} />
+              <div className="space-y-2">
+                <Label htmlFor="countedAmount">Sayılan Tutar (TL)</Label>
+                <Input
+                  id="countedAmount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                  value={countedAmount}
+                  onChange={(e) => setCountedAmount(e.target.value)}
+                />
+              </div>
+              {previewVariance !== null && (
+                <div className="flex justify-between items-center">
+                  <span>{previewVariance < 0 ? "Kasa Açığı:" : "Kasa Fazlası:"}</span>
+                  <span className="font-semibold"><VarianceText value={previewVariance} /></span>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="closeNotes">Notlar</Label>
+                <Textarea
+                  id="closeNotes"
+                  rows={2}
+                  value={closeNotes}
+                  onChange={(e) => setCloseNotes(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button onClick={() => setIsCloseConfirmOpen(true)} disabled={!countedAmount}>
+              Kapat ve Z Raporu Al
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={isCloseConfirmOpen}
+        onOpenChange={setIsCloseConfirmOpen}
+        title="Kasayı Kapat"
+        description="Kapatılan kasa oturumu değiştirilemez. Devam etmek istiyor musunuz?"
+        confirmText="Kapat"
+        cancelText="Vazgeç"
+        onConfirm={() => closeMutation.mutate()}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,411 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { AlertTriangle, Camera, ScanLine } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { CheckInContext, CreateCheckIn, Customer, Job, PlateRecognitionResult, Service } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { formatPlate, normalizePlate } from "@shared/plate";
+import { apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
+import { cn, formatCurrency, formatDate, getJobStatusDisplay } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+
+// Sorgu için gereken en kısa plaka uzunluğu (örn. "34A12")
+const MIN_PLATE_LENGTH = 5;
+
+// Resepsiyonda plakayla hızlı kabul: araç tanınıyorsa tek tıkla iş emri açılır,
+// tanınmıyorsa müşteri ve araç aynı ekranda kaydedilir
+export default function CheckIn() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+  const canCreateVehicle = hasPermission(user, "vehicles.manage");
+  const canCreateCustomer = hasPermission(user, "customers.manage");
+
+  const [plateInput, setPlateInput] = useState("");
+  const [plate, setPlate] = useState("");
+  const [serviceIds, setServiceIds] = useState<number[]>([]);
+  const [notes, setNotes] = useState("");
+  const [customerId, setCustomerId] = useState(canCreateCustomer ? "new" : "");
+  const [newCustomer, setNewCustomer] = useState({ name: "", phone: "" });
+  const [newVehicle, setNewVehicle] = useState({ brand: "", model: "", color: "" });
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  // Her tuş vuruşunda istek atmamak için aramayı geciktir
+  useEffect(() => {
+    const timeout = setTimeout(() => setPlate(normalizePlate(plateInput)), 300);
+    return () => clearTimeout(timeout);
+  }, [plateInput]);
+
+  const contextQuery = useQuery<CheckInContext>({
+    queryKey: [`/api/check-in/${encodeURIComponent(plate)}`],
+    enabled: plate.length >= MIN_PLATE_LENGTH,
+    refetchInterval: false,
+  });
+
+  const servicesQuery = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+  });
+
+  const customersQuery = useQuery<Customer[]>({
+    queryKey: ["/api/customers"],
+    enabled: canCreateVehicle,
+  });
+
+  const context = contextQuery.data;
+
+  // Yeni plaka sorgulandığında en sık alınan hizmet önceden seçilir
+  useEffect(() => {
+    setServiceIds(context?.usualServices.slice(0, 1).map(service => service.serviceId) ?? []);
+  }, [context?.plate, context?.vehicle?.id]);
+
+  const checkInMutation = useMutation({
+    mutationFn: async (data: CreateCheckIn) => {
+      const res = await apiRequest("POST", "/api/check-in", data);
+      return await res.json() as Job;
+    },
+    onSuccess: (job) => {
+      invalidateQueriesByPrefix("/api/jobs");
+      invalidateQueriesByPrefix("/api/check-in");
+      invalidateQueriesByPrefix("/api/vehicles");
+      invalidateQueriesByPrefix("/api/customers");
+      toast({
+        title: "Başarılı",
+        description: "İş emri oluşturuldu.",
+      });
+      setLocation(`/view-job/${job.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Hata",
+        description: error.message.startsWith("409")
+          ? "Bu plaka ile kayıtlı bir araç zaten var."
+          : "İş emri oluşturulurken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Kamera görüntüsü ham gövde olarak gönderilir; okunan plaka arama kutusuna yazılır
+  const recognizePlateMutation = useMutation({
+    mutationFn: async (image: File) => {
+      const res = await fetch("/api/anpr/recognize", {
+        method: "POST",
+        headers: { "Content-Type": image.type || "image/jpeg" },
+        body: image,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return await res.json() as PlateRecognitionResult;
+    },
+    onSuccess: (result) => {
+      if (!result.plate) {
+        toast({
+          title: "Hata",
+          description: "Görüntüde plaka okunamadı.",
+          variant: "destructive",
+        });
+        return;
+      }
+      setPlateInput(result.plate);
+      toast({
+        title: "Başarılı",
+        description: result.match === "fuzzy"
+          ? `Plaka yaklaşık eşleşmeyle ${result.plate} olarak bulundu, lütfen kontrol edin.`
+          : `Plaka okundu: ${result.plate}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Hata",
+        description: error.message.startsWith("503")
+          ? "Plaka tanıma yapılandırılmamış."
+          : "Plaka okunurken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleService = (serviceId: number, checked: boolean) => {
+    setServiceIds(current => checked
+      ? [...current, serviceId]
+      : current.filter(id => id !== serviceId)
+    );
+  };
+
+  const handleCheckIn = () => {
+    if (!context) return;
+
+    if (context.vehicle) {
+      checkInMutation.mutate({ vehicleId: context.vehicle.id, serviceIds, notes: notes || undefined });
+      return;
+    }
+
+    const isNewCustomer = customerId === "new";
+    checkInMutation.mutate({
+      newVehicle: {
+        plate: context.plate,
+        brand: newVehicle.brand,
+        model: newVehicle.model || undefined,
+        color: newVehicle.color || undefined,
+      },
+      customerId: isNewCustomer ? undefined : parseInt(customerId),
+      newCustomer: isNewCustomer ? newCustomer : undefined,
+      serviceIds,
+      notes: notes || undefined,
+    });
+  };
+
+  const isNewVehicleIncomplete = !context?.vehicle && (
+    !newVehicle.brand.trim() || !customerId || (customerId === "new" && !newCustomer.name.trim())
+  );
+  const usualServiceIds = new Set(context?.usualServices.map(service => service.serviceId));
+  const otherServices = (servicesQuery.data || [])
+    .filter(service => !usualServiceIds.has(service.id))
+    .sort((a, b) => a.name.localeCompare(b.name, "tr"));
+
+  return (
+    <main className="container mx-auto px-4 py-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-medium text-gray-darkest">Hızlı Kabul</h1>
+      </div>
+
+      <Card className="mb-6">
+        <CardContent className="pt-6 flex items-center gap-3">
+          <div className="relative flex-1 max-w-md">
+            <ScanLine className="absolute left-3 top-3.5 h-5 w-5 text-gray-500" />
+            <Input
+              autoFocus
+              className="pl-11 h-12 text-2xl font-mono uppercase"
+              placeholder="34 ABC 123"
+              value={plateInput}
+              onChange={(e) => setPlateInput(e.target.value)}
+              onBlur={() => plateInput && setPlateInput(formatPlate(plateInput))}
+            />
+          </div>
+          <input
+            ref={imageInputRef}
+            type="file"
+            accept="image/*"
+            capture="environment"
+            className="hidden"
+            onChange={(e) => {
+              const image = e.target.files?.[0];
+              if (image) recognizePlateMutation.mutate(image);
+              e.target.value = "";
+            }}
+          />
+          <Button
+            variant="outline"
+            size="lg"
+            onClick={() => imageInputRef.current?.click()}
+            disabled={recognizePlateMutation.isPending}
+          >
+            <Camera className="mr-2 h-5 w-5" />
+            {recognizePlateMutation.isPending ? "Okunuyor..." : "Fotoğraftan Oku"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {plate.length < MIN_PLATE_LENGTH ? (
+        <p className="text-center text-muted-foreground py-6">Plakayı yazın veya okutun</p>
+      ) : contextQuery.isLoading ? (
+        <p className="text-center py-6">Yükleniyor...</p>
+      ) : contextQuery.isError || !context ? (
+        <p className="text-center py-6">Araç bilgileri yüklenirken bir hata oluştu</p>
+      ) : !context.vehicle && !context.isValidPlate ? (
+        <p className="text-center text-destructive py-6">Geçersiz plaka (örn. 34 ABC 123)</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            {context.vehicle ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex justify-between items-center">
+                    <span className="font-mono text-2xl">{context.vehicle.plate}</span>
+                    {context.openBalance > 0 && (
+                      <Badge variant="destructive">
+                        Açık bakiye: {formatCurrency(context.openBalance)} TL ({context.openJobCount} iş)
+                      </Badge>
+                    )}
+                  </CardTitle>
+                  <CardDescription>
+                    {[context.vehicle.brand, context.vehicle.model, context.vehicle.color].filter(Boolean).join(" · ")}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {context.customer && (
+                    <div>
+                      <Link href={`/customer/${context.customer.id}`} className="font-medium hover:underline">
+                        {context.customer.name}
+                      </Link>
+                      {context.customer.isCorporate && <Badge variant="secondary" className="ml-2">Kurumsal</Badge>}
+                      {context.customer.phone && (
+                        <p className="text-sm text-muted-foreground">{context.customer.phone}</p>
+                      )}
+                    </div>
+                  )}
+
+                  {context.activeJob && (
+                    <div className="flex items-center gap-2 rounded-md bg-amber-50 p-3 text-sm text-amber-800">
+                      <AlertTriangle className="h-4 w-4" />
+                      <span>Bu araç için açık bir iş emri var:</span>
+                      <Link href={`/view-job/${context.activeJob.id}`} className="font-medium underline">
+                        #{context.activeJob.id} ({getJobStatusDisplay(context.activeJob.status).label})
+                      </Link>
+                    </div>
+                  )}
+
+                  <div>
+                    <h4 className="font-medium mb-2">Son Ziyaretler</h4>
+                    {context.recentVisits.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">Önceki ziyaret bulunmuyor</p>
+                    ) : (
+                      <ul className="divide-y">
+                        {context.recentVisits.map((visit) => (
+                          <li key={visit.id} className="flex justify-between items-center py-2 text-sm">
+                            <Link href={`/view-job/${visit.id}`} className="hover:underline">
+                              {formatDate(visit.createdAt)} — {visit.services.join(", ") || "-"}
+                            </Link>
+                            <span className="font-medium">{formatCurrency(Number(visit.totalAmount))} TL</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ) : !canCreateVehicle ? (
+              <p className="text-center text-muted-foreground py-6">
+                Bu plaka kayıtlı değil. Araç kaydı için yetkiniz bulunmuyor.
+              </p>
+            ) : (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="font-mono text-2xl">{context.plate}</CardTitle>
+                  <CardDescription>Kayıtlı olmayan araç; müşteri ve araç iş emriyle birlikte kaydedilir</CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-3">
+                    <Label>Müşteri</Label>
+                    <Select value={customerId} onValueChange={setCustomerId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Müşteri seçin" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {canCreateCustomer && <SelectItem value="new">+ Yeni Müşteri</SelectItem>}
+                        {customersQuery.data?.map((customer) => (
+                          <SelectItem key={customer.id} value={customer.id.toString()}>
+                            {customer.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {customerId === "new" && (
+                      <>
+                        <Input
+                          placeholder="Ad Soyad"
+                          value={newCustomer.name}
+                          onChange={(e) => setNewCustomer({ ...newCustomer, name: e.target.value })}
+                        />
+                        <Input
+                          placeholder="Telefon"
+                          value={newCustomer.phone}
+                          onChange={(e) => setNewCustomer({ ...newCustomer, phone: e.target.value })}
+                        />
+                      </>
+                    )}
+                  </div>
+                  <div className="space-y-3">
+                    <Label>Araç</Label>
+                    <Input
+                      placeholder="Marka"
+                      value={newVehicle.brand}
+                      onChange={(e) => setNewVehicle({ ...newVehicle, brand: e.target.value })}
+                    />
+                    <Input
+                      placeholder="Model"
+                      value={newVehicle.model}
+                      onChange={(e) => setNewVehicle({ ...newVehicle, model: e.target.value })}
+                    />
+                    <Input
+                      placeholder="Renk"
+                      value={newVehicle.color}
+                      onChange={(e) => setNewVehicle({ ...newVehicle, color: e.target.value })}
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {(context.vehicle || canCreateVehicle) && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Hizmetler</CardTitle>
+                {context.usualServices.length > 0 && (
+                  <CardDescription>Sık alınan hizmetler üstte listelenir</CardDescription>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  {context.usualServices.map((service) => (
+                    <label key={service.serviceId} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={serviceIds.includes(service.serviceId)}
+                        onCheckedChange={(checked) => toggleService(service.serviceId, checked === true)}
+                      />
+                      <span className="flex-1 font-medium">{service.name}</span>
+                      <span className="text-muted-foreground">{service.count}×</span>
+                      <span>{formatCurrency(Number(service.price))} TL</span>
+                    </label>
+                  ))}
+                </div>
+                <div className={cn("space-y-2 max-h-64 overflow-y-auto", context.usualServices.length > 0 && "border-t pt-4")}>
+                  {otherServices.map((service) => (
+                    <label key={service.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={serviceIds.includes(service.id)}
+                        onCheckedChange={(checked) => toggleService(service.id, checked === true)}
+                      />
+                      <span className="flex-1">{service.name}</span>
+                      <span>{formatCurrency(Number(service.price))} TL</span>
+                    </label>
+                  ))}
+                </div>
+                <Input
+                  placeholder="Not (isteğe bağlı)"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+                <Button
+                  className="w-full"
+                  size="lg"
+                  onClick={handleCheckIn}
+                  disabled={serviceIds.length === 0 || isNewVehicleIncomplete || checkInMutation.isPending}
+                >
+                  {context.vehicle ? "İş Emri Aç" : "Kaydet ve İş Emri Aç"}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </main>
+  );
+}
@@ -9,13 +9,29 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Printer, ArrowLeft, ChevronLeft, ChevronRight } from "lucide-react";
-import type { Customer, Job, Vehicle } from "@shared/schema";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Printer, ArrowLeft, ChevronLeft, ChevronRight, Plus, FileText } from "lucide-react";
+import type { AccountInvoiceDetail, Customer, CustomerLoyalty, Job, LoyaltyTransactionType, Vehicle } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { useAuth } from "@/hooks/use-auth";
+import AccountInvoicesTable from "@/components/accounts/AccountInvoicesTable";
+import AccountInvoiceForm from "@/components/accounts/AccountInvoiceForm";
+import CustomerPriceList from "@/components/accounts/CustomerPriceList";
+
+const LOYALTY_TRANSACTION_LABELS: Record<LoyaltyTransactionType, string> = {
+  kazanim: "Kazanım",
+  iptal: "İptal",
+  duzeltme: "Düzeltme",
+  kullanim: "Kullanım",
+  iade: "İade",
+};
 
 export default function CustomerDetail() {
   const { id } = useParams<{ id: string }>();
   const customerId = parseInt(id);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const [isInvoiceFormOpen, setIsInvoiceFormOpen] = useState(false);
   const printRef = useRef<HTMLDivElement>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
@@ -48,6 +64,18 @@ export default function CustomerDetail() {
     refetchInterval: 3000,
   });
 
+  // Sadakat bakiyesi ve puan hareketleri
+  const loyaltyQuery = useQuery<CustomerLoyalty>({
+    queryKey: [`/api/customers/${customerId}/loyalty`],
+    enabled: !isNaN(customerId),
+  });
+
+  // Kurumsal müşterinin cari hesap faturaları
+  const invoicesQuery = useQuery<AccountInvoiceDetail[]>({
+    queryKey: [`/api/account-invoices?customerId=${customerId}`],
+    enabled: !isNaN(customerId) && !!customerQuery.data?.isCorporate && hasPermission(user, "accounts.view"),
+  });
+
   if (customerQuery.isLoading || vehiclesQuery.isLoading || jobsQuery.isLoading || analyticsQuery.isLoading) {
     return <div className="container mx-auto px-4 py-8 text-center">Yükleniyor...</div>;
   }
@@ -62,6 +90,8 @@ export default function CustomerDetail() {
   const jobs = jobsQuery.data || [];
   const totalAmount = analyticsQuery.data?.totalAmount || 0;
   const totalJobs = analyticsQuery.data?.totalJobs || 0;
+  const loyalty = loyaltyQuery.data;
+  const showAccountTabs = customer.isCorporate && hasPermission(user, "accounts.view");
 
   // Sort jobs by date, descending
   const sortedJobs = [...jobs].sort((a, b) => {
@@ -102,10 +132,20 @@ export default function CustomerDetail() {
             </Link>
             <h1 className="text-2xl font-bold">Müşteri Detayları</h1>
           </div>
-          <Button variant="outline" size="sm">
-            <Printer className="mr-2 h-4 w-4" />
-            Yazdır
-          </Button>
+          <div className="flex space-x-2">
+            {hasPermission(user, "receivables.view") && (
+              <Link href={`/customer/${customerId}/statement`}>
+                <Button variant="outline" size="sm">
+                  <FileText className="mr-2 h-4 w-4" />
+                  Hesap Ekstresi
+                </Button>
+              </Link>
+            )}
+            <Button variant="outline" size="sm">
+              <Printer className="mr-2 h-4 w-4" />
+              Yazdır
+            </Button>
+          </div>
         </div>
 
         <div ref={printRef} className="space-y-6">
@@ -183,13 +223,35 @@ export default function CustomerDetail() {
                     <h3 className="text-sm font-medium text-gray-500">Müşteri Numarası</h3>
                     <p className="mt-1">{customer.id}</p>
                   </div>
+                  
+                  {customer.isCorporate && (
+                    <>
+                      <div>
+                        <h3 className="text-sm font-medium text-gray-500">Vergi No / Vergi Dairesi</h3>
+                        <p className="mt-1">{customer.taxNumber || "-"} / {customer.taxOffice || "-"}</p>
+                      </div>
+                      
+                      <div>
+                        <h3 className="text-sm font-medium text-gray-500">Ödeme Vadesi</h3>
+                        <p className="mt-1">{customer.paymentTermDays} gün</p>
+                      </div>
+                      
+                      <div className="md:col-span-2">
+                        <h3 className="text-sm font-medium text-gray-500">Fatura Adresi</h3>
+                        <p className="mt-1">{customer.address || "-"}</p>
+                      </div>
+                    </>
+                  )}
                 </div>
               </div>
 
               <Tabs defaultValue="araçlar" className="w-full">
-                <TabsList className="grid w-full md:w-[400px] grid-cols-2">
+                <TabsList className={`grid w-full ${showAccountTabs ? "md:w-[800px] grid-cols-5" : "md:w-[600px] grid-cols-3"}`}>
                   <TabsTrigger value="araçlar">Araçlar</TabsTrigger>
                   <TabsTrigger value="iş-geçmişi">İş Geçmişi</TabsTrigger>
+                  <TabsTrigger value="sadakat">Sadakat</TabsTrigger>
+                  {showAccountTabs && <TabsTrigger value="fiyat-listesi">Fiyat Listesi</TabsTrigger>}
+                  {showAccountTabs && <TabsTrigger value="faturalar">Faturalar</TabsTrigger>}
                 </TabsList>
                 <TabsContent value="araçlar" className="mt-4">
                   <div className="bg-white rounded-lg shadow overflow-hidden">
@@ -325,10 +387,115 @@ export default function CustomerDetail() {
                     )}
                   </div>
                 </TabsContent>
+                <TabsContent value="sadakat" className="mt-4">
+                  <div className="bg-white rounded-lg shadow overflow-hidden">
+                    <div className="p-4 flex flex-col md:flex-row md:justify-between md:items-center gap-2 border-b">
+                      <h2 className="text-lg font-medium">Sadakat Puanları</h2>
+                      {loyalty && (
+                        <div className="flex flex-wrap gap-4 text-sm">
+                          <span>
+                            Bakiye: <span className="font-medium">{loyalty.points} puan</span>
+                            {" "}({formatCurrency(loyalty.points * loyalty.pointValue)} TL)
+                          </span>
+                          {loyalty.freeWashEvery > 0 && (
+                            <span>
+                              Damga: <span className="font-medium">{loyalty.stamps % loyalty.freeWashEvery} / {loyalty.freeWashEvery}</span>
+                              {loyalty.availableFreeWashes > 0 && ` (${loyalty.availableFreeWashes} ücretsiz yıkama hakkı)`}
+                            </span>
+                          )}
+                          {!loyalty.enabled && <Badge variant="outline">Program kapalı</Badge>}
+                        </div>
+                      )}
+                    </div>
+                    
+                    {!loyalty || loyalty.transactions.length === 0 ? (
+                      <div className="p-4 text-center text-gray-500">
+                        Bu müşteriye ait puan hareketi bulunmamaktadır.
+                      </div>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Tarih</TableHead>
+                            <TableHead>İşlem</TableHead>
+                            <TableHead>Açıklama</TableHead>
+                            <TableHead className="text-right">Puan</TableHead>
+                            <TableHead className="text-right">Damga</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {loyalty.transactions.map((transaction) => (
+                            <TableRow key={transaction.id}>
+                              <TableCell>{formatDate(transaction.createdAt)}</TableCell>
+                              <TableCell>
+                                {LOYALTY_TRANSACTION_LABELS[transaction.type as LoyaltyTransactionType] ?? transaction.type}
+                              </TableCell>
+                              <TableCell>
+                                {transaction.jobId ? (
+                                  <Link href={`/jobs/${transaction.jobId}`}>
+                                    <Button variant="link" size="sm" className="p-0 h-auto">
+                                      {transaction.description}
+                                    </Button>
+                                  </Link>
+                                ) : transaction.description || "-"}
+                              </TableCell>
+                              <TableCell className={`text-right ${transaction.points < 0 ? "text-red-600" : "text-green-600"}`}>
+                                {transaction.points > 0 ? "+" : ""}{transaction.points}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {transaction.stamps > 0 ? "+" : ""}{transaction.stamps}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </div>
+                </TabsContent>
+                {showAccountTabs && (
+                  <>
+                    <TabsContent value="fiyat-listesi" className="mt-4">
+                      <div className="bg-white rounded-lg shadow overflow-hidden">
+                        <div className="p-4 border-b">
+                          <h2 className="text-lg font-medium">Anlaşmalı Fiyatlar</h2>
+                          <p className="text-sm text-gray-500">Boş bırakılan hizmetlerde liste fiyatı uygulanır</p>
+                        </div>
+                        <CustomerPriceList customerId={customerId} canManage={hasPermission(user, "accounts.manage")} />
+                      </div>
+                    </TabsContent>
+                    <TabsContent value="faturalar" className="mt-4">
+                      <div className="bg-white rounded-lg shadow overflow-hidden">
+                        <div className="p-4 flex justify-between items-center border-b">
+                          <h2 className="text-lg font-medium">Cari Hesap Faturaları</h2>
+                          {hasPermission(user, "accounts.manage") && (
+                            <Button size="sm" className="gap-1" onClick={() => setIsInvoiceFormOpen(true)}>
+                              <Plus className="h-4 w-4" />
+                              Fatura Oluştur
+                            </Button>
+                          )}
+                        </div>
+                        <AccountInvoicesTable
+                          invoices={invoicesQuery.data || []}
+                          isLoading={invoicesQuery.isLoading}
+                          showCustomer={false}
+                        />
+                      </div>
+                    </TabsContent>
+                  </>
+                )}
               </Tabs>
             </>
           )}
         </div>
+
+        <Dialog open={isInvoiceFormOpen} onOpenChange={setIsInvoiceFormOpen}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Aylık Fatura Oluştur</DialogTitle>
+            </DialogHeader>
+            <AccountInvoiceForm customerId={customerId} onSaved={() => setIsInvoiceFormOpen(false)} />
+          </DialogContent>
+        </Dialog>
       </div>
   );
 }
\ No newline at end of file
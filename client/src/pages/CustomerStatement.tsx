@@ -0,0 +1,247 @@
+import { useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { format } from "date-fns";
+import { ArrowLeft, Printer } from "lucide-react";
+import { useReactToPrint } from "react-to-print";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CustomerStatement as CustomerStatementData } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { cn, formatCurrency } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import { useAppSettings } from "@/hooks/use-app-settings";
+import SettlementForm from "@/components/receivables/SettlementForm";
+
+function formatDateTime(value: Date | string): string {
+  return format(new Date(value), "dd.MM.yyyy HH:mm");
+}
+
+// Müşteri hesap ekstresi: iş ve tahsilat hareketleri, açık işler ve toplu tahsilat
+export default function CustomerStatement() {
+  const { id } = useParams<{ id: string }>();
+  const customerId = parseInt(id);
+  const { user } = useAuth();
+  const { settings } = useAppSettings();
+  const canCollect = hasPermission(user, "payments.manage");
+  const printRef = useRef<HTMLDivElement>(null);
+
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [selectedJobIds, setSelectedJobIds] = useState<number[]>([]);
+
+  // Tarih aralığı yalnızca iki uç da seçildiğinde uygulanır
+  const hasRange = !!startDate && !!endDate;
+  const statementQuery = useQuery<CustomerStatementData>({
+    queryKey: [hasRange
+      ? `/api/customers/${customerId}/statement?startDate=${startDate}&endDate=${endDate}`
+      : `/api/customers/${customerId}/statement`],
+    enabled: !isNaN(customerId),
+  });
+
+  // @ts-ignore - Explicitly ignore type issues with react-to-print
+  const handlePrint = useReactToPrint({
+    documentTitle: `Hesap Ekstresi - ${statementQuery.data?.customer.name ?? customerId}`,
+    onPrintError: (error) => console.error("Print failed:", error),
+    // @ts-ignore - content prop is required but not in types
+    content: () => printRef.current,
+  });
+
+  if (statementQuery.isLoading) {
+    return <div className="container mx-auto px-4 py-8 text-center">Yükleniyor...</div>;
+  }
+
+  const statement = statementQuery.data;
+  if (!statement) {
+    return <div className="container mx-auto px-4 py-8 text-center">Müşteri bulunamadı.</div>;
+  }
+
+  // Kapanmış işler seçimden düşer
+  const openJobIds = statement.openJobs.map(job => job.id);
+  const selectedIds = selectedJobIds.filter(jobId => openJobIds.includes(jobId));
+  const totalOpen = statement.openJobs.reduce((total, job) => total + job.remaining, 0);
+  const selectedRemaining = statement.openJobs
+    .filter(job => selectedIds.includes(job.id))
+    .reduce((total, job) => total + job.remaining, 0);
+
+  const toggleJob = (jobId: number, checked: boolean) => {
+    setSelectedJobIds(checked ? [...selectedIds, jobId] : selectedIds.filter(selected => selected !== jobId));
+  };
+
+  return (
+    <main className="container max-w-5xl mx-auto px-4 py-6">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 mb-6 no-print">
+        <div className="flex items-center">
+          <Link href={`/customer/${customerId}`}>
+            <Button variant="outline" size="sm" className="mr-2">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Geri
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-medium text-gray-darkest">Hesap Ekstresi</h1>
+        </div>
+        <div className="flex items-end space-x-2">
+          <div className="space-y-1">
+            <Label htmlFor="statementStart">Başlangıç</Label>
+            <Input id="statementStart" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="statementEnd">Bitiş</Label>
+            <Input id="statementEnd" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+          <Button variant="outline" onClick={handlePrint}>
+            <Printer className="mr-2 h-4 w-4" />
+            Yazdır
+          </Button>
+        </div>
+      </div>
+
+      <div ref={printRef} className="bg-white rounded-lg shadow p-8 mb-6">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-primary">{settings.companyName}</h2>
+            {settings.address && <p className="text-sm text-gray-500">{settings.address}</p>}
+          </div>
+          <div className="text-right">
+            <h3 className="text-xl font-semibold">{statement.customer.name}</h3>
+            {statement.customer.phone && <p className="text-sm text-gray-500">{statement.customer.phone}</p>}
+            <p className="text-sm text-gray-500">
+              {statement.startDate && statement.endDate
+                ? `${format(new Date(`${statement.startDate}T00:00:00`), "dd.MM.yyyy")} - ${format(new Date(`${statement.endDate}T00:00:00`), "dd.MM.yyyy")}`
+                : "Tüm hareketler"}
+            </p>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tarih</TableHead>
+              <TableHead>Açıklama</TableHead>
+              <TableHead className="text-right">Borç</TableHead>
+              <TableHead className="text-right">Alacak</TableHead>
+              <TableHead className="text-right">Bakiye</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {statement.startDate && (
+              <TableRow>
+                <TableCell colSpan={4} className="font-medium">Devreden Bakiye</TableCell>
+                <TableCell className="text-right font-medium">{formatCurrency(statement.openingBalance)}</TableCell>
+              </TableRow>
+            )}
+            {statement.entries.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground h-16">
+                  Bu dönemde hareket bulunmuyor
+                </TableCell>
+              </TableRow>
+            ) : (
+              statement.entries.map((entry, index) => (
+                <TableRow key={`${entry.type}-${entry.jobId}-${index}`}>
+                  <TableCell>{formatDateTime(entry.date)}</TableCell>
+                  <TableCell>
+                    <Link href={`/view-job/${entry.jobId}`} className="hover:underline">
+                      {entry.description}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-right">{entry.debit > 0 ? formatCurrency(entry.debit) : ""}</TableCell>
+                  <TableCell className="text-right text-green-600">{entry.credit > 0 ? formatCurrency(entry.credit) : ""}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(entry.balance)}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={4} className="font-bold">Bakiye</TableCell>
+              <TableCell className="text-right font-bold">{formatCurrency(statement.closingBalance)} TL</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </div>
+
+      <Card className="no-print">
+        <CardHeader>
+          <CardTitle>Açık İşler</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {canCollect && <TableHead className="w-10" />}
+                <TableHead>Tarih</TableHead>
+                <TableHead>İş</TableHead>
+                <TableHead>Plaka</TableHead>
+                <TableHead className="text-right">Gün</TableHead>
+                <TableHead className="text-right">Tutar</TableHead>
+                <TableHead className="text-right">Ödenen</TableHead>
+                <TableHead className="text-right">Kalan</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {statement.openJobs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={canCollect ? 8 : 7} className="text-center text-muted-foreground h-16">
+                    Ödenmemiş iş bulunmuyor
+                  </TableCell>
+                </TableRow>
+              ) : (
+                statement.openJobs.map((job) => (
+                  <TableRow key={job.id}>
+                    {canCollect && (
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.includes(job.id)}
+                          onCheckedChange={(checked) => toggleJob(job.id, checked === true)}
+                        />
+                      </TableCell>
+                    )}
+                    <TableCell>{format(new Date(job.createdAt), "dd.MM.yyyy")}</TableCell>
+                    <TableCell>
+                      <Link href={`/view-job/${job.id}`} className="text-primary hover:underline">
+                        {job.receiptNumber ? `Fiş ${job.receiptNumber}` : `#${job.id}`}
+                      </Link>
+                      {job.invoiceId && <span className="text-xs text-muted-foreground"> (Fatura #{job.invoiceId})</span>}
+                    </TableCell>
+                    <TableCell className="font-medium">{job.vehiclePlate}</TableCell>
+                    <TableCell className={cn("text-right", job.ageDays > 60 && "text-red-600")}>{job.ageDays}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(job.totalAmount)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(job.paidAmount)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(job.remaining)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+
+          {canCollect && statement.openJobs.length > 0 && (
+            <div className="border-t pt-4">
+              <h3 className="font-medium mb-2">
+                {selectedIds.length > 0 ? `Seçilen ${selectedIds.length} İş İçin Tahsilat` : "Tüm Açık İşler İçin Tahsilat"}
+              </h3>
+              <SettlementForm
+                customerId={customerId}
+                remaining={selectedIds.length > 0 ? selectedRemaining : totalOpen}
+                jobIds={selectedIds.length > 0 ? selectedIds : undefined}
+                onSaved={() => setSelectedJobIds([])}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
@@ -8,11 +8,15 @@ import { Button } from "@/components/ui/button";
 import StatCard from "@/components/dashboard/StatCard";
 import JobsTable from "@/components/dashboard/JobsTable";
 import { formatCurrency } from "@/lib/utils";
+import { useAppSettings } from "@/hooks/use-app-settings";
+import { getBusinessDayOptions } from "@shared/settings";
+import { getBusinessDate } from "@shared/businessDay";
 
 export default function Dashboard() {
   const [today] = useState(new Date());
   const formattedDate = format(today, "dd-MM-yyyy", { locale: tr });
-  const today_iso_date = today.toISOString().split('T')[0]; // YYYY-MM-DD format
+  const { settings } = useAppSettings();
+  const today_iso_date = getBusinessDate(today, getBusinessDayOptions(settings)); // İş günü, YYYY-MM-DD format
   const [location, setLocation] = useLocation();
   const searchParams = new URLSearchParams(useSearch());
   const shouldRefresh = searchParams.get('refresh') === 'true';
@@ -3,8 +3,8 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { insertExpenseSchema, expenseCategoryEnum, Expense } from "@shared/schema";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { insertExpenseSchema, expenseCategoryEnum, Expense, VAT_RATES, moneyPaymentMethodEnum, PAYMENT_METHOD_LABELS, PaymentMethod } from "@shared/schema";
+import { queryClient, apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { tr } from "date-fns/locale";
@@ -75,6 +75,8 @@ export default function Expenses() {
     name: z.string().min(1, "Gider adı zorunludur"),
     amount: z.string().min(1, "Tutar zorunludur"),
     category: z.enum(["malzeme", "kira", "su", "elektrik", "personel", "diger"]),
+    vatRate: z.string(),
+    paymentMethod: moneyPaymentMethodEnum,
     notes: z.string().optional(),
     expenseDate: z.string(),
   });
@@ -86,6 +88,8 @@ export default function Expenses() {
       name: "",
       amount: "",
       category: "malzeme",
+      vatRate: "0",
+      paymentMethod: "nakit",
       notes: "",
       expenseDate: format(new Date(), "yyyy-MM-dd"),
     },
@@ -97,6 +101,8 @@ export default function Expenses() {
       name: "",
       amount: "",
       category: "malzeme" as const,
+      vatRate: "0",
+      paymentMethod: "nakit",
       notes: "",
       expenseDate: format(new Date(), "yyyy-MM-dd"),
     });
@@ -110,6 +116,8 @@ export default function Expenses() {
       name: expense.name,
       amount: expense.amount.toString(),
       category: expense.category as "malzeme" | "kira" | "su" | "elektrik" | "personel" | "diger",
+      vatRate: String(Number(expense.vatRate)),
+      paymentMethod: moneyPaymentMethodEnum.catch("nakit").parse(expense.paymentMethod),
       notes: expense.notes || "",
       expenseDate: format(new Date(expense.date), "yyyy-MM-dd"),
     });
@@ -124,6 +132,8 @@ export default function Expenses() {
         name: data.name,
         amount: parseFloat(data.amount),
         category: data.category,
+        vatRate: data.vatRate,
+        paymentMethod: data.paymentMethod,
         notes: data.notes || "",
         date: new Date(data.expenseDate)
       };
@@ -136,6 +146,8 @@ export default function Expenses() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats/net-profit"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/vat"] });
+      invalidateQueriesByPrefix("/api/cash-sessions");
       setIsAddOpen(false);
       form.reset();
       toast({
@@ -160,6 +172,8 @@ export default function Expenses() {
         name: data.name,
         amount: parseFloat(data.amount),
         category: data.category,
+        vatRate: data.vatRate,
+        paymentMethod: data.paymentMethod,
         notes: data.notes || "",
         date: new Date(data.expenseDate)
       };
@@ -170,6 +184,8 @@ export default function Expenses() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats/net-profit"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/vat"] });
+      invalidateQueriesByPrefix("/api/cash-sessions");
       setIsEditOpen(false);
       setEditingExpense(null);
       toast({
@@ -194,6 +210,8 @@ export default function Expenses() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
       queryClient.invalidateQueries({ queryKey: ["/api/stats/net-profit"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/vat"] });
+      invalidateQueriesByPrefix("/api/cash-sessions");
       toast({
         title: "Başarılı",
         description: "Gider başarıyla silindi",
@@ -286,6 +304,56 @@ export default function Expenses() {
                   )}
                 />
                 
+                <FormField
+                  control={form.control}
+                  name="vatRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>KDV Oranı (tutara dahil)</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="KDV oranı seçin" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {VAT_RATES.map((rate) => (
+                            <SelectItem key={rate} value={rate.toString()}>
+                              {rate === 0 ? "KDV yok" : `%${rate}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="paymentMethod"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ödeme Yöntemi</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Ödeme yöntemi seçin" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {moneyPaymentMethodEnum.options.map((method) => (
+                            <SelectItem key={method} value={method}>
+                              {PAYMENT_METHOD_LABELS[method]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
                 <FormField
                   control={form.control}
                   name="category"
@@ -396,6 +464,56 @@ export default function Expenses() {
                   )}
                 />
                 
+                <FormField
+                  control={form.control}
+                  name="vatRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>KDV Oranı (tutara dahil)</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="KDV oranı seçin" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {VAT_RATES.map((rate) => (
+                            <SelectItem key={rate} value={rate.toString()}>
+                              {rate === 0 ? "KDV yok" : `%${rate}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
+                <FormField
+                  control={form.control}
+                  name="paymentMethod"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ödeme Yöntemi</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Ödeme yöntemi seçin" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {moneyPaymentMethodEnum.options.map((method) => (
+                            <SelectItem key={method} value={method}>
+                              {PAYMENT_METHOD_LABELS[method]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
                 <FormField
                   control={form.control}
                   name="category"
@@ -490,6 +608,8 @@ export default function Expenses() {
                     <TableHead>Tarih</TableHead>
                     <TableHead>Gider Adı</TableHead>
                     <TableHead>Kategori</TableHead>
+                    <TableHead>Ödeme</TableHead>
+                    <TableHead className="text-right">KDV</TableHead>
                     <TableHead className="text-right">Tutar</TableHead>
                     <TableHead className="text-right">İşlemler</TableHead>
                   </TableRow>
@@ -502,6 +622,12 @@ export default function Expenses() {
                       </TableCell>
                       <TableCell>{expense.name}</TableCell>
                       <TableCell>{getCategoryName(expense.category)}</TableCell>
+                      <TableCell>{PAYMENT_METHOD_LABELS[expense.paymentMethod as PaymentMethod] ?? expense.paymentMethod}</TableCell>
+                      <TableCell className="text-right">
+                        {Number(expense.vatRate) > 0
+                          ? `${formatCurrency(expense.vatAmount)} TL (%${Number(expense.vatRate)})`
+                          : "-"}
+                      </TableCell>
                       <TableCell className="text-right">{formatCurrency(expense.amount)} TL</TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end space-x-2">
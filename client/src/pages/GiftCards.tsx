@@ -0,0 +1,403 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { History, Plus, PlusCircle, Power } from "lucide-react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  GiftCardDetail,
+  GiftCardReport,
+  GiftCardTransactionType,
+  MoneyPaymentMethod,
+  moneyPaymentMethodEnum,
+  PAYMENT_METHOD_LABELS
+} from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
+import { cn, formatCurrency, getPaymentMethodLabel } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import ConfirmDialog from "@/components/common/ConfirmDialog";
+import GiftCardForm from "@/components/giftCards/GiftCardForm";
+
+const GIFT_CARD_TRANSACTION_LABELS: Record<GiftCardTransactionType, string> = {
+  yukleme: "Yükleme",
+  harcama: "Harcama",
+  iade: "İade",
+};
+
+function formatDateTime(value: Date | string): string {
+  return format(new Date(value), "dd.MM.yyyy HH:mm");
+}
+
+export default function GiftCards() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canManage = hasPermission(user, "giftCards.manage");
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [topUpCard, setTopUpCard] = useState<GiftCardDetail | null>(null);
+  const [topUpAmount, setTopUpAmount] = useState("");
+  const [topUpMethod, setTopUpMethod] = useState<MoneyPaymentMethod>("nakit");
+  const [historyCardId, setHistoryCardId] = useState<number | null>(null);
+  const [cardToToggle, setCardToToggle] = useState<GiftCardDetail | null>(null);
+
+  const cardsQuery = useQuery<GiftCardDetail[]>({
+    queryKey: ["/api/gift-cards"],
+  });
+
+  const historyQuery = useQuery<GiftCardReport>({
+    queryKey: [`/api/gift-cards/${historyCardId}`],
+    enabled: historyCardId !== null,
+  });
+
+  const refreshGiftCards = () => {
+    invalidateQueriesByPrefix("/api/gift-cards");
+    invalidateQueriesByPrefix("/api/reports/gift-cards");
+  };
+
+  const topUpMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/gift-cards/${topUpCard!.id}/top-ups`, {
+        amount: topUpAmount,
+        method: topUpMethod,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      refreshGiftCards();
+      // Nakit yüklemeler açık kasa oturumuna girer
+      invalidateQueriesByPrefix("/api/cash-sessions");
+      setTopUpCard(null);
+      setTopUpAmount("");
+      setTopUpMethod("nakit");
+      toast({
+        title: "Başarılı",
+        description: "Bakiye yüklendi.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Hata",
+        description: error.message.startsWith("409")
+          ? "Kullanıma kapalı karta yükleme yapılamaz."
+          : "Bakiye yüklenirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (card: GiftCardDetail) => {
+      const res = await apiRequest("PUT", `/api/gift-cards/${card.id}`, { isActive: !card.isActive });
+      return res.json();
+    },
+    onSuccess: () => {
+      refreshGiftCards();
+      setCardToToggle(null);
+      toast({
+        title: "Başarılı",
+        description: "Kart durumu güncellendi.",
+      });
+    },
+    onError: () => {
+      setCardToToggle(null);
+      toast({
+        title: "Hata",
+        description: "Kart durumu güncellenirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cards = cardsQuery.data || [];
+  const searchTerm = search.trim().toLocaleLowerCase("tr");
+  const filteredCards = searchTerm
+    ? cards.filter(card =>
+        card.code.toLocaleLowerCase("tr").includes(searchTerm) ||
+        card.customerName?.toLocaleLowerCase("tr").includes(searchTerm)
+      )
+    : cards;
+  const outstandingLiability = cards.reduce((total, card) => total + Math.max(card.balance, 0), 0);
+  const history = historyQuery.data;
+
+  return (
+    <main className="container mx-auto px-4 py-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-medium text-gray-darkest">Hediye Kartları</h1>
+        {canManage && (
+          <Button onClick={() => setIsFormOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Yeni Kart
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Toplam Kart</CardDescription>
+            <CardTitle className="text-2xl">{cards.length}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Bakiyesi Olan Kart</CardDescription>
+            <CardTitle className="text-2xl">{cards.filter(card => card.balance > 0).length}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Kullanılmamış Bakiye (Yükümlülük)</CardDescription>
+            <CardTitle className="text-2xl text-amber-600">{formatCurrency(outstandingLiability)} TL</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex justify-between items-center">
+            <span>Kartlar</span>
+            <Input
+              className="w-64"
+              placeholder="Kod veya müşteri ara"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Kod</TableHead>
+                  <TableHead>Müşteri</TableHead>
+                  <TableHead>Oluşturulma</TableHead>
+                  <TableHead>Durum</TableHead>
+                  <TableHead className="text-right">Bakiye</TableHead>
+                  <TableHead className="text-right">İşlemler</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredCards.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground h-16">
+                      {cardsQuery.isLoading ? "Yükleniyor..." : "Hediye kartı bulunamadı"}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredCards.map((card) => (
+                    <TableRow key={card.id}>
+                      <TableCell className="font-mono font-medium">{card.code}</TableCell>
+                      <TableCell>
+                        {card.customerId ? (
+                          <Link href={`/customer/${card.customerId}`} className="text-primary hover:underline">
+                            {card.customerName}
+                          </Link>
+                        ) : (
+                          <span className="text-muted-foreground">Hediye kartı</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{format(new Date(card.createdAt), "dd.MM.yyyy")}</TableCell>
+                      <TableCell>
+                        <Badge variant={card.isActive ? "default" : "secondary"}>
+                          {card.isActive ? "Aktif" : "Kapalı"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(card.balance)} TL</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end space-x-1">
+                          <Button variant="ghost" size="icon" title="Hareketler" onClick={() => setHistoryCardId(card.id)}>
+                            <History className="h-4 w-4" />
+                          </Button>
+                          {canManage && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Bakiye Yükle"
+                                disabled={!card.isActive}
+                                onClick={() => setTopUpCard(card)}
+                              >
+                                <PlusCircle className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className={card.isActive ? "text-red-500" : undefined}
+                                title={card.isActive ? "Kullanıma Kapat" : "Kullanıma Aç"}
+                                onClick={() => setCardToToggle(card)}
+                              >
+                                <Power className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Yeni Hediye Kartı</DialogTitle>
+          </DialogHeader>
+          <GiftCardForm onSaved={() => setIsFormOpen(false)} />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={topUpCard !== null} onOpenChange={(open) => !open && setTopUpCard(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Bakiye Yükle - {topUpCard?.code}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Mevcut bakiye: {formatCurrency(topUpCard?.balance ?? 0)} TL
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="topUpAmount">Tutar (TL)</Label>
+              <Input
+                id="topUpAmount"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0.00"
+                value={topUpAmount}
+                onChange={(e) => setTopUpAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Ödeme Yöntemi</Label>
+              <Select value={topUpMethod} onValueChange={(value) => setTopUpMethod(value as MoneyPaymentMethod)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Ödeme yöntemi seçin" />
+                </SelectTrigger>
+                <SelectContent>
+                  {moneyPaymentMethodEnum.options.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {PAYMENT_METHOD_LABELS[method]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => topUpMutation.mutate()}
+              disabled={topUpMutation.isPending || !(Number(topUpAmount) > 0)}
+            >
+              Yükle
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={historyCardId !== null} onOpenChange={(open) => !open && setHistoryCardId(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Kart Hareketleri - {history?.code}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Güncel bakiye: <span className="font-medium text-foreground">{formatCurrency(history?.balance ?? 0)} TL</span>
+          </p>
+          <div className="max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tarih</TableHead>
+                  <TableHead>İşlem</TableHead>
+                  <TableHead>Açıklama</TableHead>
+                  <TableHead>Kullanıcı</TableHead>
+                  <TableHead className="text-right">Tutar</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!history || history.transactions.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground h-16">
+                      {historyQuery.isLoading ? "Yükleniyor..." : "Hareket bulunmuyor"}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  history.transactions.map((transaction) => (
+                    <TableRow key={transaction.id}>
+                      <TableCell>{formatDateTime(transaction.createdAt)}</TableCell>
+                      <TableCell>
+                        {GIFT_CARD_TRANSACTION_LABELS[transaction.type as GiftCardTransactionType] ?? transaction.type}
+                        {transaction.method && (
+                          <span className="text-muted-foreground"> ({getPaymentMethodLabel(transaction.method)})</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {transaction.jobId ? (
+                          <Link href={`/view-job/${transaction.jobId}`} className="text-primary hover:underline">
+                            {transaction.notes}
+                          </Link>
+                        ) : (
+                          transaction.notes || "-"
+                        )}
+                      </TableCell>
+                      <TableCell>{transaction.userName || "-"}</TableCell>
+                      <TableCell
+                        className={cn(
+                          "text-right font-medium",
+                          Number(transaction.amount) < 0 ? "text-red-600" : "text-green-600"
+                        )}
+                      >
+                        {Number(transaction.amount) > 0 ? "+" : ""}{formatCurrency(transaction.amount)} TL
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={cardToToggle !== null}
+        onOpenChange={(open) => !open && setCardToToggle(null)}
+        title={cardToToggle?.isActive ? "Kartı Kullanıma Kapat" : "Kartı Kullanıma Aç"}
+        description={
+          cardToToggle?.isActive
+            ? "Kart kapatıldığında bakiyesi korunur ancak tahsilatta kullanılamaz ve yükleme yapılamaz. Devam etmek istiyor musunuz?"
+            : "Kart yeniden tahsilatta kullanılabilir hale gelecek. Devam etmek istiyor musunuz?"
+        }
+        confirmText={cardToToggle?.isActive ? "Kapat" : "Aç"}
+        cancelText="Vazgeç"
+        onConfirm={() => cardToToggle && toggleActiveMutation.mutate(cardToToggle)}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,550 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, ClipboardCheck, History, Pencil, Plus, PackagePlus } from "lucide-react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  InventoryMovementType,
+  InventoryProductDetail,
+  InventoryProductReport,
+  MoneyPaymentMethod,
+  moneyPaymentMethodEnum,
+  PAYMENT_METHOD_LABELS,
+  Service
+} from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
+import { cn, formatCurrency } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import InventoryProductForm from "@/components/inventory/InventoryProductForm";
+import ServiceRecipeEditor from "@/components/inventory/ServiceRecipeEditor";
+
+const INVENTORY_MOVEMENT_LABELS: Record<InventoryMovementType, string> = {
+  alim: "Alım",
+  tuketim: "Tüketim",
+  iade: "İade",
+  sayim: "Sayım Farkı",
+};
+
+function formatQuantity(value: number | string): string {
+  return Number(value).toLocaleString("tr-TR", { maximumFractionDigits: 3 });
+}
+
+function formatDateTime(value: Date | string): string {
+  return format(new Date(value), "dd.MM.yyyy HH:mm");
+}
+
+export default function Inventory() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canManage = hasPermission(user, "inventory.manage");
+  const canCreateExpense = hasPermission(user, "expenses.manage");
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [productToEdit, setProductToEdit] = useState<InventoryProductDetail | null>(null);
+  const [search, setSearch] = useState("");
+  const [purchaseProduct, setPurchaseProduct] = useState<InventoryProductDetail | null>(null);
+  const [purchaseQuantity, setPurchaseQuantity] = useState("");
+  const [purchaseCost, setPurchaseCost] = useState("");
+  const [createExpense, setCreateExpense] = useState(false);
+  const [purchaseMethod, setPurchaseMethod] = useState<MoneyPaymentMethod>("nakit");
+  const [countProduct, setCountProduct] = useState<InventoryProductDetail | null>(null);
+  const [countedStock, setCountedStock] = useState("");
+  const [historyProductId, setHistoryProductId] = useState<number | null>(null);
+  const [recipeServiceId, setRecipeServiceId] = useState<string>("");
+
+  const productsQuery = useQuery<InventoryProductDetail[]>({
+    queryKey: ["/api/inventory/products"],
+  });
+
+  const servicesQuery = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+  });
+
+  const historyQuery = useQuery<InventoryProductReport>({
+    queryKey: [`/api/inventory/products/${historyProductId}`],
+    enabled: historyProductId !== null,
+  });
+
+  const refreshInventory = () => {
+    invalidateQueriesByPrefix("/api/inventory");
+    invalidateQueriesByPrefix("/api/reports/inventory");
+  };
+
+  const closePurchase = () => {
+    setPurchaseProduct(null);
+    setPurchaseQuantity("");
+    setPurchaseCost("");
+    setCreateExpense(false);
+    setPurchaseMethod("nakit");
+  };
+
+  const purchaseMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/inventory/products/${purchaseProduct!.id}/purchases`, {
+        quantity: purchaseQuantity,
+        totalCost: purchaseCost || "0",
+        createExpense,
+        paymentMethod: purchaseMethod,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      refreshInventory();
+      if (createExpense) {
+        // Oluşturulan gider, nakit ise açık kasa oturumuna da yansır
+        invalidateQueriesByPrefix("/api/expenses");
+        invalidateQueriesByPrefix("/api/cash-sessions");
+      }
+      closePurchase();
+      toast({
+        title: "Başarılı",
+        description: "Alım kaydedildi.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Hata",
+        description: error.message.startsWith("409")
+          ? "Pasif ürüne alım girilemez."
+          : "Alım kaydedilirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const countMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/inventory/products/${countProduct!.id}/counts`, {
+        countedStock,
+      });
+    },
+    onSuccess: () => {
+      refreshInventory();
+      setCountProduct(null);
+      setCountedStock("");
+      toast({
+        title: "Başarılı",
+        description: "Sayım kaydedildi.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Hata",
+        description: "Sayım kaydedilirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const products = productsQuery.data || [];
+  const lowStockProducts = products.filter(product => product.isLow);
+  const searchTerm = search.trim().toLocaleLowerCase("tr");
+  const filteredProducts = searchTerm
+    ? products.filter(product => product.name.toLocaleLowerCase("tr").includes(searchTerm))
+    : products;
+  const stockValue = products.reduce((total, product) => total + Math.max(product.stock, 0) * product.averageUnitCost, 0);
+  const history = historyQuery.data;
+
+  return (
+    <main className="container mx-auto px-4 py-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-medium text-gray-darkest">Stok</h1>
+        {canManage && (
+          <Button onClick={() => setIsFormOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Yeni Ürün
+          </Button>
+        )}
+      </div>
+
+      {lowStockProducts.length > 0 && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Stok azaldı</AlertTitle>
+          <AlertDescription>
+            {lowStockProducts
+              .map(product => `${product.name} (${formatQuantity(product.stock)} ${product.unit})`)
+              .join(", ")}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Aktif Ürün</CardDescription>
+            <CardTitle className="text-2xl">{products.filter(product => product.isActive).length}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Minimumun Altında</CardDescription>
+            <CardTitle className={cn("text-2xl", lowStockProducts.length > 0 && "text-red-600")}>
+              {lowStockProducts.length}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Tahmini Stok Değeri</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(stockValue)} TL</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="products">
+        <TabsList className="mb-4">
+          <TabsTrigger value="products">Ürünler</TabsTrigger>
+          <TabsTrigger value="recipes">Hizmet Reçeteleri</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="products">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex justify-between items-center">
+                <span>Ürünler</span>
+                <Input
+                  className="w-64"
+                  placeholder="Ürün ara"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Ürün</TableHead>
+                      <TableHead>Durum</TableHead>
+                      <TableHead className="text-right">Minimum</TableHead>
+                      <TableHead className="text-right">Ort. Birim Maliyet</TableHead>
+                      <TableHead className="text-right">Stok</TableHead>
+                      <TableHead className="text-right">İşlemler</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredProducts.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center text-muted-foreground h-16">
+                          {productsQuery.isLoading ? "Yükleniyor..." : "Ürün bulunamadı"}
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredProducts.map((product) => (
+                        <TableRow key={product.id}>
+                          <TableCell className="font-medium">{product.name}</TableCell>
+                          <TableCell>
+                            {!product.isActive ? (
+                              <Badge variant="secondary">Pasif</Badge>
+                            ) : product.isLow ? (
+                              <Badge variant="destructive">Az</Badge>
+                            ) : (
+                              <Badge>Yeterli</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{formatQuantity(product.minStock)} {product.unit}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(product.averageUnitCost)} TL</TableCell>
+                          <TableCell className={cn("text-right font-medium", product.isLow && "text-red-600")}>
+                            {formatQuantity(product.stock)} {product.unit}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end space-x-1">
+                              <Button variant="ghost" size="icon" title="Hareketler" onClick={() => setHistoryProductId(product.id)}>
+                                <History className="h-4 w-4" />
+                              </Button>
+                              {canManage && (
+                                <>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    title="Alım Gir"
+                                    disabled={!product.isActive}
+                                    onClick={() => setPurchaseProduct(product)}
+                                  >
+                                    <PackagePlus className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    title="Sayım"
+                                    onClick={() => {
+                                      setCountProduct(product);
+                                      setCountedStock(String(product.stock));
+                                    }}
+                                  >
+                                    <ClipboardCheck className="h-4 w-4" />
+                                  </Button>
+                                  <Button variant="ghost" size="icon" title="Düzenle" onClick={() => setProductToEdit(product)}>
+                                    <Pencil className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="recipes">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex justify-between items-center">
+                <span>Hizmet Reçeteleri</span>
+                <Select value={recipeServiceId} onValueChange={setRecipeServiceId}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue placeholder="Hizmet seçin" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {servicesQuery.data?.map((service) => (
+                      <SelectItem key={service.id} value={service.id.toString()}>
+                        {service.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardTitle>
+              <CardDescription>
+                Tamamlanan iş emirlerinde hizmet adedi kadar malzeme stoktan düşülür
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {recipeServiceId ? (
+                <ServiceRecipeEditor key={recipeServiceId} serviceId={parseInt(recipeServiceId)} canManage={canManage} />
+              ) : (
+                <p className="text-center text-muted-foreground py-6">Reçetesini görmek için bir hizmet seçin</p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog
+        open={isFormOpen || productToEdit !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setIsFormOpen(false);
+            setProductToEdit(null);
+          }
+        }}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{productToEdit ? "Ürünü Düzenle" : "Yeni Ürün"}</DialogTitle>
+          </DialogHeader>
+          <InventoryProductForm
+            key={productToEdit?.id ?? "new"}
+            product={productToEdit ?? undefined}
+            onSaved={() => {
+              setIsFormOpen(false);
+              setProductToEdit(null);
+            }}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={purchaseProduct !== null} onOpenChange={(open) => !open && closePurchase()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Alım Gir - {purchaseProduct?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="purchaseQuantity">Miktar ({purchaseProduct?.unit})</Label>
+                <Input
+                  id="purchaseQuantity"
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  value={purchaseQuantity}
+                  onChange={(e) => setPurchaseQuantity(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="purchaseCost">Toplam Tutar (TL)</Label>
+                <Input
+                  id="purchaseCost"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                  value={purchaseCost}
+                  onChange={(e) => setPurchaseCost(e.target.value)}
+                />
+              </div>
+            </div>
+            {canCreateExpense && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="createExpense"
+                  checked={createExpense}
+                  onCheckedChange={(checked) => setCreateExpense(checked === true)}
+                />
+                <Label htmlFor="createExpense">Malzeme gideri olarak kaydet</Label>
+              </div>
+            )}
+            {createExpense && (
+              <div className="space-y-2">
+                <Label>Ödeme Yöntemi</Label>
+                <Select value={purchaseMethod} onValueChange={(value) => setPurchaseMethod(value as MoneyPaymentMethod)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Ödeme yöntemi seçin" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {moneyPaymentMethodEnum.options.map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {PAYMENT_METHOD_LABELS[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => purchaseMutation.mutate()}
+              disabled={
+                purchaseMutation.isPending ||
+                !(Number(purchaseQuantity) > 0) ||
+                (createExpense && !(Number(purchaseCost) > 0))
+              }
+            >
+              Kaydet
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={countProduct !== null} onOpenChange={(open) => !open && setCountProduct(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Stok Sayımı - {countProduct?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Kayıtlı stok: {formatQuantity(countProduct?.stock ?? 0)} {countProduct?.unit}
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="countedStock">Sayılan Miktar ({countProduct?.unit})</Label>
+              <Input
+                id="countedStock"
+                type="number"
+                step="0.001"
+                min="0"
+                value={countedStock}
+                onChange={(e) => setCountedStock(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => countMutation.mutate()}
+              disabled={countMutation.isPending || countedStock === "" || Number(countedStock) < 0}
+            >
+              Kaydet
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={historyProductId !== null} onOpenChange={(open) => !open && setHistoryProductId(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Stok Hareketleri - {history?.name}</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Güncel stok: <span className="font-medium text-foreground">{formatQuantity(history?.stock ?? 0)} {history?.unit}</span>
+          </p>
+          <div className="max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tarih</TableHead>
+                  <TableHead>İşlem</TableHead>
+                  <TableHead>Açıklama</TableHead>
+                  <TableHead>Kullanıcı</TableHead>
+                  <TableHead className="text-right">Tutar</TableHead>
+                  <TableHead className="text-right">Miktar</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!history || history.movements.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground h-16">
+                      {historyQuery.isLoading ? "Yükleniyor..." : "Hareket bulunmuyor"}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  history.movements.map((movement) => (
+                    <TableRow key={movement.id}>
+                      <TableCell>{formatDateTime(movement.createdAt)}</TableCell>
+                      <TableCell>
+                        {INVENTORY_MOVEMENT_LABELS[movement.type as InventoryMovementType] ?? movement.type}
+                      </TableCell>
+                      <TableCell>
+                        {movement.jobId ? (
+                          <Link href={`/view-job/${movement.jobId}`} className="text-primary hover:underline">
+                            {movement.notes}
+                          </Link>
+                        ) : (
+                          movement.notes || "-"
+                        )}
+                      </TableCell>
+                      <TableCell>{movement.userName || "-"}</TableCell>
+                      <TableCell className="text-right">
+                        {movement.totalCost !== null ? `${formatCurrency(movement.totalCost)} TL` : "-"}
+                      </TableCell>
+                      <TableCell
+                        className={cn(
+                          "text-right font-medium",
+                          Number(movement.quantity) < 0 ? "text-red-600" : "text-green-600"
+                        )}
+                      >
+                        {Number(movement.quantity) > 0 ? "+" : ""}{formatQuantity(movement.quantity)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </main>
+  );
+}
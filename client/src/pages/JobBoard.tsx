@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { differenceInMinutes } from "date-fns";
+import { ChevronRight, Clock, Users } from "lucide-react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { JobBoardItem, JobStatus } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { apiRequest, invalidateQueriesByPrefix, queryClient } from "@/lib/queryClient";
+import { cn, getJobStatusDisplay } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useJobEvents } from "@/hooks/use-job-events";
+
+const BOARD_COLUMNS: JobStatus[] = ["bekliyor", "devam_ediyor", "tamamlandi"];
+
+// Süre sayaçlarının yenilenme aralığı
+const TICK_INTERVAL_MS = 15 * 1000;
+
+function formatElapsed(minutes: number): string {
+  if (minutes < 60) return `${minutes} dk`;
+  return `${Math.floor(minutes / 60)} sa ${String(minutes % 60).padStart(2, "0")} dk`;
+}
+
+export default function JobBoard() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canMove = hasPermission(user, "jobs.status");
+  const { isConnected } = useJobEvents();
+  const [now, setNow] = useState(new Date());
+  const [dragOverColumn, setDragOverColumn] = useState<JobStatus | null>(null);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), TICK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Sunucu değişiklikleri anlık bildirdiği için periyodik yenileme kapalı
+  const boardQuery = useQuery<JobBoardItem[]>({
+    queryKey: ["/api/jobs/board"],
+    refetchInterval: false,
+  });
+
+  const moveJobMutation = useMutation({
+    mutationFn: async ({ jobId, status }: { jobId: number; status: JobStatus }) => {
+      const res = await apiRequest("PUT", `/api/jobs/${jobId}`, { status });
+      return res.json();
+    },
+    // Kart bırakıldığı anda yeni sütuna taşınır, sunucu yanıtı beklenmez
+    onMutate: ({ jobId, status }) => {
+      queryClient.setQueryData<JobBoardItem[]>(["/api/jobs/board"], (items) =>
+        items?.map(item => item.id === jobId ? { ...item, status, statusChangedAt: new Date() } : item)
+      );
+    },
+    onError: () => {
+      invalidateQueriesByPrefix("/api/jobs/board");
+      toast({
+        title: "Hata",
+        description: "İş durumu güncellenirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const moveJob = (item: JobBoardItem, status: JobStatus) => {
+    if (item.status !== status) {
+      moveJobMutation.mutate({ jobId: item.id, status });
+    }
+  };
+
+  const items = boardQuery.data || [];
+
+  return (
+    <main className="container mx-auto px-4 py-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-medium text-gray-darkest">İş Akışı</h1>
+        <div className="flex items-center text-sm text-muted-foreground">
+          <span className={cn("inline-block h-2 w-2 rounded-full mr-2", isConnected ? "bg-green-500" : "bg-gray-400")} />
+          {isConnected ? "Canlı" : "Bağlantı bekleniyor"}
+        </div>
+      </div>
+
+      {boardQuery.isLoading ? (
+        <p className="text-center py-6">Yükleniyor...</p>
+      ) : boardQuery.isError ? (
+        <p className="text-center py-6">İş panosu yüklenirken bir hata oluştu</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {BOARD_COLUMNS.map((column, columnIndex) => {
+            const columnItems = items.filter(item => item.status === column);
+            const statusInfo = getJobStatusDisplay(column);
+            const nextStatus = BOARD_COLUMNS[columnIndex + 1];
+
+            return (
+              <div
+                key={column}
+                className={cn(
+                  "bg-gray-50 rounded-lg p-3 min-h-[60vh] border-2 border-transparent",
+                  dragOverColumn === column && "border-primary"
+                )}
+                onDragOver={(e) => {
+                  if (!canMove) return;
+                  e.preventDefault();
+                  setDragOverColumn(column);
+                }}
+                onDragLeave={() => setDragOverColumn(null)}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  setDragOverColumn(null);
+                  const item = items.find(item => item.id === Number(e.dataTransfer.getData("text/plain")));
+                  if (item) moveJob(item, column);
+                }}
+              >
+                <div className="flex justify-between items-center mb-3">
+                  <span className={cn("px-2 py-1 rounded-full text-sm font-medium", statusInfo.className)}>
+                    {statusInfo.label}
+                  </span>
+                  <Badge variant="secondary">{columnItems.length}</Badge>
+                </div>
+
+                <div className="space-y-3">
+                  {columnItems.map((item) => {
+                    // Tamamlanan işte giriş ile bitiş arası, diğerlerinde mevcut durumdaki süre gösterilir
+                    const elapsed = column === "tamamlandi"
+                      ? differenceInMinutes(new Date(item.statusChangedAt), new Date(item.createdAt))
+                      : differenceInMinutes(now, new Date(item.statusChangedAt));
+
+                    return (
+                      <div
+                        key={item.id}
+                        draggable={canMove}
+                        onDragStart={(e) => e.dataTransfer.setData("text/plain", String(item.id))}
+                        className={cn("bg-white rounded-md shadow-sm p-3 border", canMove && "cursor-grab")}
+                      >
+                        <div className="flex justify-between items-start">
+                          <Link href={`/view-job/${item.id}`} className="font-mono text-lg font-semibold hover:underline">
+                            {item.plate}
+                          </Link>
+                          <span className="flex items-center text-xs text-muted-foreground">
+                            <Clock className="h-3 w-3 mr-1" />
+                            {formatElapsed(Math.max(elapsed, 0))}
+                          </span>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {[item.vehicle, item.customerName].filter(Boolean).join(" · ")}
+                        </p>
+                        {item.services.length > 0 && (
+                          <p className="text-sm mt-2">{item.services.join(", ")}</p>
+                        )}
+                        {item.staff.length > 0 && (
+                          <p className="flex items-center text-xs text-muted-foreground mt-1">
+                            <Users className="h-3 w-3 mr-1" />
+                            {item.staff.join(", ")}
+                          </p>
+                        )}
+                        {item.notes && (
+                          <p className="text-xs text-amber-700 mt-1">{item.notes}</p>
+                        )}
+                        {canMove && nextStatus && (
+                          <div className="flex justify-end mt-2">
+                            <Button size="sm" variant="outline" onClick={() => moveJob(item, nextStatus)}>
+                              {getJobStatusDisplay(nextStatus).label}
+                              <ChevronRight className="ml-1 h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                  {columnItems.length === 0 && (
+                    <p className="text-center text-sm text-muted-foreground py-6">İş yok</p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </main>
+  );
+}
@@ -1,10 +1,14 @@
-import { useParams } from "wouter";
+import { useParams, useSearch } from "wouter";
 import JobForm from "@/components/jobs/JobForm";
 
 export default function NewJob() {
   const params = useParams<{ id?: string }>();
   const jobId = params?.id;
   
+  // Randevudan dönüştürülen iş emirleri ?appointmentId= ile açılır
+  const searchParams = new URLSearchParams(useSearch());
+  const appointmentId = searchParams.get("appointmentId") || undefined;
+  
   return (
     <main className="container mx-auto px-4 py-6">
       <div className="mb-6">
@@ -15,7 +19,7 @@ export default function NewJob() {
       
       <div className="bg-white rounded-lg shadow-sm overflow-hidden">
         <div className="p-6">
-          <JobForm jobId={jobId} />
+          <JobForm jobId={jobId} appointmentId={appointmentId} />
         </div>
       </div>
     </main>
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { FileText, Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { OpenBalanceRow, OpenBalances } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { formatCurrency } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import SettlementForm from "@/components/receivables/SettlementForm";
+
+// Açık bakiyeler: ödenmemiş işi olan tüm müşteriler, iş tarihine göre yaşlandırılmış
+export default function Receivables() {
+  const { user } = useAuth();
+  const canCollect = hasPermission(user, "payments.manage");
+
+  const [search, setSearch] = useState("");
+  const [settleRow, setSettleRow] = useState<OpenBalanceRow | null>(null);
+
+  const balancesQuery = useQuery<OpenBalances>({
+    queryKey: ["/api/receivables"],
+  });
+
+  const balances = balancesQuery.data;
+  const searchTerm = search.trim().toLocaleLowerCase("tr");
+  const rows = (balances?.rows || []).filter(row =>
+    !searchTerm ||
+    row.customerName.toLocaleLowerCase("tr").includes(searchTerm) ||
+    row.customerPhone?.includes(searchTerm)
+  );
+
+  return (
+    <main className="container mx-auto px-4 py-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-medium text-gray-darkest">Alacaklar</h1>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Toplam Açık Bakiye</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(balances?.totals.total ?? 0)} TL</CardTitle>
+            <p className="text-xs text-gray-500">
+              {balances?.rows.length ?? 0} müşteri, {balances?.totals.jobCount ?? 0} iş
+            </p>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>0-30 Gün</CardDescription>
+            <CardTitle className="text-2xl">{formatCurrency(balances?.totals.days0to30 ?? 0)} TL</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>31-60 Gün</CardDescription>
+            <CardTitle className="text-2xl text-amber-600">{formatCurrency(balances?.totals.days31to60 ?? 0)} TL</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>60+ Gün</CardDescription>
+            <CardTitle className="text-2xl text-red-600">{formatCurrency(balances?.totals.over60 ?? 0)} TL</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex justify-between items-center">
+            <span>Açık Bakiyeler</span>
+            <Input
+              className="w-64"
+              placeholder="Müşteri adı veya telefon ara"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Müşteri</TableHead>
+                  <TableHead>Telefon</TableHead>
+                  <TableHead>Açık İş</TableHead>
+                  <TableHead>En Eski İş</TableHead>
+                  <TableHead className="text-right">0-30 Gün</TableHead>
+                  <TableHead className="text-right">31-60 Gün</TableHead>
+                  <TableHead className="text-right">60+ Gün</TableHead>
+                  <TableHead className="text-right">Toplam</TableHead>
+                  <TableHead className="text-right">İşlemler</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center text-muted-foreground h-16">
+                      {balancesQuery.isLoading ? "Yükleniyor..." : "Açık bakiyesi olan müşteri bulunmuyor"}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rows.map((row) => (
+                    <TableRow key={row.customerId}>
+                      <TableCell>
+                        <Link href={`/customer/${row.customerId}`} className="text-primary hover:underline">
+                          {row.customerName}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{row.customerPhone || "-"}</TableCell>
+                      <TableCell>{row.jobCount}</TableCell>
+                      <TableCell>{format(new Date(row.oldestJobDate), "dd.MM.yyyy")}</TableCell>
+                      <TableCell className="text-right">{row.days0to30 > 0 ? formatCurrency(row.days0to30) : "-"}</TableCell>
+                      <TableCell className="text-right">{row.days31to60 > 0 ? formatCurrency(row.days31to60) : "-"}</TableCell>
+                      <TableCell className="text-right text-red-600">{row.over60 > 0 ? formatCurrency(row.over60) : "-"}</TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(row.total)} TL</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end space-x-1">
+                          <Link href={`/customer/${row.customerId}/statement`}>
+                            <Button variant="ghost" size="icon" title="Hesap Ekstresi">
+                              <FileText className="h-4 w-4" />
+                            </Button>
+                          </Link>
+                          {canCollect && (
+                            <Button variant="ghost" size="icon" title="Tahsilat" onClick={() => setSettleRow(row)}>
+                              <Wallet className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+              {balances && rows.length > 0 && (
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={4} className="font-medium">Toplam</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(balances.totals.days0to30)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(balances.totals.days31to60)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(balances.totals.over60)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(balances.totals.total)} TL</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableFooter>
+              )}
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={settleRow !== null} onOpenChange={(open) => !open && setSettleRow(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Tahsilat - {settleRow?.customerName}</DialogTitle>
+          </DialogHeader>
+          {settleRow && (
+            <SettlementForm
+              customerId={settleRow.customerId}
+              remaining={settleRow.total}
+              onSaved={() => setSettleRow(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </main>
+  );
+}
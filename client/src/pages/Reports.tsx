@@ -39,11 +39,15 @@ import {
   TabsList, 
   TabsTrigger 
 } from "@/components/ui/tabs";
-import { cn, formatCurrency } from "@/lib/utils";
+import { cn, formatCurrency, getPaymentMethodLabel } from "@/lib/utils";
 import JobsTable from "@/components/dashboard/JobsTable";
+import VatReportCard from "@/components/reports/VatReportCard";
+import GiftCardReportCard from "@/components/reports/GiftCardReportCard";
+import InventoryReportCard from "@/components/reports/InventoryReportCard";
+import PayrollReportCard from "@/components/reports/PayrollReportCard";
+import RevenueReportCard from "@/components/reports/RevenueReportCard";
+import { useAppSettings } from "@/hooks/use-app-settings";
 import { 
-  LineChart, 
-  Line, 
   XAxis, 
   YAxis, 
   CartesianGrid, 
@@ -61,6 +65,7 @@ export default function Reports() {
   const [date, setDate] = useState(new Date());
   const [activeTab, setActiveTab] = useState("daily");
   const printRef = useRef<HTMLDivElement>(null);
+  const { settings } = useAppSettings();
   
   // Calculate date ranges based on active tab
   const getDateRange = () => {
@@ -74,6 +79,10 @@ export default function Reports() {
       const start = new Date(date.getFullYear(), date.getMonth(), 1);
       const end = new Date(date.getFullYear(), date.getMonth() + 1, 0);
       return { start, end };
+    } else if (activeTab === "yearly") {
+      const start = new Date(date.getFullYear(), 0, 1);
+      const end = new Date(date.getFullYear(), 11, 31);
+      return { start, end };
     }
     return { start: date, end: date };
   };
@@ -92,13 +101,6 @@ export default function Reports() {
     staleTime: 0, // Her zaman güncel veri al
   });
   
-  // Fetch jobs to generate chart data - Tüm işleri alır, durum filtresi uygulanmaz
-  const jobsQuery = useQuery<any[]>({
-    queryKey: ["/api/jobs"],
-    refetchInterval: 5000, // Her 5 saniyede bir yenile
-    staleTime: 0, // Her zaman güncel veri al
-  });
-  
   // Fetch payment method stats
   const paymentMethodsQuery = useQuery<PaymentMethodStats[]>({
     queryKey: ["/api/stats/payment-methods"],
@@ -158,46 +160,6 @@ export default function Reports() {
     staleTime: 0, // Her zaman güncel veri al
   });
   
-  // Create daily revenue data based on actual jobs
-  const dailyRevenueData = useMemo(() => {
-    const baseData = [
-      { date: "Pazartesi", total: 0 },
-      { date: "Salı", total: 0 },
-      { date: "Çarşamba", total: 0 },
-      { date: "Perşembe", total: 0 },
-      { date: "Cuma", total: 0 },
-      { date: "Cumartesi", total: 0 },
-      { date: "Pazar", total: 0 }
-    ];
-    
-    // Populate daily revenue from actual job data if available
-    if (jobsQuery.data && jobsQuery.data.length > 0) {
-      const dayMap = ['Pazar', 'Pazartesi', 'Salı', 'Çarşamba', 'Perşembe', 'Cuma', 'Cumartesi'];
-      
-      // Derin kopyasını alalım, orijinal veriyi bozmamak için
-      const result = [...baseData];
-      
-      jobsQuery.data.forEach(job => {
-        if (job.status !== 'iptal') { // İptal edilen işleri dahil etme
-          const jobDate = new Date(job.createdAt);
-          const dayName = dayMap[jobDate.getDay()];
-          const index = result.findIndex(item => item.date === dayName);
-          
-          if (index !== -1) {
-            result[index] = {
-              ...result[index],
-              total: result[index].total + Number(job.totalAmount || 0)
-            };
-          }
-        }
-      });
-      
-      return result;
-    }
-    
-    return baseData;
-  }, [jobsQuery.data]);
-  
   // Fetch services
   const servicesQuery = useQuery<any[]>({
     queryKey: ["/api/services"],
@@ -245,6 +207,7 @@ export default function Reports() {
     <main className="container mx-auto px-4 py-6" ref={printRef}>
       <div className="flex flex-col md:flex-row items-start md:items-center justify-between mb-6">
         <div>
+          <p className="hidden print:block text-sm text-gray-500">{settings.companyName}</p>
           <h1 className="text-2xl font-medium text-gray-darkest">Raporlar</h1>
           <div className="text-sm text-gray-500 mt-1">
             {activeTab === "daily" 
@@ -295,10 +258,15 @@ export default function Reports() {
       </div>
       
       <Tabs defaultValue="daily" className="mb-6" onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-3 mb-4">
+        <TabsList className="grid w-full grid-cols-8 mb-4">
           <TabsTrigger value="daily">Günlük</TabsTrigger>
           <TabsTrigger value="weekly">Haftalık</TabsTrigger>
           <TabsTrigger value="monthly">Aylık</TabsTrigger>
+          <TabsTrigger value="yearly">Yıllık</TabsTrigger>
+          <TabsTrigger value="vat">KDV</TabsTrigger>
+          <TabsTrigger value="giftCards">Hediye Kartları</TabsTrigger>
+          <TabsTrigger value="inventory">Stok</TabsTrigger>
+          <TabsTrigger value="payroll">Prim Bordrosu</TabsTrigger>
         </TabsList>
         
         <TabsContent value="daily" className="space-y-6">
@@ -448,9 +416,7 @@ export default function Reports() {
                       <PieChart>
                         <Pie
                           data={paymentMethodsQuery.data.map(item => ({
-                            name: item.method === 'nakit' ? 'Nakit' :
-                                  item.method === 'kredi_karti' ? 'Kredi Kartı' :
-                                  item.method === 'havale_eft' ? 'Havale/EFT' : 'Diğer',
+                            name: getPaymentMethodLabel(item.method),
                             value: item.count
                           }))}
                           cx="50%"
@@ -506,9 +472,7 @@ export default function Reports() {
                         {paymentMethodsQuery.data.map((method, index) => (
                           <tr key={index} className="border-b border-gray-200">
                             <td className="py-2 px-4">
-                              {method.method === 'nakit' ? 'Nakit' :
-                               method.method === 'kredi_karti' ? 'Kredi Kartı' :
-                               method.method === 'havale_eft' ? 'Havale/EFT' : 'Diğer'}
+                              {getPaymentMethodLabel(method.method)}
                             </td>
                             <td className="py-2 px-4 text-right">{method.count}</td>
                             <td className="py-2 px-4 text-right">{formatCurrency(method.total)} TL</td>
@@ -568,151 +532,21 @@ export default function Reports() {
         </TabsContent>
         
         <TabsContent value="weekly" className="space-y-6">
-          <Card>
-            <CardHeader>
-              <CardTitle>Haftalık Gelir Grafiği</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="h-[400px]">
-                {jobsQuery.isLoading ? (
-                  <div className="h-full flex items-center justify-center">
-                    <p>Yükleniyor...</p>
-                  </div>
-                ) : (
-                  <ResponsiveContainer width="100%" height="100%">
-                    <LineChart
-                      data={dailyRevenueData}
-                      margin={{
-                        top: 5,
-                        right: 30,
-                        left: 20,
-                        bottom: 5,
-                      }}
-                    >
-                      <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis dataKey="date" />
-                      <YAxis />
-                      <Tooltip formatter={(value) => `${formatCurrency(value as number)} TL`} />
-                      <Legend />
-                      <Line 
-                        type="monotone" 
-                        dataKey="total" 
-                        name="Günlük Gelir" 
-                        stroke="#1E88E5" 
-                        activeDot={{ r: 8 }} 
-                      />
-                    </LineChart>
-                  </ResponsiveContainer>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-          
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            <Card>
-              <CardHeader className="pb-2">
-                <CardDescription>Haftalık Toplam</CardDescription>
-                <CardTitle className="text-2xl">
-                  {statsQuery.data?.totalAmount 
-                    ? `${formatCurrency(statsQuery.data.totalAmount * 7)} TL` 
-                    : "0.00 TL"}
-                </CardTitle>
-              </CardHeader>
-            </Card>
-            
-            <Card>
-              <CardHeader className="pb-2">
-                <CardDescription>Ortalama Günlük Gelir</CardDescription>
-                <CardTitle className="text-2xl">
-                  {statsQuery.data?.totalAmount 
-                    ? `${formatCurrency(statsQuery.data.totalAmount)} TL` 
-                    : "0.00 TL"}
-                </CardTitle>
-              </CardHeader>
-            </Card>
-            
-            <Card>
-              <CardHeader className="pb-2">
-                <CardDescription>Toplam İş Sayısı</CardDescription>
-                <CardTitle className="text-2xl">
-                  {statsQuery.data?.totalJobs 
-                    ? statsQuery.data.totalJobs * 7
-                    : 0}
-                </CardTitle>
-              </CardHeader>
-            </Card>
-          </div>
+          <RevenueReportCard
+            title="Haftalık Gelir Grafiği"
+            startDate={dateRange.start}
+            endDate={dateRange.end}
+            groupBy="day"
+          />
         </TabsContent>
         
         <TabsContent value="monthly" className="space-y-6">
-          <Card>
-            <CardHeader>
-              <CardTitle>Aylık Özet</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                  <h3 className="text-lg font-medium mb-4">Finansal Özet</h3>
-                  <div className="space-y-4">
-                    <div className="flex justify-between items-center">
-                      <span>Toplam Gelir:</span>
-                      <span className="font-medium">
-                        {statsQuery.data?.totalAmount ? formatCurrency(statsQuery.data.totalAmount) : "0.00"} TL
-                      </span>
-                    </div>
-                    <div className="flex justify-between items-center">
-                      <span>Tahsil Edilen:</span>
-                      <span className="font-medium text-green-600">
-                        {statsQuery.data?.totalPaid ? formatCurrency(statsQuery.data.totalPaid) : "0.00"} TL
-                      </span>
-                    </div>
-                    <div className="flex justify-between items-center">
-                      <span>Bekleyen Ödemeler:</span>
-                      <span className="font-medium text-amber-500">
-                        {statsQuery.data 
-                          ? formatCurrency(statsQuery.data.totalAmount - statsQuery.data.totalPaid) 
-                          : "0.00"} TL
-                      </span>
-                    </div>
-                    <div className="flex justify-between items-center">
-                      <span>Ortalama İş Başı Gelir:</span>
-                      <span className="font-medium">
-                        {statsQuery.data && statsQuery.data.totalJobs > 0 
-                          ? formatCurrency(statsQuery.data.totalAmount / statsQuery.data.totalJobs) 
-                          : "0.00"} TL
-                      </span>
-                    </div>
-                  </div>
-                </div>
-                
-                <div>
-                  <h3 className="text-lg font-medium mb-4">İş İstatistikleri</h3>
-                  <div className="space-y-4">
-                    <div className="flex justify-between items-center">
-                      <span>Toplam İş Sayısı:</span>
-                      <span className="font-medium">{statsQuery.data?.totalJobs || 0}</span>
-                    </div>
-                    <div className="flex justify-between items-center">
-                      <span>Günlük Ortalama İş:</span>
-                      <span className="font-medium">
-                        {statsQuery.data && statsQuery.data.totalJobs > 0 
-                          ? (statsQuery.data.totalJobs / 30).toFixed(1) 
-                          : "0.0"}
-                      </span>
-                    </div>
-                    <div className="flex justify-between items-center">
-                      <span>En Yoğun Gün:</span>
-                      <span className="font-medium">-</span>
-                    </div>
-                    <div className="flex justify-between items-center">
-                      <span>En Çok Tercih Edilen Hizmet:</span>
-                      <span className="font-medium">-</span>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+          <RevenueReportCard
+            title="Aylık Gelir Grafiği"
+            startDate={dateRange.start}
+            endDate={dateRange.end}
+            groupBy="day"
+          />
           
           {/* Net Kâr Analizi Bölümü */}
           <Card>
@@ -795,6 +629,31 @@ export default function Reports() {
             </CardContent>
           </Card>
         </TabsContent>
+        
+        <TabsContent value="yearly" className="space-y-6">
+          <RevenueReportCard
+            title="Yıllık Gelir Grafiği"
+            startDate={dateRange.start}
+            endDate={dateRange.end}
+            groupBy="month"
+          />
+        </TabsContent>
+        
+        <TabsContent value="vat" className="space-y-6">
+          <VatReportCard />
+        </TabsContent>
+
+        <TabsContent value="giftCards" className="space-y-6">
+          <GiftCardReportCard />
+        </TabsContent>
+
+        <TabsContent value="inventory" className="space-y-6">
+          <InventoryReportCard />
+        </TabsContent>
+
+        <TabsContent value="payroll" className="space-y-6">
+          <PayrollReportCard />
+        </TabsContent>
       </Tabs>
       
       <JobsTable 
@@ -803,7 +662,9 @@ export default function Reports() {
             ? "Günlük İş Emirleri" 
             : activeTab === "weekly" 
               ? "Haftalık İş Emirleri" 
-              : "Aylık İş Emirleri"
+              : activeTab === "yearly"
+                ? "Yıllık İş Emirleri"
+                : "Aylık İş Emirleri"
         }
         date={format(date, "yyyy-MM-dd")}
       />
@@ -4,33 +4,86 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { formatDate } from "@/lib/utils";
+import type { BackupRestoreReport, JobPhotoBackupFile } from "@shared/backup";
+import { VAT_RATES } from "@shared/schema";
+import { AppSettings, DEFAULT_APP_SETTINGS, themeColorEnum } from "@shared/settings";
+import { useAppSettings, THEME_COLOR_HSL } from "@/hooks/use-app-settings";
+
+// Geri yükleme raporunda gösterilecek tablo adları
+const BACKUP_TABLE_LABELS: Record<string, string> = {
+  customers: "Müşteriler",
+  vehicles: "Araçlar",
+  services: "Hizmetler",
+  jobs: "İş Emirleri",
+  jobServices: "İş Satırları",
+  payments: "Ödemeler",
+  washBays: "Yıkama Alanları",
+  appointments: "Randevular",
+  appointmentServices: "Randevu Hizmetleri",
+  subscriptionPlans: "Üyelik Paketleri",
+  subscriptionPlanServices: "Paket Hizmetleri",
+  customerSubscriptions: "Üyelikler",
+  users: "Kullanıcılar",
+  expenses: "Giderler",
+  cashSessions: "Kasa Oturumları",
+  cashMovements: "Kasa Hareketleri",
+  loyaltyTransactions: "Sadakat Hareketleri",
+  giftCards: "Hediye Kartları",
+  giftCardTransactions: "Hediye Kartı Hareketleri",
+  customerServicePrices: "Anlaşmalı Fiyatlar",
+  accountInvoices: "Cari Hesap Faturaları",
+  inventoryProducts: "Stok Ürünleri",
+  inventoryMovements: "Stok Hareketleri",
+  serviceConsumptions: "Hizmet Reçeteleri",
+  jobStaff: "İş Personeli",
+  staffPayouts: "Prim Ödemeleri",
+  jobPhotos: "İş Fotoğrafları",
+  jobDamageMarks: "Hasar Kayıtları",
+};
 
 export default function Settings() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
-  // Örnek sistem ayarları
+  // Sunucuda saklanan sistem, bildirim ve görünüm ayarları
+  const { settings: appSettings, isLoading: isLoadingAppSettings } = useAppSettings();
+  
+  // Sistem ayarları
   const [systemSettings, setSystemSettings] = useState({
-    companyName: "ZENITH CAR Oto Yıkama",
-    address: "Yıldız Mah. Atatürk Cad. No:123 İstanbul",
-    phone: "+90 555 123 4567",
-    email: "info@zenithcar.com",
-    taxId: "1234567890",
-    receiptFooter: "Bizi tercih ettiğiniz için teşekkür ederiz. Tekrar bekleriz!"
+    companyName: DEFAULT_APP_SETTINGS.companyName,
+    address: DEFAULT_APP_SETTINGS.address,
+    phone: DEFAULT_APP_SETTINGS.phone,
+    email: DEFAULT_APP_SETTINGS.email,
+    taxId: DEFAULT_APP_SETTINGS.taxId,
+    receiptFooter: DEFAULT_APP_SETTINGS.receiptFooter,
+    vatRate: DEFAULT_APP_SETTINGS.vatRate,
+    businessTimeZone: DEFAULT_APP_SETTINGS.businessTimeZone,
+    dayCutoffHour: DEFAULT_APP_SETTINGS.dayCutoffHour,
+    subscriptionAutoRenew: DEFAULT_APP_SETTINGS.subscriptionAutoRenew
   });
   
-  // Örnek bildirim ayarları
+  // Bildirim ayarları
   const [notificationSettings, setNotificationSettings] = useState({
-    emailNotifications: true,
-    smsNotifications: false,
-    appointmentReminders: true,
-    promotionalMessages: false,
-    dailySummary: true
+    emailNotifications: DEFAULT_APP_SETTINGS.emailNotifications,
+    smsNotifications: DEFAULT_APP_SETTINGS.smsNotifications,
+    appointmentReminders: DEFAULT_APP_SETTINGS.appointmentReminders,
+    promotionalMessages: DEFAULT_APP_SETTINGS.promotionalMessages,
+    dailySummary: DEFAULT_APP_SETTINGS.dailySummary
+  });
+  
+  // Sadakat programı ayarları
+  const [loyaltySettings, setLoyaltySettings] = useState({
+    loyaltyEnabled: DEFAULT_APP_SETTINGS.loyaltyEnabled,
+    loyaltyPointsPerTl: DEFAULT_APP_SETTINGS.loyaltyPointsPerTl,
+    loyaltyPointsPerJob: DEFAULT_APP_SETTINGS.loyaltyPointsPerJob,
+    loyaltyPointValue: DEFAULT_APP_SETTINGS.loyaltyPointValue,
+    loyaltyFreeWashEvery: DEFAULT_APP_SETTINGS.loyaltyFreeWashEvery
   });
   
   // Yedekleme ayarları
@@ -38,6 +91,59 @@ export default function Settings() {
     autoBackupEnabled: false
   });
   
+  // Deneme (dry-run) sonucu, onaylanınca aynı veri geri yüklenir
+  const [restorePreview, setRestorePreview] = useState<{
+    backupData: unknown;
+    report: BackupRestoreReport;
+  } | null>(null);
+  
+  // Yedek isteği hata verdiyse sunucunun mesajını ve ilk doğrulama hatasını göster
+  const readBackupError = async (response: Response, fallback: string) => {
+    const result = await response.json().catch(() => ({}));
+    const details = result.errors?.[0]
+      ? ` (${result.errors[0].path.join('.')}: ${result.errors[0].message})`
+      : '';
+    return new Error((result.message || fallback) + details);
+  };
+  
+  // Yedeği sunucuya gönder (dryRun ise veritabanı değiştirilmez). Fotoğraf dosyaları istek boyutu sınırını
+  // aşmasın diye önce tek tek yüklenir; geri yükleme isteğinde yalnızca dosya adları gönderilir.
+  const sendBackup = async (backupData: unknown, dryRun: boolean) => {
+    const photoFiles = ((backupData as { jobPhotoFiles?: unknown } | null)?.jobPhotoFiles ?? []) as Partial<JobPhotoBackupFile>[];
+    
+    if (!dryRun) {
+      for (const file of photoFiles.filter(file => file.image && file.thumbnail)) {
+        const response = await fetch('/api/backup/photos', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify(file)
+        });
+        if (!response.ok) {
+          throw await readBackupError(response, `${file.fileName} fotoğrafı yüklenemedi`);
+        }
+      }
+    }
+    
+    const response = await fetch(`/api/backup/import${dryRun ? '?dryRun=true' : ''}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        ...(backupData as object),
+        jobPhotoFiles: photoFiles.map(file => ({ fileName: file.fileName }))
+      })
+    });
+    
+    if (!response.ok) {
+      throw await readBackupError(response, "Geri yükleme sırasında bir hata oluştu");
+    }
+    
+    return await response.json() as { message: string; report: BackupRestoreReport };
+  };
+  
   // Yedekleme dosyaları listesi
   interface BackupFile {
     filename: string;
@@ -117,11 +223,64 @@ export default function Settings() {
     }
   }, [backupSettingsData]);
   
+  useEffect(() => {
+    if (isLoadingAppSettings) return;
+    
+    setSystemSettings({
+      companyName: appSettings.companyName,
+      address: appSettings.address,
+      phone: appSettings.phone,
+      email: appSettings.email,
+      taxId: appSettings.taxId,
+      receiptFooter: appSettings.receiptFooter,
+      vatRate: appSettings.vatRate,
+      businessTimeZone: appSettings.businessTimeZone,
+      dayCutoffHour: appSettings.dayCutoffHour,
+      subscriptionAutoRenew: appSettings.subscriptionAutoRenew
+    });
+    setNotificationSettings({
+      emailNotifications: appSettings.emailNotifications,
+      smsNotifications: appSettings.smsNotifications,
+      appointmentReminders: appSettings.appointmentReminders,
+      promotionalMessages: appSettings.promotionalMessages,
+      dailySummary: appSettings.dailySummary
+    });
+    setLoyaltySettings({
+      loyaltyEnabled: appSettings.loyaltyEnabled,
+      loyaltyPointsPerTl: appSettings.loyaltyPointsPerTl,
+      loyaltyPointsPerJob: appSettings.loyaltyPointsPerJob,
+      loyaltyPointValue: appSettings.loyaltyPointValue,
+      loyaltyFreeWashEvery: appSettings.loyaltyFreeWashEvery
+    });
+  }, [isLoadingAppSettings]); // Form, ayarlar ilk yüklendiğinde doldurulur
+  
+  // Sistem, bildirim ve görünüm ayarlarını kaydet
+  const saveAppSettingsMutation = useMutation({
+    mutationFn: async ({ values }: { values: Partial<AppSettings>; successMessage: string }) => {
+      const res = await apiRequest('PUT', '/api/settings', values);
+      return res.json();
+    },
+    onSuccess: (_data, { successMessage }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+      toast({
+        title: "Ayarlar kaydedildi",
+        description: successMessage
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Hata",
+        description: error.message || "Ayarlar kaydedilirken bir hata oluştu.",
+        variant: "destructive"
+      });
+    }
+  });
+  
   const handleSystemInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
-    const { name, value } = e.target;
+    const { name, value, type } = e.target;
     setSystemSettings((prev) => ({
       ...prev,
-      [name]: value
+      [name]: type === "number" ? Number(value) : value
     }));
   };
   
@@ -133,16 +292,31 @@ export default function Settings() {
   };
   
   const handleSystemSave = () => {
-    toast({
-      title: "Ayarlar kaydedildi",
-      description: "Sistem ayarları başarıyla güncellendi."
+    saveAppSettingsMutation.mutate({
+      values: systemSettings,
+      successMessage: "Sistem ayarları başarıyla güncellendi."
+    });
+  };
+  
+  const handleLoyaltyInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setLoyaltySettings((prev) => ({
+      ...prev,
+      [name]: Number(value)
+    }));
+  };
+  
+  const handleLoyaltySave = () => {
+    saveAppSettingsMutation.mutate({
+      values: loyaltySettings,
+      successMessage: "Sadakat programı ayarları başarıyla güncellendi."
     });
   };
   
   const handleNotificationSave = () => {
-    toast({
-      title: "Bildirim ayarları kaydedildi",
-      description: "Bildirim tercihleri başarıyla güncellendi."
+    saveAppSettingsMutation.mutate({
+      values: notificationSettings,
+      successMessage: "Bildirim tercihleri başarıyla güncellendi."
     });
   };
   
@@ -154,6 +328,7 @@ export default function Settings() {
         <TabsList className="mb-4">
           <TabsTrigger value="system">Sistem</TabsTrigger>
           <TabsTrigger value="notifications">Bildirimler</TabsTrigger>
+          <TabsTrigger value="loyalty">Sadakat</TabsTrigger>
           <TabsTrigger value="appearance">Görünüm</TabsTrigger>
           <TabsTrigger value="backup">Yedekleme</TabsTrigger>
         </TabsList>
@@ -220,6 +395,67 @@ export default function Settings() {
                 </div>
               </div>
               
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="vatRate">Varsayılan KDV Oranı (%)</Label>
+                  <Select
+                    value={systemSettings.vatRate.toString()}
+                    onValueChange={(value) => setSystemSettings((prev) => ({ ...prev, vatRate: Number(value) }))}
+                  >
+                    <SelectTrigger id="vatRate">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {VAT_RATES.map((rate) => (
+                        <SelectItem key={rate} value={rate.toString()}>
+                          %{rate}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="businessTimeZone">Saat Dilimi</Label>
+                  <Input
+                    id="businessTimeZone"
+                    name="businessTimeZone"
+                    placeholder="Europe/Istanbul"
+                    value={systemSettings.businessTimeZone}
+                    onChange={handleSystemInputChange}
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="dayCutoffHour">Gün Kapanış Saati</Label>
+                  <Input
+                    id="dayCutoffHour"
+                    name="dayCutoffHour"
+                    type="number"
+                    min={0}
+                    max={23}
+                    value={systemSettings.dayCutoffHour}
+                    onChange={handleSystemInputChange}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Bu saatten önceki işler bir önceki günün raporlarına yazılır (0 = gece yarısı)
+                  </p>
+                </div>
+              </div>
+              
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="text-md font-medium">Üyelikleri Otomatik Yenile</h3>
+                  <p className="text-sm text-gray-500">
+                    Otomatik yenileme seçilen üyelikler dönem sonunda uzatılır ve yeni dönem ücreti müşteriye yansıtılır
+                  </p>
+                </div>
+                <Switch
+                  checked={systemSettings.subscriptionAutoRenew}
+                  onCheckedChange={(checked) => setSystemSettings((prev) => ({ ...prev, subscriptionAutoRenew: checked }))}
+                />
+              </div>
+              
               <div className="space-y-2">
                 <Label htmlFor="receiptFooter">Fiş/Fatura Alt Metni</Label>
                 <textarea
@@ -231,7 +467,7 @@ export default function Settings() {
                 />
               </div>
               
-              <Button onClick={handleSystemSave}>Değişiklikleri Kaydet</Button>
+              <Button onClick={handleSystemSave} disabled={saveAppSettingsMutation.isPending}>Değişiklikleri Kaydet</Button>
             </CardContent>
           </Card>
         </TabsContent>
@@ -298,7 +534,87 @@ export default function Settings() {
                 />
               </div>
               
-              <Button onClick={handleNotificationSave}>Değişiklikleri Kaydet</Button>
+              <Button onClick={handleNotificationSave} disabled={saveAppSettingsMutation.isPending}>Değişiklikleri Kaydet</Button>
+            </CardContent>
+          </Card>
+        </TabsContent>
+        
+        <TabsContent value="loyalty">
+          <Card>
+            <CardHeader>
+              <CardTitle>Sadakat Programı</CardTitle>
+              <CardDescription>Tamamlanan işlerde kazanılan puanları ve ücretsiz yıkama kuralını ayarlayın</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="text-md font-medium">Sadakat Programı</h3>
+                  <p className="text-sm text-gray-500">Kapalıyken yeni puan kazanılmaz ve puan kullanılamaz</p>
+                </div>
+                <Switch 
+                  checked={loyaltySettings.loyaltyEnabled} 
+                  onCheckedChange={(checked) => setLoyaltySettings((prev) => ({ ...prev, loyaltyEnabled: checked }))}
+                />
+              </div>
+              
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="loyaltyPointsPerTl">1 TL Harcama Başına Puan</Label>
+                  <Input
+                    id="loyaltyPointsPerTl"
+                    name="loyaltyPointsPerTl"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={loyaltySettings.loyaltyPointsPerTl}
+                    onChange={handleLoyaltyInputChange}
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="loyaltyPointsPerJob">Tamamlanan İş Başına Puan</Label>
+                  <Input
+                    id="loyaltyPointsPerJob"
+                    name="loyaltyPointsPerJob"
+                    type="number"
+                    min={0}
+                    step="1"
+                    value={loyaltySettings.loyaltyPointsPerJob}
+                    onChange={handleLoyaltyInputChange}
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="loyaltyPointValue">1 Puanın Değeri (TL)</Label>
+                  <Input
+                    id="loyaltyPointValue"
+                    name="loyaltyPointValue"
+                    type="number"
+                    min={0.01}
+                    step="0.01"
+                    value={loyaltySettings.loyaltyPointValue}
+                    onChange={handleLoyaltyInputChange}
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="loyaltyFreeWashEvery">Ücretsiz Yıkama İçin Ziyaret Sayısı</Label>
+                  <Input
+                    id="loyaltyFreeWashEvery"
+                    name="loyaltyFreeWashEvery"
+                    type="number"
+                    min={0}
+                    step="1"
+                    value={loyaltySettings.loyaltyFreeWashEvery}
+                    onChange={handleLoyaltyInputChange}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Her tamamlanan ücretli ziyaret bir damga kazandırır; bu kadar damga bir ücretsiz yıkamaya çevrilir (0 = kapalı)
+                  </p>
+                </div>
+              </div>
+              
+              <Button onClick={handleLoyaltySave} disabled={saveAppSettingsMutation.isPending}>Değişiklikleri Kaydet</Button>
             </CardContent>
           </Card>
         </TabsContent>
@@ -310,16 +626,21 @@ export default function Settings() {
               <CardDescription>Uygulama görünümünü özelleştirin</CardDescription>
             </CardHeader>
             <CardContent>
-              <p className="text-gray-500">Görünüm ayarları şu anda kullanılamıyor.</p>
-              
-              <div className="mt-4">
+              <div>
                 <h3 className="font-medium mb-2">Tema Renkleri</h3>
                 <div className="flex space-x-2">
-                  <button className="w-8 h-8 bg-blue-600 rounded-full"></button>
-                  <button className="w-8 h-8 bg-green-600 rounded-full"></button>
-                  <button className="w-8 h-8 bg-purple-600 rounded-full"></button>
-                  <button className="w-8 h-8 bg-red-600 rounded-full"></button>
-                  <button className="w-8 h-8 bg-gray-600 rounded-full"></button>
+                  {themeColorEnum.options.map((color) => (
+                    <button
+                      key={color}
+                      className={`w-8 h-8 rounded-full ${appSettings.themeColor === color ? "ring-2 ring-offset-2 ring-gray-900" : ""}`}
+                      style={{ backgroundColor: `hsl(${THEME_COLOR_HSL[color]})` }}
+                      disabled={saveAppSettingsMutation.isPending}
+                      onClick={() => saveAppSettingsMutation.mutate({
+                        values: { themeColor: color },
+                        successMessage: "Tema rengi güncellendi."
+                      })}
+                    />
+                  ))}
                 </div>
               </div>
             </CardContent>
@@ -470,6 +791,9 @@ export default function Settings() {
                       id="backup-file"
                       accept=".json"
                       onChange={(e) => {
+                        // Önceki kontrol sonucu yeni dosya için geçersiz
+                        setRestorePreview(null);
+                        
                         // Seçilen dosyayı göster
                         const fileName = e.target.files?.[0]?.name;
                         if (fileName) {
@@ -484,7 +808,7 @@ export default function Settings() {
                   <Button 
                     variant="outline"
                     onClick={() => {
-                      // Dosyayı oku ve API'ye gönder
+                      // Dosyayı oku ve önce deneme modunda API'ye gönder
                       const fileInput = document.getElementById('backup-file') as HTMLInputElement;
                       const file = fileInput?.files?.[0];
                       
@@ -497,26 +821,93 @@ export default function Settings() {
                         return;
                       }
                       
-                      // Onay diyaloğu
-                      if (confirm("Dikkat! Bu işlem mevcut tüm verilerinizin üzerine yazacak ve geri alınamaz. Devam etmek istiyor musunuz?")) {
-                        const reader = new FileReader();
+                      const reader = new FileReader();
+                      
+                      reader.onload = async (event) => {
+                        let backupData: unknown;
+                        try {
+                          backupData = JSON.parse(event.target?.result as string);
+                        } catch (error) {
+                          console.error("Dosya okuma hatası:", error);
+                          toast({
+                            title: "Hata",
+                            description: "Geçersiz yedek dosyası. JSON formatında olduğundan emin olun.",
+                            variant: "destructive"
+                          });
+                          return;
+                        }
                         
-                        reader.onload = async (event) => {
-                          try {
-                            const backupData = JSON.parse(event.target?.result as string);
-                            
-                            // API'ye gönder
-                            const response = await fetch('/api/backup/import', {
-                              method: 'POST',
-                              headers: {
-                                'Content-Type': 'application/json'
-                              },
-                              body: JSON.stringify(backupData)
-                            });
-                            
-                            const result = await response.json();
+                        try {
+                          const result = await sendBackup(backupData, true);
+                          setRestorePreview({ backupData, report: result.report });
+                        } catch (error: any) {
+                          setRestorePreview(null);
+                          toast({
+                            title: "Hata",
+                            description: error.message,
+                            variant: "destructive"
+                          });
+                        }
+                      };
+                      
+                      reader.readAsText(file);
+                    }}
+                  >
+                    Yedeği Kontrol Et
+                  </Button>
+                  
+                  {restorePreview && (
+                    <div className="border rounded-md p-4 space-y-3">
+                      <div className="text-sm">
+                        <span className="font-medium">Yedek tarihi:</span> {formatDate(restorePreview.report.timestamp)}
+                        {" · "}
+                        <span className="font-medium">Sürüm:</span> {restorePreview.report.version}
+                      </div>
+                      
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="py-1">Tablo</th>
+                            <th className="py-1">Mevcut</th>
+                            <th className="py-1">Yedekte</th>
+                            <th className="py-1">Eklenecek</th>
+                            <th className="py-1">Üzerine Yazılacak</th>
+                            <th className="py-1">Silinecek</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {restorePreview.report.tables.map((table) => (
+                            <tr key={table.table} className="border-t">
+                              <td className="py-1">{BACKUP_TABLE_LABELS[table.table] ?? table.table}</td>
+                              <td className="py-1">{table.current}</td>
+                              <td className="py-1">{table.incoming}</td>
+                              <td className="py-1 text-green-600">{table.added}</td>
+                              <td className="py-1 text-amber-600">{table.updated}</td>
+                              <td className="py-1 text-red-600">{table.removed}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      
+                      {restorePreview.report.warnings.length > 0 && (
+                        <ul className="text-sm text-amber-700 list-disc pl-5">
+                          {restorePreview.report.warnings.map((warning) => (
+                            <li key={warning}>{warning}</li>
+                          ))}
+                        </ul>
+                      )}
+                      
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="destructive"
+                          onClick={async () => {
+                            // Onay diyaloğu
+                            if (!confirm("Dikkat! Bu işlem mevcut tüm verilerinizin üzerine yazacak ve geri alınamaz. Devam etmek istiyor musunuz?")) {
+                              return;
+                            }
                             
-                            if (response.ok) {
+                            try {
+                              await sendBackup(restorePreview.backupData, false);
                               toast({
                                 title: "Başarılı",
                                 description: "Yedek başarıyla geri yüklendi. Sayfa yenilenecek.",
@@ -526,29 +917,23 @@ export default function Settings() {
                               setTimeout(() => {
                                 window.location.reload();
                               }, 2000);
-                            } else {
+                            } catch (error: any) {
                               toast({
                                 title: "Hata",
-                                description: result.message || "Geri yükleme sırasında bir hata oluştu",
+                                description: error.message,
                                 variant: "destructive"
                               });
                             }
-                          } catch (error) {
-                            console.error("Dosya okuma hatası:", error);
-                            toast({
-                              title: "Hata",
-                              description: "Geçersiz yedek dosyası. JSON formatında olduğundan emin olun.",
-                              variant: "destructive"
-                            });
-                          }
-                        };
-                        
-                        reader.readAsText(file);
-                      }
-                    }}
-                  >
-                    Geri Yükle
-                  </Button>
+                          }}
+                        >
+                          Geri Yükle
+                        </Button>
+                        <Button variant="outline" onClick={() => setRestorePreview(null)}>
+                          Vazgeç
+                        </Button>
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
             </CardContent>
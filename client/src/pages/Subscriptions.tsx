@@ -0,0 +1,429 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Edit, Plus, RefreshCw, Trash, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CustomerSubscriptionDetail, Service, SubscriptionPlanDetail, SubscriptionReport } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import ConfirmDialog from "@/components/common/ConfirmDialog";
+import SubscriptionForm from "@/components/subscriptions/SubscriptionForm";
+import SubscriptionPlanForm from "@/components/subscriptions/SubscriptionPlanForm";
+
+// Yakında bitecek sayılan üyelikler için gün sayısı
+const EXPIRING_DAYS = 7;
+
+function formatVisits(subscription: CustomerSubscriptionDetail): string {
+  return subscription.visitLimit === null
+    ? `${subscription.visitsUsed} / Sınırsız`
+    : `${subscription.visitsUsed} / ${subscription.visitLimit}`;
+}
+
+interface SubscriptionsTableProps {
+  subscriptions: CustomerSubscriptionDetail[];
+  emptyText: string;
+  canManage: boolean;
+  onRenew: (id: number) => void;
+  onCancel: (id: number) => void;
+}
+
+function SubscriptionsTable({ subscriptions, emptyText, canManage, onRenew, onCancel }: SubscriptionsTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Müşteri</TableHead>
+            <TableHead>Paket</TableHead>
+            <TableHead>Araç</TableHead>
+            <TableHead>Dönem</TableHead>
+            <TableHead>Bitiş</TableHead>
+            <TableHead>Ziyaret</TableHead>
+            <TableHead className="text-right">Ücret</TableHead>
+            {canManage && <TableHead className="text-right">İşlemler</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {subscriptions.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={canManage ? 8 : 7} className="text-center text-muted-foreground h-16">
+                {emptyText}
+              </TableCell>
+            </TableRow>
+          ) : (
+            subscriptions.map((subscription) => (
+              <TableRow key={subscription.id}>
+                <TableCell className="font-medium">{subscription.customerName}</TableCell>
+                <TableCell>
+                  {subscription.planName}
+                  {subscription.autoRenew && (
+                    <Badge variant="outline" className="ml-2">Otomatik</Badge>
+                  )}
+                </TableCell>
+                <TableCell>{subscription.vehiclePlate || "Tüm araçlar"}</TableCell>
+                <TableCell>{format(new Date(subscription.periodStart), "dd.MM.yyyy")}</TableCell>
+                <TableCell>{format(new Date(subscription.endDate), "dd.MM.yyyy")}</TableCell>
+                <TableCell>{formatVisits(subscription)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(subscription.price)} TL</TableCell>
+                {canManage && (
+                  <TableCell className="text-right">
+                    <div className="flex justify-end space-x-1">
+                      <Button variant="ghost" size="icon" title="Yenile" onClick={() => onRenew(subscription.id)}>
+                        <RefreshCw className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="text-red-500" title="İptal Et" onClick={() => onCancel(subscription.id)}>
+                        <XCircle className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default function Subscriptions() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canManage = hasPermission(user, "subscriptions.manage");
+
+  const [isSubscriptionFormOpen, setIsSubscriptionFormOpen] = useState(false);
+  const [isPlanFormOpen, setIsPlanFormOpen] = useState(false);
+  const [selectedPlan, setSelectedPlan] = useState<SubscriptionPlanDetail | undefined>();
+  const [subscriptionToCancel, setSubscriptionToCancel] = useState<number | null>(null);
+  const [planToDelete, setPlanToDelete] = useState<number | null>(null);
+
+  const reportQuery = useQuery<SubscriptionReport>({
+    queryKey: [`/api/reports/subscriptions?days=${EXPIRING_DAYS}`],
+  });
+
+  const plansQuery = useQuery<SubscriptionPlanDetail[]>({
+    queryKey: ["/api/subscription-plans"],
+  });
+
+  const servicesQuery = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+  });
+
+  const refreshSubscriptions = () => {
+    invalidateQueriesByPrefix("/api/subscriptions");
+    invalidateQueriesByPrefix("/api/reports/subscriptions");
+  };
+
+  const renewMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/subscriptions/${id}/renew`);
+      return res.json();
+    },
+    onSuccess: () => {
+      refreshSubscriptions();
+      toast({
+        title: "Başarılı",
+        description: "Üyelik bir dönem uzatıldı.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Hata",
+        description: "Üyelik yenilenirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("PUT", `/api/subscriptions/${id}`, { status: "iptal", autoRenew: false });
+      return res.json();
+    },
+    onSuccess: () => {
+      refreshSubscriptions();
+      setSubscriptionToCancel(null);
+      toast({
+        title: "Başarılı",
+        description: "Üyelik iptal edildi.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Hata",
+        description: "Üyelik iptal edilirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePlanMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/subscription-plans/${id}`);
+    },
+    onSuccess: () => {
+      invalidateQueriesByPrefix("/api/subscription-plans");
+      setPlanToDelete(null);
+      toast({
+        title: "Başarılı",
+        description: "Üyelik paketi silindi.",
+      });
+    },
+    onError: (error: Error) => {
+      setPlanToDelete(null);
+      toast({
+        title: "Hata",
+        description: error.message.startsWith("409")
+          ? "Bu pakete bağlı üyelikler var. Paketi silmek yerine pasif hale getirin."
+          : "Üyelik paketi silinirken bir hata oluştu.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getServiceNames = (serviceIds: number[]) =>
+    (servicesQuery.data || [])
+      .filter(service => serviceIds.includes(service.id))
+      .map(service => service.name)
+      .join(", ");
+
+  const report = reportQuery.data;
+
+  return (
+    <main className="container mx-auto px-4 py-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-medium text-gray-darkest">Üyelikler</h1>
+        {canManage && (
+          <Button onClick={() => setIsSubscriptionFormOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Yeni Üyelik
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Aktif Üyelik</CardDescription>
+            <CardTitle className="text-2xl">{report?.active.length ?? 0}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>{EXPIRING_DAYS} Gün İçinde Bitecek</CardDescription>
+            <CardTitle className="text-2xl text-amber-500">{report?.expiring.length ?? 0}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Süresi Dolmuş</CardDescription>
+            <CardTitle className="text-2xl text-red-600">{report?.lapsed.length ?? 0}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Aylık Üyelik Geliri</CardDescription>
+            <CardTitle className="text-2xl text-green-600">
+              {formatCurrency(report?.monthlyRecurringRevenue ?? 0)} TL
+            </CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="active">
+        <TabsList className="mb-4">
+          <TabsTrigger value="active">Aktif</TabsTrigger>
+          <TabsTrigger value="expiring">Yakında Bitecek</TabsTrigger>
+          <TabsTrigger value="lapsed">Süresi Dolmuş</TabsTrigger>
+          <TabsTrigger value="plans">Paketler</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="active">
+          <Card>
+            <CardContent className="pt-6">
+              <SubscriptionsTable
+                subscriptions={report?.active || []}
+                emptyText={reportQuery.isLoading ? "Yükleniyor..." : "Aktif üyelik bulunmuyor"}
+                canManage={canManage}
+                onRenew={(id) => renewMutation.mutate(id)}
+                onCancel={setSubscriptionToCancel}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="expiring">
+          <Card>
+            <CardContent className="pt-6">
+              <SubscriptionsTable
+                subscriptions={report?.expiring || []}
+                emptyText="Yakında bitecek üyelik bulunmuyor"
+                canManage={canManage}
+                onRenew={(id) => renewMutation.mutate(id)}
+                onCancel={setSubscriptionToCancel}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="lapsed">
+          <Card>
+            <CardContent className="pt-6">
+              <SubscriptionsTable
+                subscriptions={report?.lapsed || []}
+                emptyText="Süresi dolmuş üyelik bulunmuyor"
+                canManage={canManage}
+                onRenew={(id) => renewMutation.mutate(id)}
+                onCancel={setSubscriptionToCancel}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="plans">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex justify-between items-center">
+                <span>Üyelik Paketleri</span>
+                {canManage && (
+                  <Button
+                    size="sm"
+                    onClick={() => {
+                      setSelectedPlan(undefined);
+                      setIsPlanFormOpen(true);
+                    }}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Yeni Paket
+                  </Button>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Paket</TableHead>
+                    <TableHead>Hizmetler</TableHead>
+                    <TableHead>Dönem</TableHead>
+                    <TableHead>Ziyaret Hakkı</TableHead>
+                    <TableHead className="text-right">Ücret</TableHead>
+                    <TableHead>Durum</TableHead>
+                    {canManage && <TableHead className="text-right">İşlemler</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(plansQuery.data || []).length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={canManage ? 7 : 6} className="text-center text-muted-foreground h-16">
+                        Henüz üyelik paketi tanımlanmamış
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    plansQuery.data?.map((plan) => (
+                      <TableRow key={plan.id}>
+                        <TableCell className="font-medium">{plan.name}</TableCell>
+                        <TableCell>{getServiceNames(plan.serviceIds)}</TableCell>
+                        <TableCell>{plan.periodMonths} ay</TableCell>
+                        <TableCell>{plan.visitLimit ?? "Sınırsız"}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(plan.price)} TL</TableCell>
+                        <TableCell>
+                          <Badge variant={plan.isActive ? "default" : "secondary"}>
+                            {plan.isActive ? "Satışta" : "Pasif"}
+                          </Badge>
+                        </TableCell>
+                        {canManage && (
+                          <TableCell className="text-right">
+                            <div className="flex justify-end space-x-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Düzenle"
+                                onClick={() => {
+                                  setSelectedPlan(plan);
+                                  setIsPlanFormOpen(true);
+                                }}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="text-red-500"
+                                title="Sil"
+                                onClick={() => setPlanToDelete(plan.id)}
+                              >
+                                <Trash className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={isSubscriptionFormOpen} onOpenChange={setIsSubscriptionFormOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Yeni Üyelik</DialogTitle>
+          </DialogHeader>
+          <SubscriptionForm onSaved={() => setIsSubscriptionFormOpen(false)} />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isPlanFormOpen} onOpenChange={setIsPlanFormOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{selectedPlan ? "Paketi Düzenle" : "Yeni Üyelik Paketi"}</DialogTitle>
+          </DialogHeader>
+          <SubscriptionPlanForm
+            key={selectedPlan?.id ?? "new"}
+            plan={selectedPlan}
+            onSaved={() => setIsPlanFormOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={subscriptionToCancel !== null}
+        onOpenChange={(open) => !open && setSubscriptionToCancel(null)}
+        title="Üyeliği İptal Et"
+        description="Bu üyelik iptal edilecek ve bundan sonraki ziyaretlerde ücretsiz hizmet verilmeyecek. Devam etmek istiyor musunuz?"
+        confirmText="İptal Et"
+        cancelText="Vazgeç"
+        onConfirm={() => subscriptionToCancel !== null && cancelMutation.mutate(subscriptionToCancel)}
+      />
+
+      <ConfirmDialog
+        open={planToDelete !== null}
+        onOpenChange={(open) => !open && setPlanToDelete(null)}
+        title="Paketi Sil"
+        description="Bu üyelik paketi silinecek. Devam etmek istiyor musunuz?"
+        confirmText="Sil"
+        cancelText="Vazgeç"
+        onConfirm={() => planToDelete !== null && deletePlanMutation.mutate(planToDelete)}
+      />
+    </main>
+  );
+}
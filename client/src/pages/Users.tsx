@@ -9,17 +9,19 @@ import UserForm from "@/components/users/UserForm";
 import UsersTable from "@/components/users/UsersTable";
 import { User } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
+import { hasPermission } from "@shared/permissions";
 
 export default function Users() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedUserId, setSelectedUserId] = useState<string | undefined>();
   const [error, setError] = useState<string | null>(null);
   const { user } = useAuth();
+  const canManageUsers = hasPermission(user, "users.manage");
   
-  // Fetch users (only if user is admin)
+  // Fetch users (only if user can manage users)
   const { data: users, isLoading, isError } = useQuery<User[]>({
     queryKey: ["/api/users"],
-    enabled: user?.isAdmin === true,
+    enabled: canManageUsers,
     retry: false,
     onSuccess: () => {
       setError(null);
@@ -50,18 +52,18 @@ export default function Users() {
         <Button 
           onClick={handleAddUser} 
           className="flex items-center"
-          disabled={!user?.isAdmin}
+          disabled={!canManageUsers}
         >
           <Plus className="mr-2 h-4 w-4" /> Yeni Kullanıcı
         </Button>
       </div>
       
-      {!user?.isAdmin && (
+      {!canManageUsers && (
         <Alert variant="destructive" className="mb-4">
           <AlertTriangle className="h-4 w-4" />
           <AlertTitle>Yetki Hatası</AlertTitle>
           <AlertDescription>
-            Bu sayfayı görüntülemek için yönetici haklarına sahip olmanız gerekmektedir.
+            Bu sayfayı görüntülemek için kullanıcı yönetimi yetkisine sahip olmanız gerekmektedir.
           </AlertDescription>
         </Alert>
       )}
@@ -81,7 +83,7 @@ export default function Users() {
         <CardContent>
           <UsersTable 
             users={users ?? []} 
-            isLoading={isLoading && user?.isAdmin === true} 
+            isLoading={isLoading && canManageUsers} 
             onEdit={handleEditUser}
           />
         </CardContent>
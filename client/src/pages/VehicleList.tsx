@@ -7,6 +7,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import VehiclesTable from "@/components/vehicles/VehiclesTable";
 import VehicleForm from "@/components/vehicles/VehicleForm";
+import DuplicateVehicles from "@/components/vehicles/DuplicateVehicles";
 import { Vehicle, Customer } from "@shared/schema";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
@@ -97,6 +98,8 @@ export default function VehicleList() {
         </Card>
       </div>
       
+      <DuplicateVehicles customers={customers || []} />
+      
       <Card>
         <CardHeader className="pb-2">
           <CardTitle>Araçlar</CardTitle>
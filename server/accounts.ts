@@ -0,0 +1,40 @@
+import { storage } from "./storage";
+import type { Customer, InsertCustomer, InsertJob, Job } from "@shared/schema";
+
+// Kurumsal müşteri kaydında vergi numarası zorunludur; güncellemede mevcut kayıtla birlikte değerlendirilir.
+// Uygunsa null, değilse kullanıcıya gösterilecek hata mesajını döndürür.
+export function checkCorporateCustomer(data: Partial<InsertCustomer>, existing?: Customer): string | null {
+  const isCorporate = data.isCorporate ?? existing?.isCorporate ?? false;
+  const taxNumber = data.taxNumber !== undefined ? data.taxNumber : existing?.taxNumber;
+  if (isCorporate && !taxNumber) {
+    return "Kurumsal müşteri için vergi numarası zorunludur";
+  }
+  return null;
+}
+
+// Cari hesaba yalnızca kurumsal müşterilerin işleri yazılabilir
+export async function checkOnAccountJob(data: Partial<InsertJob>, existing?: Job): Promise<string | null> {
+  // Yalnızca müşteri veya cari hesap bilgisi değişiyorsa kontrol edilir
+  const onAccount = data.onAccount ?? existing?.onAccount ?? false;
+  if (!onAccount || (existing && data.onAccount === undefined && data.customerId === undefined)) {
+    return null;
+  }
+
+  const customerId = data.customerId ?? existing?.customerId;
+  const customer = customerId !== undefined ? await storage.getCustomer(customerId) : undefined;
+  if (!customer?.isCorporate) {
+    return "Cari hesaba yalnızca kurumsal müşterilerin işleri yazılabilir";
+  }
+  return null;
+}
+
+// Faturalanmış iş, fatura iptal edilene kadar değiştirilemez; yalnızca iptal dışı durum değişikliğine izin verilir
+export function checkJobInvoiceLock(job: Job, data?: Partial<InsertJob>): string | null {
+  if (job.invoiceId === null) {
+    return null;
+  }
+  if (data && Object.keys(data).every(key => key === "status") && data.status !== "iptal") {
+    return null;
+  }
+  return "Bu iş emri faturalandı; değiştirmek için önce faturayı iptal edin";
+}
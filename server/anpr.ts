@@ -0,0 +1,208 @@
+import { execFile } from "child_process";
+import { createHash } from "crypto";
+import { accessSync, constants as fsConstants, promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { storage } from "./storage";
+import { formatPlate, isValidPlate, normalizePlate } from "@shared/plate";
+import type { PlateCandidate, PlateRecognitionResult, Vehicle } from "@shared/schema";
+
+// Plaka tanıma (ANPR) görüntüden plaka adaylarını çıkarır. Tanıyıcı değiştirilebilir:
+// - ANPR_COMMAND: OpenALPR uyumlu JSON çıktısı veren yerel (CPU) komut, örn. "alpr -j -c eu -n 5".
+//   Argümanlar kabuktaki gibi tırnaklanabilir. Görüntü geçici bir dosyaya yazılır ve yolu
+//   komutun son argümanı olarak verilir.
+// - Ayar yoksa ve OpenALPR (alpr) kuruluysa varsayılan olarak o kullanılır.
+// - ANPR_FIXTURES_DIR: test görüntüleri klasörü. Dosya adı plakadır (örn. 34ABC123.png);
+//   gönderilen görüntü bu dosyalardan biriyle birebir aynıysa o plaka döner. server/anpr-fixtures
+//   altındaki örnek plakalarla uçtan uca deneme yapılabilir.
+export interface PlateRecognizer {
+  recognize(image: Buffer): Promise<PlateCandidate[]>;
+}
+
+// Bu güvenin altındaki adaylar eşleştirmede kullanılmaz
+const MIN_CONFIDENCE = 0.5;
+// Okuma hatası toleransı: karışan karakterler dışında en fazla bu kadar karakter farkı
+const MAX_PLATE_DISTANCE = 1;
+const COMMAND_TIMEOUT_MS = 15 * 1000;
+const DEFAULT_COMMAND = "alpr -j -c eu -n 5";
+
+type OpenAlprOutput = {
+  results?: {
+    plate: string;
+    confidence: number;
+    candidates?: { plate: string; confidence: number }[];
+  }[];
+};
+
+// Komut satırını kabuk gibi argümanlara ayırır: tek ve çift tırnak, ters eğik çizgiyle kaçış.
+// Komut kabukta çalıştırılmaz; değişken veya joker genişletmesi yapılmaz.
+export function splitCommand(command: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let hasArg = false;
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote === "'") {
+      if (char === "'") quote = null;
+      else current += char;
+    } else if (char === "\\" && i + 1 < command.length && (quote === null || command[i + 1] === '"' || command[i + 1] === "\\")) {
+      current += command[++i];
+      hasArg = true;
+    } else if (quote === '"') {
+      if (char === '"') quote = null;
+      else current += char;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      hasArg = true;
+    } else if (/\s/.test(char)) {
+      if (hasArg) args.push(current);
+      current = "";
+      hasArg = false;
+    } else {
+      current += char;
+      hasArg = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error("ANPR_COMMAND: kapatılmamış tırnak");
+  }
+  if (hasArg) args.push(current);
+  return args;
+}
+
+export function createCommandRecognizer(command: string): PlateRecognizer {
+  const [file, ...args] = splitCommand(command);
+  if (!file) {
+    throw new Error("ANPR_COMMAND boş");
+  }
+
+  return {
+    async recognize(image) {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), "anpr-"));
+      const imagePath = path.join(dir, "snapshot");
+      try {
+        await fs.writeFile(imagePath, image);
+        const stdout = await new Promise<string>((resolve, reject) => {
+          execFile(file, [...args, imagePath], { timeout: COMMAND_TIMEOUT_MS }, (error, out) =>
+            error ? reject(error) : resolve(out)
+          );
+        });
+
+        const output = JSON.parse(stdout) as OpenAlprOutput;
+        return (output.results ?? []).flatMap(result =>
+          (result.candidates?.length ? result.candidates : [result]).map(candidate => ({
+            plate: candidate.plate,
+            confidence: candidate.confidence / 100, // OpenALPR 0-100 arası verir
+          }))
+        );
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+export function createFixtureRecognizer(dir: string): PlateRecognizer {
+  let fixtures: Promise<Map<string, string>> | undefined;
+  const hash = (data: Buffer) => createHash("sha256").update(data).digest("hex");
+
+  const loadFixtures = async () => {
+    const files = await fs.readdir(dir);
+    const entries = await Promise.all(files.map(async file =>
+      [hash(await fs.readFile(path.join(dir, file))), path.parse(file).name] as [string, string]
+    ));
+    return new Map(entries);
+  };
+
+  return {
+    async recognize(image) {
+      fixtures ??= loadFixtures();
+      const plate = (await fixtures).get(hash(image));
+      return plate ? [{ plate, confidence: 1 }] : [];
+    },
+  };
+}
+
+// PATH üzerinde çalıştırılabilir dosya var mı
+function isExecutableOnPath(file: string): boolean {
+  return (process.env.PATH ?? "").split(path.delimiter).some(dir => {
+    try {
+      accessSync(path.join(dir, file), fsConstants.X_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+function createDefaultRecognizer(): PlateRecognizer | null {
+  if (process.env.ANPR_COMMAND) {
+    return createCommandRecognizer(process.env.ANPR_COMMAND);
+  }
+  if (process.env.ANPR_FIXTURES_DIR) {
+    return createFixtureRecognizer(process.env.ANPR_FIXTURES_DIR);
+  }
+  const [defaultFile] = splitCommand(DEFAULT_COMMAND);
+  return isExecutableOnPath(defaultFile) ? createCommandRecognizer(DEFAULT_COMMAND) : null;
+}
+
+let recognizer: PlateRecognizer | null = createDefaultRecognizer();
+
+export function setPlateRecognizer(value: PlateRecognizer | null) {
+  recognizer = value;
+}
+
+export function isPlateRecognitionEnabled(): boolean {
+  return recognizer !== null;
+}
+
+// Görüntüdeki plakayı okuyup kayıtlı araçla eşleştirir. Adaylar güvene göre sırayla
+// önce birebir, bulunamazsa okuma hatalarına toleranslı aranır.
+export async function recognizePlate(image: Buffer): Promise<PlateRecognitionResult> {
+  if (!recognizer) {
+    throw new Error("Plaka tanıma yapılandırılmamış");
+  }
+
+  const candidates = (await recognizer.recognize(image))
+    .map(candidate => ({ plate: normalizePlate(candidate.plate), confidence: candidate.confidence }))
+    .filter(candidate => candidate.plate !== "")
+    .sort((a, b) => b.confidence - a.confidence);
+  const usable = candidates.filter(candidate => candidate.confidence >= MIN_CONFIDENCE);
+
+  let match: PlateRecognitionResult["match"] = "none";
+  let matched: PlateCandidate | undefined;
+  let vehicle: Vehicle | undefined;
+  for (const candidate of usable) {
+    vehicle = await storage.getVehicleByPlate(candidate.plate);
+    if (vehicle) {
+      match = "exact";
+      matched = candidate;
+      break;
+    }
+  }
+  if (!vehicle && usable.length > 0) {
+    const similar = await storage.findVehicleBySimilarPlate(usable.map(candidate => candidate.plate), MAX_PLATE_DISTANCE);
+    if (similar) {
+      vehicle = similar.vehicle;
+      match = "fuzzy";
+      matched = usable[similar.index];
+    }
+  }
+
+  // Eşleşme yoksa geçerli biçimdeki en güvenilir aday yeni araç kaydı için önerilir
+  const best = matched ?? usable.find(candidate => isValidPlate(candidate.plate)) ?? usable[0];
+  const context = vehicle ? await storage.getCheckInContext(vehicle.plate) : undefined;
+
+  return {
+    candidates,
+    plate: vehicle?.plate ?? (best ? formatPlate(best.plate) : null),
+    confidence: best?.confidence ?? null,
+    match,
+    vehicle: vehicle ?? null,
+    customer: context?.customer ?? null,
+    lastJob: context ? context.activeJob ?? context.recentVisits[0] ?? null : null,
+  };
+}
@@ -0,0 +1,122 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import type { AuditAction } from "@shared/schema";
+
+// Veri değiştiren her API isteği denetim kaydına yazılır: kim, ne zaman, hangi kayıt,
+// değişiklikten önceki ve sonraki hali. Kaynak ve kayıt numarası yoldan çıkarılır:
+// "/api/jobs/5/payments/3" işi 5 olan "jobs" kaydının güncellemesidir.
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+// Veri değiştirmeyen (plaka okuma) veya kaydını kendisi tutan (geri yükleme ve dosyaları) istekler
+const EXCLUDED_PATHS = new Set(["/api/anpr/recognize", "/api/backup/import", "/api/backup/photos"]);
+
+// Önce/sonra görüntüsü alınabilen kaynaklar; olmayanlarda sonrası için yanıt gövdesi kullanılır
+const SNAPSHOT_LOADERS: Record<string, (id: number) => Promise<unknown>> = {
+  customers: id => storage.getCustomer(id),
+  vehicles: id => storage.getVehicle(id),
+  services: id => storage.getService(id),
+  jobs: id => storage.getJob(id),
+  "wash-bays": async id => (await storage.getWashBays()).find(bay => bay.id === id),
+  appointments: id => storage.getAppointment(id),
+  "subscription-plans": id => storage.getSubscriptionPlan(id),
+  subscriptions: id => storage.getCustomerSubscription(id),
+  users: id => storage.getUser(id),
+  expenses: id => storage.getExpense(id),
+  "cash-sessions": id => storage.getCashSession(id),
+  "gift-cards": id => storage.getGiftCard(id),
+  "account-invoices": id => storage.getAccountInvoice(id),
+  "inventory/products": id => storage.getInventoryProduct(id),
+};
+
+type AuditTarget = {
+  action: AuditAction;
+  entityType: string;
+  entityId: number | null;
+};
+
+function resolveAuditTarget(method: string, path: string): AuditTarget {
+  const segments = path.split("/").filter(Boolean).slice(1); // "api" atlanır
+  const idIndex = segments.findIndex(segment => /^\d+$/.test(segment));
+  const entityType = (idIndex === -1 ? segments : segments.slice(0, idIndex)).join("/");
+  const entityId = idIndex === -1 ? null : Number(segments[idIndex]);
+
+  // Alt kayıtlardaki değişiklikler (satır, tahsilat, fotoğraf...) üst kaydın güncellemesi sayılır
+  let action: AuditAction = "update";
+  if (method === "POST" && entityId === null) {
+    action = "create";
+  } else if (method === "DELETE" && segments.length === idIndex + 1) {
+    action = "delete";
+  }
+
+  return { action, entityType, entityId };
+}
+
+// Şifreler kayda geçmez, fotoğraf gibi gömülü dosyalar yer tutucuyla değiştirilir
+export function toAuditValue(value: unknown): unknown {
+  if (value === undefined || Buffer.isBuffer(value)) return null;
+  return JSON.parse(JSON.stringify(value, (key, item) => {
+    if (/password/i.test(key)) return "[gizli]";
+    if (typeof item === "string" && item.startsWith("data:")) return "[dosya]";
+    return item;
+  })) ?? null;
+}
+
+async function loadSnapshot(target: AuditTarget): Promise<unknown> {
+  const load = SNAPSHOT_LOADERS[target.entityType];
+  if (!load || target.entityId === null) return undefined;
+  try {
+    return (await load(target.entityId)) ?? null;
+  } catch (error) {
+    console.error("Denetim kaydı için kayıt okunamadı:", error);
+    return undefined;
+  }
+}
+
+export async function auditMiddleware(req: Request, res: Response, next: NextFunction) {
+  if (!MUTATING_METHODS.has(req.method) || !req.path.startsWith("/api/") || EXCLUDED_PATHS.has(req.path) || !req.user) {
+    return next();
+  }
+
+  const user = req.user;
+  const target = resolveAuditTarget(req.method, req.path);
+  const before = target.action === "create" ? null : await loadSnapshot(target);
+
+  let responseBody: unknown;
+  const originalJson = res.json;
+  res.json = function (body, ...args) {
+    responseBody = body;
+    return originalJson.apply(res, [body, ...args]);
+  };
+
+  // Başarısız istekler veri değiştirmediği için kaydedilmez
+  res.on("finish", async () => {
+    if (res.statusCode >= 400) return;
+
+    try {
+      const createdId = (responseBody as { id?: unknown } | undefined)?.id;
+      const entityId = target.action === "create" && typeof createdId === "number" ? createdId : target.entityId;
+      let after: unknown = null;
+      if (target.action !== "delete") {
+        const snapshot = await loadSnapshot({ ...target, entityId });
+        after = snapshot === undefined ? responseBody : snapshot;
+      }
+
+      await storage.createAuditLog({
+        userId: user.id,
+        username: user.username,
+        action: target.action,
+        entityType: target.entityType,
+        entityId,
+        method: req.method,
+        path: req.path,
+        before: toAuditValue(before),
+        after: toAuditValue(after),
+        details: toAuditValue(req.body && Object.keys(req.body).length > 0 ? req.body : null),
+      });
+    } catch (error) {
+      console.error("Denetim kaydı yazılamadı:", error);
+    }
+  });
+
+  next();
+}
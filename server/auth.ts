@@ -6,8 +6,10 @@ import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
 import { User as SelectUser } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
+import { toAuditValue } from "./audit";
 
 declare global {
   namespace Express {
@@ -172,7 +174,25 @@ export function setupAuth(app: Express) {
       // Yeni şifreyi hashle ve güncelle
       const hashedNewPassword = await hashPassword(newPassword);
       
-      await storage.updateUser(req.user.id, { password: hashedNewPassword });
+      const updatedUser = await storage.updateUser(req.user.id, { password: hashedNewPassword });
+      
+      // Kimlik rotaları denetim ara katmanından önce kurulduğu için şifre değişikliği burada ayrıca kaydedilir
+      try {
+        await storage.createAuditLog({
+          userId: user.id,
+          username: user.username,
+          action: "update",
+          entityType: "users",
+          entityId: user.id,
+          method: req.method,
+          path: req.path,
+          before: toAuditValue(user),
+          after: toAuditValue(updatedUser ?? null),
+          details: toAuditValue(req.body),
+        });
+      } catch (error) {
+        console.error("Denetim kaydı yazılamadı:", error);
+      }
       
       res.status(200).json({ success: true, message: "Şifre başarıyla değiştirildi" });
     } catch (error) {
@@ -190,6 +210,21 @@ export function requireAuth(req: Express.Request, res: any, next: any) {
   return res.status(401).json({ error: "Bu işlem için giriş yapmanız gerekiyor" });
 }
 
+// Middleware: Rotaları rol yetkisine göre korumak için
+export function requirePermission(permission: Permission) {
+  return (req: Express.Request, res: any, next: any) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Bu işlem için giriş yapmanız gerekiyor" });
+    }
+    
+    if (!hasPermission(req.user, permission)) {
+      return res.status(403).json({ error: "Bu işlemi yapmak için yetkiniz bulunmuyor" });
+    }
+    
+    return next();
+  };
+}
+
 // Mevcut şifreleri hashleme fonksiyonu (veritabanı migrasyonu için)
 export async function hashExistingPasswords() {
   try {
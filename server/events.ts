@@ -0,0 +1,31 @@
+import type { Request, Response } from "express";
+import type { JobEvent } from "@shared/schema";
+
+// Bağlı ekranlara iş emri değişikliklerini Server-Sent Events ile anlık ilet
+const clients = new Set<Response>();
+
+// Proxy'lerin boşta kalan bağlantıyı kapatmaması için düzenli yorum satırı gönderilir
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+export function subscribeToJobEvents(req: Request, res: Response) {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+  res.write(": connected\n\n");
+
+  clients.add(res);
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    clients.delete(res);
+  });
+}
+
+export function broadcastJobEvent(jobId: number, action: JobEvent["action"] = "updated") {
+  const event: JobEvent = { jobId, action };
+  const payload = `event: job\ndata: ${JSON.stringify(event)}\n\n`;
+  clients.forEach(client => client.write(payload));
+}
@@ -2,9 +2,16 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { scheduleAutoBackup } from "./backup";
+import { scheduleSubscriptionRenewals } from "./subscriptions";
 
 const app = express();
-app.use(express.json());
+// Varsayılan 100kb sınırı her istekte geçerlidir. Yedek geri yükleme ve fotoğraf yükleme bu sınırı
+// aştığı için burada atlanır; yetki denetiminden sonra kendi sınırlarıyla ayrıştırılır (bkz. routes.ts)
+const ROUTE_SCOPED_JSON_PATHS = [/^\/api\/backup\/(import|photos)$/, /^\/api\/jobs\/\d+\/photos$/];
+const jsonParser = express.json();
+app.use((req, res, next) =>
+  ROUTE_SCOPED_JSON_PATHS.some(pattern => pattern.test(req.path)) ? next() : jsonParser(req, res, next)
+);
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -70,5 +77,8 @@ app.use((req, res, next) => {
     
     // Otomatik yedeklemeyi başlat
     scheduleAutoBackup();
+    
+    // Otomatik üyelik yenilemelerini başlat
+    scheduleSubscriptionRenewals();
   });
 })();
@@ -0,0 +1,70 @@
+import { storage } from "./storage";
+import { calculateJobLineTotal, type InsertJobService, type Job, type LoyaltyRedemption } from "@shared/schema";
+
+// Sadakat kullanımını işe eklenecek satıra çevir: puan indirimi eksi tutarlı serbest satır,
+// ücretsiz yıkama ise damga karşılığı fiyatı sıfırlanan hizmet satırıdır.
+// Uygunsa satırı, değilse kullanıcıya gösterilecek hata mesajını döndürür.
+export async function buildLoyaltyRedemptionLine(
+  job: Job,
+  redemption: LoyaltyRedemption
+): Promise<{ line: InsertJobService } | { error: string }> {
+  if (job.status === "iptal") {
+    return { error: "İptal edilen iş emrinde sadakat puanı kullanılamaz" };
+  }
+
+  const summary = await storage.getLoyaltySummary(job.customerId);
+  if (!summary.enabled) {
+    return { error: "Sadakat programı kapalı" };
+  }
+
+  if (redemption.type === "puan") {
+    if (redemption.points > summary.points) {
+      return { error: "Müşterinin puan bakiyesi yetersiz" };
+    }
+
+    // İndirim, işin mevcut satır toplamını aşamaz
+    const amount = Math.round(redemption.points * summary.pointValue * 100) / 100;
+    const jobLines = await storage.getJobServices(job.id);
+    const linesTotal = jobLines.reduce((total, line) => total + calculateJobLineTotal(line), 0);
+    if (amount > linesTotal) {
+      return { error: "Puan indirimi iş emri tutarını aşamaz" };
+    }
+
+    return {
+      line: {
+        jobId: job.id,
+        serviceId: null,
+        label: `Puan indirimi (${redemption.points} puan)`,
+        unitPrice: (-amount).toFixed(2),
+        quantity: 1,
+        discount: "0",
+        loyaltyPoints: redemption.points,
+      },
+    };
+  }
+
+  if (summary.freeWashEvery === 0) {
+    return { error: "Ücretsiz yıkama kuralı kapalı" };
+  }
+  if (summary.availableFreeWashes < 1) {
+    return { error: "Müşterinin ücretsiz yıkama hakkı yok" };
+  }
+
+  const service = await storage.getService(redemption.serviceId);
+  if (!service) {
+    return { error: "Hizmet bulunamadı" };
+  }
+
+  return {
+    line: {
+      jobId: job.id,
+      serviceId: service.id,
+      label: service.name,
+      unitPrice: "0",
+      quantity: 1,
+      discount: "0",
+      vatRate: service.vatRate,
+      loyaltyStamps: summary.freeWashEvery,
+    },
+  };
+}
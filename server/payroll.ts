@@ -0,0 +1,12 @@
+import type { InsertService, Service } from "@shared/schema";
+
+// Yüzde primi 100'ü aşamaz; güncellemede mevcut kuralla birlikte değerlendirilir.
+// Uygunsa null, değilse kullanıcıya gösterilecek hata mesajını döndürür.
+export function checkServiceCommission(data: Partial<InsertService>, existing?: Service): string | null {
+  const commissionType = data.commissionType ?? existing?.commissionType ?? "yok";
+  const commissionValue = Number(data.commissionValue ?? existing?.commissionValue ?? 0);
+  if (commissionType === "yuzde" && commissionValue > 100) {
+    return "Yüzde prim 100'ü aşamaz";
+  }
+  return null;
+}
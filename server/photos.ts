@@ -0,0 +1,89 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { UploadJobPhoto } from "@shared/schema";
+import type { JobPhotoBackupFile } from "@shared/backup";
+
+// İş emri fotoğrafları yerel diskte saklanır; veritabanında yalnızca dosya adı tutulur
+const PHOTO_DIR = path.join(process.cwd(), "uploads", "job-photos");
+
+// Yedekten gelen dosya adları klasör dışına yazılamasın diye bu biçimle sınırlıdır
+const PHOTO_FILE_NAME_PATTERN = /^[\w-]+\.(jpg|png)$/;
+
+export type JobPhotoSize = "full" | "thumb";
+
+function getPhotoPath(fileName: string, size: JobPhotoSize): string {
+  if (!PHOTO_FILE_NAME_PATTERN.test(fileName)) {
+    throw new Error(`Geçersiz fotoğraf dosya adı: ${fileName}`);
+  }
+  // Önizleme, fotoğrafın yanında "_thumb.jpg" ekiyle durur
+  const name = size === "thumb" ? `${path.parse(fileName).name}_thumb.jpg` : fileName;
+  return path.join(PHOTO_DIR, name);
+}
+
+function decodeDataUrl(dataUrl: string): { mimeType: string; data: Buffer } {
+  const [header, base64] = dataUrl.split(",", 2);
+  return {
+    mimeType: header.slice("data:".length, header.indexOf(";")),
+    data: Buffer.from(base64, "base64"),
+  };
+}
+
+export async function saveJobPhotoFiles(jobId: number, upload: UploadJobPhoto): Promise<{ fileName: string; mimeType: string }> {
+  const image = decodeDataUrl(upload.image);
+  const thumbnail = decodeDataUrl(upload.thumbnail);
+  const fileName = `${jobId}-${randomUUID()}.${image.mimeType === "image/png" ? "png" : "jpg"}`;
+
+  await fs.mkdir(PHOTO_DIR, { recursive: true });
+  await fs.writeFile(getPhotoPath(fileName, "full"), image.data);
+  await fs.writeFile(getPhotoPath(fileName, "thumb"), thumbnail.data);
+
+  return { fileName, mimeType: image.mimeType };
+}
+
+// Dosya diskte yoksa (örn. yedekten dönülen başka bir sunucu) undefined döner
+export async function readJobPhotoFile(fileName: string, size: JobPhotoSize): Promise<Buffer | undefined> {
+  try {
+    return await fs.readFile(getPhotoPath(fileName, size));
+  } catch (error: any) {
+    if (error.code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+// Fotoğrafın kendisi ve önizlemesi diskte var mı (geri yüklemede ayrıca gönderilen dosyalar için)
+export async function hasJobPhotoFiles(fileName: string): Promise<boolean> {
+  for (const size of ["full", "thumb"] as const) {
+    try {
+      await fs.access(getPhotoPath(fileName, size));
+    } catch {
+      return false;
+    }
+  }
+  return true;
+}
+
+export async function deleteJobPhotoFiles(fileName: string): Promise<void> {
+  await fs.rm(getPhotoPath(fileName, "full"), { force: true });
+  await fs.rm(getPhotoPath(fileName, "thumb"), { force: true });
+}
+
+export async function readJobPhotoBackupFiles(fileNames: string[]): Promise<JobPhotoBackupFile[]> {
+  const files: JobPhotoBackupFile[] = [];
+  for (const fileName of fileNames) {
+    const image = await readJobPhotoFile(fileName, "full");
+    const thumbnail = await readJobPhotoFile(fileName, "thumb");
+    if (image && thumbnail) {
+      files.push({ fileName, image: image.toString("base64"), thumbnail: thumbnail.toString("base64") });
+    }
+  }
+  return files;
+}
+
+export async function writeJobPhotoBackupFiles(files: JobPhotoBackupFile[]): Promise<void> {
+  await fs.mkdir(PHOTO_DIR, { recursive: true });
+  for (const file of files) {
+    await fs.writeFile(getPhotoPath(file.fileName, "full"), Buffer.from(file.image, "base64"));
+    await fs.writeFile(getPhotoPath(file.fileName, "thumb"), Buffer.from(file.thumbnail, "base64"));
+  }
+}
@@ -0,0 +1,517 @@
+import PDFDocument from "pdfkit";
+import { createRequire } from "module";
+import { format } from "date-fns";
+import { tr } from "date-fns/locale";
+import { storage } from "./storage";
+import { readJobPhotoFile } from "./photos";
+import {
+  splitVat,
+  paymentMethodEnum,
+  PAYMENT_METHOD_LABELS,
+  JOB_PHOTO_STAGE_LABELS,
+  VEHICLE_PANEL_LABELS,
+  DAMAGE_TYPE_LABELS,
+  jobPhotoStageEnum,
+  vehiclePanelEnum,
+  damageTypeEnum,
+  type Job,
+  type Customer,
+  type Vehicle,
+  type JobService,
+  type PaymentWithUser,
+  type CashSessionReport,
+  type JobDamageMark,
+} from "@shared/schema";
+import type { AppSettings } from "@shared/settings";
+import { toBusinessWallTime } from "@shared/businessDay";
+
+// Standart PDF fontları Türkçe karakterleri (ğ, ş, ı, İ) içermediği için DejaVu kullanılır
+const require = createRequire(import.meta.url);
+const FONT_REGULAR = require.resolve("dejavu-fonts-ttf/ttf/DejaVuSans.ttf");
+const FONT_BOLD = require.resolve("dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf");
+
+// 80mm termal rulo genişliği (pt)
+const THERMAL_WIDTH = 226.77;
+
+// A4 fişte fotoğraf önizlemelerinin boyutu (pt)
+const PHOTO_THUMB_SIZE = 110;
+
+export type ReceiptLayout = "a4" | "thermal";
+
+export interface ReceiptData {
+  settings: AppSettings;
+  receiptNumber: number | null; // Fiş kesilmemişse ön izleme
+  job: Job;
+  customer?: Customer;
+  vehicle?: Vehicle;
+  lines: JobService[];
+  payments: PaymentWithUser[];
+  damageMarks: JobDamageMark[];
+  photos: ReceiptPhoto[];
+}
+
+export interface ReceiptPhoto {
+  stage: string;
+  caption: string | null;
+  thumbnail: Buffer;
+}
+
+// Fiş için gereken verileri topla. Numara burada verilmez: fiş kesme ayrı bir işlemdir,
+// böylece ön izlemeler sıradaki fiş numaralarını tüketmez.
+export async function getReceiptData(jobId: number): Promise<ReceiptData | undefined> {
+  const job = await storage.getJob(jobId);
+  if (!job) return undefined;
+
+  return {
+    settings: await storage.getAppSettings(),
+    receiptNumber: job.receiptNumber,
+    job,
+    customer: await storage.getCustomer(job.customerId),
+    vehicle: await storage.getVehicle(job.vehicleId),
+    lines: await storage.getJobServices(jobId),
+    payments: await storage.getPayments(jobId),
+    damageMarks: await storage.getJobDamageMarks(jobId),
+    photos: await getReceiptPhotos(jobId),
+  };
+}
+
+// Diskte dosyası bulunmayan fotoğraflar fişe eklenmez
+async function getReceiptPhotos(jobId: number): Promise<ReceiptPhoto[]> {
+  const photos: ReceiptPhoto[] = [];
+  for (const photo of await storage.getJobPhotos(jobId)) {
+    const thumbnail = await readJobPhotoFile(photo.fileName, "thumb");
+    if (thumbnail) {
+      photos.push({ stage: photo.stage, caption: photo.caption, thumbnail });
+    }
+  }
+  return photos;
+}
+
+function formatMoney(amount: number | string): string {
+  return `${Number(amount).toFixed(2)} TL`;
+}
+
+// Fiş saatleri sunucu saatine değil işletmenin saat dilimine göre yazılır
+function formatDateTime(date: Date, timeZone: string): string {
+  return format(toBusinessWallTime(date, timeZone), "dd.MM.yyyy HH:mm", { locale: tr });
+}
+
+function getPaymentLabel(method: string): string {
+  const parsed = paymentMethodEnum.safeParse(method);
+  return parsed.success ? PAYMENT_METHOD_LABELS[parsed.data] : method;
+}
+
+// "Sol ön kapı: Çizik - not" biçiminde hasar satırı
+function formatDamageMark(mark: JobDamageMark): string {
+  const panel = vehiclePanelEnum.safeParse(mark.panel);
+  const damageType = damageTypeEnum.safeParse(mark.damageType);
+  const text = `${panel.success ? VEHICLE_PANEL_LABELS[panel.data] : mark.panel}: ${damageType.success ? DAMAGE_TYPE_LABELS[damageType.data] : mark.damageType}`;
+  return mark.note ? `${text} - ${mark.note}` : text;
+}
+
+function getPhotoStageLabel(stage: string): string {
+  const parsed = jobPhotoStageEnum.safeParse(stage);
+  return parsed.success ? JOB_PHOTO_STAGE_LABELS[parsed.data] : stage;
+}
+
+// Fiş numarası her zaman 6 haneli gösterilir (000042)
+export function formatReceiptNumber(receiptNumber: number): string {
+  return receiptNumber.toString().padStart(6, "0");
+}
+
+function getReceiptNumberLabel(receiptNumber: number | null): string {
+  return receiptNumber === null ? "ÖN İZLEME" : formatReceiptNumber(receiptNumber);
+}
+
+// Tutarları ve oran bazında KDV ayrımını hesapla (fiyatlar KDV dahildir).
+// Toplam ve KDV aynı satır kopyalarından hesaplanır, böylece fişteki rakamlar birbirini tutar;
+// satırı olmayan eski işlerde iş toplamına varsayılan oran uygulanır.
+function getTotals(data: ReceiptData) {
+  const gross = data.lines.length > 0
+    ? data.lines.reduce((total, line) => total + Number(line.grossAmount), 0)
+    : Number(data.job.totalAmount);
+  const vatByRate = new Map<number, { net: number; vat: number }>();
+
+  if (data.lines.length > 0) {
+    for (const line of data.lines) {
+      const rate = Number(line.vatRate);
+      const current = vatByRate.get(rate) ?? { net: 0, vat: 0 };
+      vatByRate.set(rate, {
+        net: current.net + Number(line.netAmount),
+        vat: current.vat + Number(line.vatAmount),
+      });
+    }
+  } else if (gross > 0) {
+    vatByRate.set(data.settings.vatRate, splitVat(gross, data.settings.vatRate));
+  }
+
+  const vatBreakdown = Array.from(vatByRate.entries())
+    .map(([rate, amounts]) => ({ rate, ...amounts }))
+    .sort((a, b) => a.rate - b.rate);
+  const net = vatBreakdown.reduce((total, row) => total + row.net, 0);
+  const vat = vatBreakdown.reduce((total, row) => total + row.vat, 0);
+  const paid = data.payments.reduce((total, payment) => total + Number(payment.amount), 0);
+  return { gross, net, vat, vatBreakdown, paid, remaining: gross - paid };
+}
+
+interface Column {
+  text: string;
+  width: number;
+  align?: "left" | "right" | "center";
+}
+
+// Bir tablo satırını yaz ve imleci en yüksek hücrenin altına taşı
+function writeRow(doc: PDFKit.PDFDocument, columns: Column[], options: { bold?: boolean } = {}) {
+  const top = doc.y;
+  let x = doc.page.margins.left;
+  let bottom = top;
+
+  doc.font(options.bold ? "bold" : "regular");
+  for (const column of columns) {
+    doc.text(column.text, x, top, { width: column.width, align: column.align ?? "left" });
+    bottom = Math.max(bottom, doc.y);
+    x += column.width;
+  }
+
+  doc.x = doc.page.margins.left;
+  doc.y = bottom;
+}
+
+function writeSeparator(doc: PDFKit.PDFDocument) {
+  const y = doc.y + 3;
+  doc
+    .moveTo(doc.page.margins.left, y)
+    .lineTo(doc.page.width - doc.page.margins.right, y)
+    .lineWidth(0.5)
+    .strokeColor("#999999")
+    .stroke();
+  doc.y = y + 5;
+}
+
+function writeHeader(doc: PDFKit.PDFDocument, settings: AppSettings, titleSize: number) {
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+  doc.font("bold").fontSize(titleSize).text(settings.companyName, { width, align: "center" });
+  doc.font("regular").fontSize(titleSize * 0.5);
+  const contact = [
+    settings.address,
+    settings.phone && `Tel: ${settings.phone}`,
+    settings.email,
+    settings.taxId && `Vergi No: ${settings.taxId}`,
+  ].filter(Boolean);
+  for (const line of contact) {
+    doc.text(line as string, { width, align: "center" });
+  }
+}
+
+function renderA4(doc: PDFKit.PDFDocument, data: ReceiptData) {
+  const { job, customer, vehicle, lines, payments, settings } = data;
+  const totals = getTotals(data);
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+  writeHeader(doc, data.settings, 20);
+  doc.moveDown();
+
+  doc.font("bold").fontSize(14).text("SATIŞ FİŞİ", { width, align: "center" });
+  doc.moveDown(0.5);
+
+  doc.fontSize(10);
+  writeRow(doc, [
+    { text: `Fiş No: ${getReceiptNumberLabel(data.receiptNumber)}`, width: width / 2 },
+    { text: `Tarih: ${formatDateTime(job.createdAt, settings.businessTimeZone)}`, width: width / 2, align: "right" },
+  ]);
+  writeRow(doc, [
+    { text: `İş Emri No: ${job.id}`, width: width / 2 },
+    { text: `Basım: ${formatDateTime(new Date(), settings.businessTimeZone)}`, width: width / 2, align: "right" },
+  ]);
+  doc.moveDown(0.5);
+
+  writeRow(doc, [
+    { text: `Müşteri: ${customer?.name ?? "-"}`, width: width / 2 },
+    { text: `Plaka: ${vehicle?.plate ?? "-"}`, width: width / 2, align: "right" },
+  ]);
+  writeRow(doc, [
+    { text: `Telefon: ${customer?.phone || "-"}`, width: width / 2 },
+    { text: `Araç: ${[vehicle?.brand, vehicle?.model].filter(Boolean).join(" ") || "-"}`, width: width / 2, align: "right" },
+  ]);
+  doc.moveDown();
+
+  // Hizmet satırları
+  const columnWidths = [width * 0.4, width * 0.1, width * 0.17, width * 0.15, width * 0.18];
+  writeRow(doc, [
+    { text: "Hizmet", width: columnWidths[0] },
+    { text: "Adet", width: columnWidths[1], align: "right" },
+    { text: "Birim Fiyat", width: columnWidths[2], align: "right" },
+    { text: "İndirim", width: columnWidths[3], align: "right" },
+    { text: "Tutar", width: columnWidths[4], align: "right" },
+  ], { bold: true });
+  writeSeparator(doc);
+  for (const line of lines) {
+    writeRow(doc, [
+      { text: line.label, width: columnWidths[0] },
+      { text: String(line.quantity), width: columnWidths[1], align: "right" },
+      { text: formatMoney(line.unitPrice), width: columnWidths[2], align: "right" },
+      { text: Number(line.discount) > 0 ? formatMoney(line.discount) : "-", width: columnWidths[3], align: "right" },
+      { text: formatMoney(line.grossAmount), width: columnWidths[4], align: "right" },
+    ]);
+  }
+  writeSeparator(doc);
+
+  // Toplamlar ve KDV ayrımı
+  const labelWidth = width * 0.8;
+  const amountWidth = width * 0.2;
+  writeRow(doc, [
+    { text: "Ara Toplam (KDV Hariç)", width: labelWidth, align: "right" },
+    { text: formatMoney(totals.net), width: amountWidth, align: "right" },
+  ]);
+  for (const row of totals.vatBreakdown) {
+    writeRow(doc, [
+      { text: `KDV (%${row.rate}) - Matrah ${formatMoney(row.net)}`, width: labelWidth, align: "right" },
+      { text: formatMoney(row.vat), width: amountWidth, align: "right" },
+    ]);
+  }
+  writeRow(doc, [
+    { text: "Genel Toplam", width: labelWidth, align: "right" },
+    { text: formatMoney(totals.gross), width: amountWidth, align: "right" },
+  ], { bold: true });
+  doc.moveDown();
+
+  // Tahsilatlar
+  if (payments.length > 0) {
+    doc.font("bold").text("Tahsilatlar", doc.page.margins.left);
+    writeSeparator(doc);
+    for (const payment of payments) {
+      writeRow(doc, [
+        { text: formatDateTime(payment.createdAt, settings.businessTimeZone), width: width * 0.4 },
+        { text: getPaymentLabel(payment.method), width: width * 0.4 },
+        { text: formatMoney(payment.amount), width: width * 0.2, align: "right" },
+      ]);
+    }
+    writeSeparator(doc);
+  }
+  writeRow(doc, [
+    { text: "Ödenen", width: labelWidth, align: "right" },
+    { text: formatMoney(totals.paid), width: amountWidth, align: "right" },
+  ]);
+  writeRow(doc, [
+    { text: "Kalan", width: labelWidth, align: "right" },
+    { text: formatMoney(totals.remaining), width: amountWidth, align: "right" },
+  ], { bold: true });
+
+  // Araç kabulündeki hasarlar ve giriş/çıkış fotoğrafları
+  if (data.damageMarks.length > 0 || data.photos.length > 0) {
+    doc.moveDown();
+    doc.font("bold").text("Araç Durumu", doc.page.margins.left);
+    writeSeparator(doc);
+    doc.font("regular");
+    if (data.damageMarks.length === 0) {
+      doc.text("Kabulde hasar kaydı bulunmuyor", { width });
+    }
+    for (const mark of data.damageMarks) {
+      doc.text(formatDamageMark(mark), { width });
+    }
+    writePhotoGrid(doc, data.photos, width);
+  }
+
+  if (settings.receiptFooter) {
+    doc.moveDown(2);
+    doc.font("regular").fontSize(9).text(settings.receiptFooter, doc.page.margins.left, doc.y, { width, align: "center" });
+  }
+}
+
+// Önizlemeler satır satır dizilir; sayfaya sığmayan satır yeni sayfaya geçer
+function writePhotoGrid(doc: PDFKit.PDFDocument, photos: ReceiptPhoto[], width: number) {
+  const gap = 10;
+  const perRow = Math.max(1, Math.floor((width + gap) / (PHOTO_THUMB_SIZE + gap)));
+  const captionHeight = 24;
+
+  for (let i = 0; i < photos.length; i += perRow) {
+    doc.moveDown(0.5);
+    if (doc.y + PHOTO_THUMB_SIZE + captionHeight > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+
+    const top = doc.y;
+    photos.slice(i, i + perRow).forEach((photo, index) => {
+      const x = doc.page.margins.left + index * (PHOTO_THUMB_SIZE + gap);
+      doc.image(photo.thumbnail, x, top, { fit: [PHOTO_THUMB_SIZE, PHOTO_THUMB_SIZE], align: "center", valign: "center" });
+      doc.font("regular").fontSize(7).text(
+        [getPhotoStageLabel(photo.stage), photo.caption].filter(Boolean).join(" - "),
+        x,
+        top + PHOTO_THUMB_SIZE + 2,
+        { width: PHOTO_THUMB_SIZE, align: "center", height: captionHeight - 2, ellipsis: true }
+      );
+    });
+    doc.fontSize(10);
+    doc.x = doc.page.margins.left;
+    doc.y = top + PHOTO_THUMB_SIZE + captionHeight;
+  }
+}
+
+function renderThermal(doc: PDFKit.PDFDocument, data: ReceiptData) {
+  const { job, customer, vehicle, lines, payments, settings } = data;
+  const totals = getTotals(data);
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const half = width / 2;
+
+  writeHeader(doc, data.settings, 12);
+  writeSeparator(doc);
+
+  doc.fontSize(8);
+  writeRow(doc, [
+    { text: `Fiş No: ${getReceiptNumberLabel(data.receiptNumber)}`, width: half },
+    { text: `İş Emri: ${job.id}`, width: half, align: "right" },
+  ]);
+  doc.font("regular").text(formatDateTime(job.createdAt, settings.businessTimeZone));
+  doc.text(`Müşteri: ${customer?.name ?? "-"}`);
+  doc.text(`Plaka: ${vehicle?.plate ?? "-"}`);
+  writeSeparator(doc);
+
+  // Her satır: hizmet adı, altında adet x fiyat ve tutar
+  for (const line of lines) {
+    doc.font("regular").text(line.label, { width });
+    const discount = Number(line.discount) > 0 ? ` -${formatMoney(line.discount)}` : "";
+    writeRow(doc, [
+      { text: `${line.quantity} x ${formatMoney(line.unitPrice)}${discount}`, width: width * 0.65 },
+      { text: formatMoney(line.grossAmount), width: width * 0.35, align: "right" },
+    ]);
+  }
+  writeSeparator(doc);
+
+  writeRow(doc, [
+    { text: "KDV Hariç", width: half },
+    { text: formatMoney(totals.net), width: half, align: "right" },
+  ]);
+  for (const row of totals.vatBreakdown) {
+    writeRow(doc, [
+      { text: `KDV %${row.rate}`, width: half },
+      { text: formatMoney(row.vat), width: half, align: "right" },
+    ]);
+  }
+  doc.fontSize(10);
+  writeRow(doc, [
+    { text: "TOPLAM", width: half },
+    { text: formatMoney(totals.gross), width: half, align: "right" },
+  ], { bold: true });
+  doc.fontSize(8);
+  writeSeparator(doc);
+
+  for (const payment of payments) {
+    writeRow(doc, [
+      { text: getPaymentLabel(payment.method), width: half },
+      { text: formatMoney(payment.amount), width: half, align: "right" },
+    ]);
+  }
+  writeRow(doc, [
+    { text: "Kalan", width: half },
+    { text: formatMoney(totals.remaining), width: half, align: "right" },
+  ], { bold: true });
+
+  // Termal fişte fotoğraf basılmaz, yalnızca hasar kayıtları yazılır
+  if (data.damageMarks.length > 0) {
+    writeSeparator(doc);
+    doc.font("bold").text("Kabulde Tespit Edilen Hasarlar", { width });
+    for (const mark of data.damageMarks) {
+      doc.font("regular").text(formatDamageMark(mark), { width });
+    }
+  }
+
+  if (settings.receiptFooter) {
+    writeSeparator(doc);
+    doc.font("regular").text(settings.receiptFooter, { width, align: "center" });
+  }
+}
+
+// Termal rulo sürekli olduğu için sayfa yüksekliği içeriğe göre tahmin edilir
+function estimateThermalHeight(data: ReceiptData): number {
+  const footerLines = Math.ceil(data.settings.receiptFooter.length / 40);
+  const vatRates = new Set(data.lines.map((line) => line.vatRate)).size;
+  const damageLines = data.damageMarks.length > 0 ? data.damageMarks.length * 2 + 2 : 0;
+  return 180 + vatRates * 11 + data.lines.length * 24 + data.payments.length * 11 + footerLines * 11 + damageLines * 11;
+}
+
+// Fontları kayıtlı bir PDF belgesi oluştur; içerik render ile yazılır
+function createPdf(size: PDFKit.PDFDocumentOptions["size"], margin: number, title: string, render: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size, margin });
+    doc.info.Title = title;
+    doc.registerFont("regular", FONT_REGULAR);
+    doc.registerFont("bold", FONT_BOLD);
+    doc.font("regular");
+
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    render(doc);
+    doc.end();
+  });
+}
+
+export function renderReceiptPdf(data: ReceiptData, layout: ReceiptLayout): Promise<Buffer> {
+  return createPdf(
+    layout === "thermal" ? [THERMAL_WIDTH, estimateThermalHeight(data)] : "A4",
+    layout === "thermal" ? 10 : 50,
+    `Fiş ${getReceiptNumberLabel(data.receiptNumber)}`,
+    (doc) => layout === "thermal" ? renderThermal(doc, data) : renderA4(doc, data)
+  );
+}
+
+// Kasa oturumu raporu: kapalı oturumda Z raporu, açık oturumda ara (X) rapor
+export function renderCashSessionPdf(session: CashSessionReport, settings: AppSettings): Promise<Buffer> {
+  const height = 260 + session.movements.length * 22;
+  const isClosed = session.status === "kapali";
+
+  return createPdf([THERMAL_WIDTH, height], 10, `Kasa Raporu ${session.id}`, (doc) => {
+    const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const half = width / 2;
+    const row = (label: string, value: string, options: { bold?: boolean } = {}) =>
+      writeRow(doc, [
+        { text: label, width: half },
+        { text: value, width: half, align: "right" },
+      ], options);
+
+    writeHeader(doc, settings, 12);
+    writeSeparator(doc);
+
+    doc.font("bold").fontSize(10).text(isClosed ? "Z RAPORU" : "X RAPORU (ARA)", { width, align: "center" });
+    doc.fontSize(8);
+    row("Oturum No", session.id.toString());
+    row("Açılış", formatDateTime(session.openedAt, settings.businessTimeZone));
+    row("Açan", session.openedByName ?? "-");
+    if (session.closedAt) {
+      row("Kapanış", formatDateTime(session.closedAt, settings.businessTimeZone));
+      row("Kapatan", session.closedByName ?? "-");
+    }
+    writeSeparator(doc);
+
+    row("Kasa Avansı", formatMoney(session.totals.openingFloat));
+    row("Nakit Tahsilat", formatMoney(session.totals.cashPayments));
+    row("Kasa Girişi", formatMoney(session.totals.cashIn));
+    row("Kasa Çıkışı", `-${formatMoney(session.totals.cashOut)}`);
+    row("Nakit Gider", `-${formatMoney(session.totals.cashExpenses)}`);
+    doc.fontSize(10);
+    row("BEKLENEN", formatMoney(session.totals.expectedAmount), { bold: true });
+    doc.fontSize(8);
+
+    if (isClosed) {
+      row("Sayılan", formatMoney(session.countedAmount ?? 0));
+      row("Fark", formatMoney(session.variance ?? 0), { bold: true });
+    }
+
+    if (session.movements.length > 0) {
+      writeSeparator(doc);
+      doc.font("bold").text("Kasa Hareketleri", { width });
+      for (const movement of session.movements) {
+        doc.font("regular").text(`${formatDateTime(movement.createdAt, settings.businessTimeZone)} ${movement.reason}`, { width });
+        row(movement.type === "giris" ? "Giriş" : "Çıkış", `${movement.type === "giris" ? "" : "-"}${formatMoney(movement.amount)}`);
+      }
+    }
+
+    if (session.notes) {
+      writeSeparator(doc);
+      doc.font("regular").text(session.notes, { width });
+    }
+  });
+}
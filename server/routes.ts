@@ -1,19 +1,66 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { getBackupFiles, performManualBackup } from "./backup";
+import { getReceiptData, renderReceiptPdf, renderCashSessionPdf, formatReceiptNumber } from "./receipt";
+import { checkSubscriptionCoverage } from "./subscriptions";
+import { buildLoyaltyRedemptionLine } from "./loyalty";
+import { checkCorporateCustomer, checkJobInvoiceLock, checkOnAccountJob } from "./accounts";
+import { checkServiceCommission } from "./payroll";
+import { broadcastJobEvent, subscribeToJobEvents } from "./events";
+import { isPlateRecognitionEnabled, recognizePlate } from "./anpr";
+import { deleteJobPhotoFiles, readJobPhotoFile, saveJobPhotoFiles, writeJobPhotoBackupFiles } from "./photos";
+import { auditMiddleware } from "./audit";
 import { z } from "zod";
-import { setupAuth, requireAuth, hashExistingPasswords, hashPassword } from "./auth";
+import { endOfMonth, format, parseISO, startOfMonth } from "date-fns";
+import { setupAuth, requireAuth, requirePermission, hashExistingPasswords, hashPassword } from "./auth";
+import { hasPermission } from "@shared/permissions";
 import { 
   insertCustomerSchema, 
   insertVehicleSchema, 
+  createVehicleSchema,
+  mergeVehiclesSchema,
+  createCheckInSchema,
   insertServiceSchema, 
   insertJobSchema, 
   insertJobServiceSchema,
+  insertPaymentSchema,
+  createPaymentSchema,
+  insertWashBaySchema,
+  insertAppointmentSchema,
   insertUserSchema,
   insertExpenseSchema,
-  jobStatusEnum
+  insertSubscriptionPlanSchema,
+  insertCustomerSubscriptionSchema,
+  insertCashMovementSchema,
+  openCashSessionSchema,
+  closeCashSessionSchema,
+  loyaltyRedemptionSchema,
+  insertGiftCardSchema,
+  customerServicePricesSchema,
+  createAccountInvoiceSchema,
+  accountInvoicePaymentSchema,
+  customerSettlementSchema,
+  customerStatementQuerySchema,
+  giftCardTopUpSchema,
+  insertInventoryProductSchema,
+  inventoryPurchaseSchema,
+  inventoryStockCountSchema,
+  serviceConsumptionsSchema,
+  jobStaffSchema,
+  uploadJobPhotoSchema,
+  jobDamageMarksSchema,
+  postPayrollSchema,
+  jobStatusEnum,
+  jobListQuerySchema,
+  revenueReportQuerySchema,
+  auditLogQuerySchema,
+  businessDateSchema
 } from "@shared/schema";
+import { backupFileSchema, backupJobPhotoFileSchema } from "@shared/backup";
+import { updateAppSettingsSchema, getBusinessDayOptions } from "@shared/settings";
+import { getBusinessDate, getBusinessDayRange, getBusinessDayStart } from "@shared/businessDay";
+import { normalizePlate } from "@shared/plate";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Kimlik doğrulama sistemini kur
@@ -21,8 +68,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Mevcut şifreleri hashle (ilk kurulum için)
   await hashExistingPasswords();
+  
+  // Rolü olmayan eski yönetici hesaplarını admin rolüne taşı
+  await storage.backfillUserRoles();
+  
+  // Fiyat kopyası olmayan eski iş satırlarını doldur (ilk kurulum için)
+  const backfilledLines = await storage.backfillJobServiceSnapshots();
+  if (backfilledLines > 0) {
+    console.log(`${backfilledLines} iş satırı için fiyat bilgisi dolduruldu`);
+  }
+  
+  // KDV tutarı hesaplanmamış eski iş satırlarını doldur
+  const backfilledVatLines = await storage.backfillJobServiceVatAmounts();
+  if (backfilledVatLines > 0) {
+    console.log(`${backfilledVatLines} iş satırı için KDV tutarları hesaplandı`);
+  }
+  
+  // Ödeme kaydı olmayan eski işlerin tahsilatlarını ödeme tablosuna taşı
+  const backfilledPayments = await storage.backfillPaymentsFromJobs();
+  if (backfilledPayments > 0) {
+    console.log(`${backfilledPayments} iş için ödeme kaydı oluşturuldu`);
+  }
+  
+  // Fiş numarası sayacını mevcut en büyük fiş numarasının ilerisine taşı
+  await storage.syncReceiptNumberSequence();
+  
+  // Tamamlanmış işlerin satırlarına prim kuralını kopyala; sonraki kural değişiklikleri geçmişi etkilemesin
+  const backfilledCommissions = await storage.backfillJobServiceCommissions();
+  if (backfilledCommissions > 0) {
+    console.log(`${backfilledCommissions} iş satırı için prim kuralı kopyalandı`);
+  }
+  
+  // Kasa oturumuna bağlı olmayan eski nakit tahsilatları o saatte açık olan oturuma bağla
+  const linkedCashPayments = await storage.backfillCashSessionLinks();
+  if (linkedCashPayments > 0) {
+    console.log(`${linkedCashPayments} nakit tahsilat kasa oturumuna bağlandı`);
+  }
+  
+  // Eski plakaları karşılaştırma biçimine taşı; aynı araca ait olabilecek kayıtları bildir
+  const backfilledPlates = await storage.backfillVehiclePlates();
+  if (backfilledPlates.updated > 0) {
+    console.log(`${backfilledPlates.updated} araç plakası normalize edildi`);
+  }
+  for (const plates of backfilledPlates.duplicates) {
+    console.warn(`Çakışan plakalar Araç Listesi ekranından birleştirilmeli: ${plates.join(", ")}`);
+  }
+  
+  // Bundan sonra tanımlanan ve veri değiştiren tüm istekler denetim kaydına yazılır
+  app.use(auditMiddleware);
+  
   // Backup & Restore API
-  app.get("/api/backup/export", async (req, res) => {
+  app.get("/api/backup/export", requirePermission("backup.manage"), async (req, res) => {
     try {
       console.log("Yedekleme işlemi başlatıldı");
       const backupData = await storage.exportBackup();
@@ -39,30 +135,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/backup/import", async (req, res) => {
-    try {
-      const backupData = req.body;
-      
-      // Basit doğrulama
-      if (!backupData || !backupData.timestamp || !backupData.version) {
-        return res.status(400).json({ message: "Geçersiz yedek dosyası" });
-      }
+  app.post(
+    "/api/backup/import",
+    requirePermission("backup.manage"),
+    express.json({ limit: "50mb" }),
+    async (req, res) => {
+      try {
+        const backupData = backupFileSchema.parse(req.body);
+        const dryRun = req.query.dryRun === "true";
       
-      const result = await storage.importBackup(backupData);
+        const report = await storage.importBackup(backupData, { dryRun, user: req.user });
       
-      if (result) {
-        res.json({ message: "Veriler başarıyla geri yüklendi", success: true });
-      } else {
-        res.status(500).json({ message: "Geri yükleme işlemi başarısız oldu" });
+        res.json({
+          message: dryRun ? "Yedek dosyası doğrulandı, değişiklik yapılmadı" : "Veriler başarıyla geri yüklendi",
+          success: true,
+          report
+        });
+      } catch (error: any) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Geçersiz yedek dosyası", errors: error.errors });
+        }
+        console.error("Geri yükleme hatası:", error);
+        res.status(500).json({ message: "Geri yükleme işlemi sırasında bir hata oluştu, veriler değiştirilmedi: " + error.message });
       }
-    } catch (error: any) {
-      console.error("Geri yükleme hatası:", error);
-      res.status(500).json({ message: "Geri yükleme işlemi sırasında bir hata oluştu: " + error.message });
     }
-  });
+  );
+  
+  // Geri yüklemeden önce yedekteki fotoğraf dosyaları tek tek gönderilir; geri yükleme isteğinde yalnızca adları kalır.
+  // Dosya adları benzersiz olduğundan geri yükleme yapılmazsa yazılan dosyalar hiçbir kayda bağlanmaz.
+  app.post(
+    "/api/backup/photos",
+    requirePermission("backup.manage"),
+    express.json({ limit: "10mb" }),
+    async (req, res) => {
+      try {
+        const file = backupJobPhotoFileSchema.parse(req.body);
+        await writeJobPhotoBackupFiles([file]);
+        res.status(204).end();
+      } catch (error: any) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Geçersiz fotoğraf dosyası", errors: error.errors });
+        }
+        console.error("Yedek fotoğrafı yazılırken hata:", error);
+        res.status(500).json({ message: "Fotoğraf dosyası yazılırken bir hata oluştu: " + error.message });
+      }
+    }
+  );
   
   // Yedekleme dosyalarını listele
-  app.get("/api/backup/list", async (req, res) => {
+  app.get("/api/backup/list", requirePermission("backup.manage"), async (req, res) => {
     try {
       const backupFiles = await getBackupFiles();
       res.json(backupFiles);
@@ -73,7 +194,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Manuel yedekleme yap
-  app.post("/api/backup/manual", async (req, res) => {
+  app.post("/api/backup/manual", requirePermission("backup.manage"), async (req, res) => {
     try {
       const backupPath = await performManualBackup();
       
@@ -93,7 +214,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Yedekleme ayarlarını kaydet
-  app.post("/api/backup/settings", async (req, res) => {
+  app.post("/api/backup/settings", requirePermission("backup.manage"), async (req, res) => {
     try {
       const { autoBackupEnabled } = req.body;
       
@@ -112,7 +233,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Yedekleme ayarlarını getir
-  app.get("/api/backup/settings", async (req, res) => {
+  app.get("/api/backup/settings", requirePermission("backup.manage"), async (req, res) => {
     try {
       const autoBackupEnabled = await storage.getSetting('auto_backup_enabled');
       
@@ -125,13 +246,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Settings API - fiş, rapor ve bildirimlerde kullanılan ayarlar herkes tarafından okunabilir
+  app.get("/api/settings", requireAuth, async (req, res) => {
+    try {
+      const appSettings = await storage.getAppSettings();
+      res.json(appSettings);
+    } catch (error: any) {
+      console.error("Ayarlar alınırken hata:", error);
+      res.status(500).json({ message: "Ayarlar alınırken hata oluştu: " + error.message });
+    }
+  });
+  
+  app.put("/api/settings", requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const values = updateAppSettingsSchema.parse(req.body);
+      const appSettings = await storage.updateAppSettings(values);
+      res.json(appSettings);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz ayar verisi", errors: error.errors });
+      }
+      console.error("Ayarlar kaydedilirken hata:", error);
+      res.status(500).json({ message: "Ayarlar kaydedilirken hata oluştu: " + error.message });
+    }
+  });
+  
   // Customers API
-  app.get("/api/customers", async (req, res) => {
+  app.get("/api/customers", requirePermission("customers.view"), async (req, res) => {
     const customers = await storage.getCustomers();
     res.json(customers);
   });
   
-  app.get("/api/customers/:id", async (req, res) => {
+  app.get("/api/customers/:id", requirePermission("customers.view"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid customer ID" });
@@ -146,7 +292,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Fetch customer vehicles
-  app.get("/api/customers/:id/vehicles", async (req, res) => {
+  app.get("/api/customers/:id/vehicles", requirePermission("customers.view"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid customer ID" });
@@ -157,7 +303,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Fetch customer jobs
-  app.get("/api/customers/:id/jobs", async (req, res) => {
+  app.get("/api/customers/:id/jobs", requirePermission("customers.view"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid customer ID" });
@@ -168,7 +314,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Fetch customer analytics
-  app.get("/api/customers/:id/analytics", async (req, res) => {
+  app.get("/api/customers/:id/analytics", requirePermission("customers.view"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid customer ID" });
@@ -187,9 +333,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(analytics);
   });
   
-  app.post("/api/customers", async (req, res) => {
+  // Müşterinin sadakat puanı, damga bakiyesi ve hareketleri
+  app.get("/api/customers/:id/loyalty", requirePermission("customers.view"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid customer ID" });
+    }
+    
+    const customer = await storage.getCustomer(id);
+    if (!customer) {
+      return res.status(404).json({ message: "Customer not found" });
+    }
+    
+    const loyalty = await storage.getCustomerLoyalty(id);
+    res.json(loyalty);
+  });
+  
+  app.post("/api/customers", requirePermission("customers.manage"), async (req, res) => {
     try {
       const data = insertCustomerSchema.parse(req.body);
+      const corporateError = checkCorporateCustomer(data);
+      if (corporateError) {
+        return res.status(400).json({ message: corporateError });
+      }
+      
       const customer = await storage.createCustomer(data);
       res.status(201).json(customer);
     } catch (error) {
@@ -200,7 +367,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.put("/api/customers/:id", async (req, res) => {
+  app.put("/api/customers/:id", requirePermission("customers.manage"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid customer ID" });
@@ -208,6 +375,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     try {
       const data = insertCustomerSchema.partial().parse(req.body);
+      const existing = await storage.getCustomer(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      
+      const corporateError = checkCorporateCustomer(data, existing);
+      if (corporateError) {
+        return res.status(400).json({ message: corporateError });
+      }
+      
       const customer = await storage.updateCustomer(id, data);
       if (!customer) {
         return res.status(404).json({ message: "Customer not found" });
@@ -222,7 +399,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/customers/:id", async (req, res) => {
+  app.delete("/api/customers/:id", requirePermission("customers.manage"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid customer ID" });
@@ -236,8 +413,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.status(204).end();
   });
   
+  // Müşteri hesap ekstresi (?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD, verilmezse tüm hareketler)
+  app.get("/api/customers/:id/statement", requirePermission("receivables.view"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid customer ID" });
+    }
+    
+    try {
+      const query = customerStatementQuerySchema.parse(req.query);
+      const statement = await storage.getCustomerStatement(id, query.startDate, query.endDate);
+      if (!statement) {
+        return res.status(404).json({ message: "Müşteri bulunamadı" });
+      }
+      
+      res.json(statement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz ekstre parametreleri", errors: error.errors });
+      }
+      console.error("Hesap ekstresi hatası:", error);
+      res.status(500).json({ message: "Hesap ekstresi oluşturulamadı" });
+    }
+  });
+  
+  // Tek ödemeyle birden fazla açık işi kapatma; tutar en eski işten başlayarak dağıtılır
+  app.post("/api/customers/:id/settlements", requirePermission("payments.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid customer ID" });
+    }
+    
+    try {
+      const data = customerSettlementSchema.parse(req.body);
+      const customer = await storage.getCustomer(id);
+      if (!customer) {
+        return res.status(404).json({ message: "Müşteri bulunamadı" });
+      }
+      
+      const payments = await storage.settleCustomerJobs(id, data, req.user!.id);
+      if (!payments) {
+        return res.status(400).json({ message: "Seçilen işler açık değil veya ödeme tutarı kalan borcu aşıyor" });
+      }
+      res.status(201).json(payments);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz ödeme bilgisi", errors: error.errors });
+      }
+      console.error("Toplu tahsilat hatası:", error);
+      res.status(500).json({ message: "Ödeme kaydedilirken bir hata oluştu" });
+    }
+  });
+  
+  // Kurumsal müşterinin anlaşmalı fiyat listesi
+  app.get("/api/customers/:id/prices", requirePermission("customers.view"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid customer ID" });
+    }
+    
+    const prices = await storage.getCustomerServicePrices(id);
+    res.json(prices);
+  });
+  
+  app.put("/api/customers/:id/prices", requirePermission("accounts.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid customer ID" });
+    }
+    
+    try {
+      const prices = customerServicePricesSchema.parse(req.body);
+      const customer = await storage.getCustomer(id);
+      if (!customer) {
+        return res.status(404).json({ message: "Müşteri bulunamadı" });
+      }
+      if (!customer.isCorporate) {
+        return res.status(400).json({ message: "Anlaşmalı fiyat yalnızca kurumsal müşterilere tanımlanabilir" });
+      }
+      
+      const services = await storage.getServices();
+      if (prices.some(price => !services.some(service => service.id === price.serviceId))) {
+        return res.status(400).json({ message: "Hizmet bulunamadı" });
+      }
+      
+      const saved = await storage.setCustomerServicePrices(id, prices);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz fiyat listesi", errors: error.errors });
+      }
+      console.error("Fiyat listesi kaydetme hatası:", error);
+      res.status(500).json({ message: "Fiyat listesi kaydedilirken bir hata oluştu" });
+    }
+  });
+  
   // Vehicles API
-  app.get("/api/vehicles", async (req, res) => {
+  app.get("/api/vehicles", requirePermission("vehicles.view"), async (req, res) => {
     const customerId = req.query.customerId ? parseInt(req.query.customerId as string) : undefined;
     
     if (customerId) {
@@ -249,7 +521,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(vehicles);
   });
   
-  app.get("/api/vehicles/:id", async (req, res) => {
+  // Aynı plakanın birden fazla kaydı; birleştirme ekranında listelenir
+  app.get("/api/vehicles/duplicates", requirePermission("vehicles.view"), async (req, res) => {
+    try {
+      const duplicates = await storage.getDuplicateVehicles();
+      res.json(duplicates);
+    } catch (error) {
+      console.error("Çakışan araçlar alınırken hata:", error);
+      res.status(500).json({ message: "Çakışan araçlar alınırken bir hata oluştu" });
+    }
+  });
+  
+  app.get("/api/vehicles/:id", requirePermission("vehicles.view"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid vehicle ID" });
@@ -263,7 +546,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(vehicle);
   });
   
-  app.get("/api/vehicles/plate/:plate", async (req, res) => {
+  app.get("/api/vehicles/plate/:plate", requirePermission("vehicles.view"), async (req, res) => {
     const plate = req.params.plate;
     const vehicle = await storage.getVehicleByPlate(plate);
     if (!vehicle) {
@@ -273,9 +556,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(vehicle);
   });
   
-  app.post("/api/vehicles", async (req, res) => {
+  app.post("/api/vehicles", requirePermission("vehicles.manage"), async (req, res) => {
     try {
       const data = insertVehicleSchema.parse(req.body);
+      if (await storage.getVehicleByPlate(data.plate)) {
+        return res.status(409).json({ message: "A vehicle with this plate already exists" });
+      }
+      
       const vehicle = await storage.createVehicle(data);
       res.status(201).json(vehicle);
     } catch (error) {
@@ -286,14 +573,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.put("/api/vehicles/:id", async (req, res) => {
+  app.put("/api/vehicles/:id", requirePermission("vehicles.manage"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid vehicle ID" });
     }
     
     try {
-      const data = insertVehicleSchema.partial().parse(req.body);
+      const current = await storage.getVehicle(id);
+      if (!current) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      
+      const data = createVehicleSchema(current.plate).partial().parse(req.body);
+      // Değişmeyen plaka yazılmaz: birleştirilmemiş eski kayıtların karşılaştırma plakası boş kalmalı
+      if (data.plate !== undefined && normalizePlate(data.plate) === normalizePlate(current.plate)) {
+        delete data.plate;
+      }
+      if (data.plate !== undefined) {
+        const existing = await storage.getVehicleByPlate(data.plate);
+        if (existing && existing.id !== id) {
+          return res.status(409).json({ message: "A vehicle with this plate already exists" });
+        }
+      }
+      
       const vehicle = await storage.updateVehicle(id, data);
       if (!vehicle) {
         return res.status(404).json({ message: "Vehicle not found" });
@@ -308,7 +611,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/vehicles/:id", async (req, res) => {
+  // Çakışan kayıtları hedef araçta birleştirir; yalnızca karşılaştırma plakası aynı araçlar birleştirilebilir
+  app.post("/api/vehicles/:id/merge", requirePermission("vehicles.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz araç ID" });
+    }
+    
+    try {
+      const { sourceIds } = mergeVehiclesSchema.parse(req.body);
+      if (sourceIds.includes(id)) {
+        return res.status(400).json({ message: "Araç kendisiyle birleştirilemez" });
+      }
+      
+      const target = await storage.getVehicle(id);
+      if (!target) {
+        return res.status(404).json({ message: "Araç bulunamadı" });
+      }
+      for (const sourceId of sourceIds) {
+        const source = await storage.getVehicle(sourceId);
+        if (!source) {
+          return res.status(404).json({ message: `Birleştirilecek araç bulunamadı (#${sourceId})` });
+        }
+        if (normalizePlate(source.plate) !== normalizePlate(target.plate)) {
+          return res.status(400).json({ message: `Yalnızca aynı plakalı araçlar birleştirilebilir (${source.plate})` });
+        }
+      }
+      
+      const vehicle = await storage.mergeVehicles(id, sourceIds);
+      if (!vehicle) {
+        return res.status(404).json({ message: "Araç bulunamadı" });
+      }
+      
+      res.json(vehicle);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz birleştirme isteği", errors: error.errors });
+      }
+      console.error("Araçlar birleştirilirken hata:", error);
+      res.status(500).json({ message: "Araçlar birleştirilirken bir hata oluştu" });
+    }
+  });
+  
+  app.delete("/api/vehicles/:id", requirePermission("vehicles.manage"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid vehicle ID" });
@@ -323,12 +668,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Services API
-  app.get("/api/services", async (req, res) => {
+  app.get("/api/services", requirePermission("services.view"), async (req, res) => {
     const services = await storage.getServices();
     res.json(services);
   });
   
-  app.get("/api/services/:id", async (req, res) => {
+  app.get("/api/services/:id", requirePermission("services.view"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid service ID" });
@@ -342,7 +687,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(service);
   });
   
-  app.post("/api/services", async (req, res) => {
+  app.post("/api/services", requirePermission("services.manage"), async (req, res) => {
     try {
       // Fiyat sayı olarak geliyorsa string'e çevir, aksi halde direkt kullan
       const requestData = { ...req.body };
@@ -351,6 +696,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const data = insertServiceSchema.parse(requestData);
+      const commissionError = checkServiceCommission(data);
+      if (commissionError) {
+        return res.status(400).json({ message: commissionError });
+      }
+      
       const service = await storage.createService(data);
       res.status(201).json(service);
     } catch (error) {
@@ -361,7 +711,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.put("/api/services/:id", async (req, res) => {
+  app.put("/api/services/:id", requirePermission("services.manage"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid service ID" });
@@ -375,6 +725,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const data = insertServiceSchema.partial().parse(requestData);
+      const existing = await storage.getService(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+      const commissionError = checkServiceCommission(data, existing);
+      if (commissionError) {
+        return res.status(400).json({ message: commissionError });
+      }
+      
       const service = await storage.updateService(id, data);
       if (!service) {
         return res.status(404).json({ message: "Service not found" });
@@ -389,7 +748,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/services/:id", async (req, res) => {
+  app.delete("/api/services/:id", requirePermission("services.manage"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid service ID" });
@@ -404,17 +763,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Jobs API
-  app.get("/api/jobs", async (req, res) => {
+  app.get("/api/jobs", requirePermission("jobs.view"), async (req, res) => {
+    // Sayfa parametresi verilirse filtrelenmiş ve sayfalanmış liste döner: { items, total, page, pageSize }
+    if (req.query.page !== undefined || req.query.pageSize !== undefined) {
+      try {
+        const query = jobListQuerySchema.parse(req.query);
+        const result = await storage.getJobList(query);
+        return res.json(result);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid job list query", errors: error.errors });
+        }
+        return res.status(500).json({ message: "An error occurred while listing jobs" });
+      }
+    }
+    
     const dateParam = req.query.date as string;
     
     if (dateParam) {
       try {
-        const date = new Date(dateParam);
-        if (isNaN(date.getTime())) {
+        if (!businessDateSchema.safeParse(dateParam).success) {
           return res.status(400).json({ message: "Invalid date format" });
         }
         
-        const jobs = await storage.getJobsByDate(date);
+        const jobs = await storage.getJobsByDate(dateParam);
         return res.json(jobs);
       } catch (error) {
         return res.status(400).json({ message: "Invalid date" });
@@ -425,7 +797,98 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(jobs);
   });
   
-  app.get("/api/jobs/:id", async (req, res) => {
+  // İş akışı panosu: günün işleri ve bekleyen / devam eden işler
+  app.get("/api/jobs/board", requirePermission("jobs.view"), async (req, res) => {
+    try {
+      const board = await storage.getJobBoard(await getCurrentBusinessDate());
+      res.json(board);
+    } catch (error) {
+      console.error("İş panosu hatası:", error);
+      res.status(500).json({ message: "İş panosu yüklenemedi" });
+    }
+  });
+  
+  // Plakayla hızlı kabul: araç, müşteri, son ziyaretler, açık bakiye ve sık alınan hizmetler tek istekte
+  app.get("/api/check-in/:plate", requirePermission("jobs.manage"), async (req, res) => {
+    try {
+      const context = await storage.getCheckInContext(req.params.plate);
+      res.json(context);
+    } catch (error) {
+      console.error("Araç kabul bilgisi hatası:", error);
+      res.status(500).json({ message: "Araç bilgileri yüklenemedi" });
+    }
+  });
+  
+  app.post("/api/check-in", requirePermission("jobs.manage"), async (req, res) => {
+    try {
+      const data = createCheckInSchema.parse(req.body);
+      
+      // Araç veya müşteri açmak ayrıca ilgili yönetim yetkisini gerektirir
+      if ((data.newVehicle && !hasPermission(req.user, "vehicles.manage")) ||
+          (data.newCustomer && !hasPermission(req.user, "customers.manage"))) {
+        return res.status(403).json({ error: "Bu işlemi yapmak için yetkiniz bulunmuyor" });
+      }
+      
+      if (data.vehicleId && !(await storage.getVehicle(data.vehicleId))) {
+        return res.status(404).json({ message: "Araç bulunamadı" });
+      }
+      if (data.newVehicle) {
+        if (await storage.getVehicleByPlate(data.newVehicle.plate)) {
+          return res.status(409).json({ message: "Bu plaka ile kayıtlı bir araç zaten var" });
+        }
+        if (data.customerId && !(await storage.getCustomer(data.customerId))) {
+          return res.status(404).json({ message: "Müşteri bulunamadı" });
+        }
+      }
+      for (const serviceId of data.serviceIds) {
+        if (!(await storage.getService(serviceId))) {
+          return res.status(400).json({ message: "Seçilen hizmet bulunamadı" });
+        }
+      }
+      
+      const job = await storage.createCheckInJob(data);
+      broadcastJobEvent(job.id, "created");
+      res.status(201).json(job);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz kabul bilgisi", errors: error.errors });
+      }
+      // Aynı plaka kontrolden sonra başka bir istekle kaydedildiyse benzersizlik kısıtı yakalar; kabul geri alınmıştır
+      if ((error as { code?: string }).code === "23505") {
+        return res.status(409).json({ message: "Bu plaka ile kayıtlı bir araç zaten var" });
+      }
+      console.error("Hızlı kabul hatası:", error);
+      res.status(500).json({ message: "İş emri oluşturulurken bir hata oluştu" });
+    }
+  });
+  
+  // Kamera görüntüsünden plaka okuma: gövde doğrudan görüntüdür (image/jpeg, image/png)
+  app.post(
+    "/api/anpr/recognize",
+    requirePermission("jobs.manage"),
+    express.raw({ type: "image/*", limit: "10mb" }),
+    async (req, res) => {
+      if (!isPlateRecognitionEnabled()) {
+        return res.status(503).json({ message: "Plaka tanıma yapılandırılmamış" });
+      }
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: "Görüntü bulunamadı (image/jpeg veya image/png gönderin)" });
+      }
+      
+      try {
+        const result = await recognizePlate(req.body);
+        res.json(result);
+      } catch (error) {
+        console.error("Plaka tanıma hatası:", error);
+        res.status(500).json({ message: "Plaka okunurken bir hata oluştu" });
+      }
+    }
+  );
+  
+  // İş emri değişikliklerinin anlık bildirimi (Server-Sent Events)
+  app.get("/api/events/jobs", requirePermission("jobs.view"), subscribeToJobEvents);
+  
+  app.get("/api/jobs/:id", requirePermission("jobs.view"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid job ID" });
@@ -439,10 +902,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(job);
   });
   
-  app.post("/api/jobs", async (req, res) => {
+  app.post("/api/jobs", requirePermission("jobs.manage"), async (req, res) => {
     try {
-      const data = insertJobSchema.parse(req.body);
+      // Ödenen tutar ödeme kayıtlarından hesaplanır, doğrudan yazılamaz. Yeni işin satırı yoktur;
+      // satır eklendikçe tutar satırlardan yeniden hesaplanır
+      const data = insertJobSchema.omit({ paidAmount: true }).parse(req.body);
+      const onAccountError = await checkOnAccountJob(data);
+      if (onAccountError) {
+        return res.status(400).json({ message: onAccountError });
+      }
+      
       const job = await storage.createJob(data);
+      broadcastJobEvent(job.id, "created");
       res.status(201).json(job);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -452,19 +923,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.put("/api/jobs/:id", async (req, res) => {
+  app.put("/api/jobs/:id", requirePermission("jobs.status"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid job ID" });
     }
     
     try {
-      const data = insertJobSchema.partial().parse(req.body);
+      const data = insertJobSchema.omit({ paidAmount: true }).partial().parse(req.body);
+
+      // Sadece durum güncelleme yetkisi olanlar diğer alanları değiştiremez
+      const onlyStatus = Object.keys(data).every(key => key === "status");
+      if (!onlyStatus && !hasPermission(req.user, "jobs.manage")) {
+        return res.status(403).json({ error: "Bu işlemi yapmak için yetkiniz bulunmuyor" });
+      }
+
+      const existing = await storage.getJob(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      
+      // Satırı olan işin tutarı satırlardan hesaplanır; gövdedeki tutar yalnızca satırsız işlerde yazılır
+      if (data.totalAmount !== undefined && (await storage.getJobServices(id)).length > 0) {
+        delete data.totalAmount;
+      }
+      
+      const accountError = checkJobInvoiceLock(existing, data) ?? await checkOnAccountJob(data, existing);
+      if (accountError) {
+        return res.status(409).json({ message: accountError });
+      }
+
       const job = await storage.updateJob(id, data);
       if (!job) {
         return res.status(404).json({ message: "Job not found" });
       }
       
+      broadcastJobEvent(id);
       res.json(job);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -474,22 +968,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/jobs/:id", async (req, res) => {
+  app.delete("/api/jobs/:id", requirePermission("jobs.delete"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid job ID" });
     }
     
+    const existing = await storage.getJob(id);
+    const lockError = existing && checkJobInvoiceLock(existing);
+    if (lockError) {
+      return res.status(409).json({ message: lockError });
+    }
+    
     const success = await storage.deleteJob(id);
     if (!success) {
       return res.status(404).json({ message: "Job not found" });
     }
     
+    broadcastJobEvent(id, "deleted");
     res.status(204).end();
   });
   
+  // Fiş kesme: iş emrine sıradaki fiş numarası verilir; numarası olan işte mevcut numara döner
+  app.post("/api/jobs/:id/receipt", requirePermission("payments.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid job ID" });
+    }
+    
+    try {
+      const receiptNumber = await storage.assignReceiptNumber(id);
+      if (receiptNumber === undefined) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      
+      res.json({ receiptNumber });
+    } catch (error) {
+      console.error("Fiş numarası verilirken hata:", error);
+      res.status(500).json({ message: "An error occurred while issuing the receipt" });
+    }
+  });
+  
+  // Fiş PDF'i (?format=thermal ile 80mm termal yazıcı düzeni). Fiş kesilmemiş işte numarasız ön izleme basılır.
+  app.get("/api/jobs/:id/receipt.pdf", requirePermission("jobs.view"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid job ID" });
+    }
+    
+    try {
+      const receiptData = await getReceiptData(id);
+      if (!receiptData) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      
+      const layout = req.query.format === "thermal" ? "thermal" : "a4";
+      const pdf = await renderReceiptPdf(receiptData, layout);
+      
+      res.setHeader('Content-Type', 'application/pdf');
+      const fileName = receiptData.receiptNumber === null ? `onizleme_${id}` : formatReceiptNumber(receiptData.receiptNumber);
+      res.setHeader('Content-Disposition', `inline; filename=fis_${fileName}.pdf`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Fiş oluşturulurken hata:", error);
+      res.status(500).json({ message: "An error occurred while generating the receipt" });
+    }
+  });
+  
   // Job Services API
-  app.get("/api/jobs/:id/services", async (req, res) => {
+  app.get("/api/jobs/:id/services", requirePermission("jobs.view"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid job ID" });
@@ -499,15 +1046,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(services);
   });
   
-  app.post("/api/jobs/:id/services", async (req, res) => {
+  app.post("/api/jobs/:id/services", requirePermission("jobs.manage"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid job ID" });
     }
     
     try {
-      const { serviceId } = insertJobServiceSchema.parse({ ...req.body, jobId: id });
-      const jobService = await storage.addJobService({ jobId: id, serviceId });
+      // Sadakat satırları yalnızca /loyalty-redemptions üzerinden eklenir
+      const data = insertJobServiceSchema.omit({ loyaltyPoints: true, loyaltyStamps: true }).parse({ ...req.body, jobId: id });
+      
+      const job = await storage.getJob(id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      const lockError = checkJobInvoiceLock(job);
+      if (lockError) {
+        return res.status(409).json({ message: lockError });
+      }
+      
+      // Üyelik kapsamındaki satırlar ücretsizdir; üyeliğin bu iş için geçerli olduğu doğrulanır
+      if (data.subscriptionId) {
+        const coverageError = await checkSubscriptionCoverage(id, data.subscriptionId, data.serviceId);
+        if (coverageError) {
+          return res.status(400).json({ message: coverageError });
+        }
+        data.unitPrice = "0";
+        data.discount = "0";
+      }
+      
+      const jobService = await storage.addJobService(data);
+      broadcastJobEvent(id);
       res.status(201).json(jobService);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -517,336 +1086,1802 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/jobs/:jobId/services/:serviceId", async (req, res) => {
+  app.put("/api/jobs/:jobId/services/:lineId", requirePermission("jobs.manage"), async (req, res) => {
     const jobId = parseInt(req.params.jobId);
-    const serviceId = parseInt(req.params.serviceId);
-    
-    if (isNaN(jobId) || isNaN(serviceId)) {
-      return res.status(400).json({ message: "Invalid job or service ID" });
-    }
+    const lineId = parseInt(req.params.lineId);
     
-    const success = await storage.removeJobService(jobId, serviceId);
-    if (!success) {
-      return res.status(404).json({ message: "Job service not found" });
+    if (isNaN(jobId) || isNaN(lineId)) {
+      return res.status(400).json({ message: "Invalid job or line ID" });
     }
     
-    res.status(204).end();
-  });
-  
-  // Users API - Only admin can access
-  app.get("/api/users", requireAuth, async (req, res) => {
     try {
-      // Sadece yöneticiler tüm kullanıcıları listeleyebilir
-      if (!req.user?.isAdmin) {
-        return res.status(403).json({ error: "Bu işlemi yapmak için yönetici olmanız gerekiyor" });
+      // İş ve satır kimliği URL'den gelir, gövdeden değiştirilemez; üyelik bağlantısı yalnızca eklerken kurulur
+      const data = insertJobServiceSchema
+        .omit({ jobId: true, subscriptionId: true, loyaltyPoints: true, loyaltyStamps: true })
+        .partial()
+        .parse(req.body);
+      if (Object.keys(data).length === 0) {
+        return res.status(400).json({ message: "No fields to update" });
       }
       
-      const users = await storage.getUsers();
-      res.json(users);
-    } catch (error) {
-      console.error("Kullanıcıları listelerken hata:", error);
-      res.status(500).json({ message: "Kullanıcılar listelenirken bir hata oluştu" });
-    }
-  });
-  
-  app.get("/api/users/:id", requireAuth, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Geçersiz kullanıcı ID" });
+      const job = await storage.getJob(jobId);
+      const lockError = job && checkJobInvoiceLock(job);
+      if (lockError) {
+        return res.status(409).json({ message: lockError });
       }
       
-      // Kullanıcı sadece kendi bilgilerini veya yöneticiyse başkalarının bilgilerini görüntüleyebilir
-      if (id !== req.user?.id && !req.user?.isAdmin) {
-        return res.status(403).json({ error: "Bu işlemi yapmak için yetkiniz bulunmuyor" });
+      // Sadakat satırının tutarı harcanan puana bağlıdır; değiştirmek için silinip yeniden eklenir
+      const existing = (await storage.getJobServices(jobId)).find(line => line.id === lineId);
+      if (existing && (existing.loyaltyPoints > 0 || existing.loyaltyStamps > 0)) {
+        return res.status(400).json({ message: "Sadakat satırları değiştirilemez" });
       }
       
-      const user = await storage.getUser(id);
-      if (!user) {
-        return res.status(404).json({ message: "Kullanıcı bulunamadı" });
+      const jobService = await storage.updateJobService(jobId, lineId, data);
+      if (!jobService) {
+        return res.status(404).json({ message: "Job service not found" });
       }
       
-      // Şifreyi API yanıtından çıkar
-      const { password, ...userWithoutPassword } = user;
-      res.json(userWithoutPassword);
+      broadcastJobEvent(jobId);
+      res.json(jobService);
     } catch (error) {
-      console.error("Kullanıcı bilgileri alınırken hata:", error);
-      res.status(500).json({ message: "Kullanıcı bilgileri alınırken bir hata oluştu" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid job service data", errors: error.errors });
+      }
+      res.status(500).json({ message: "An error occurred while updating the job service" });
+    }
+  });
+  
+  app.delete("/api/jobs/:jobId/services/:lineId", requirePermission("jobs.manage"), async (req, res) => {
+    const jobId = parseInt(req.params.jobId);
+    const lineId = parseInt(req.params.lineId);
+    
+    if (isNaN(jobId) || isNaN(lineId)) {
+      return res.status(400).json({ message: "Invalid job or line ID" });
     }
+    
+    const job = await storage.getJob(jobId);
+    const lockError = job && checkJobInvoiceLock(job);
+    if (lockError) {
+      return res.status(409).json({ message: lockError });
+    }
+    
+    const success = await storage.removeJobService(jobId, lineId);
+    if (!success) {
+      return res.status(404).json({ message: "Job service not found" });
+    }
+    
+    broadcastJobEvent(jobId);
+    res.status(204).end();
   });
   
-  app.post("/api/users", requireAuth, async (req, res) => {
+  // Sadakat puanı indirimi veya ücretsiz yıkama kullanımı
+  app.post("/api/jobs/:id/loyalty-redemptions", requirePermission("jobs.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid job ID" });
+    }
+    
     try {
-      // Sadece yöneticiler kullanıcı oluşturabilir
-      if (!req.user?.isAdmin) {
-        return res.status(403).json({ error: "Bu işlemi yapmak için yönetici olmanız gerekiyor" });
+      const redemption = loyaltyRedemptionSchema.parse(req.body);
+      const job = await storage.getJob(id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
       }
       
-      // Form verilerini doğrula
-      const formData = insertUserSchema.parse(req.body);
-      
-      // Şifreyi hashle
-      const hashedPassword = await hashPassword(formData.password);
-      
-      // Kullanıcı verisini oluştur
-      const userData = {
-        ...formData,
-        password: hashedPassword,
-        fullName: formData.fullName || req.body.name || formData.username,
-      };
+      const lockError = checkJobInvoiceLock(job);
+      if (lockError) {
+        return res.status(409).json({ message: lockError });
+      }
       
-      const user = await storage.createUser(userData);
+      const result = await buildLoyaltyRedemptionLine(job, redemption);
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
       
-      // Şifreyi API yanıtından çıkar
-      const { password, ...userWithoutPassword } = user;
-      res.status(201).json(userWithoutPassword);
+      const jobService = await storage.addJobService(result.line);
+      broadcastJobEvent(id);
+      res.status(201).json(jobService);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Geçersiz kullanıcı verisi", errors: error.errors });
+        return res.status(400).json({ message: "Geçersiz sadakat kullanımı", errors: error.errors });
       }
-      res.status(500).json({ message: "Kullanıcı oluşturulurken bir hata oluştu" });
+      res.status(500).json({ message: "Sadakat kullanımı eklenirken bir hata oluştu" });
     }
   });
   
-  app.put("/api/users/:id", requireAuth, async (req, res) => {
+  // Job Payments API
+  app.get("/api/jobs/:id/payments", requirePermission("jobs.view"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid job ID" });
+    }
+    
+    const payments = await storage.getPayments(id);
+    res.json(payments);
+  });
+  
+  app.post("/api/jobs/:id/payments", requirePermission("payments.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid job ID" });
+    }
+    
     try {
-      // Sadece yöneticiler başka kullanıcıları güncelleyebilir
-      // Kullanıcılar sadece kendi bilgilerini güncelleyebilir
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Geçersiz kullanıcı ID" });
+      const job = await storage.getJob(id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
       }
       
-      // Eğer kullanıcı kendi dışında birini güncellemeye çalışıyorsa ve admin değilse izin verme
-      if (id !== req.user?.id && !req.user?.isAdmin) {
-        return res.status(403).json({ error: "Bu işlemi yapmak için yetkiniz bulunmuyor" });
-      }
+      // Ödemeyi alan kullanıcı oturumdan alınır
+      const { giftCardCode, ...data } = createPaymentSchema.parse({ ...req.body, jobId: id, userId: req.user?.id ?? null });
       
-      // Form verilerini doğrula
-      const formData = insertUserSchema.partial().parse(req.body);
+      // İptal edilen işin tahsilatı kasa raporuna girmez; tutar işin kalanını aşamaz
+      if (job.status === "iptal") {
+        return res.status(400).json({ message: "İptal edilen iş emrine tahsilat alınamaz" });
+      }
+      if (Number(data.amount) > Number(job.totalAmount) - Number(job.paidAmount) + 0.005) {
+        return res.status(400).json({ message: "Ödeme tutarı işin kalan tutarını aşıyor" });
+      }
       
-      // Eğer şifre güncellemesi varsa, hashleme işlemi yap
-      let updateData = { ...formData };
-      if (formData.password) {
-        updateData.password = await hashPassword(formData.password);
+      if (data.method !== "hediye_karti") {
+        const payment = await storage.createPayment(data);
+        return res.status(201).json(payment);
       }
       
-      // Kullanıcıyı güncelle
-      const user = await storage.updateUser(id, updateData);
-      if (!user) {
-        return res.status(404).json({ message: "Kullanıcı bulunamadı" });
+      const card = await storage.getGiftCardByCode(giftCardCode!);
+      if (!card) {
+        return res.status(404).json({ message: "Hediye kartı bulunamadı" });
+      }
+      if (!card.isActive) {
+        return res.status(400).json({ message: "Hediye kartı kullanıma kapalı" });
       }
       
-      // Şifreyi API yanıtından çıkar
-      const { password, ...userWithoutPassword } = user;
-      res.json(userWithoutPassword);
+      const payment = await storage.createGiftCardPayment({ ...data, giftCardId: card.id });
+      if (!payment) {
+        return res.status(400).json({ message: "Hediye kartı bakiyesi yetersiz" });
+      }
+      res.status(201).json(payment);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Geçersiz kullanıcı verisi", errors: error.errors });
+        return res.status(400).json({ message: "Invalid payment data", errors: error.errors });
       }
-      res.status(500).json({ message: "Kullanıcı güncellenirken bir hata oluştu" });
+      res.status(500).json({ message: "An error occurred while creating the payment" });
     }
   });
   
-  app.delete("/api/users/:id", requireAuth, async (req, res) => {
+  app.put("/api/jobs/:jobId/payments/:paymentId", requirePermission("payments.manage"), async (req, res) => {
+    const jobId = parseInt(req.params.jobId);
+    const paymentId = parseInt(req.params.paymentId);
+    
+    if (isNaN(jobId) || isNaN(paymentId)) {
+      return res.status(400).json({ message: "Invalid job or payment ID" });
+    }
+    
     try {
-      // ID'yi doğrula
-      const id = parseInt(req.params.id);
-      if (isNaN(id)) {
-        return res.status(400).json({ message: "Geçersiz kullanıcı ID" });
+      const existing = await storage.getPayment(paymentId);
+      if (!existing || existing.jobId !== jobId) {
+        return res.status(404).json({ message: "Payment not found" });
       }
       
-      // Sadece yöneticiler kullanıcı silebilir
-      if (!req.user?.isAdmin) {
-        return res.status(403).json({ error: "Bu işlemi yapmak için yönetici olmanız gerekiyor" });
+      // Kart bakiyesi hareketlerle tutulduğu için hediye kartı tahsilatı silinip yeniden alınır
+      const data = insertPaymentSchema.pick({ amount: true, method: true }).partial().parse(req.body);
+      if (existing.method === "hediye_karti" || data.method === "hediye_karti") {
+        return res.status(400).json({ message: "Hediye kartı tahsilatları düzenlenemez" });
       }
-      
-      // Son yöneticiyi silmeye çalışıyorsa engelle
-      if (id === req.user.id) {
-        // Başka admin var mı kontrol et
-        const users = await storage.getUsers();
-        const adminCount = users.filter(user => user.isAdmin).length;
-        
-        if (adminCount <= 1) {
-          return res.status(400).json({ 
-            message: "Son yönetici hesabınızı silemezsiniz. Önce başka bir yönetici hesabı oluşturun." 
-          });
+      if (data.amount !== undefined) {
+        const job = await storage.getJob(jobId);
+        const remaining = job ? Number(job.totalAmount) - Number(job.paidAmount) + Number(existing.amount) : 0;
+        if (Number(data.amount) > remaining + 0.005) {
+          return res.status(400).json({ message: "Ödeme tutarı işin kalan tutarını aşıyor" });
         }
       }
-      
-      // Kullanıcıyı sil
-      const success = await storage.deleteUser(id);
-      if (!success) {
-        return res.status(404).json({ message: "Kullanıcı bulunamadı" });
-      }
-      
-      res.status(204).end();
+      const payment = await storage.updatePayment(paymentId, data);
+      res.json(payment);
     } catch (error) {
-      console.error("Kullanıcı silinirken hata:", error);
-      res.status(500).json({ message: "Kullanıcı silinirken bir hata oluştu" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid payment data", errors: error.errors });
+      }
+      res.status(500).json({ message: "An error occurred while updating the payment" });
     }
   });
   
-  // Statistics API
-  app.get("/api/stats/daily", async (req, res) => {
-    const dateParam = req.query.date as string;
-    const date = dateParam ? new Date(dateParam) : new Date();
+  app.delete("/api/jobs/:jobId/payments/:paymentId", requirePermission("payments.manage"), async (req, res) => {
+    const jobId = parseInt(req.params.jobId);
+    const paymentId = parseInt(req.params.paymentId);
     
-    if (isNaN(date.getTime())) {
-      return res.status(400).json({ message: "Invalid date format" });
+    if (isNaN(jobId) || isNaN(paymentId)) {
+      return res.status(400).json({ message: "Invalid job or payment ID" });
     }
     
-    const stats = await storage.getDailyStats(date);
-    res.json(stats);
+    const existing = await storage.getPayment(paymentId);
+    if (!existing || existing.jobId !== jobId) {
+      return res.status(404).json({ message: "Payment not found" });
+    }
+    
+    const success = await storage.deletePayment(paymentId);
+    if (!success) {
+      return res.status(404).json({ message: "Payment not found" });
+    }
+    
+    res.status(204).end();
   });
   
-  // Payment method statistics
-  app.get("/api/stats/payment-methods", async (req, res) => {
-    const stats = await storage.getPaymentMethodStats();
-    res.json(stats);
+  // Wash Bays API
+  app.get("/api/wash-bays", requirePermission("appointments.view"), async (req, res) => {
+    const washBays = await storage.getWashBays();
+    res.json(washBays);
   });
   
-  // Popular services statistics
-  app.get("/api/stats/popular-services", async (req, res) => {
+  app.post("/api/wash-bays", requirePermission("settings.manage"), async (req, res) => {
     try {
-      const stats = await storage.getPopularServices();
-      res.json(stats);
+      const data = insertWashBaySchema.parse(req.body);
+      const washBay = await storage.createWashBay(data);
+      res.status(201).json(washBay);
     } catch (error) {
-      console.error("Error fetching popular services:", error);
-      res.status(500).json({ message: "An error occurred while fetching popular services" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid wash bay data", errors: error.errors });
+      }
+      res.status(500).json({ message: "An error occurred while creating the wash bay" });
     }
   });
   
-  // Net profit statistics
-  app.get("/api/stats/net-profit", async (req, res) => {
-    const startDateParam = req.query.startDate as string;
-    const endDateParam = req.query.endDate as string;
-    
-    // Default to current month if no dates provided
-    const today = new Date();
-    const firstDayOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-    const lastDayOfMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0);
+  app.put("/api/wash-bays/:id", requirePermission("settings.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid wash bay ID" });
+    }
     
-    const startDate = startDateParam ? new Date(startDateParam) : firstDayOfMonth;
-    const endDate = endDateParam ? new Date(endDateParam) : lastDayOfMonth;
+    try {
+      const data = insertWashBaySchema.partial().parse(req.body);
+      const washBay = await storage.updateWashBay(id, data);
+      if (!washBay) {
+        return res.status(404).json({ message: "Wash bay not found" });
+      }
+      
+      res.json(washBay);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid wash bay data", errors: error.errors });
+      }
+      res.status(500).json({ message: "An error occurred while updating the wash bay" });
+    }
+  });
+  
+  app.delete("/api/wash-bays/:id", requirePermission("settings.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid wash bay ID" });
+    }
     
-    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
-      return res.status(400).json({ message: "Invalid date format" });
+    const success = await storage.deleteWashBay(id);
+    if (!success) {
+      return res.status(404).json({ message: "Wash bay not found" });
     }
     
-    const stats = await storage.getNetProfit(startDate, endDate);
-    res.json(stats);
+    res.status(204).end();
   });
   
-  // Expenses API
-  app.get("/api/expenses", async (req, res) => {
-    const expenses = await storage.getExpenses();
-    res.json(expenses);
-  });
+  // Appointments API
   
-  app.get("/api/expenses/category/:category", async (req, res) => {
-    const category = req.params.category;
-    const expenses = await storage.getExpensesByCategory(category);
-    res.json(expenses);
-  });
+  // Randevu süresini hizmetlerden hesapla, yıkama alanı ata ve çakışmaları bul
+  const planAppointmentSlot = async (
+    startTime: Date,
+    durationMinutes: number | undefined,
+    serviceIds: number[],
+    bayId: number | null | undefined,
+    excludeId?: number
+  ) => {
+    let duration = durationMinutes;
+    if (!duration) {
+      const allServices = await storage.getServices();
+      duration = allServices
+        .filter(service => serviceIds.includes(service.id))
+        .reduce((total, service) => total + service.durationMinutes, 0) || 30;
+    }
+    
+    const endTime = new Date(startTime.getTime() + duration * 60 * 1000);
+    
+    // Alan açıkça boş bırakıldıysa çakışma kontrolü yapılmaz
+    if (bayId === null) {
+      return { durationMinutes: duration, bayId: null, conflicts: [] };
+    }
+    
+    if (bayId !== undefined) {
+      const conflicts = await storage.findOverlappingAppointments(bayId, startTime, endTime, excludeId);
+      return { durationMinutes: duration, bayId, conflicts };
+    }
+    
+    // Alan belirtilmediyse ilk boş aktif alanı seç
+    const activeBays = (await storage.getWashBays()).filter(bay => bay.isActive);
+    if (activeBays.length === 0) {
+      return { durationMinutes: duration, bayId: null, conflicts: [] };
+    }
+    
+    let firstConflicts: Awaited<ReturnType<typeof storage.findOverlappingAppointments>> = [];
+    for (const bay of activeBays) {
+      const conflicts = await storage.findOverlappingAppointments(bay.id, startTime, endTime, excludeId);
+      if (conflicts.length === 0) {
+        return { durationMinutes: duration, bayId: bay.id, conflicts };
+      }
+      if (firstConflicts.length === 0) {
+        firstConflicts = conflicts;
+      }
+    }
+    
+    return { durationMinutes: duration, bayId: activeBays[0].id, conflicts: firstConflicts };
+  };
   
-  app.get("/api/expenses/date-range", async (req, res) => {
+  app.get("/api/appointments", requirePermission("appointments.view"), async (req, res) => {
     const startDateParam = req.query.startDate as string;
     const endDateParam = req.query.endDate as string;
     
-    if (!startDateParam || !endDateParam) {
-      return res.status(400).json({ message: "Start date and end date are required" });
+    // Tarih verilmezse işletme saat dilimine göre bugünün iş günü; bitiş verilmezse başlangıcın iş günü sonu
+    const options = getBusinessDayOptions(await storage.getAppSettings());
+    const startDate = startDateParam
+      ? new Date(startDateParam)
+      : getBusinessDayStart(getBusinessDate(new Date(), options), options);
+    if (isNaN(startDate.getTime())) {
+      return res.status(400).json({ message: "Invalid date format" });
     }
     
-    const startDate = new Date(startDateParam);
-    const endDate = new Date(endDateParam);
-    
-    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+    const startBusinessDate = getBusinessDate(startDate, options);
+    const endDate = endDateParam
+      ? new Date(endDateParam)
+      : new Date(getBusinessDayRange(startBusinessDate, startBusinessDate, options).end.getTime() - 1);
+    if (isNaN(endDate.getTime())) {
       return res.status(400).json({ message: "Invalid date format" });
     }
     
-    const expenses = await storage.getExpensesByDateRange(startDate, endDate);
-    res.json(expenses);
+    const appointments = await storage.getAppointments(startDate, endDate);
+    res.json(appointments);
   });
   
-  app.get("/api/expenses/:id", async (req, res) => {
+  app.get("/api/appointments/:id", requirePermission("appointments.view"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
-      return res.status(400).json({ message: "Invalid expense ID" });
+      return res.status(400).json({ message: "Invalid appointment ID" });
     }
     
-    const expense = await storage.getExpense(id);
-    if (!expense) {
-      return res.status(404).json({ message: "Expense not found" });
+    const appointment = await storage.getAppointment(id);
+    if (!appointment) {
+      return res.status(404).json({ message: "Appointment not found" });
     }
     
-    res.json(expense);
+    res.json(appointment);
   });
   
-  app.post("/api/expenses", async (req, res) => {
+  app.post("/api/appointments", requirePermission("appointments.manage"), async (req, res) => {
     try {
-      // Gelen veriyi log'la
-      console.log("Gelen gider verisi:", req.body);
-      
-      // amount stringse number'a çevir
-      if (typeof req.body.amount === 'string') {
-        req.body.amount = parseFloat(req.body.amount);
-      }
+      const { serviceIds, ...data } = insertAppointmentSchema.parse(req.body);
       
-      // date string ise Date'e çevir
-      if (typeof req.body.date === 'string') {
-        req.body.date = new Date(req.body.date);
+      const slot = await planAppointmentSlot(
+        data.startTime,
+        data.durationMinutes,
+        serviceIds,
+        "bayId" in req.body ? data.bayId : undefined
+      );
+      if (slot.conflicts.length > 0) {
+        return res.status(409).json({ message: "Seçilen saatte yıkama alanı dolu", conflicts: slot.conflicts });
       }
       
-      const data = await insertExpenseSchema.parseAsync(req.body);
-      console.log("Parse edilmiş veri:", data);
-      
-      const expense = await storage.createExpense(data);
-      res.status(201).json(expense);
+      const appointment = await storage.createAppointment(
+        { ...data, durationMinutes: slot.durationMinutes, bayId: slot.bayId },
+        serviceIds
+      );
+      res.status(201).json(appointment);
     } catch (error) {
-      console.error("Gider oluşturma hatası:", error);
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid expense data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid appointment data", errors: error.errors });
       }
-      res.status(500).json({ message: "An error occurred while creating the expense" });
+      res.status(500).json({ message: "An error occurred while creating the appointment" });
     }
   });
   
-  app.put("/api/expenses/:id", async (req, res) => {
+  app.put("/api/appointments/:id", requirePermission("appointments.manage"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
-      return res.status(400).json({ message: "Invalid expense ID" });
+      return res.status(400).json({ message: "Invalid appointment ID" });
     }
     
     try {
-      const data = insertExpenseSchema.partial().parse(req.body);
-      const expense = await storage.updateExpense(id, data);
-      if (!expense) {
-        return res.status(404).json({ message: "Expense not found" });
+      const existing = await storage.getAppointment(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Appointment not found" });
       }
       
-      res.json(expense);
+      const { serviceIds, ...data } = insertAppointmentSchema.partial().parse(req.body);
+      
+      // Zaman, süre, hizmet veya alan değiştiyse çakışmayı yeniden kontrol et
+      const slotChanged = ["startTime", "durationMinutes", "serviceIds", "bayId"].some(key => key in req.body);
+      const status = data.status ?? existing.status;
+      if (slotChanged && status !== "iptal") {
+        const slot = await planAppointmentSlot(
+          data.startTime ?? existing.startTime,
+          "durationMinutes" in req.body || !serviceIds ? data.durationMinutes ?? existing.durationMinutes : undefined,
+          serviceIds ?? existing.serviceIds,
+          "bayId" in req.body ? data.bayId : existing.bayId,
+          id
+        );
+        if (slot.conflicts.length > 0) {
+          return res.status(409).json({ message: "Seçilen saatte yıkama alanı dolu", conflicts: slot.conflicts });
+        }
+        data.durationMinutes = slot.durationMinutes;
+        data.bayId = slot.bayId;
+      }
+      
+      const appointment = await storage.updateAppointment(id, data, serviceIds);
+      res.json(appointment);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid expense data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid appointment data", errors: error.errors });
       }
-      res.status(500).json({ message: "An error occurred while updating the expense" });
+      res.status(500).json({ message: "An error occurred while updating the appointment" });
     }
   });
   
-  app.delete("/api/expenses/:id", async (req, res) => {
+  app.delete("/api/appointments/:id", requirePermission("appointments.manage"), async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
-      return res.status(400).json({ message: "Invalid expense ID" });
+      return res.status(400).json({ message: "Invalid appointment ID" });
     }
     
-    const success = await storage.deleteExpense(id);
+    const success = await storage.deleteAppointment(id);
     if (!success) {
-      return res.status(404).json({ message: "Expense not found" });
+      return res.status(404).json({ message: "Appointment not found" });
     }
     
     res.status(204).end();
   });
+  
+  // Subscription plans API
+  app.get("/api/subscription-plans", requirePermission("subscriptions.view"), async (req, res) => {
+    const plans = await storage.getSubscriptionPlans();
+    res.json(plans);
+  });
+  
+  app.post("/api/subscription-plans", requirePermission("subscriptions.manage"), async (req, res) => {
+    try {
+      const { serviceIds, ...data } = insertSubscriptionPlanSchema.parse(req.body);
+      const plan = await storage.createSubscriptionPlan(data, serviceIds);
+      res.status(201).json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz paket verisi", errors: error.errors });
+      }
+      res.status(500).json({ message: "Üyelik paketi oluşturulurken bir hata oluştu" });
+    }
+  });
+  
+  app.put("/api/subscription-plans/:id", requirePermission("subscriptions.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz paket ID" });
+    }
+    
+    try {
+      const { serviceIds, ...data } = insertSubscriptionPlanSchema.partial().parse(req.body);
+      const plan = await storage.updateSubscriptionPlan(id, data, serviceIds);
+      if (!plan) {
+        return res.status(404).json({ message: "Üyelik paketi bulunamadı" });
+      }
+      res.json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz paket verisi", errors: error.errors });
+      }
+      res.status(500).json({ message: "Üyelik paketi güncellenirken bir hata oluştu" });
+    }
+  });
+  
+  app.delete("/api/subscription-plans/:id", requirePermission("subscriptions.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz paket ID" });
+    }
+    
+    // Üyeliği olan paketler silinemez, pasif hale getirilmelidir
+    const planSubscriptions = await storage.getCustomerSubscriptions({ planId: id });
+    if (planSubscriptions.length > 0) {
+      return res.status(409).json({ message: "Bu pakete bağlı üyelikler var. Paketi silmek yerine pasif hale getirin." });
+    }
+    
+    const success = await storage.deleteSubscriptionPlan(id);
+    if (!success) {
+      return res.status(404).json({ message: "Üyelik paketi bulunamadı" });
+    }
+    
+    res.status(204).end();
+  });
+  
+  // Customer subscriptions API
+  app.get("/api/subscriptions", requirePermission("subscriptions.view"), async (req, res) => {
+    const customerId = req.query.customerId ? parseInt(req.query.customerId as string) : undefined;
+    if (customerId !== undefined && isNaN(customerId)) {
+      return res.status(400).json({ message: "Geçersiz müşteri ID" });
+    }
+    
+    const subscriptions = await storage.getCustomerSubscriptions({ customerId });
+    res.json(subscriptions);
+  });
+  
+  app.get("/api/subscriptions/:id", requirePermission("subscriptions.view"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz üyelik ID" });
+    }
+    
+    const subscription = await storage.getCustomerSubscription(id);
+    if (!subscription) {
+      return res.status(404).json({ message: "Üyelik bulunamadı" });
+    }
+    
+    res.json(subscription);
+  });
+  
+  app.post("/api/subscriptions", requirePermission("subscriptions.manage"), async (req, res) => {
+    try {
+      const data = insertCustomerSubscriptionSchema.parse(req.body);
+      
+      const plan = await storage.getSubscriptionPlan(data.planId);
+      if (!plan || !plan.isActive) {
+        return res.status(400).json({ message: "Seçilen paket aktif değil" });
+      }
+      
+      if (data.vehicleId) {
+        const vehicle = await storage.getVehicle(data.vehicleId);
+        if (!vehicle || vehicle.customerId !== data.customerId) {
+          return res.status(400).json({ message: "Araç bu müşteriye ait değil" });
+        }
+      } else if (Number(plan.price) > 0 && (await storage.getVehiclesByCustomer(data.customerId)).length === 0) {
+        // Üyelik ücreti müşterinin aracına açılan iş emrine yazılır
+        return res.status(400).json({ message: "Üyelik için müşterinin kayıtlı bir aracı olmalıdır" });
+      }
+      
+      const subscription = await storage.createCustomerSubscription(data, plan);
+      res.status(201).json(subscription);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz üyelik verisi", errors: error.errors });
+      }
+      res.status(500).json({ message: "Üyelik oluşturulurken bir hata oluştu" });
+    }
+  });
+  
+  app.put("/api/subscriptions/:id", requirePermission("subscriptions.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz üyelik ID" });
+    }
+    
+    try {
+      // Müşteri, paket ve dönem tarihleri değiştirilemez; dönem uzatma yenileme ile yapılır
+      const data = insertCustomerSubscriptionSchema
+        .pick({ vehicleId: true, autoRenew: true, status: true, notes: true })
+        .partial()
+        .parse(req.body);
+      
+      const existing = await storage.getCustomerSubscription(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Üyelik bulunamadı" });
+      }
+      
+      if (data.vehicleId) {
+        const vehicle = await storage.getVehicle(data.vehicleId);
+        if (!vehicle || vehicle.customerId !== existing.customerId) {
+          return res.status(400).json({ message: "Araç bu müşteriye ait değil" });
+        }
+      }
+      
+      const subscription = await storage.updateCustomerSubscription(id, data);
+      res.json(subscription);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz üyelik verisi", errors: error.errors });
+      }
+      res.status(500).json({ message: "Üyelik güncellenirken bir hata oluştu" });
+    }
+  });
+  
+  app.post("/api/subscriptions/:id/renew", requirePermission("subscriptions.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz üyelik ID" });
+    }
+    
+    try {
+      const existing = await storage.getCustomerSubscription(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Üyelik bulunamadı" });
+      }
+      const plan = await storage.getSubscriptionPlan(existing.planId);
+      if (plan && Number(plan.price) > 0 && existing.vehicleId === null &&
+          (await storage.getVehiclesByCustomer(existing.customerId)).length === 0) {
+        return res.status(400).json({ message: "Üyelik için müşterinin kayıtlı bir aracı olmalıdır" });
+      }
+      
+      const subscription = await storage.renewCustomerSubscription(id);
+      if (!subscription) {
+        return res.status(404).json({ message: "Üyelik bulunamadı" });
+      }
+      res.json(subscription);
+    } catch (error) {
+      console.error("Üyelik yenileme hatası:", error);
+      res.status(500).json({ message: "Üyelik yenilenirken bir hata oluştu" });
+    }
+  });
+  
+  // Aktif, yakında bitecek (?days=N, varsayılan 7) ve süresi dolmuş üyelikler
+  app.get("/api/reports/subscriptions", requirePermission("subscriptions.view"), async (req, res) => {
+    const days = req.query.days ? parseInt(req.query.days as string) : 7;
+    if (isNaN(days) || days < 0 || days > 365) {
+      return res.status(400).json({ message: "Geçersiz gün sayısı" });
+    }
+    
+    try {
+      const report = await storage.getSubscriptionReport(days);
+      res.json(report);
+    } catch (error) {
+      console.error("Üyelik raporu hatası:", error);
+      res.status(500).json({ message: "Üyelik raporu oluşturulamadı" });
+    }
+  });
+  
+  // Users API - Requires users.manage permission (except own profile)
+  app.get("/api/users", requirePermission("users.manage"), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users);
+    } catch (error) {
+      console.error("Kullanıcıları listelerken hata:", error);
+      res.status(500).json({ message: "Kullanıcılar listelenirken bir hata oluştu" });
+    }
+  });
+  
+  app.get("/api/users/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Geçersiz kullanıcı ID" });
+      }
+      
+      // Kullanıcı sadece kendi bilgilerini veya yöneticiyse başkalarının bilgilerini görüntüleyebilir
+      if (id !== req.user?.id && !hasPermission(req.user, "users.manage")) {
+        return res.status(403).json({ error: "Bu işlemi yapmak için yetkiniz bulunmuyor" });
+      }
+      
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "Kullanıcı bulunamadı" });
+      }
+      
+      // Şifreyi API yanıtından çıkar
+      const { password, ...userWithoutPassword } = user;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      console.error("Kullanıcı bilgileri alınırken hata:", error);
+      res.status(500).json({ message: "Kullanıcı bilgileri alınırken bir hata oluştu" });
+    }
+  });
+  
+  app.post("/api/users", requirePermission("users.manage"), async (req, res) => {
+    try {
+      // Form verilerini doğrula
+      const formData = insertUserSchema.parse(req.body);
+      
+      // Şifreyi hashle
+      const hashedPassword = await hashPassword(formData.password);
+      
+      // Kullanıcı verisini oluştur
+      const userData = {
+        ...formData,
+        password: hashedPassword,
+        fullName: formData.fullName || req.body.name || formData.username,
+      };
+      
+      const user = await storage.createUser(userData);
+      
+      // Şifreyi API yanıtından çıkar
+      const { password, ...userWithoutPassword } = user;
+      res.status(201).json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz kullanıcı verisi", errors: error.errors });
+      }
+      res.status(500).json({ message: "Kullanıcı oluşturulurken bir hata oluştu" });
+    }
+  });
+  
+  app.put("/api/users/:id", requireAuth, async (req, res) => {
+    try {
+      // Sadece yöneticiler başka kullanıcıları güncelleyebilir
+      // Kullanıcılar sadece kendi bilgilerini güncelleyebilir
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Geçersiz kullanıcı ID" });
+      }
+      
+      // Eğer kullanıcı kendi dışında birini güncellemeye çalışıyorsa ve admin değilse izin verme
+      const canManageUsers = hasPermission(req.user, "users.manage");
+      if (id !== req.user?.id && !canManageUsers) {
+        return res.status(403).json({ error: "Bu işlemi yapmak için yetkiniz bulunmuyor" });
+      }
+      
+      // Form verilerini doğrula
+      const formData = insertUserSchema.partial().parse(req.body);
+      
+      // Rolü yalnızca kullanıcı yönetimi yetkisi olanlar değiştirebilir
+      if (formData.role !== undefined && !canManageUsers) {
+        return res.status(403).json({ error: "Kullanıcı rolünü değiştirmek için yetkiniz bulunmuyor" });
+      }
+      
+      // Son yöneticinin rolü düşürülemez
+      if (formData.role !== undefined && formData.role !== "admin") {
+        const users = await storage.getUsers();
+        const admins = users.filter(user => user.role === "admin");
+        if (admins.length <= 1 && admins.some(user => user.id === id)) {
+          return res.status(400).json({ 
+            message: "Son yöneticinin rolünü değiştiremezsiniz. Önce başka bir yönetici hesabı oluşturun." 
+          });
+        }
+      }
+      
+      // Eğer şifre güncellemesi varsa, hashleme işlemi yap
+      let updateData = { ...formData };
+      if (formData.password) {
+        updateData.password = await hashPassword(formData.password);
+      }
+      
+      // Kullanıcıyı güncelle
+      const user = await storage.updateUser(id, updateData);
+      if (!user) {
+        return res.status(404).json({ message: "Kullanıcı bulunamadı" });
+      }
+      
+      // Şifreyi API yanıtından çıkar
+      const { password, ...userWithoutPassword } = user;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz kullanıcı verisi", errors: error.errors });
+      }
+      res.status(500).json({ message: "Kullanıcı güncellenirken bir hata oluştu" });
+    }
+  });
+  
+  app.delete("/api/users/:id", requirePermission("users.manage"), async (req, res) => {
+    try {
+      // ID'yi doğrula
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Geçersiz kullanıcı ID" });
+      }
+      
+      // Son yöneticiyi silmeye çalışıyorsa engelle
+      if (id === req.user?.id) {
+        // Başka admin var mı kontrol et
+        const users = await storage.getUsers();
+        const adminCount = users.filter(user => user.role === "admin").length;
+        
+        if (adminCount <= 1) {
+          return res.status(400).json({ 
+            message: "Son yönetici hesabınızı silemezsiniz. Önce başka bir yönetici hesabı oluşturun." 
+          });
+        }
+      }
+      
+      // Kullanıcıyı sil
+      const success = await storage.deleteUser(id);
+      if (!success) {
+        return res.status(404).json({ message: "Kullanıcı bulunamadı" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Kullanıcı silinirken hata:", error);
+      res.status(500).json({ message: "Kullanıcı silinirken bir hata oluştu" });
+    }
+  });
+  
+  // Denetim kayıtları (?page=&userId=&entityType=&entityId=&dateFrom=&dateTo=)
+  app.get("/api/audit-logs", requirePermission("audit.view"), async (req, res) => {
+    try {
+      const query = auditLogQuerySchema.parse(req.query);
+      const result = await storage.getAuditLogs(query);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz denetim kaydı filtresi", errors: error.errors });
+      }
+      console.error("Denetim kayıtları alınırken hata:", error);
+      res.status(500).json({ message: "Denetim kayıtları alınırken bir hata oluştu" });
+    }
+  });
+  
+  // Filtre listesi için kayıtlarda geçen kaynaklar
+  app.get("/api/audit-logs/entity-types", requirePermission("audit.view"), async (req, res) => {
+    try {
+      const entityTypes = await storage.getAuditEntityTypes();
+      res.json(entityTypes);
+    } catch (error) {
+      console.error("Denetim kaynakları alınırken hata:", error);
+      res.status(500).json({ message: "Denetim kaynakları alınırken bir hata oluştu" });
+    }
+  });
+  
+  // İşletme saat dilimi ve gün kapanış saatine göre bugünün iş günü (YYYY-AA-GG)
+  const getCurrentBusinessDate = async () => {
+    return getBusinessDate(new Date(), getBusinessDayOptions(await storage.getAppSettings()));
+  };
+  
+  // Statistics API
+  app.get("/api/stats/daily", requirePermission("jobs.view"), async (req, res) => {
+    const dateParam = req.query.date as string;
+    const date = dateParam || await getCurrentBusinessDate();
+    
+    if (!businessDateSchema.safeParse(date).success) {
+      return res.status(400).json({ message: "Invalid date format" });
+    }
+    
+    const stats = await storage.getDailyStats(date);
+    res.json(stats);
+  });
+  
+  // Payment method statistics
+  app.get("/api/stats/payment-methods", requirePermission("reports.view"), async (req, res) => {
+    const stats = await storage.getPaymentMethodStats();
+    res.json(stats);
+  });
+  
+  // Popular services statistics
+  app.get("/api/stats/popular-services", requirePermission("reports.view"), async (req, res) => {
+    try {
+      const stats = await storage.getPopularServices();
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching popular services:", error);
+      res.status(500).json({ message: "An error occurred while fetching popular services" });
+    }
+  });
+  
+  // Net profit statistics
+  app.get("/api/stats/net-profit", requirePermission("reports.view"), async (req, res) => {
+    const startDateParam = req.query.startDate as string;
+    const endDateParam = req.query.endDate as string;
+    
+    // Default to current business month if no dates provided
+    const today = parseISO(await getCurrentBusinessDate());
+    const firstDayOfMonth = format(startOfMonth(today), "yyyy-MM-dd");
+    const lastDayOfMonth = format(endOfMonth(today), "yyyy-MM-dd");
+    
+    const startDate = startDateParam || firstDayOfMonth;
+    const endDate = endDateParam || lastDayOfMonth;
+    
+    if (!businessDateSchema.safeParse(startDate).success || !businessDateSchema.safeParse(endDate).success) {
+      return res.status(400).json({ message: "Invalid date format" });
+    }
+    
+    const stats = await storage.getNetProfit(startDate, endDate);
+    res.json(stats);
+  });
+
+  // Aylık raporlar için ?month=YYYY-MM parametresinin ilk ve son günü (varsayılan içinde bulunulan ay).
+  // Biçim geçersizse null döner.
+  async function resolveReportMonth(monthParam: string | undefined): Promise<{ startDate: string; endDate: string } | null> {
+    const today = parseISO(await getCurrentBusinessDate());
+    let year = today.getFullYear();
+    let month = today.getMonth() + 1;
+
+    if (monthParam) {
+      const match = /^(\d{4})-(\d{2})$/.exec(monthParam);
+      if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+        return null;
+      }
+      year = Number(match[1]);
+      month = Number(match[2]);
+    }
+
+    const firstDay = new Date(year, month - 1, 1);
+    return { startDate: format(firstDay, "yyyy-MM-dd"), endDate: format(endOfMonth(firstDay), "yyyy-MM-dd") };
+  }
+
+  // Aylık KDV raporu (?month=YYYY-MM, varsayılan içinde bulunulan ay)
+  app.get("/api/reports/vat", requirePermission("reports.view"), async (req, res) => {
+    const range = await resolveReportMonth(req.query.month as string | undefined);
+    if (!range) {
+      return res.status(400).json({ message: "Geçersiz ay biçimi (YYYY-AA olmalı)" });
+    }
+
+    try {
+      const report = await storage.getVatReport(range.startDate, range.endDate);
+      res.json(report);
+    } catch (error) {
+      console.error("KDV raporu hatası:", error);
+      res.status(500).json({ message: "KDV raporu oluşturulamadı" });
+    }
+  });
+
+  // Aylık hediye kartı raporu: dönem hareketleri ve güncel bakiye yükümlülüğü (?month=YYYY-MM)
+  app.get("/api/reports/gift-cards", requirePermission("reports.view"), async (req, res) => {
+    const range = await resolveReportMonth(req.query.month as string | undefined);
+    if (!range) {
+      return res.status(400).json({ message: "Geçersiz ay biçimi (YYYY-AA olmalı)" });
+    }
+
+    try {
+      const report = await storage.getGiftCardLiabilityReport(range.startDate, range.endDate);
+      res.json(report);
+    } catch (error) {
+      console.error("Hediye kartı raporu hatası:", error);
+      res.status(500).json({ message: "Hediye kartı raporu oluşturulamadı" });
+    }
+  });
+  
+  // Dönemsel gelir raporu (?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD&groupBy=day|week|month|year&compare=true)
+  app.get("/api/reports/revenue", requirePermission("reports.view"), async (req, res) => {
+    try {
+      const query = revenueReportQuerySchema.parse(req.query);
+      const report = await storage.getRevenueReport(query.startDate, query.endDate, query.groupBy, query.compare);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz rapor parametreleri", errors: error.errors });
+      }
+      console.error("Gelir raporu hatası:", error);
+      res.status(500).json({ message: "Gelir raporu oluşturulamadı" });
+    }
+  });
+  
+  // Expenses API
+  app.get("/api/expenses", requirePermission("expenses.view"), async (req, res) => {
+    const expenses = await storage.getExpenses();
+    res.json(expenses);
+  });
+  
+  app.get("/api/expenses/category/:category", requirePermission("expenses.view"), async (req, res) => {
+    const category = req.params.category;
+    const expenses = await storage.getExpensesByCategory(category);
+    res.json(expenses);
+  });
+  
+  app.get("/api/expenses/date-range", requirePermission("expenses.view"), async (req, res) => {
+    const startDateParam = req.query.startDate as string;
+    const endDateParam = req.query.endDate as string;
+    
+    if (!startDateParam || !endDateParam) {
+      return res.status(400).json({ message: "Start date and end date are required" });
+    }
+    
+    if (!businessDateSchema.safeParse(startDateParam).success || !businessDateSchema.safeParse(endDateParam).success) {
+      return res.status(400).json({ message: "Invalid date format" });
+    }
+    
+    const expenses = await storage.getExpensesByDateRange(startDateParam, endDateParam);
+    res.json(expenses);
+  });
+  
+  app.get("/api/expenses/:id", requirePermission("expenses.view"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid expense ID" });
+    }
+    
+    const expense = await storage.getExpense(id);
+    if (!expense) {
+      return res.status(404).json({ message: "Expense not found" });
+    }
+    
+    res.json(expense);
+  });
+  
+  app.post("/api/expenses", requirePermission("expenses.manage"), async (req, res) => {
+    try {
+      // Gelen veriyi log'la
+      console.log("Gelen gider verisi:", req.body);
+      
+      // amount stringse number'a çevir
+      if (typeof req.body.amount === 'string') {
+        req.body.amount = parseFloat(req.body.amount);
+      }
+      
+      // date string ise Date'e çevir
+      if (typeof req.body.date === 'string') {
+        req.body.date = new Date(req.body.date);
+      }
+      
+      const data = await insertExpenseSchema.parseAsync(req.body);
+      console.log("Parse edilmiş veri:", data);
+      
+      const expense = await storage.createExpense(data);
+      res.status(201).json(expense);
+    } catch (error) {
+      console.error("Gider oluşturma hatası:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid expense data", errors: error.errors });
+      }
+      res.status(500).json({ message: "An error occurred while creating the expense" });
+    }
+  });
+  
+  app.put("/api/expenses/:id", requirePermission("expenses.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid expense ID" });
+    }
+    
+    try {
+      const data = insertExpenseSchema.partial().parse(req.body);
+      const expense = await storage.updateExpense(id, data);
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      
+      res.json(expense);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid expense data", errors: error.errors });
+      }
+      res.status(500).json({ message: "An error occurred while updating the expense" });
+    }
+  });
+  
+  app.delete("/api/expenses/:id", requirePermission("expenses.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid expense ID" });
+    }
+    
+    const success = await storage.deleteExpense(id);
+    if (!success) {
+      return res.status(404).json({ message: "Expense not found" });
+    }
+    
+    res.status(204).end();
+  });
+
+  // Kasa oturumları (gün sonu / Z raporu)
+  app.get("/api/cash-sessions", requirePermission("cash.view"), async (req, res) => {
+    const userId = req.query.userId ? parseInt(req.query.userId as string) : undefined;
+    if (userId !== undefined && isNaN(userId)) {
+      return res.status(400).json({ message: "Geçersiz kullanıcı ID" });
+    }
+    
+    const sessions = await storage.getCashSessions({ userId });
+    res.json(sessions);
+  });
+  
+  // Açık oturum; yoksa null döner
+  app.get("/api/cash-sessions/current", requirePermission("cash.view"), async (req, res) => {
+    const session = await storage.getOpenCashSession();
+    res.json(session ?? null);
+  });
+  
+  app.get("/api/cash-sessions/:id", requirePermission("cash.view"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz kasa oturumu ID" });
+    }
+    
+    const session = await storage.getCashSession(id);
+    if (!session) {
+      return res.status(404).json({ message: "Kasa oturumu bulunamadı" });
+    }
+    
+    res.json(session);
+  });
+  
+  // Termal yazıcı için kasa raporu (kapalı oturumda Z, açıkta X raporu)
+  app.get("/api/cash-sessions/:id/report.pdf", requirePermission("cash.view"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz kasa oturumu ID" });
+    }
+    
+    try {
+      const session = await storage.getCashSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Kasa oturumu bulunamadı" });
+      }
+      
+      const pdf = await renderCashSessionPdf(session, await storage.getAppSettings());
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename=kasa_raporu_${id}.pdf`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Kasa raporu hatası:", error);
+      res.status(500).json({ message: "Kasa raporu oluşturulamadı" });
+    }
+  });
+  
+  app.post("/api/cash-sessions", requirePermission("cash.manage"), async (req, res) => {
+    try {
+      const data = openCashSessionSchema.parse(req.body);
+      const session = await storage.openCashSession(data, req.user!.id);
+      if (!session) {
+        return res.status(409).json({ message: "Zaten açık bir kasa oturumu var" });
+      }
+      res.status(201).json(session);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz kasa açılış bilgisi", errors: error.errors });
+      }
+      console.error("Kasa açılış hatası:", error);
+      res.status(500).json({ message: "Kasa açılırken bir hata oluştu" });
+    }
+  });
+  
+  app.post("/api/cash-sessions/:id/movements", requirePermission("cash.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz kasa oturumu ID" });
+    }
+    
+    try {
+      const data = insertCashMovementSchema.parse(req.body);
+      const session = await storage.getCashSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Kasa oturumu bulunamadı" });
+      }
+      
+      const movement = await storage.addCashMovement(id, data, req.user!.id);
+      if (!movement) {
+        return res.status(409).json({ message: "Kapalı kasa oturumuna hareket eklenemez" });
+      }
+      res.status(201).json(movement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz kasa hareketi", errors: error.errors });
+      }
+      console.error("Kasa hareketi hatası:", error);
+      res.status(500).json({ message: "Kasa hareketi eklenirken bir hata oluştu" });
+    }
+  });
+  
+  app.post("/api/cash-sessions/:id/close", requirePermission("cash.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz kasa oturumu ID" });
+    }
+    
+    try {
+      const data = closeCashSessionSchema.parse(req.body);
+      const existing = await storage.getCashSession(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Kasa oturumu bulunamadı" });
+      }
+      
+      const session = await storage.closeCashSession(id, data, req.user!.id);
+      if (!session) {
+        return res.status(409).json({ message: "Kasa oturumu zaten kapatılmış" });
+      }
+      res.json(session);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz kasa kapanış bilgisi", errors: error.errors });
+      }
+      console.error("Kasa kapanış hatası:", error);
+      res.status(500).json({ message: "Kasa kapatılırken bir hata oluştu" });
+    }
+  });
+
+  // Hediye kartları / ön ödemeli bakiyeler
+  app.get("/api/gift-cards", requirePermission("giftCards.view"), async (req, res) => {
+    const cards = await storage.getGiftCards();
+    res.json(cards);
+  });
+  
+  // Tahsilat ekranında kod ile bakiye sorgulama
+  app.get("/api/gift-cards/lookup/:code", requirePermission("payments.manage"), async (req, res) => {
+    const card = await storage.getGiftCardByCode(req.params.code);
+    if (!card) {
+      return res.status(404).json({ message: "Hediye kartı bulunamadı" });
+    }
+    
+    res.json(card);
+  });
+  
+  app.get("/api/gift-cards/:id", requirePermission("giftCards.view"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz hediye kartı ID" });
+    }
+    
+    const card = await storage.getGiftCard(id);
+    if (!card) {
+      return res.status(404).json({ message: "Hediye kartı bulunamadı" });
+    }
+    
+    res.json(card);
+  });
+  
+  app.post("/api/gift-cards", requirePermission("giftCards.manage"), async (req, res) => {
+    try {
+      const data = insertGiftCardSchema.parse(req.body);
+      if (data.customerId && !(await storage.getCustomer(data.customerId))) {
+        return res.status(400).json({ message: "Müşteri bulunamadı" });
+      }
+      
+      const card = await storage.createGiftCard(data, req.user!.id);
+      if (!card) {
+        return res.status(409).json({ message: "Bu kod başka bir kartta kullanılıyor" });
+      }
+      res.status(201).json(card);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz hediye kartı bilgisi", errors: error.errors });
+      }
+      console.error("Hediye kartı oluşturma hatası:", error);
+      res.status(500).json({ message: "Hediye kartı oluşturulurken bir hata oluştu" });
+    }
+  });
+  
+  app.put("/api/gift-cards/:id", requirePermission("giftCards.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz hediye kartı ID" });
+    }
+    
+    try {
+      // Kod ve bakiye değiştirilemez; bakiye yalnızca hareketlerle değişir
+      const data = insertGiftCardSchema.pick({ customerId: true, isActive: true, notes: true }).partial().parse(req.body);
+      if (data.customerId && !(await storage.getCustomer(data.customerId))) {
+        return res.status(400).json({ message: "Müşteri bulunamadı" });
+      }
+      
+      const card = await storage.updateGiftCard(id, data);
+      if (!card) {
+        return res.status(404).json({ message: "Hediye kartı bulunamadı" });
+      }
+      res.json(card);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz hediye kartı bilgisi", errors: error.errors });
+      }
+      console.error("Hediye kartı güncelleme hatası:", error);
+      res.status(500).json({ message: "Hediye kartı güncellenirken bir hata oluştu" });
+    }
+  });
+  
+  app.post("/api/gift-cards/:id/top-ups", requirePermission("giftCards.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz hediye kartı ID" });
+    }
+    
+    try {
+      const data = giftCardTopUpSchema.parse(req.body);
+      const existing = await storage.getGiftCard(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Hediye kartı bulunamadı" });
+      }
+      
+      const transaction = await storage.topUpGiftCard(id, data, req.user!.id);
+      if (!transaction) {
+        return res.status(409).json({ message: "Kullanıma kapalı karta yükleme yapılamaz" });
+      }
+      res.status(201).json(transaction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz yükleme bilgisi", errors: error.errors });
+      }
+      console.error("Hediye kartı yükleme hatası:", error);
+      res.status(500).json({ message: "Bakiye yüklenirken bir hata oluştu" });
+    }
+  });
+
+  // Kurumsal cari hesap faturaları (?customerId= ile müşteriye göre)
+  app.get("/api/account-invoices", requirePermission("accounts.view"), async (req, res) => {
+    const customerId = req.query.customerId ? parseInt(req.query.customerId as string) : undefined;
+    if (customerId !== undefined && isNaN(customerId)) {
+      return res.status(400).json({ message: "Geçersiz müşteri ID" });
+    }
+    
+    const invoices = await storage.getAccountInvoices({ customerId });
+    res.json(invoices);
+  });
+  
+  app.get("/api/account-invoices/:id", requirePermission("accounts.view"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz fatura ID" });
+    }
+    
+    const invoice = await storage.getAccountInvoice(id);
+    if (!invoice) {
+      return res.status(404).json({ message: "Fatura bulunamadı" });
+    }
+    
+    res.json(invoice);
+  });
+  
+  app.post("/api/account-invoices", requirePermission("accounts.manage"), async (req, res) => {
+    try {
+      const data = createAccountInvoiceSchema.parse(req.body);
+      const customer = await storage.getCustomer(data.customerId);
+      if (!customer) {
+        return res.status(404).json({ message: "Müşteri bulunamadı" });
+      }
+      if (!customer.isCorporate) {
+        return res.status(400).json({ message: "Yalnızca kurumsal müşterilere fatura kesilebilir" });
+      }
+      
+      const invoice = await storage.createAccountInvoice(data, req.user!.id);
+      if (!invoice) {
+        return res.status(409).json({ message: "Bu dönem için faturalanacak tamamlanmış cari hesap işi yok" });
+      }
+      res.status(201).json(invoice);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz fatura bilgisi", errors: error.errors });
+      }
+      console.error("Fatura oluşturma hatası:", error);
+      res.status(500).json({ message: "Fatura oluşturulurken bir hata oluştu" });
+    }
+  });
+  
+  app.post("/api/account-invoices/:id/cancel", requirePermission("accounts.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz fatura ID" });
+    }
+    
+    const existing = await storage.getAccountInvoice(id);
+    if (!existing) {
+      return res.status(404).json({ message: "Fatura bulunamadı" });
+    }
+    
+    const invoice = await storage.cancelAccountInvoice(id);
+    if (!invoice) {
+      return res.status(409).json({ message: "Fatura zaten iptal edilmiş" });
+    }
+    res.json(invoice);
+  });
+  
+  // Fatura tahsilatı; tutar faturadaki işlere en eskiden başlayarak dağıtılır
+  app.post("/api/account-invoices/:id/payments", requirePermission("accounts.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz fatura ID" });
+    }
+    
+    try {
+      const data = accountInvoicePaymentSchema.parse(req.body);
+      const existing = await storage.getAccountInvoice(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Fatura bulunamadı" });
+      }
+      if (existing.status === "iptal") {
+        return res.status(409).json({ message: "İptal edilen faturaya ödeme alınamaz" });
+      }
+      
+      const payments = await storage.payAccountInvoice(id, data, req.user!.id);
+      if (!payments) {
+        return res.status(400).json({ message: "Ödeme tutarı fatura bakiyesini aşıyor" });
+      }
+      res.status(201).json(payments);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz ödeme bilgisi", errors: error.errors });
+      }
+      console.error("Fatura ödemesi hatası:", error);
+      res.status(500).json({ message: "Ödeme kaydedilirken bir hata oluştu" });
+    }
+  });
+  
+  // Ödenmemiş işi olan müşterilerin açık bakiyeleri (0-30, 31-60, 60+ gün)
+  app.get("/api/receivables", requirePermission("receivables.view"), async (req, res) => {
+    try {
+      const balances = await storage.getOpenBalances();
+      res.json(balances);
+    } catch (error) {
+      console.error("Açık bakiye listesi hatası:", error);
+      res.status(500).json({ message: "Açık bakiyeler yüklenemedi" });
+    }
+  });
+  
+  // Kurumsal alacak yaşlandırma raporu
+  app.get("/api/reports/receivables-aging", requirePermission("accounts.view"), async (req, res) => {
+    try {
+      const report = await storage.getReceivablesAging();
+      res.json(report);
+    } catch (error) {
+      console.error("Alacak yaşlandırma raporu hatası:", error);
+      res.status(500).json({ message: "Alacak yaşlandırma raporu oluşturulamadı" });
+    }
+  });
+
+  // Sarf malzemesi stoğu
+  app.get("/api/inventory/products", requirePermission("inventory.view"), async (req, res) => {
+    const products = await storage.getInventoryProducts();
+    res.json(products);
+  });
+  
+  app.get("/api/inventory/products/:id", requirePermission("inventory.view"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz ürün ID" });
+    }
+    
+    const product = await storage.getInventoryProduct(id);
+    if (!product) {
+      return res.status(404).json({ message: "Ürün bulunamadı" });
+    }
+    
+    res.json(product);
+  });
+  
+  app.post("/api/inventory/products", requirePermission("inventory.manage"), async (req, res) => {
+    try {
+      const data = insertInventoryProductSchema.parse(req.body);
+      const product = await storage.createInventoryProduct(data);
+      res.status(201).json(product);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz ürün bilgisi", errors: error.errors });
+      }
+      console.error("Ürün oluşturma hatası:", error);
+      res.status(500).json({ message: "Ürün oluşturulurken bir hata oluştu" });
+    }
+  });
+  
+  app.put("/api/inventory/products/:id", requirePermission("inventory.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz ürün ID" });
+    }
+    
+    try {
+      // Stok miktarı yalnızca alım, tüketim ve sayım hareketleriyle değişir
+      const data = insertInventoryProductSchema.partial().parse(req.body);
+      const product = await storage.updateInventoryProduct(id, data);
+      if (!product) {
+        return res.status(404).json({ message: "Ürün bulunamadı" });
+      }
+      res.json(product);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz ürün bilgisi", errors: error.errors });
+      }
+      console.error("Ürün güncelleme hatası:", error);
+      res.status(500).json({ message: "Ürün güncellenirken bir hata oluştu" });
+    }
+  });
+  
+  app.post("/api/inventory/products/:id/purchases", requirePermission("inventory.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz ürün ID" });
+    }
+    
+    try {
+      const data = inventoryPurchaseSchema.parse(req.body);
+      if (data.createExpense && !hasPermission(req.user, "expenses.manage")) {
+        return res.status(403).json({ error: "Gider kaydı oluşturmak için yetkiniz bulunmuyor" });
+      }
+      
+      const product = await storage.getInventoryProduct(id);
+      if (!product) {
+        return res.status(404).json({ message: "Ürün bulunamadı" });
+      }
+      if (!product.isActive) {
+        return res.status(409).json({ message: "Pasif ürüne alım girilemez" });
+      }
+      
+      const movement = await storage.recordInventoryPurchase(id, data, req.user!.id);
+      res.status(201).json(movement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz alım bilgisi", errors: error.errors });
+      }
+      console.error("Stok alımı hatası:", error);
+      res.status(500).json({ message: "Alım kaydedilirken bir hata oluştu" });
+    }
+  });
+  
+  app.post("/api/inventory/products/:id/counts", requirePermission("inventory.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz ürün ID" });
+    }
+    
+    try {
+      const data = inventoryStockCountSchema.parse(req.body);
+      const product = await storage.getInventoryProduct(id);
+      if (!product) {
+        return res.status(404).json({ message: "Ürün bulunamadı" });
+      }
+      
+      // Fark yoksa hareket oluşmaz
+      const movement = await storage.recordInventoryCount(id, data, req.user!.id);
+      if (!movement) {
+        return res.status(204).end();
+      }
+      res.status(201).json(movement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz sayım bilgisi", errors: error.errors });
+      }
+      console.error("Stok sayımı hatası:", error);
+      res.status(500).json({ message: "Sayım kaydedilirken bir hata oluştu" });
+    }
+  });
+  
+  // Hizmet reçeteleri (?serviceId= ile tek hizmet)
+  app.get("/api/inventory/consumptions", requirePermission("inventory.view"), async (req, res) => {
+    let serviceId: number | undefined;
+    if (req.query.serviceId !== undefined) {
+      serviceId = parseInt(req.query.serviceId as string);
+      if (isNaN(serviceId)) {
+        return res.status(400).json({ message: "Geçersiz hizmet ID" });
+      }
+    }
+    
+    const consumptions = await storage.getServiceConsumptions(serviceId);
+    res.json(consumptions);
+  });
+  
+  app.put("/api/services/:id/consumptions", requirePermission("inventory.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz hizmet ID" });
+    }
+    
+    try {
+      const items = serviceConsumptionsSchema.parse(req.body);
+      const service = await storage.getService(id);
+      if (!service) {
+        return res.status(404).json({ message: "Hizmet bulunamadı" });
+      }
+      
+      const products = await storage.getInventoryProducts();
+      if (items.some(item => !products.some(product => product.id === item.productId))) {
+        return res.status(400).json({ message: "Ürün bulunamadı" });
+      }
+      
+      const saved = await storage.setServiceConsumptions(id, items);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz reçete", errors: error.errors });
+      }
+      console.error("Hizmet reçetesi kaydetme hatası:", error);
+      res.status(500).json({ message: "Reçete kaydedilirken bir hata oluştu" });
+    }
+  });
+  
+  // Aylık malzeme alım / tüketim raporu (?month=YYYY-MM)
+  app.get("/api/reports/inventory", requirePermission("inventory.view"), async (req, res) => {
+    const range = await resolveReportMonth(req.query.month as string | undefined);
+    if (!range) {
+      return res.status(400).json({ message: "Geçersiz ay biçimi (YYYY-AA olmalı)" });
+    }
+    
+    try {
+      const report = await storage.getInventoryReport(range.startDate, range.endDate);
+      res.json(report);
+    } catch (error) {
+      console.error("Stok raporu hatası:", error);
+      res.status(500).json({ message: "Stok raporu oluşturulamadı" });
+    }
+  });
+
+  // İşe atanabilecek personel listesi
+  app.get("/api/staff", requirePermission("jobs.view"), async (req, res) => {
+    const staff = await storage.getStaffMembers();
+    res.json(staff);
+  });
+  
+  app.get("/api/jobs/:id/staff", requirePermission("jobs.view"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz iş emri ID" });
+    }
+    
+    const staff = await storage.getJobStaff(id);
+    res.json(staff);
+  });
+  
+  app.put("/api/jobs/:id/staff", requirePermission("jobs.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz iş emri ID" });
+    }
+    
+    try {
+      const userIds = jobStaffSchema.parse(req.body);
+      const job = await storage.getJob(id);
+      if (!job) {
+        return res.status(404).json({ message: "İş emri bulunamadı" });
+      }
+      
+      const staff = await storage.getStaffMembers();
+      if (userIds.some(userId => !staff.some(member => member.id === userId))) {
+        return res.status(400).json({ message: "Personel bulunamadı" });
+      }
+      
+      const saved = await storage.setJobStaff(id, userIds);
+      broadcastJobEvent(id);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz personel listesi", errors: error.errors });
+      }
+      console.error("İş personeli kaydetme hatası:", error);
+      res.status(500).json({ message: "Personel kaydedilirken bir hata oluştu" });
+    }
+  });
+  
+  // İş emri fotoğrafları (giriş / çıkış)
+  app.get("/api/jobs/:id/photos", requirePermission("jobs.view"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz iş emri ID" });
+    }
+    
+    const photos = await storage.getJobPhotos(id);
+    res.json(photos);
+  });
+  
+  // Fotoğraf dosyası; ?size=thumb ile önizleme döner
+  app.get("/api/jobs/:id/photos/:photoId/image", requirePermission("jobs.view"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    const photoId = parseInt(req.params.photoId);
+    if (isNaN(id) || isNaN(photoId)) {
+      return res.status(400).json({ message: "Geçersiz fotoğraf ID" });
+    }
+    
+    try {
+      const photo = await storage.getJobPhoto(id, photoId);
+      const thumb = req.query.size === "thumb";
+      const data = photo && await readJobPhotoFile(photo.fileName, thumb ? "thumb" : "full");
+      if (!photo || !data) {
+        return res.status(404).json({ message: "Fotoğraf bulunamadı" });
+      }
+      
+      res.setHeader("Content-Type", thumb ? "image/jpeg" : photo.mimeType);
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      res.send(data);
+    } catch (error) {
+      console.error("Fotoğraf okuma hatası:", error);
+      res.status(500).json({ message: "Fotoğraf yüklenemedi" });
+    }
+  });
+  
+  app.post(
+    "/api/jobs/:id/photos",
+    requirePermission("jobs.manage"),
+    express.json({ limit: "10mb" }),
+    async (req, res) => {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Geçersiz iş emri ID" });
+      }
+      
+      try {
+        const data = uploadJobPhotoSchema.parse(req.body);
+        const job = await storage.getJob(id);
+        if (!job) {
+          return res.status(404).json({ message: "İş emri bulunamadı" });
+        }
+      
+        const { fileName, mimeType } = await saveJobPhotoFiles(id, data);
+        try {
+          const photo = await storage.createJobPhoto({
+            jobId: id,
+            stage: data.stage,
+            fileName,
+            mimeType,
+            caption: data.caption || null,
+            uploadedBy: req.user?.id ?? null,
+          });
+          res.status(201).json(photo);
+        } catch (error) {
+          // Kayıt oluşturulamadıysa diskte sahipsiz dosya bırakma
+          await deleteJobPhotoFiles(fileName);
+          throw error;
+        }
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Geçersiz fotoğraf", errors: error.errors });
+        }
+        console.error("Fotoğraf yükleme hatası:", error);
+        res.status(500).json({ message: "Fotoğraf yüklenirken bir hata oluştu" });
+      }
+    }
+  );
+  
+  app.delete("/api/jobs/:id/photos/:photoId", requirePermission("jobs.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    const photoId = parseInt(req.params.photoId);
+    if (isNaN(id) || isNaN(photoId)) {
+      return res.status(400).json({ message: "Geçersiz fotoğraf ID" });
+    }
+    
+    try {
+      const success = await storage.deleteJobPhoto(id, photoId);
+      if (!success) {
+        return res.status(404).json({ message: "Fotoğraf bulunamadı" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Fotoğraf silme hatası:", error);
+      res.status(500).json({ message: "Fotoğraf silinirken bir hata oluştu" });
+    }
+  });
+  
+  // Araç kabulündeki hasar şeması
+  app.get("/api/jobs/:id/damage", requirePermission("jobs.view"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz iş emri ID" });
+    }
+    
+    const marks = await storage.getJobDamageMarks(id);
+    res.json(marks);
+  });
+  
+  app.put("/api/jobs/:id/damage", requirePermission("jobs.manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Geçersiz iş emri ID" });
+    }
+    
+    try {
+      const marks = jobDamageMarksSchema.parse(req.body);
+      const job = await storage.getJob(id);
+      if (!job) {
+        return res.status(404).json({ message: "İş emri bulunamadı" });
+      }
+      
+      const saved = await storage.setJobDamageMarks(id, marks);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz hasar kaydı", errors: error.errors });
+      }
+      console.error("Hasar kaydetme hatası:", error);
+      res.status(500).json({ message: "Hasar kaydı kaydedilirken bir hata oluştu" });
+    }
+  });
+  
+  // Aylık personel prim bordrosu (?month=YYYY-MM)
+  app.get("/api/reports/payroll", requirePermission("reports.view"), async (req, res) => {
+    const range = await resolveReportMonth(req.query.month as string | undefined);
+    if (!range) {
+      return res.status(400).json({ message: "Geçersiz ay biçimi (YYYY-AA olmalı)" });
+    }
+    
+    try {
+      const report = await storage.getPayrollReport(range.startDate.slice(0, 7), range.startDate, range.endDate);
+      res.json(report);
+    } catch (error) {
+      console.error("Prim bordrosu hatası:", error);
+      res.status(500).json({ message: "Prim bordrosu oluşturulamadı" });
+    }
+  });
+  
+  // Dönem primlerini personel gideri olarak işle
+  app.post("/api/staff-payouts", requirePermission("expenses.manage"), async (req, res) => {
+    try {
+      const data = postPayrollSchema.parse(req.body);
+      const range = await resolveReportMonth(data.period);
+      if (!range) {
+        return res.status(400).json({ message: "Geçersiz dönem" });
+      }
+      
+      const payouts = await storage.postPayroll(data, range.startDate, range.endDate, req.user!.id);
+      if (payouts.length === 0) {
+        return res.status(409).json({ message: "Bu dönem için işlenecek prim bulunmuyor" });
+      }
+      res.status(201).json(payouts);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Geçersiz bordro bilgisi", errors: error.errors });
+      }
+      console.error("Prim işleme hatası:", error);
+      res.status(500).json({ message: "Primler işlenirken bir hata oluştu" });
+    }
+  });
 
   const httpServer = createServer(app);
   return httpServer;
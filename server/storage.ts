@@ -1,17 +1,121 @@
 import { db } from "./db";
 import { 
-  customers, vehicles, services, jobs, jobServices, users, expenses, customerAnalytics, settings,
+  customers, vehicles, services, jobs, jobServices, payments, washBays, appointments, appointmentServices, users, expenses, customerAnalytics, settings,
+  subscriptionPlans, subscriptionPlanServices, customerSubscriptions, cashSessions, cashMovements, loyaltyTransactions,
+  giftCards, giftCardTransactions, customerServicePrices, accountInvoices,
+  inventoryProducts, inventoryMovements, serviceConsumptions, jobStaff, staffPayouts, jobPhotos, jobDamageMarks, auditLogs,
   type Customer, type InsertCustomer, 
   type Vehicle, type InsertVehicle, 
   type Service, type InsertService, 
   type Job, type InsertJob, 
   type JobService, type InsertJobService, 
+  type Payment, type InsertPayment, type PaymentWithUser,
+  type WashBay, type InsertWashBay,
+  type Appointment, type InsertAppointment, type AppointmentDetail,
+  type SubscriptionPlan, type InsertSubscriptionPlan, type SubscriptionPlanDetail,
+  type CustomerSubscription, type InsertCustomerSubscription, type CustomerSubscriptionDetail, type SubscriptionReport,
   type User, type InsertUser,
   type Expense, type InsertExpense,
+  type CashSession, type OpenCashSession, type CloseCashSession, type CashMovement, type InsertCashMovement,
+  type CashSessionDetail, type CashSessionReport,
+  type LoyaltyTransaction, type LoyaltySummary, type CustomerLoyalty,
+  type GiftCard, type InsertGiftCard, type GiftCardTopUp, type GiftCardDetail, type GiftCardTransaction,
+  type GiftCardTransactionDetail, type GiftCardReport, type GiftCardLiabilityReport,
+  type CustomerServicePrice, type AccountInvoice, type CreateAccountInvoice, type AccountInvoicePayment,
+  type AccountInvoiceDetail, type AccountInvoiceReport, type AccountInvoiceJob,
+  type ReceivablesAging, type ReceivablesAgingBuckets,
+  type OpenJob, type OpenBalances, type OpenBalanceRow, type CustomerStatement, type CustomerStatementEntry,
+  type CustomerSettlement,
+  type InventoryProduct, type InsertInventoryProduct, type InventoryMovement, type ServiceConsumption,
+  type InventoryPurchase, type InventoryStockCount, type InventoryProductDetail, type InventoryProductReport,
+  type InventoryMovementDetail, type InventoryReport,
+  type JobBoardItem,
+  type CheckInContext, type CheckInVisit, type CheckInUsualService, type CreateCheckIn,
+  type StaffMember, type StaffPayout, type PostPayroll, type PayrollReport, type PayrollRow,
+  type JobPhoto, type JobDamageMark, type JobDamageMarkInput,
+  type AuditLog, type InsertAuditLog, type AuditLogQuery, type AuditLogResult,
   type CustomerAnalytic,
-  type Setting
+  type Setting,
+  type VatReport, type VatRateSummary,
+  type RevenueReport, type RevenueReportPeriod, type RevenueReportGroupBy,
+  type JobListQuery, type JobListResult, type JobListSortField,
+  paymentMethodEnum,
+  PAYMENT_METHOD_LABELS, type PaymentMethod,
+  calculateJobLineTotal,
+  calculateJobLineVat,
+  validateJobLineDiscount,
+  calculateLineCommission,
+  splitVat
 } from "@shared/schema";
-import { eq, and, desc, count, sum, max, isNull, sql } from "drizzle-orm";
+import {
+  SETTING_DEFINITIONS, DEFAULT_APP_SETTINGS, parseSettingValue, serializeSettingValue,
+  getBusinessDayOptions,
+  type AppSettings, type SettingName
+} from "@shared/settings";
+import { getBusinessDayRange, type BusinessDayOptions } from "@shared/businessDay";
+import { formatPlate, isValidPlate, normalizePlate, plateDistance } from "@shared/plate";
+import { deleteJobPhotoFiles, hasJobPhotoFiles, readJobPhotoBackupFiles, writeJobPhotoBackupFiles } from "./photos";
+import { BACKUP_VERSION, type BackupFile, type BackupRestoreReport, type BackupTableReport, type JobPhotoBackupFile } from "@shared/backup";
+import { addDays, addMonths, differenceInCalendarDays, differenceInCalendarMonths, format, parseISO, subDays, subMonths } from "date-fns";
+import { eq, and, or, asc, desc, count, sum, max, isNull, ne, inArray, sql, TransactionRollbackError, type SQL } from "drizzle-orm";
+import { alias, type PgTable } from "drizzle-orm/pg-core";
+import { randomInt } from "crypto";
+
+// db.transaction geri çağrısına verilen işlem nesnesi
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+// Sorguyu doğrudan veya bir işlem içinde çalıştırabilen nesne (db ya da tx)
+type DbExecutor = Pick<typeof db, "select" | "insert" | "update" | "delete" | "execute">;
+
+// LIKE/ILIKE desenlerinde kullanıcı girdisindeki joker karakterleri kaçır
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// Karşılaştırma plakası; henüz doldurulmamış eski kayıtlarda normalizePlate ile aynı sonucu SQL'de üretir
+const normalizedPlateSql = sql`COALESCE(${vehicles.plateNormalized}, REGEXP_REPLACE(UPPER(${vehicles.plate}), '[[:space:]._-]', '', 'g'))`;
+
+// Plakayla kabulde incelenen son ziyaret sayısı ve önerilen hizmet sayısı
+const CHECK_IN_VISIT_LIMIT = 10;
+const CHECK_IN_USUAL_SERVICE_LIMIT = 5;
+
+// Hediye kartı kodu: karışabilecek karakterler (0/O, 1/I) kullanılmaz
+const GIFT_CARD_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function generateGiftCardCode(): string {
+  const chars = Array.from({ length: 8 }, () => GIFT_CARD_CODE_ALPHABET[randomInt(GIFT_CARD_CODE_ALPHABET.length)]);
+  return `HK-${chars.slice(0, 4).join("")}-${chars.slice(4).join("")}`;
+}
+
+// Üyelik dönemleri başlangıç tarihinden itibaren paket süresi kadardır; verilen anı içeren dönemin başlangıcı
+function getSubscriptionPeriodStart(subscription: { startDate: Date; endDate: Date }, periodMonths: number, at: Date): Date {
+  const until = at < subscription.endDate ? at : subscription.endDate;
+  let periodStart = subscription.startDate;
+  for (let period = 1; ; period++) {
+    const next = addMonths(subscription.startDate, period * periodMonths);
+    if (next > until || next >= subscription.endDate) break;
+    periodStart = next;
+  }
+  return periodStart;
+}
+
+// Karşılaştırma için bir önceki dönem (iş günü tarihleri, dahil): tam aylık aralıklarda aynı sayıda ay,
+// diğerlerinde aynı sayıda gün geriye gidilir
+function getPreviousPeriod(startDate: string, endDate: string): { startDate: string; endDate: string } {
+  const start = parseISO(startDate);
+  const endExclusive = addDays(parseISO(endDate), 1);
+  const previousStart = start.getDate() === 1 && endExclusive.getDate() === 1
+    ? subMonths(start, differenceInCalendarMonths(endExclusive, start))
+    : subDays(start, differenceInCalendarDays(endExclusive, start));
+  return { startDate: format(previousStart, "yyyy-MM-dd"), endDate: format(subDays(start, 1), "yyyy-MM-dd") };
+}
+
+// Zaman damgaları sunucunun yerel saatiyle saklanır; SQL'de iş günü takvimine çevirirken kullanılır
+const SERVER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Sütunu işletme saat dilimine taşı ve kapanış saatini düş: iş günü sınırı gece yarısına denk gelir
+function toBusinessTime(column: SQL, options: BusinessDayOptions): SQL {
+  return sql`((${column} AT TIME ZONE ${SERVER_TIME_ZONE}) AT TIME ZONE ${options.timeZone} - make_interval(hours => ${options.cutoffHour}::int))`;
+}
 
 export interface IStorage {
   // Customer methods
@@ -27,9 +131,12 @@ export interface IStorage {
   getVehiclesByCustomer(customerId: number): Promise<Vehicle[]>;
   getVehicle(id: number): Promise<Vehicle | undefined>;
   getVehicleByPlate(plate: string): Promise<Vehicle | undefined>;
+  findVehicleBySimilarPlate(plates: string[], maxDistance: number): Promise<{ vehicle: Vehicle; index: number } | undefined>;
   createVehicle(vehicle: InsertVehicle): Promise<Vehicle>;
   updateVehicle(id: number, vehicle: Partial<InsertVehicle>): Promise<Vehicle | undefined>;
   deleteVehicle(id: number): Promise<boolean>;
+  getDuplicateVehicles(): Promise<Vehicle[][]>;
+  mergeVehicles(targetId: number, sourceIds: number[]): Promise<Vehicle | undefined>;
   
   // Service methods
   getServices(): Promise<Service[]>;
@@ -41,17 +148,65 @@ export interface IStorage {
   
   // Job methods
   getJobs(): Promise<Job[]>;
-  getJobsByDate(date: Date): Promise<Job[]>;
+  getJobsByDate(date: string): Promise<Job[]>;
   getJobsByCustomer(customerId: number): Promise<Job[]>;
+  getJobList(query: JobListQuery): Promise<JobListResult>;
+  getJobBoard(date: string): Promise<JobBoardItem[]>;
+  getCheckInContext(plate: string): Promise<CheckInContext>;
+  createCheckInJob(data: CreateCheckIn): Promise<Job>;
   getJob(id: number): Promise<Job | undefined>;
   createJob(job: InsertJob): Promise<Job>;
   updateJob(id: number, job: Partial<InsertJob>): Promise<Job | undefined>;
   deleteJob(id: number): Promise<boolean>;
+  assignReceiptNumber(jobId: number): Promise<number | undefined>;
+  syncReceiptNumberSequence(executor?: DbExecutor): Promise<void>;
   
   // JobService methods
-  getJobServices(jobId: number): Promise<Service[]>;
+  getJobServices(jobId: number): Promise<JobService[]>;
   addJobService(jobService: InsertJobService): Promise<JobService>;
-  removeJobService(jobId: number, serviceId: number): Promise<boolean>;
+  updateJobService(jobId: number, lineId: number, jobService: Partial<InsertJobService>): Promise<JobService | undefined>;
+  removeJobService(jobId: number, lineId: number): Promise<boolean>;
+  backfillJobServiceSnapshots(executor?: DbExecutor): Promise<number>;
+  backfillJobServiceVatAmounts(executor?: DbExecutor): Promise<number>;
+  backfillVehiclePlates(executor?: DbExecutor): Promise<{ updated: number; duplicates: string[][] }>;
+  backfillJobServiceCommissions(jobId?: number, executor?: DbExecutor): Promise<number>;
+  
+  // Payment methods
+  getPayments(jobId: number): Promise<PaymentWithUser[]>;
+  getPayment(id: number): Promise<Payment | undefined>;
+  createPayment(payment: InsertPayment): Promise<Payment>;
+  updatePayment(id: number, payment: Partial<InsertPayment>): Promise<Payment | undefined>;
+  deletePayment(id: number): Promise<boolean>;
+  backfillPaymentsFromJobs(executor?: DbExecutor): Promise<number>;
+  backfillCashSessionLinks(executor?: DbExecutor): Promise<number>;
+  
+  // Wash bay methods
+  getWashBays(): Promise<WashBay[]>;
+  createWashBay(washBay: InsertWashBay): Promise<WashBay>;
+  updateWashBay(id: number, washBay: Partial<InsertWashBay>): Promise<WashBay | undefined>;
+  deleteWashBay(id: number): Promise<boolean>;
+  
+  // Appointment methods
+  getAppointments(startDate: Date, endDate: Date): Promise<AppointmentDetail[]>;
+  getAppointment(id: number): Promise<AppointmentDetail | undefined>;
+  createAppointment(appointment: Omit<InsertAppointment, "serviceIds">, serviceIds: number[]): Promise<Appointment>;
+  updateAppointment(id: number, appointment: Partial<Omit<InsertAppointment, "serviceIds">>, serviceIds?: number[]): Promise<Appointment | undefined>;
+  deleteAppointment(id: number): Promise<boolean>;
+  findOverlappingAppointments(bayId: number, startTime: Date, endTime: Date, excludeId?: number): Promise<Appointment[]>;
+  
+  // Subscription methods
+  getSubscriptionPlans(): Promise<SubscriptionPlanDetail[]>;
+  getSubscriptionPlan(id: number): Promise<SubscriptionPlanDetail | undefined>;
+  createSubscriptionPlan(plan: Omit<InsertSubscriptionPlan, "serviceIds">, serviceIds: number[]): Promise<SubscriptionPlan>;
+  updateSubscriptionPlan(id: number, plan: Partial<Omit<InsertSubscriptionPlan, "serviceIds">>, serviceIds?: number[]): Promise<SubscriptionPlan | undefined>;
+  deleteSubscriptionPlan(id: number): Promise<boolean>;
+  getCustomerSubscriptions(filter?: { customerId?: number; planId?: number }): Promise<CustomerSubscriptionDetail[]>;
+  getCustomerSubscription(id: number): Promise<CustomerSubscriptionDetail | undefined>;
+  createCustomerSubscription(subscription: InsertCustomerSubscription, plan: SubscriptionPlan): Promise<CustomerSubscription>;
+  updateCustomerSubscription(id: number, subscription: Partial<InsertCustomerSubscription>): Promise<CustomerSubscription | undefined>;
+  renewCustomerSubscription(id: number): Promise<CustomerSubscription | undefined>;
+  renewDueSubscriptions(): Promise<number>;
+  getSubscriptionReport(expiringDays: number): Promise<SubscriptionReport>;
   
   // User methods
   getUsers(): Promise<User[]>;
@@ -60,18 +215,88 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
   deleteUser(id: number): Promise<boolean>;
+  backfillUserRoles(): Promise<number>;
 
   // Expense methods
   getExpenses(): Promise<Expense[]>;
   getExpensesByCategory(category: string): Promise<Expense[]>;
-  getExpensesByDateRange(startDate: Date, endDate: Date): Promise<Expense[]>;
+  getExpensesByDateRange(startDate: string, endDate: string): Promise<Expense[]>;
   getExpense(id: number): Promise<Expense | undefined>;
   createExpense(expense: InsertExpense): Promise<Expense>;
   updateExpense(id: number, expense: Partial<InsertExpense>): Promise<Expense | undefined>;
   deleteExpense(id: number): Promise<boolean>;
 
+  // Cash register methods
+  getCashSessions(filter?: { userId?: number }): Promise<CashSessionDetail[]>;
+  getCashSession(id: number): Promise<CashSessionReport | undefined>;
+  getOpenCashSession(): Promise<CashSessionReport | undefined>;
+  openCashSession(data: OpenCashSession, userId: number): Promise<CashSession | undefined>;
+  addCashMovement(sessionId: number, movement: InsertCashMovement, userId: number): Promise<CashMovement | undefined>;
+  closeCashSession(id: number, data: CloseCashSession, userId: number): Promise<CashSession | undefined>;
+
+  // Loyalty methods
+  getLoyaltySummary(customerId: number): Promise<LoyaltySummary>;
+  getCustomerLoyalty(customerId: number): Promise<CustomerLoyalty>;
+
+  // Gift card methods
+  getGiftCards(): Promise<GiftCardDetail[]>;
+  getGiftCard(id: number): Promise<GiftCardReport | undefined>;
+  getGiftCardByCode(code: string): Promise<GiftCardDetail | undefined>;
+  createGiftCard(card: InsertGiftCard, userId: number): Promise<GiftCard | undefined>;
+  updateGiftCard(id: number, card: Partial<Pick<GiftCard, "customerId" | "isActive" | "notes">>): Promise<GiftCard | undefined>;
+  topUpGiftCard(id: number, topUp: GiftCardTopUp, userId: number): Promise<GiftCardTransaction | undefined>;
+  createGiftCardPayment(payment: InsertPayment & { giftCardId: number }): Promise<Payment | undefined>;
+  getGiftCardLiabilityReport(startDate: string, endDate: string): Promise<GiftCardLiabilityReport>;
+
+  // Corporate account methods
+  getCustomerServicePrices(customerId: number): Promise<CustomerServicePrice[]>;
+  setCustomerServicePrices(customerId: number, prices: { serviceId: number; price: string }[]): Promise<CustomerServicePrice[]>;
+  getAccountInvoices(filter?: { customerId?: number }): Promise<AccountInvoiceDetail[]>;
+  getAccountInvoice(id: number): Promise<AccountInvoiceReport | undefined>;
+  createAccountInvoice(data: CreateAccountInvoice, userId: number): Promise<AccountInvoice | undefined>;
+  cancelAccountInvoice(id: number): Promise<AccountInvoice | undefined>;
+  payAccountInvoice(id: number, payment: AccountInvoicePayment, userId: number): Promise<Payment[] | undefined>;
+  getReceivablesAging(): Promise<ReceivablesAging>;
+  
+  // Receivables methods
+  getOpenJobs(customerId: number): Promise<OpenJob[]>;
+  getOpenBalances(): Promise<OpenBalances>;
+  getCustomerStatement(customerId: number, startDate?: string, endDate?: string): Promise<CustomerStatement | undefined>;
+  settleCustomerJobs(customerId: number, settlement: CustomerSettlement, userId: number): Promise<Payment[] | undefined>;
+  
+  // Inventory methods
+  getInventoryProducts(): Promise<InventoryProductDetail[]>;
+  getInventoryProduct(id: number): Promise<InventoryProductReport | undefined>;
+  createInventoryProduct(product: InsertInventoryProduct): Promise<InventoryProduct>;
+  updateInventoryProduct(id: number, product: Partial<InsertInventoryProduct>): Promise<InventoryProduct | undefined>;
+  recordInventoryPurchase(productId: number, purchase: InventoryPurchase, userId: number): Promise<InventoryMovement>;
+  recordInventoryCount(productId: number, stockCount: InventoryStockCount, userId: number): Promise<InventoryMovement | undefined>;
+  getServiceConsumptions(serviceId?: number): Promise<ServiceConsumption[]>;
+  setServiceConsumptions(serviceId: number, items: { productId: number; quantity: string }[]): Promise<ServiceConsumption[]>;
+  getInventoryReport(startDate: string, endDate: string): Promise<InventoryReport>;
+  
+  // Staff and payroll methods
+  getStaffMembers(): Promise<StaffMember[]>;
+  getJobStaff(jobId: number): Promise<StaffMember[]>;
+  setJobStaff(jobId: number, userIds: number[]): Promise<StaffMember[]>;
+  getPayrollReport(period: string, startDate: string, endDate: string): Promise<PayrollReport>;
+  postPayroll(payroll: PostPayroll, startDate: string, endDate: string, userId: number): Promise<StaffPayout[]>;
+
+  // Job photo and damage methods
+  getJobPhotos(jobId: number): Promise<JobPhoto[]>;
+  getJobPhoto(jobId: number, photoId: number): Promise<JobPhoto | undefined>;
+  createJobPhoto(photo: Omit<JobPhoto, "id" | "createdAt">): Promise<JobPhoto>;
+  deleteJobPhoto(jobId: number, photoId: number): Promise<boolean>;
+  getJobDamageMarks(jobId: number): Promise<JobDamageMark[]>;
+  setJobDamageMarks(jobId: number, marks: JobDamageMarkInput[]): Promise<JobDamageMark[]>;
+
+  // Audit log methods (yalnızca ekleme ve okuma)
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(query: AuditLogQuery): Promise<AuditLogResult>;
+  getAuditEntityTypes(): Promise<string[]>;
+
   // Statistics methods
-  getDailyStats(date: Date): Promise<{
+  getDailyStats(date: string): Promise<{
     totalAmount: number;
     totalPaid: number;
     totalJobs: number;
@@ -84,12 +309,15 @@ export interface IStorage {
     total: number;
   }[]>;
   
-  getNetProfit(startDate: Date, endDate: Date): Promise<{
+  getNetProfit(startDate: string, endDate: string): Promise<{
     totalRevenue: number;
     totalExpenses: number;
     netProfit: number;
   }>;
   
+  getVatReport(startDate: string, endDate: string): Promise<VatReport>;
+  getRevenueReport(startDate: string, endDate: string, groupBy: RevenueReportGroupBy, compare: boolean): Promise<RevenueReport>;
+  
   // Backup & Restore methods
   exportBackup(): Promise<{
     customers: Customer[];
@@ -97,28 +325,164 @@ export interface IStorage {
     services: Service[];
     jobs: Job[];
     jobServices: JobService[];
+    payments: Payment[];
+    washBays: WashBay[];
+    appointments: Appointment[];
+    appointmentServices: { appointmentId: number; serviceId: number }[];
+    subscriptionPlans: SubscriptionPlan[];
+    subscriptionPlanServices: { planId: number; serviceId: number }[];
+    customerSubscriptions: CustomerSubscription[];
     users: User[];
     expenses: Expense[];
+    cashSessions: CashSession[];
+    cashMovements: CashMovement[];
+    loyaltyTransactions: LoyaltyTransaction[];
+    giftCards: GiftCard[];
+    giftCardTransactions: GiftCardTransaction[];
+    customerServicePrices: CustomerServicePrice[];
+    accountInvoices: AccountInvoice[];
+    inventoryProducts: InventoryProduct[];
+    inventoryMovements: InventoryMovement[];
+    serviceConsumptions: ServiceConsumption[];
+    jobStaff: { jobId: number; userId: number }[];
+    staffPayouts: StaffPayout[];
+    jobPhotos: JobPhoto[];
+    jobPhotoFiles: JobPhotoBackupFile[];
+    jobDamageMarks: JobDamageMark[];
     timestamp: string;
     version: string;
   }>;
   
-  importBackup(data: {
-    customers: Customer[];
-    vehicles: Vehicle[];
-    services: Service[];
-    jobs: Job[];
-    jobServices: JobService[];
-    users: User[];
-    expenses: Expense[];
-    timestamp: string;
-    version: string;
-  }): Promise<boolean>;
+  importBackup(data: BackupFile, options?: { dryRun?: boolean; user?: Pick<User, "id" | "username"> }): Promise<BackupRestoreReport>;
   
   // Settings methods
   getSetting(key: string): Promise<string | undefined>;
-  setSetting(key: string, value: string): Promise<void>;
+  setSetting(key: string, value: string, executor?: DbExecutor): Promise<void>;
   getAllSettings(): Promise<Setting[]>;
+  getAppSettings(): Promise<AppSettings>;
+  updateAppSettings(values: Partial<AppSettings>): Promise<AppSettings>;
+}
+
+// Geri yüklemede tek sorguda eklenecek en fazla satır (parametre sınırı için)
+const BACKUP_INSERT_CHUNK_SIZE = 500;
+
+// Geri yüklemeden sonra ID sayacı güncellenecek tablolar
+const SERIAL_BACKUP_TABLES = [
+  "customers", "vehicles", "services", "jobs", "job_services", "payments",
+  "wash_bays", "appointments", "subscription_plans", "customer_subscriptions", "users", "expenses",
+  "cash_sessions", "cash_movements", "loyalty_transactions", "gift_cards", "gift_card_transactions",
+  "account_invoices", "inventory_products", "inventory_movements", "staff_payouts",
+  "job_photos",
+];
+
+// Geri yüklenen tablo: satırlar tablonun kendi ekleme tipiyle parça parça eklenir
+type RestoreTable = {
+  name: string;
+  table: PgTable;
+  rows: readonly object[];
+  insertRows(tx: DbExecutor): Promise<void>;
+};
+
+function restoreTable<T extends PgTable>(name: string, table: T, rows: T["$inferInsert"][]): RestoreTable {
+  return {
+    name,
+    table,
+    rows,
+    async insertRows(tx) {
+      for (let i = 0; i < rows.length; i += BACKUP_INSERT_CHUNK_SIZE) {
+        await tx.insert(table).values(rows.slice(i, i + BACKUP_INSERT_CHUNK_SIZE));
+      }
+    },
+  };
+}
+
+// Mevcut ve yedekteki satırları ID (veya bileşik anahtar) üzerinden karşılaştır
+function compareBackupRows(table: string, currentRows: object[], incomingRows: readonly object[]): BackupTableReport {
+  const rowKey = (row: object) =>
+    "id" in row ? String(row.id) : Object.values(row).join("-");
+  const currentKeys = new Set(currentRows.map(rowKey));
+  const incomingKeys = new Set(incomingRows.map(rowKey));
+  const updated = Array.from(incomingKeys).filter(key => currentKeys.has(key)).length;
+  
+  return {
+    table,
+    current: currentKeys.size,
+    incoming: incomingKeys.size,
+    added: incomingKeys.size - updated,
+    updated,
+    removed: currentKeys.size - updated,
+  };
+}
+
+// Yedekteki kopuk ilişkileri bul. Canlı veride de bulunabildikleri için
+// geri yüklemeyi engellemezler, yalnızca raporlanırlar.
+function findBackupReferenceWarnings(data: BackupFile): string[] {
+  const warnings: string[] = [];
+  const check = (label: string, refs: (number | null)[], ids: Set<number>) => {
+    const missing = refs.filter(ref => ref !== null && !ids.has(ref)).length;
+    if (missing > 0) {
+      warnings.push(`${missing} ${label} yedekte bulunmayan bir kayda bağlı`);
+    }
+  };
+  
+  const customerIds = new Set(data.customers.map(row => row.id));
+  const vehicleIds = new Set(data.vehicles.map(row => row.id));
+  const serviceIds = new Set(data.services.map(row => row.id));
+  const jobIds = new Set(data.jobs.map(row => row.id));
+  const appointmentIds = new Set(data.appointments.map(row => row.id));
+  const planIds = new Set(data.subscriptionPlans.map(row => row.id));
+  const subscriptionIds = new Set(data.customerSubscriptions.map(row => row.id));
+  const cashSessionIds = new Set(data.cashSessions.map(row => row.id));
+  const giftCardIds = new Set(data.giftCards.map(row => row.id));
+  const invoiceIds = new Set(data.accountInvoices.map(row => row.id));
+  const productIds = new Set(data.inventoryProducts.map(row => row.id));
+  const expenseIds = new Set(data.expenses.map(row => row.id));
+  const userIds = new Set(data.users.map(row => row.id));
+  
+  check("araç kaydı (müşteri)", data.vehicles.map(row => row.customerId), customerIds);
+  check("iş emri (müşteri)", data.jobs.map(row => row.customerId), customerIds);
+  check("iş emri (araç)", data.jobs.map(row => row.vehicleId), vehicleIds);
+  check("iş satırı (iş emri)", data.jobServices.map(row => row.jobId), jobIds);
+  check("iş satırı (hizmet)", data.jobServices.map(row => row.serviceId), serviceIds);
+  check("ödeme (iş emri)", data.payments.map(row => row.jobId), jobIds);
+  check("randevu (müşteri)", data.appointments.map(row => row.customerId), customerIds);
+  check("randevu (araç)", data.appointments.map(row => row.vehicleId), vehicleIds);
+  check("randevu hizmeti (randevu)", data.appointmentServices.map(row => row.appointmentId), appointmentIds);
+  check("paket hizmeti (paket)", data.subscriptionPlanServices.map(row => row.planId), planIds);
+  check("üyelik (müşteri)", data.customerSubscriptions.map(row => row.customerId), customerIds);
+  check("üyelik (paket)", data.customerSubscriptions.map(row => row.planId), planIds);
+  check("iş satırı (üyelik)", data.jobServices.map(row => row.subscriptionId), subscriptionIds);
+  check("gider (kasa oturumu)", data.expenses.map(row => row.cashSessionId), cashSessionIds);
+  check("kasa hareketi (kasa oturumu)", data.cashMovements.map(row => row.sessionId), cashSessionIds);
+  check("ödeme (kasa oturumu)", data.payments.map(row => row.cashSessionId), cashSessionIds);
+  check("hediye kartı hareketi (kasa oturumu)", data.giftCardTransactions.map(row => row.cashSessionId), cashSessionIds);
+  check("sadakat hareketi (müşteri)", data.loyaltyTransactions.map(row => row.customerId), customerIds);
+  check("ödeme (hediye kartı)", data.payments.map(row => row.giftCardId), giftCardIds);
+  check("hediye kartı (müşteri)", data.giftCards.map(row => row.customerId), customerIds);
+  check("hediye kartı hareketi (kart)", data.giftCardTransactions.map(row => row.cardId), giftCardIds);
+  check("anlaşmalı fiyat (müşteri)", data.customerServicePrices.map(row => row.customerId), customerIds);
+  check("anlaşmalı fiyat (hizmet)", data.customerServicePrices.map(row => row.serviceId), serviceIds);
+  check("cari hesap faturası (müşteri)", data.accountInvoices.map(row => row.customerId), customerIds);
+  check("iş emri (fatura)", data.jobs.map(row => row.invoiceId), invoiceIds);
+  check("iş emri (üyelik)", data.jobs.map(row => row.subscriptionId), subscriptionIds);
+  check("stok hareketi (ürün)", data.inventoryMovements.map(row => row.productId), productIds);
+  check("stok hareketi (gider)", data.inventoryMovements.map(row => row.expenseId), expenseIds);
+  check("hizmet reçetesi (hizmet)", data.serviceConsumptions.map(row => row.serviceId), serviceIds);
+  check("hizmet reçetesi (ürün)", data.serviceConsumptions.map(row => row.productId), productIds);
+  check("iş personeli (iş emri)", data.jobStaff.map(row => row.jobId), jobIds);
+  check("iş personeli (kullanıcı)", data.jobStaff.map(row => row.userId), userIds);
+  check("prim ödemesi (kullanıcı)", data.staffPayouts.map(row => row.userId), userIds);
+  check("prim ödemesi (gider)", data.staffPayouts.map(row => row.expenseId), expenseIds);
+  check("iş fotoğrafı (iş emri)", data.jobPhotos.map(row => row.jobId), jobIds);
+  check("hasar kaydı (iş emri)", data.jobDamageMarks.map(row => row.jobId), jobIds);
+  
+  const photoFileNames = new Set(data.jobPhotoFiles.map(file => file.fileName));
+  const missingPhotoFiles = data.jobPhotos.filter(photo => !photoFileNames.has(photo.fileName)).length;
+  if (missingPhotoFiles > 0) {
+    warnings.push(`${missingPhotoFiles} iş fotoğrafının dosyası yedekte bulunmuyor`);
+  }
+  
+  return warnings;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -200,18 +564,68 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
   
+  // Boşluk, tire ve harf büyüklüğünden bağımsız arama: "34abc123" ile "34 ABC 123" aynı araçtır
   async getVehicleByPlate(plate: string): Promise<Vehicle | undefined> {
-    const result = await db.select().from(vehicles).where(eq(vehicles.plate, plate));
+    const result = await db.select().from(vehicles)
+      .where(sql`${normalizedPlateSql} = ${normalizePlate(plate)}`)
+      .orderBy(asc(vehicles.id))
+      .limit(1);
     return result[0];
   }
   
+  // Okuma hatalarına toleranslı arama: en yakın plaka tek başına en yakınsa eşleşir, eşitlikte sonuç dönmez.
+  // Tüm adaylar tek sorguyla yüklenen araçlarla karşılaştırılır; ilk eşleşen adayın sırası da döner.
+  async findVehicleBySimilarPlate(plates: string[], maxDistance: number): Promise<{ vehicle: Vehicle; index: number } | undefined> {
+    if (plates.length === 0) return undefined;
+    
+    // Uzaklık en az uzunluk farkı kadardır; uzunluğu aralık dışında kalan plakalar baştan elenir
+    const lengths = plates.map(plate => normalizePlate(plate).length);
+    const minLength = Math.min(...lengths) - maxDistance;
+    const maxLength = Math.max(...lengths) + maxDistance;
+    const rows = await db
+      .select({ id: vehicles.id, plate: vehicles.plate })
+      .from(vehicles)
+      .where(sql`LENGTH(${normalizedPlateSql}) BETWEEN ${minLength} AND ${maxLength}`);
+    
+    // Adaylar sırayla denenir; aynı uzaklıkta birden fazla araç varsa aday belirsiz sayılır
+    for (let index = 0; index < plates.length; index++) {
+      let bestId: number | undefined;
+      let bestDistance = maxDistance + 1;
+      let isAmbiguous = false;
+      for (const row of rows) {
+        const distance = plateDistance(plates[index], row.plate);
+        if (distance < bestDistance) {
+          bestId = row.id;
+          bestDistance = distance;
+          isAmbiguous = false;
+        } else if (distance === bestDistance) {
+          isAmbiguous = true;
+        }
+      }
+      
+      const vehicle = bestId !== undefined && !isAmbiguous ? await this.getVehicle(bestId) : undefined;
+      if (vehicle) {
+        return { vehicle, index };
+      }
+    }
+    
+    return undefined;
+  }
+  
   async createVehicle(vehicle: InsertVehicle): Promise<Vehicle> {
-    const result = await db.insert(vehicles).values(vehicle).returning();
+    const result = await db.insert(vehicles).values({
+      ...vehicle,
+      plate: formatPlate(vehicle.plate),
+      plateNormalized: normalizePlate(vehicle.plate),
+    }).returning();
     return result[0];
   }
   
   async updateVehicle(id: number, vehicle: Partial<InsertVehicle>): Promise<Vehicle | undefined> {
-    const result = await db.update(vehicles).set(vehicle).where(eq(vehicles.id, id)).returning();
+    const plateFields = vehicle.plate !== undefined
+      ? { plate: formatPlate(vehicle.plate), plateNormalized: normalizePlate(vehicle.plate) }
+      : {};
+    const result = await db.update(vehicles).set({ ...vehicle, ...plateFields }).where(eq(vehicles.id, id)).returning();
     return result[0];
   }
   
@@ -225,6 +639,43 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  // Karşılaştırma plakası aynı olan araç grupları; eski kayıtlarda birleştirilmeyi bekleyen çiftler
+  async getDuplicateVehicles(): Promise<Vehicle[][]> {
+    const allVehicles = await db.select().from(vehicles).orderBy(asc(vehicles.id));
+    const groups = new Map<string, Vehicle[]>();
+    for (const vehicle of allVehicles) {
+      const key = vehicle.plateNormalized ?? normalizePlate(vehicle.plate);
+      groups.set(key, [...(groups.get(key) ?? []), vehicle]);
+    }
+    return Array.from(groups.values()).filter(group => group.length > 1);
+  }
+  
+  // Kaynak araçların iş, randevu ve üyelikleri hedef araca taşınır, kaynaklar silinir.
+  // Plaka çakışması kalmadıysa hedefin karşılaştırma plakası doldurulur.
+  async mergeVehicles(targetId: number, sourceIds: number[]): Promise<Vehicle | undefined> {
+    return await db.transaction(async (tx) => {
+      const [target] = await tx.select().from(vehicles).where(eq(vehicles.id, targetId));
+      if (!target) return undefined;
+      
+      await tx.update(jobs).set({ vehicleId: targetId }).where(inArray(jobs.vehicleId, sourceIds));
+      await tx.update(appointments).set({ vehicleId: targetId }).where(inArray(appointments.vehicleId, sourceIds));
+      await tx.update(customerSubscriptions).set({ vehicleId: targetId }).where(inArray(customerSubscriptions.vehicleId, sourceIds));
+      await tx.delete(vehicles).where(inArray(vehicles.id, sourceIds));
+      
+      if (target.plateNormalized !== null) return target;
+      const plateNormalized = normalizePlate(target.plate);
+      const [remaining] = await tx.select({ count: count() }).from(vehicles)
+        .where(sql`${normalizedPlateSql} = ${plateNormalized}`);
+      if (Number(remaining.count) > 1) return target;
+      
+      const [updated] = await tx.update(vehicles).set({
+        plate: isValidPlate(target.plate) ? formatPlate(target.plate) : target.plate,
+        plateNormalized,
+      }).where(eq(vehicles.id, targetId)).returning();
+      return updated;
+    });
+  }
+  
   // Service methods
   async getServices(): Promise<Service[]> {
     return await db.select().from(services).orderBy(desc(services.id));
@@ -247,6 +698,9 @@ export class DatabaseStorage implements IStorage {
   
   async deleteService(id: number): Promise<boolean> {
     try {
+      // Silinen hizmetin anlaşmalı fiyatları ve reçetesi de kaldırılır
+      await db.delete(customerServicePrices).where(eq(customerServicePrices.serviceId, id));
+      await db.delete(serviceConsumptions).where(eq(serviceConsumptions.serviceId, id));
       await db.delete(services).where(eq(services.id, id));
       return true;
     } catch (error) {
@@ -274,20 +728,16 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(jobs).orderBy(desc(jobs.createdAt), desc(jobs.id));
   }
   
-  async getJobsByDate(date: Date): Promise<Job[]> {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
+  async getJobsByDate(date: string): Promise<Job[]> {
+    const { start, end } = await this.resolveBusinessDays(date);
     
     return await db
       .select()
       .from(jobs)
       .where(
         and(
-          sql`${jobs.createdAt} >= ${startOfDay}`,
-          sql`${jobs.createdAt} <= ${endOfDay}`
+          sql`${jobs.createdAt} >= ${start}`,
+          sql`${jobs.createdAt} < ${end}`
         )
       )
       .orderBy(desc(jobs.createdAt), desc(jobs.id));
@@ -301,6 +751,307 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(jobs.createdAt), desc(jobs.id));
   }
   
+  // Müşteri ve araç bilgileriyle birleştirilmiş, filtrelenmiş ve sayfalanmış iş listesi
+  async getJobList(query: JobListQuery): Promise<JobListResult> {
+    const conditions: SQL[] = [];
+    
+    if (query.status) {
+      conditions.push(eq(jobs.status, query.status));
+    }
+    if (query.paymentMethod) {
+      conditions.push(sql`EXISTS (
+        SELECT 1 FROM ${payments}
+        WHERE ${payments.jobId} = ${jobs.id} AND ${payments.method} = ${query.paymentMethod}
+      )`);
+    }
+    if (query.dateFrom) {
+      const { start } = await this.resolveBusinessDays(query.dateFrom);
+      conditions.push(sql`${jobs.createdAt} >= ${start}`);
+    }
+    if (query.dateTo) {
+      const { end } = await this.resolveBusinessDays(query.dateTo);
+      conditions.push(sql`${jobs.createdAt} < ${end}`);
+    }
+    if (query.customerId) {
+      conditions.push(eq(jobs.customerId, query.customerId));
+    }
+    if (query.plate) {
+      // Boşluklar yok sayılır: "34abc123" ile "34 ABC 123" eşleşir
+      const plate = escapeLikePattern(normalizePlate(query.plate));
+      conditions.push(sql`${normalizedPlateSql} LIKE ${`%${plate}%`}`);
+    }
+    if (query.q) {
+      const pattern = `%${escapeLikePattern(query.q)}%`;
+      conditions.push(sql`(
+        ${vehicles.plate} ILIKE ${pattern}
+        OR ${normalizedPlateSql} LIKE ${`%${escapeLikePattern(normalizePlate(query.q))}%`}
+        OR ${vehicles.brand} ILIKE ${pattern}
+        OR ${vehicles.model} ILIKE ${pattern}
+        OR ${customers.name} ILIKE ${pattern}
+        OR ${customers.phone} ILIKE ${pattern}
+        OR CAST(${jobs.id} AS TEXT) = ${query.q}
+      )`);
+    }
+    
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const sortColumns: Record<JobListSortField, SQL> = {
+      id: sql`${jobs.id}`,
+      plate: sql`${vehicles.plate}`,
+      vehicle: sql`CONCAT(${vehicles.brand}, ' ', ${vehicles.model})`,
+      customer: sql`${customers.name}`,
+      total: sql`${jobs.totalAmount}`,
+      paid: sql`${jobs.paidAmount}`,
+      remaining: sql`(${jobs.totalAmount} - ${jobs.paidAmount})`,
+      date: sql`${jobs.createdAt}`,
+      status: sql`${jobs.status}`,
+    };
+    const direction = query.order === "asc" ? asc : desc;
+    
+    const items = await db
+      .select({
+        job: jobs,
+        customerName: customers.name,
+        customerPhone: customers.phone,
+        vehiclePlate: vehicles.plate,
+        vehicleBrand: vehicles.brand,
+        vehicleModel: vehicles.model,
+      })
+      .from(jobs)
+      .leftJoin(customers, eq(customers.id, jobs.customerId))
+      .leftJoin(vehicles, eq(vehicles.id, jobs.vehicleId))
+      .where(where)
+      .orderBy(direction(sortColumns[query.sort]), direction(jobs.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(jobs)
+      .leftJoin(customers, eq(customers.id, jobs.customerId))
+      .leftJoin(vehicles, eq(vehicles.id, jobs.vehicleId))
+      .where(where);
+    
+    return {
+      items: items.map(({ job, ...details }) => ({ ...job, ...details })),
+      total,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+  
+  // Panoda günün işleri ile önceki günlerden kalan bekleyen / devam eden işler gösterilir
+  async getJobBoard(date: string): Promise<JobBoardItem[]> {
+    const { start, end } = await this.resolveBusinessDays(date);
+    
+    const rows = await db
+      .select({
+        id: jobs.id,
+        status: jobs.status,
+        plate: vehicles.plate,
+        brand: vehicles.brand,
+        model: vehicles.model,
+        customerName: customers.name,
+        notes: jobs.notes,
+        createdAt: jobs.createdAt,
+        statusChangedAt: jobs.statusChangedAt
+      })
+      .from(jobs)
+      .leftJoin(customers, eq(customers.id, jobs.customerId))
+      .leftJoin(vehicles, eq(vehicles.id, jobs.vehicleId))
+      .where(or(
+        inArray(jobs.status, ["bekliyor", "devam_ediyor"]),
+        and(
+          eq(jobs.status, "tamamlandi"),
+          sql`${jobs.createdAt} >= ${start}`,
+          sql`${jobs.createdAt} < ${end}`
+        )
+      ))
+      .orderBy(asc(jobs.createdAt));
+    if (rows.length === 0) return [];
+    
+    const jobIds = rows.map(row => row.id);
+    const lines = await db
+      .select({ jobId: jobServices.jobId, label: jobServices.label, quantity: jobServices.quantity, unitPrice: jobServices.unitPrice })
+      .from(jobServices)
+      .where(inArray(jobServices.jobId, jobIds))
+      .orderBy(jobServices.id);
+    const staff = await db
+      .select({ jobId: jobStaff.jobId, fullName: users.fullName })
+      .from(jobStaff)
+      .innerJoin(users, eq(jobStaff.userId, users.id))
+      .where(inArray(jobStaff.jobId, jobIds));
+    
+    return rows.map(row => ({
+      id: row.id,
+      status: row.status,
+      plate: row.plate ?? "",
+      vehicle: [row.brand, row.model].filter(Boolean).join(" "),
+      customerName: row.customerName ?? "",
+      // İndirim satırları (eksi fiyatlı) panoda gösterilmez
+      services: lines
+        .filter(line => line.jobId === row.id && Number(line.unitPrice) >= 0)
+        .map(line => line.quantity > 1 ? `${line.label} x${line.quantity}` : line.label),
+      staff: staff.filter(member => member.jobId === row.id).map(member => member.fullName),
+      notes: row.notes,
+      createdAt: row.createdAt,
+      statusChangedAt: row.statusChangedAt
+    }));
+  }
+  
+  async getCheckInContext(plate: string): Promise<CheckInContext> {
+    const vehicle = await this.getVehicleByPlate(plate);
+    const context: CheckInContext = {
+      plate: vehicle?.plate ?? formatPlate(plate),
+      isValidPlate: isValidPlate(plate),
+      vehicle: vehicle ?? null,
+      customer: null,
+      activeJob: null,
+      recentVisits: [],
+      openBalance: 0,
+      openJobCount: 0,
+      usualServices: []
+    };
+    if (!vehicle) return context;
+    
+    const customer = await this.getCustomer(vehicle.customerId);
+    context.customer = customer ?? null;
+    
+    const openJobs = await this.getOpenJobs(vehicle.customerId);
+    context.openBalance = openJobs.reduce((total, job) => total + job.remaining, 0);
+    context.openJobCount = openJobs.length;
+    
+    const visitRows = await db
+      .select({ id: jobs.id, status: jobs.status, totalAmount: jobs.totalAmount, createdAt: jobs.createdAt })
+      .from(jobs)
+      .where(eq(jobs.vehicleId, vehicle.id))
+      .orderBy(desc(jobs.createdAt), desc(jobs.id))
+      .limit(CHECK_IN_VISIT_LIMIT);
+    if (visitRows.length === 0) return context;
+    
+    const lines = await db
+      .select({
+        jobId: jobServices.jobId,
+        serviceId: jobServices.serviceId,
+        label: jobServices.label,
+        quantity: jobServices.quantity,
+        unitPrice: jobServices.unitPrice,
+        loyaltyStamps: jobServices.loyaltyStamps
+      })
+      .from(jobServices)
+      .where(inArray(jobServices.jobId, visitRows.map(row => row.id)))
+      .orderBy(jobServices.id);
+    
+    const visits: CheckInVisit[] = visitRows.map(row => ({
+      ...row,
+      // İndirim satırları (eksi fiyatlı) listelenmez
+      services: lines
+        .filter(line => line.jobId === row.id && Number(line.unitPrice) >= 0)
+        .map(line => line.quantity > 1 ? `${line.label} x${line.quantity}` : line.label)
+    }));
+    context.activeJob = visits.find(visit => visit.status === "bekliyor" || visit.status === "devam_ediyor") ?? null;
+    context.recentVisits = visits.filter(visit => visit.id !== context.activeJob?.id && visit.status !== "iptal");
+    
+    // Sık alınan hizmetler: iptal edilmemiş ziyaretlerde kaç işte alındığına göre sıralanır
+    const countedJobIds = new Set(context.recentVisits.map(visit => visit.id));
+    const jobIdsByService = new Map<number, Set<number>>();
+    for (const line of lines) {
+      if (line.serviceId === null || !countedJobIds.has(line.jobId) || Number(line.unitPrice) < 0 || line.loyaltyStamps > 0) continue;
+      jobIdsByService.set(line.serviceId, (jobIdsByService.get(line.serviceId) ?? new Set()).add(line.jobId));
+    }
+    if (jobIdsByService.size === 0) return context;
+    
+    const serviceRows = await db
+      .select()
+      .from(services)
+      .where(inArray(services.id, Array.from(jobIdsByService.keys())));
+    const negotiatedPrices = customer?.isCorporate
+      ? new Map((await this.getCustomerServicePrices(customer.id)).map(price => [price.serviceId, price.price]))
+      : new Map<number, string>();
+    
+    context.usualServices = serviceRows
+      .map((service): CheckInUsualService => ({
+        serviceId: service.id,
+        name: service.name,
+        price: negotiatedPrices.get(service.id) ?? service.price,
+        count: jobIdsByService.get(service.id)?.size ?? 0
+      }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name, "tr"))
+      .slice(0, CHECK_IN_USUAL_SERVICE_LIMIT);
+    
+    return context;
+  }
+  
+  // Hızlı kabul: gerekirse müşteri ve aracı açar, seçilen hizmetlerle bekleyen bir iş emri oluşturur
+  // Müşteri, araç, iş emri ve satırlar tek işlemde yazılır; herhangi biri başarısız olursa
+  // (örn. aynı anda aynı plakayla açılan araç) yarım kalan müşteri, araç veya boş iş emri oluşmaz
+  async createCheckInJob(data: CreateCheckIn): Promise<Job> {
+    const existingVehicle = data.vehicleId ? await this.getVehicle(data.vehicleId) : undefined;
+    if (!existingVehicle && !data.newVehicle) {
+      throw new Error("Araç bulunamadı");
+    }
+    const existingCustomerId = existingVehicle?.customerId ?? data.customerId;
+    const existingCustomer = existingCustomerId ? await this.getCustomer(existingCustomerId) : undefined;
+    if (!existingCustomer && !data.newCustomer) {
+      throw new Error("Müşteri bulunamadı");
+    }
+    
+    // Satır fiyatı ve KDV oranı, satış anındaki hizmet bilgisinden kopyalanır; kurumsal müşterinin anlaşmalı fiyatı önce gelir
+    const negotiatedPrices = existingCustomer?.isCorporate
+      ? await db.select().from(customerServicePrices).where(eq(customerServicePrices.customerId, existingCustomer.id))
+      : [];
+    const lines: Omit<typeof jobServices.$inferInsert, "jobId">[] = [];
+    for (const serviceId of data.serviceIds) {
+      const service = await this.getService(serviceId);
+      if (!service) {
+        throw new Error("Hizmet bulunamadı");
+      }
+      const line = {
+        serviceId,
+        label: service.name,
+        unitPrice: negotiatedPrices.find(price => price.serviceId === serviceId)?.price ?? service.price,
+        quantity: 1,
+        discount: "0",
+        vatRate: service.vatRate
+      };
+      lines.push({ ...line, ...calculateJobLineVat(line) });
+    }
+    const totalAmount = lines.reduce((total, line) => total + Number(line.grossAmount), 0);
+    
+    return await db.transaction(async (tx) => {
+      let customer = existingCustomer;
+      if (!customer && data.newCustomer) {
+        [customer] = await tx.insert(customers).values({ name: data.newCustomer.name, phone: data.newCustomer.phone || null }).returning();
+      }
+      
+      let vehicle = existingVehicle;
+      if (!vehicle && data.newVehicle && customer) {
+        [vehicle] = await tx.insert(vehicles).values({
+          ...data.newVehicle,
+          customerId: customer.id,
+          plate: formatPlate(data.newVehicle.plate),
+          plateNormalized: normalizePlate(data.newVehicle.plate),
+        }).returning();
+      }
+      if (!vehicle || !customer) {
+        throw new Error("Araç bulunamadı");
+      }
+      
+      // Kurumsal müşterinin işi, iş emri formundaki gibi varsayılan olarak cari hesaba yazılır
+      const [job] = await tx.insert(jobs).values({
+        vehicleId: vehicle.id,
+        customerId: vehicle.customerId,
+        totalAmount: totalAmount.toFixed(2),
+        status: "bekliyor",
+        onAccount: customer.isCorporate,
+        notes: data.notes || null
+      }).returning();
+      if (lines.length > 0) {
+        await tx.insert(jobServices).values(lines.map(line => ({ ...line, jobId: job.id })));
+      }
+      return job;
+    });
+  }
+  
   async getJob(id: number): Promise<Job | undefined> {
     const result = await db.select().from(jobs).where(eq(jobs.id, id));
     return result[0];
@@ -308,213 +1059,2555 @@ export class DatabaseStorage implements IStorage {
   
   async createJob(job: InsertJob): Promise<Job> {
     const result = await db.insert(jobs).values(job).returning();
+    await this.syncJobLoyalty(result[0].id);
+    await this.syncJobConsumption(result[0].id);
+    await this.backfillJobServiceCommissions(result[0].id);
     return result[0];
   }
   
   async updateJob(id: number, job: Partial<InsertJob>): Promise<Job | undefined> {
-    const result = await db.update(jobs).set(job).where(eq(jobs.id, id)).returning();
+    // Durum gerçekten değişiyorsa panodaki süre sayacı sıfırlanır
+    const statusChangedAt = job.status !== undefined
+      ? sql`CASE WHEN ${jobs.status} = ${job.status} THEN ${jobs.statusChangedAt} ELSE NOW() END`
+      : undefined;
+    const result = await db.update(jobs).set({ ...job, statusChangedAt }).where(eq(jobs.id, id)).returning();
+    if (result[0]) {
+      await this.syncJobLoyalty(id);
+      await this.syncJobConsumption(id);
+      await this.backfillJobServiceCommissions(id);
+    }
     return result[0];
   }
   
   async deleteJob(id: number): Promise<boolean> {
+    let deletedPhotos: JobPhoto[];
     try {
-      // Önce ilişkili hizmetleri sil
-      await db.delete(jobServices).where(eq(jobServices.jobId, id));
-      // Sonra işi sil
-      await db.delete(jobs).where(eq(jobs.id, id));
-      return true;
+      // Kayıtlar tek işlemde silinir; bir adım başarısız olursa iş ve bağlı kayıtları olduğu gibi kalır
+      deletedPhotos = await db.transaction(async (tx) => {
+        // Önce ilişkili hizmetleri ve ödemeleri sil
+        await tx.delete(jobServices).where(eq(jobServices.jobId, id));
+        await tx.delete(jobStaff).where(eq(jobStaff.jobId, id));
+        await tx.delete(jobDamageMarks).where(eq(jobDamageMarks.jobId, id));
+        const photos = await tx.delete(jobPhotos).where(eq(jobPhotos.jobId, id)).returning();
+        const deletedPayments = await tx.delete(payments).where(eq(payments.jobId, id)).returning();
+        await this.refundGiftCardPayments(deletedPayments, tx);
+        // Sonra işi sil
+        await tx.delete(jobs).where(eq(jobs.id, id));
+        // Kazanılan puanlar geri alınır, harcananlar iade edilir; tüketilen malzeme stoğa döner
+        await this.syncJobLoyalty(id, tx);
+        await this.syncJobConsumption(id, tx);
+        return photos;
+      });
     } catch (error) {
       console.error("İş silinirken hata oluştu:", error);
       return false;
     }
+    
+    // Fotoğraf dosyaları ancak silme kesinleştikten sonra kaldırılır; kalan dosya işin silinmesini geri almaz
+    for (const photo of deletedPhotos) {
+      try {
+        await deleteJobPhotoFiles(photo.fileName);
+      } catch (error) {
+        console.error(`İş fotoğrafı dosyası silinemedi: ${photo.fileName}`, error);
+      }
+    }
+    return true;
   }
   
-  // JobService methods
-  async getJobServices(jobId: number): Promise<Service[]> {
+  async assignReceiptNumber(jobId: number): Promise<number | undefined> {
+    const job = await this.getJob(jobId);
+    if (!job) return undefined;
+    if (job.receiptNumber !== null) return job.receiptNumber;
+    
+    // Fiş numarası iş emrine bir kez, sayaçtaki sıradaki numara olarak verilir
     const result = await db
-      .select({
-        id: services.id,
-        name: services.name,
-        description: services.description,
-        price: services.price
-      })
-      .from(jobServices)
-      .innerJoin(services, eq(jobServices.serviceId, services.id))
-      .where(eq(jobServices.jobId, jobId));
+      .update(jobs)
+      .set({ receiptNumber: sql`nextval('receipt_number_seq')` })
+      .where(and(eq(jobs.id, jobId), isNull(jobs.receiptNumber)))
+      .returning();
     
-    return result;
+    // Aynı anda başka bir istek numarayı vermiş olabilir
+    return result[0]?.receiptNumber ?? (await this.getJob(jobId))?.receiptNumber ?? undefined;
+  }
+  
+  // Sayaç, verilmiş en büyük fiş numarasının gerisinde kalmasın (eski kayıtlar ve geri yükleme için).
+  // Sayaç hiçbir zaman geri alınmaz; silinen işlerin numaraları yeniden kullanılmaz.
+  async syncReceiptNumberSequence(executor: DbExecutor = db): Promise<void> {
+    await executor.execute(sql`
+      SELECT setval('receipt_number_seq', GREATEST(
+        (SELECT COALESCE(MAX(receipt_number), 0) FROM jobs),
+        (SELECT CASE WHEN is_called THEN last_value ELSE last_value - 1 END FROM receipt_number_seq)
+      ) + 1, false)
+    `);
+  }
+  
+  // JobService methods
+  async getJobServices(jobId: number): Promise<JobService[]> {
+    return await db
+      .select()
+      .from(jobServices)
+      .where(eq(jobServices.jobId, jobId))
+      .orderBy(jobServices.id);
   }
   
   async addJobService(jobService: InsertJobService): Promise<JobService> {
-    const result = await db.insert(jobServices).values(jobService).returning();
-    return result[0];
+    const lineData = { ...jobService };
+    
+    // Fiyat, etiket veya KDV oranı verilmemişse, satış anındaki hizmet bilgisini kopyala
+    if (lineData.serviceId && (lineData.unitPrice === undefined || !lineData.label || lineData.vatRate === undefined)) {
+      const service = await this.getService(lineData.serviceId);
+      if (service) {
+        if (lineData.unitPrice === undefined) {
+          // Kurumsal müşterinin anlaşmalı fiyatı liste fiyatından önce gelir
+          lineData.unitPrice = await this.getNegotiatedPrice(lineData.jobId, service.id) ?? service.price;
+        }
+        if (!lineData.label) {
+          lineData.label = service.name;
+        }
+        if (lineData.vatRate === undefined) {
+          lineData.vatRate = service.vatRate;
+        }
+      }
+    }
+    
+    // Hizmete bağlı olmayan satırlarda varsayılan KDV oranı kullanılır
+    if (lineData.vatRate === undefined) {
+      lineData.vatRate = (await this.getAppSettings()).vatRate.toString();
+    }
+    
+    const line = {
+      unitPrice: lineData.unitPrice ?? "0",
+      quantity: lineData.quantity,
+      discount: lineData.discount ?? "0",
+      vatRate: lineData.vatRate,
+    };
+    validateJobLineDiscount(line);
+    const vatAmounts = calculateJobLineVat(line);
+    
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(jobServices).values({ ...lineData, ...vatAmounts }).returning();
+      await this.syncJobLines(lineData.jobId, tx);
+      return created;
+    });
   }
   
-  async removeJobService(jobId: number, serviceId: number): Promise<boolean> {
-    try {
-      await db
-        .delete(jobServices)
+  async updateJobService(jobId: number, lineId: number, jobService: Partial<InsertJobService>): Promise<JobService | undefined> {
+    const [existing] = await db
+      .select()
+      .from(jobServices)
+      .where(and(eq(jobServices.jobId, jobId), eq(jobServices.id, lineId)));
+    if (!existing) return undefined;
+    
+    // Fiyat, adet, indirim veya oran değişince KDV tutarlarını yeniden hesapla
+    validateJobLineDiscount({ ...existing, ...jobService });
+    const vatAmounts = calculateJobLineVat({ ...existing, ...jobService });
+    
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(jobServices)
+        .set({ ...jobService, ...vatAmounts })
         .where(
           and(
             eq(jobServices.jobId, jobId),
-            eq(jobServices.serviceId, serviceId)
+            eq(jobServices.id, lineId)
           )
-        );
-      return true;
+        )
+        .returning();
+      if (updated) {
+        await this.syncJobLines(jobId, tx);
+      }
+      return updated;
+    });
+  }
+  
+  async removeJobService(jobId: number, lineId: number): Promise<boolean> {
+    try {
+      return await db.transaction(async (tx) => {
+        const result = await tx
+          .delete(jobServices)
+          .where(
+            and(
+              eq(jobServices.jobId, jobId),
+              eq(jobServices.id, lineId)
+            )
+          )
+          .returning();
+        if (result.length > 0) {
+          await this.syncJobLines(jobId, tx);
+        }
+        return result.length > 0;
+      });
     } catch (error) {
       console.error("İş hizmeti kaldırılırken hata oluştu:", error);
       return false;
     }
   }
   
-  // User methods
-  async getUsers(): Promise<User[]> {
-    return await db.select().from(users).orderBy(desc(users.id));
+  // Satır değişikliğinin ardından, aynı işlem içinde: iş tutarı satırların KDV dahil tutarlarının toplamına
+  // eşitlenir, ardından bu tutara bağlı sadakat, stok tüketimi ve prim kopyaları güncellenir
+  private async syncJobLines(jobId: number, tx: Transaction): Promise<void> {
+    await tx.update(jobs).set({
+      totalAmount: sql`(
+        SELECT COALESCE(SUM(CAST(${jobServices.grossAmount} AS numeric)), 0)
+        FROM ${jobServices}
+        WHERE ${jobServices.jobId} = ${jobId}
+      )`
+    }).where(eq(jobs.id, jobId));
+    await this.syncJobLoyalty(jobId, tx);
+    await this.syncJobConsumption(jobId, tx);
+    await this.backfillJobServiceCommissions(jobId, tx);
   }
   
-  async getUser(id: number): Promise<User | undefined> {
-    const result = await db.select().from(users).where(eq(users.id, id));
-    return result[0];
+  // Fiyat kopyası olmadan kaydedilmiş eski satırları hizmet tablosundan doldur (veritabanı migrasyonu için)
+  async backfillJobServiceSnapshots(executor: DbExecutor = db): Promise<number> {
+    const result = await executor.execute(sql`
+      UPDATE job_services
+      SET label = services.name,
+          unit_price = services.price,
+          vat_rate = services.vat_rate
+      FROM services
+      WHERE job_services.service_id = services.id
+      AND job_services.label = ''
+    `);
+    return result.rowCount ?? 0;
   }
   
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    const result = await db.select().from(users).where(eq(users.username, username));
+  // Karşılaştırma plakası olmayan araçları doldur (veritabanı migrasyonu için).
+  // Aynı plakaya denk gelen kayıtlar otomatik birleştirilmez, boş bırakılıp listelenir.
+  async backfillVehiclePlates(executor: DbExecutor = db): Promise<{ updated: number; duplicates: string[][] }> {
+    const allVehicles = await executor.select({
+      id: vehicles.id,
+      plate: vehicles.plate,
+      plateNormalized: vehicles.plateNormalized,
+    }).from(vehicles).orderBy(asc(vehicles.id));
+    
+    const groups = new Map<string, typeof allVehicles>();
+    for (const vehicle of allVehicles) {
+      const key = vehicle.plateNormalized ?? normalizePlate(vehicle.plate);
+      groups.set(key, [...(groups.get(key) ?? []), vehicle]);
+    }
+    
+    let updated = 0;
+    const duplicates: string[][] = [];
+    for (const [plateNormalized, group] of Array.from(groups.entries())) {
+      if (group.length > 1) {
+        duplicates.push(group.map(vehicle => vehicle.plate));
+        continue;
+      }
+      
+      const [vehicle] = group;
+      if (vehicle.plateNormalized !== null) continue;
+      
+      // Geçerli plakalar gösterim biçimine çevrilir; yabancı/eski biçimli plakalar olduğu gibi kalır
+      await executor.update(vehicles).set({
+        plate: isValidPlate(vehicle.plate) ? formatPlate(vehicle.plate) : vehicle.plate,
+        plateNormalized,
+      }).where(eq(vehicles.id, vehicle.id));
+      updated++;
+    }
+    
+    return { updated, duplicates };
+  }
+  
+  // KDV tutarları hesaplanmamış satırları doldur (veritabanı migrasyonu için)
+  async backfillJobServiceVatAmounts(executor: DbExecutor = db): Promise<number> {
+    const result = await executor.execute(sql`
+      UPDATE job_services
+      SET gross_amount = amounts.gross,
+          net_amount = ROUND(amounts.gross / (1 + job_services.vat_rate / 100), 2),
+          vat_amount = amounts.gross - ROUND(amounts.gross / (1 + job_services.vat_rate / 100), 2)
+      FROM (
+        SELECT id, ROUND(GREATEST(unit_price * quantity - discount, 0), 2) AS gross
+        FROM job_services
+      ) AS amounts
+      WHERE job_services.id = amounts.id
+      AND job_services.gross_amount = 0
+      AND amounts.gross > 0
+    `);
+    return result.rowCount ?? 0;
+  }
+  
+  // Tamamlanan işlerin prim kuralı kopyalanmamış satırlarına hizmetin güncel kuralını yaz.
+  // İş tamamlandığında ve tamamlanmış işe satır eklendiğinde çağrılır; kopyalanan kural bir daha değişmez.
+  async backfillJobServiceCommissions(jobId?: number, executor: DbExecutor = db): Promise<number> {
+    const result = await executor.execute(sql`
+      UPDATE job_services
+      SET commission_type = services.commission_type, commission_value = services.commission_value
+      FROM services, jobs
+      WHERE services.id = job_services.service_id
+      AND jobs.id = job_services.job_id
+      AND jobs.status = 'tamamlandi'
+      AND job_services.commission_type IS NULL
+      ${jobId !== undefined ? sql`AND job_services.job_id = ${jobId}` : sql``}
+    `);
+    return result.rowCount ?? 0;
+  }
+  
+  // Payment methods
+  async getPayments(jobId: number): Promise<PaymentWithUser[]> {
+    return await db
+      .select({
+        id: payments.id,
+        jobId: payments.jobId,
+        amount: payments.amount,
+        method: payments.method,
+        userId: payments.userId,
+        giftCardId: payments.giftCardId,
+        cashSessionId: payments.cashSessionId,
+        createdAt: payments.createdAt,
+        userName: users.fullName,
+        giftCardCode: giftCards.code
+      })
+      .from(payments)
+      .leftJoin(users, eq(payments.userId, users.id))
+      .leftJoin(giftCards, eq(payments.giftCardId, giftCards.id))
+      .where(eq(payments.jobId, jobId))
+      .orderBy(payments.createdAt, payments.id);
+  }
+  
+  async getPayment(id: number): Promise<Payment | undefined> {
+    const result = await db.select().from(payments).where(eq(payments.id, id));
     return result[0];
   }
   
-  async createUser(user: InsertUser): Promise<User> {
-    const result = await db.insert(users).values(user).returning();
+  async createPayment(payment: InsertPayment): Promise<Payment> {
+    const result = await db.insert(payments).values({
+      ...payment,
+      // Nakit tahsilatlar açık kasa oturumuna eklenir
+      cashSessionId: payment.method === "nakit" ? await this.getOpenCashSessionId() : null
+    }).returning();
+    await this.syncJobPaidAmount(payment.jobId);
     return result[0];
   }
   
-  async updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined> {
-    const result = await db.update(users).set(user).where(eq(users.id, id)).returning();
+  async updatePayment(id: number, payment: Partial<InsertPayment>): Promise<Payment | undefined> {
+    const paymentData: Partial<Payment> = { ...payment };
+    
+    // Sonradan nakde çevrilen tahsilat henüz bir oturuma bağlı değilse açık oturuma bağla
+    if (payment.method === "nakit") {
+      const existing = await this.getPayment(id);
+      if (!existing) return undefined;
+      
+      if (existing.cashSessionId === null) {
+        paymentData.cashSessionId = await this.getOpenCashSessionId();
+      }
+    }
+    
+    const result = await db.update(payments).set(paymentData).where(eq(payments.id, id)).returning();
+    if (result[0]) {
+      await this.syncJobPaidAmount(result[0].jobId);
+    }
     return result[0];
   }
   
-  async deleteUser(id: number): Promise<boolean> {
+  async deletePayment(id: number): Promise<boolean> {
     try {
-      await db.delete(users).where(eq(users.id, id));
+      const result = await db.delete(payments).where(eq(payments.id, id)).returning();
+      if (result.length === 0) {
+        return false;
+      }
+      await this.refundGiftCardPayments(result);
+      await this.syncJobPaidAmount(result[0].jobId);
       return true;
     } catch (error) {
-      console.error("Kullanıcı silinirken hata oluştu:", error);
+      console.error("Ödeme silinirken hata oluştu:", error);
       return false;
     }
   }
-
-  // Expense methods
-  async getExpenses(): Promise<Expense[]> {
-    return await db.select().from(expenses).orderBy(desc(expenses.date));
-  }
   
-  async getExpensesByCategory(category: string): Promise<Expense[]> {
-    return await db
+  // İşin ödenen tutarını ve ödeme yöntemini ödeme kayıtlarından yeniden hesapla
+  private async syncJobPaidAmount(jobId: number, executor: DbExecutor = db): Promise<void> {
+    const jobPayments = await executor
       .select()
-      .from(expenses)
-      .where(eq(expenses.category, category))
-      .orderBy(desc(expenses.date));
+      .from(payments)
+      .where(eq(payments.jobId, jobId))
+      .orderBy(desc(payments.createdAt), desc(payments.id));
+    
+    const paidAmount = jobPayments.reduce((total, payment) => total + Number(payment.amount), 0);
+    const update: Partial<InsertJob> = { paidAmount: paidAmount.toString() };
+    
+    // İşin ödeme yöntemi olarak son tahsilatın yöntemini göster
+    if (jobPayments.length > 0) {
+      update.paymentMethod = jobPayments[0].method;
+    }
+    
+    await executor.update(jobs).set(update).where(eq(jobs.id, jobId));
   }
   
-  async getExpensesByDateRange(startDate: Date, endDate: Date): Promise<Expense[]> {
-    return await db
-      .select()
-      .from(expenses)
-      .where(
-        and(
-          sql`${expenses.date} >= ${startDate}`,
-          sql`${expenses.date} <= ${endDate}`
-        )
-      )
-      .orderBy(desc(expenses.date));
+  // Silinen hediye kartı tahsilatlarının tutarını karta iade et
+  private async refundGiftCardPayments(deletedPayments: Payment[], executor: DbExecutor = db): Promise<void> {
+    const refunds = deletedPayments
+      .filter(payment => payment.giftCardId !== null)
+      .map(payment => ({
+        cardId: payment.giftCardId!,
+        type: "iade",
+        amount: payment.amount,
+        paymentId: payment.id,
+        notes: `#${payment.jobId} iş emri tahsilatı silindi`
+      }));
+    if (refunds.length > 0) {
+      await executor.insert(giftCardTransactions).values(refunds);
+    }
   }
   
-  async getExpense(id: number): Promise<Expense | undefined> {
-    const result = await db.select().from(expenses).where(eq(expenses.id, id));
-    return result[0];
+  // Ödeme kaydı olmayan eski işlerin ödenen tutarını tek bir ödeme satırına dönüştür (veritabanı migrasyonu için)
+  async backfillPaymentsFromJobs(executor: DbExecutor = db): Promise<number> {
+    const result = await executor.execute(sql`
+      INSERT INTO payments (job_id, amount, method, created_at)
+      SELECT jobs.id, jobs.paid_amount, jobs.payment_method, jobs.created_at
+      FROM jobs
+      WHERE CAST(jobs.paid_amount AS numeric) > 0
+      AND NOT EXISTS (SELECT 1 FROM payments WHERE payments.job_id = jobs.id)
+    `);
+    return result.rowCount ?? 0;
+  }
+  
+  // Oturum bağlantısı olmayan eski nakit tahsilat ve kart yüklemelerini, alındıkları saatte açık olan oturuma bağla
+  async backfillCashSessionLinks(executor: DbExecutor = db): Promise<number> {
+    let updated = 0;
+    for (const table of [payments, giftCardTransactions]) {
+      const result = await executor.execute(sql`
+        UPDATE ${table} SET cash_session_id = (
+          SELECT cash_sessions.id FROM cash_sessions
+          WHERE cash_sessions.opened_at <= ${table}.created_at
+          AND (cash_sessions.closed_at IS NULL OR cash_sessions.closed_at > ${table}.created_at)
+          ORDER BY cash_sessions.opened_at DESC
+          LIMIT 1
+        )
+        WHERE ${table}.method = 'nakit'
+        AND ${table}.cash_session_id IS NULL
+        AND EXISTS (
+          SELECT 1 FROM cash_sessions
+          WHERE cash_sessions.opened_at <= ${table}.created_at
+          AND (cash_sessions.closed_at IS NULL OR cash_sessions.closed_at > ${table}.created_at)
+        )
+      `);
+      updated += result.rowCount ?? 0;
+    }
+    return updated;
+  }
+  
+  // Wash bay methods
+  async getWashBays(): Promise<WashBay[]> {
+    return await db.select().from(washBays).orderBy(washBays.id);
+  }
+  
+  async createWashBay(washBay: InsertWashBay): Promise<WashBay> {
+    const result = await db.insert(washBays).values(washBay).returning();
+    return result[0];
+  }
+  
+  async updateWashBay(id: number, washBay: Partial<InsertWashBay>): Promise<WashBay | undefined> {
+    const result = await db.update(washBays).set(washBay).where(eq(washBays.id, id)).returning();
+    return result[0];
+  }
+  
+  async deleteWashBay(id: number): Promise<boolean> {
+    try {
+      // Bu alana atanmış randevular atanmamış olarak kalsın
+      await db.update(appointments).set({ bayId: null }).where(eq(appointments.bayId, id));
+      const result = await db.delete(washBays).where(eq(washBays.id, id)).returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error("Yıkama alanı silinirken hata oluştu:", error);
+      return false;
+    }
+  }
+  
+  // Appointment methods
+  private async withAppointmentDetails(rows: (Appointment & { customerName: string | null; vehiclePlate: string | null })[]): Promise<AppointmentDetail[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+    
+    const serviceRows = await db
+      .select()
+      .from(appointmentServices)
+      .where(inArray(appointmentServices.appointmentId, rows.map(row => row.id)));
+    
+    return rows.map(row => ({
+      ...row,
+      serviceIds: serviceRows
+        .filter(serviceRow => serviceRow.appointmentId === row.id)
+        .map(serviceRow => serviceRow.serviceId)
+    }));
+  }
+  
+  private selectAppointmentDetails() {
+    return db
+      .select({
+        id: appointments.id,
+        customerId: appointments.customerId,
+        vehicleId: appointments.vehicleId,
+        bayId: appointments.bayId,
+        startTime: appointments.startTime,
+        durationMinutes: appointments.durationMinutes,
+        status: appointments.status,
+        notes: appointments.notes,
+        jobId: appointments.jobId,
+        createdAt: appointments.createdAt,
+        customerName: customers.name,
+        vehiclePlate: vehicles.plate
+      })
+      .from(appointments)
+      .leftJoin(customers, eq(appointments.customerId, customers.id))
+      .leftJoin(vehicles, eq(appointments.vehicleId, vehicles.id));
+  }
+  
+  async getAppointments(startDate: Date, endDate: Date): Promise<AppointmentDetail[]> {
+    const rows = await this.selectAppointmentDetails()
+      .where(
+        and(
+          sql`${appointments.startTime} >= ${startDate}`,
+          sql`${appointments.startTime} <= ${endDate}`
+        )
+      )
+      .orderBy(appointments.startTime);
+    
+    return await this.withAppointmentDetails(rows);
+  }
+  
+  async getAppointment(id: number): Promise<AppointmentDetail | undefined> {
+    const rows = await this.selectAppointmentDetails().where(eq(appointments.id, id));
+    const [result] = await this.withAppointmentDetails(rows);
+    return result;
+  }
+  
+  async createAppointment(appointment: Omit<InsertAppointment, "serviceIds">, serviceIds: number[]): Promise<Appointment> {
+    // Randevu ve hizmetleri birlikte yazılır; hizmetsiz veya eksik hizmetli randevu kalmaz
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(appointments).values({
+        ...appointment,
+        durationMinutes: appointment.durationMinutes ?? 30
+      }).returning();
+      
+      if (serviceIds.length > 0) {
+        await tx.insert(appointmentServices).values(serviceIds.map(serviceId => ({ appointmentId: created.id, serviceId })));
+      }
+      
+      return created;
+    });
+  }
+  
+  async updateAppointment(id: number, appointment: Partial<Omit<InsertAppointment, "serviceIds">>, serviceIds?: number[]): Promise<Appointment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx.update(appointments).set(appointment).where(eq(appointments.id, id)).returning();
+      
+      // Hizmet listesi verildiyse tamamen değiştir
+      if (updated && serviceIds) {
+        await tx.delete(appointmentServices).where(eq(appointmentServices.appointmentId, id));
+        if (serviceIds.length > 0) {
+          await tx.insert(appointmentServices).values(serviceIds.map(serviceId => ({ appointmentId: id, serviceId })));
+        }
+      }
+      
+      return updated;
+    });
+  }
+  
+  async deleteAppointment(id: number): Promise<boolean> {
+    try {
+      await db.delete(appointmentServices).where(eq(appointmentServices.appointmentId, id));
+      const result = await db.delete(appointments).where(eq(appointments.id, id)).returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error("Randevu silinirken hata oluştu:", error);
+      return false;
+    }
+  }
+  
+  async findOverlappingAppointments(bayId: number, startTime: Date, endTime: Date, excludeId?: number): Promise<Appointment[]> {
+    // İki aralık, biri diğeri bitmeden başlıyorsa çakışır
+    return await db
+      .select()
+      .from(appointments)
+      .where(
+        and(
+          eq(appointments.bayId, bayId),
+          ne(appointments.status, "iptal"),
+          excludeId !== undefined ? ne(appointments.id, excludeId) : undefined,
+          sql`${appointments.startTime} < ${endTime}`,
+          sql`${appointments.startTime} + (${appointments.durationMinutes} * interval '1 minute') > ${startTime}`
+        )
+      )
+      .orderBy(appointments.startTime);
+  }
+  
+  // Subscription methods
+  private async withPlanServices(plans: SubscriptionPlan[]): Promise<SubscriptionPlanDetail[]> {
+    if (plans.length === 0) {
+      return [];
+    }
+    
+    const serviceRows = await db
+      .select()
+      .from(subscriptionPlanServices)
+      .where(inArray(subscriptionPlanServices.planId, plans.map(plan => plan.id)));
+    
+    return plans.map(plan => ({
+      ...plan,
+      serviceIds: serviceRows
+        .filter(serviceRow => serviceRow.planId === plan.id)
+        .map(serviceRow => serviceRow.serviceId)
+    }));
+  }
+  
+  async getSubscriptionPlans(): Promise<SubscriptionPlanDetail[]> {
+    const plans = await db.select().from(subscriptionPlans).orderBy(subscriptionPlans.name);
+    return await this.withPlanServices(plans);
+  }
+  
+  async getSubscriptionPlan(id: number): Promise<SubscriptionPlanDetail | undefined> {
+    const plans = await db.select().from(subscriptionPlans).where(eq(subscriptionPlans.id, id));
+    const [result] = await this.withPlanServices(plans);
+    return result;
+  }
+  
+  async createSubscriptionPlan(plan: Omit<InsertSubscriptionPlan, "serviceIds">, serviceIds: number[]): Promise<SubscriptionPlan> {
+    const result = await db.insert(subscriptionPlans).values(plan).returning();
+    
+    for (const serviceId of serviceIds) {
+      await db.insert(subscriptionPlanServices).values({ planId: result[0].id, serviceId });
+    }
+    
+    return result[0];
+  }
+  
+  async updateSubscriptionPlan(id: number, plan: Partial<Omit<InsertSubscriptionPlan, "serviceIds">>, serviceIds?: number[]): Promise<SubscriptionPlan | undefined> {
+    const result = await db.update(subscriptionPlans).set(plan).where(eq(subscriptionPlans.id, id)).returning();
+    
+    // Hizmet listesi verildiyse tamamen değiştir
+    if (result[0] && serviceIds) {
+      await db.delete(subscriptionPlanServices).where(eq(subscriptionPlanServices.planId, id));
+      for (const serviceId of serviceIds) {
+        await db.insert(subscriptionPlanServices).values({ planId: id, serviceId });
+      }
+    }
+    
+    return result[0];
+  }
+  
+  async deleteSubscriptionPlan(id: number): Promise<boolean> {
+    try {
+      await db.delete(subscriptionPlanServices).where(eq(subscriptionPlanServices.planId, id));
+      const result = await db.delete(subscriptionPlans).where(eq(subscriptionPlans.id, id)).returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error("Üyelik paketi silinirken hata oluştu:", error);
+      return false;
+    }
+  }
+  
+  private selectSubscriptionDetails() {
+    return db
+      .select({
+        subscription: customerSubscriptions,
+        customerName: customers.name,
+        vehiclePlate: vehicles.plate,
+        planName: subscriptionPlans.name,
+        periodMonths: subscriptionPlans.periodMonths,
+        visitLimit: subscriptionPlans.visitLimit
+      })
+      .from(customerSubscriptions)
+      .leftJoin(customers, eq(customerSubscriptions.customerId, customers.id))
+      .leftJoin(vehicles, eq(customerSubscriptions.vehicleId, vehicles.id))
+      .leftJoin(subscriptionPlans, eq(customerSubscriptions.planId, subscriptionPlans.id));
+  }
+  
+  // Paket hizmetlerini, içinde bulunulan dönemi ve bu dönemdeki ziyaret sayısını ekle
+  private async withSubscriptionDetails(
+    rows: Awaited<ReturnType<DatabaseStorage["selectSubscriptionDetails"]>>
+  ): Promise<CustomerSubscriptionDetail[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+    
+    const planServiceRows = await db
+      .select()
+      .from(subscriptionPlanServices)
+      .where(inArray(subscriptionPlanServices.planId, rows.map(row => row.subscription.planId)));
+    
+    // Üyelikle ücretsiz satır içeren her iş emri bir ziyaret sayılır
+    const visitRows = await db
+      .selectDistinct({ subscriptionId: jobServices.subscriptionId, jobId: jobs.id, createdAt: jobs.createdAt })
+      .from(jobServices)
+      .innerJoin(jobs, eq(jobServices.jobId, jobs.id))
+      .where(
+        and(
+          inArray(jobServices.subscriptionId, rows.map(row => row.subscription.id)),
+          ne(jobs.status, "iptal")
+        )
+      );
+    
+    const now = new Date();
+    return rows.map(({ subscription, ...details }) => {
+      const periodMonths = details.periodMonths ?? 1;
+      const periodStart = getSubscriptionPeriodStart(subscription, periodMonths, now);
+      return {
+        ...subscription,
+        ...details,
+        periodMonths,
+        serviceIds: planServiceRows
+          .filter(serviceRow => serviceRow.planId === subscription.planId)
+          .map(serviceRow => serviceRow.serviceId),
+        periodStart: periodStart.toISOString(),
+        visitsUsed: visitRows.filter(visit =>
+          visit.subscriptionId === subscription.id && visit.createdAt >= periodStart
+        ).length
+      };
+    });
+  }
+  
+  async getCustomerSubscriptions(filter: { customerId?: number; planId?: number } = {}): Promise<CustomerSubscriptionDetail[]> {
+    const rows = await this.selectSubscriptionDetails()
+      .where(
+        and(
+          filter.customerId !== undefined ? eq(customerSubscriptions.customerId, filter.customerId) : undefined,
+          filter.planId !== undefined ? eq(customerSubscriptions.planId, filter.planId) : undefined
+        )
+      )
+      .orderBy(desc(customerSubscriptions.endDate), desc(customerSubscriptions.id));
+    
+    return await this.withSubscriptionDetails(rows);
+  }
+  
+  async getCustomerSubscription(id: number): Promise<CustomerSubscriptionDetail | undefined> {
+    const rows = await this.selectSubscriptionDetails().where(eq(customerSubscriptions.id, id));
+    const [result] = await this.withSubscriptionDetails(rows);
+    return result;
+  }
+  
+  // Üyelik döneminin ücreti tamamlanmış bir iş emri olarak yazılır: ciro, KDV, açık bakiye ve kasa raporlarına
+  // diğer satışlar gibi girer, tahsilatı da bu iş emrinden alınır. Ücretsiz pakette ücret kaydı açılmaz.
+  private async prepareSubscriptionCharge(
+    subscription: { customerId: number; vehicleId?: number | null },
+    plan: SubscriptionPlan,
+    period: { startDate: Date; endDate: Date }
+  ): Promise<{ job: typeof jobs.$inferInsert; line: Omit<typeof jobServices.$inferInsert, "jobId"> } | null> {
+    if (Number(plan.price) <= 0) return null;
+    
+    // İş emri bir araca bağlı olmalı; tüm araçlarda geçerli üyelikte müşterinin ilk aracı kullanılır
+    const customer = await this.getCustomer(subscription.customerId);
+    const customerVehicles = await this.getVehiclesByCustomer(subscription.customerId);
+    const vehicleId = subscription.vehicleId ?? customerVehicles.sort((a, b) => a.id - b.id)[0]?.id;
+    if (!customer || vehicleId === undefined) {
+      throw new Error("Üyelik ücreti için müşterinin kayıtlı aracı yok");
+    }
+    
+    const line = {
+      label: `Üyelik: ${plan.name} (${format(period.startDate, "dd.MM.yyyy")} - ${format(subDays(period.endDate, 1), "dd.MM.yyyy")})`,
+      unitPrice: plan.price,
+      quantity: 1,
+      discount: "0",
+      vatRate: (await this.getAppSettings()).vatRate.toString()
+    };
+    return {
+      job: {
+        vehicleId,
+        customerId: customer.id,
+        totalAmount: plan.price,
+        status: "tamamlandi",
+        onAccount: customer.isCorporate
+      },
+      line: { ...line, ...calculateJobLineVat(line) }
+    };
+  }
+  
+  private async insertSubscriptionCharge(
+    tx: Transaction,
+    subscriptionId: number,
+    charge: Awaited<ReturnType<DatabaseStorage["prepareSubscriptionCharge"]>>
+  ): Promise<void> {
+    if (!charge) return;
+    const [job] = await tx.insert(jobs).values({ ...charge.job, subscriptionId }).returning();
+    await tx.insert(jobServices).values({ ...charge.line, jobId: job.id });
+  }
+  
+  async createCustomerSubscription(subscription: InsertCustomerSubscription, plan: SubscriptionPlan): Promise<CustomerSubscription> {
+    const period = { startDate: subscription.startDate, endDate: addMonths(subscription.startDate, plan.periodMonths) };
+    const charge = await this.prepareSubscriptionCharge(subscription, plan, period);
+    
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(customerSubscriptions).values({
+        ...subscription,
+        price: plan.price,
+        endDate: period.endDate
+      }).returning();
+      await this.insertSubscriptionCharge(tx, created.id, charge);
+      return created;
+    });
+  }
+  
+  async updateCustomerSubscription(id: number, subscription: Partial<InsertCustomerSubscription>): Promise<CustomerSubscription | undefined> {
+    const result = await db.update(customerSubscriptions).set(subscription).where(eq(customerSubscriptions.id, id)).returning();
+    return result[0];
+  }
+  
+  // Üyeliği bir dönem uzat; süresi dolmuşsa bugünden yeni dönem başlat. Ücret güncel paket fiyatına çekilir
+  // ve yeni dönem için ücret kaydı açılır.
+  async renewCustomerSubscription(id: number): Promise<CustomerSubscription | undefined> {
+    const [row] = await db
+      .select({ subscription: customerSubscriptions, plan: subscriptionPlans })
+      .from(customerSubscriptions)
+      .innerJoin(subscriptionPlans, eq(customerSubscriptions.planId, subscriptionPlans.id))
+      .where(eq(customerSubscriptions.id, id));
+    if (!row) return undefined;
+    
+    const { subscription, plan } = row;
+    const now = new Date();
+    const period = subscription.endDate > now
+      ? { startDate: subscription.endDate, endDate: addMonths(subscription.endDate, plan.periodMonths) }
+      : { startDate: now, endDate: addMonths(now, plan.periodMonths) };
+    const renewal = subscription.endDate > now ? { endDate: period.endDate } : period;
+    const charge = await this.prepareSubscriptionCharge(subscription, plan, period);
+    
+    return await db.transaction(async (tx) => {
+      const result = await tx
+        .update(customerSubscriptions)
+        .set({ ...renewal, price: plan.price, status: "aktif" })
+        .where(eq(customerSubscriptions.id, id))
+        .returning();
+      await this.insertSubscriptionCharge(tx, id, charge);
+      return result[0];
+    });
+  }
+  
+  // Otomatik yenilenen ve süresi dolan üyelikleri kesintisiz uzat; uzatılan her dönem ücretlendirilir.
+  // İşletme ayarlarında otomatik yenileme açılmadıkça hiçbir üyelik kendiliğinden uzatılmaz.
+  async renewDueSubscriptions(): Promise<number> {
+    if (!(await this.getAppSettings()).subscriptionAutoRenew) return 0;
+    
+    const dueRows = await db
+      .select({ subscription: customerSubscriptions, plan: subscriptionPlans })
+      .from(customerSubscriptions)
+      .innerJoin(subscriptionPlans, eq(customerSubscriptions.planId, subscriptionPlans.id))
+      .where(
+        and(
+          eq(customerSubscriptions.autoRenew, true),
+          eq(customerSubscriptions.status, "aktif"),
+          eq(subscriptionPlans.isActive, true),
+          sql`${customerSubscriptions.endDate} <= ${new Date()}`
+        )
+      );
+    
+    const now = new Date();
+    let renewed = 0;
+    for (const { subscription, plan } of dueRows) {
+      try {
+        const charges: Awaited<ReturnType<DatabaseStorage["prepareSubscriptionCharge"]>>[] = [];
+        let endDate = subscription.endDate;
+        while (endDate <= now) {
+          const period = { startDate: endDate, endDate: addMonths(endDate, plan.periodMonths) };
+          charges.push(await this.prepareSubscriptionCharge(subscription, plan, period));
+          endDate = period.endDate;
+        }
+        
+        await db.transaction(async (tx) => {
+          await tx
+            .update(customerSubscriptions)
+            .set({ endDate, price: plan.price })
+            .where(eq(customerSubscriptions.id, subscription.id));
+          for (const charge of charges) {
+            await this.insertSubscriptionCharge(tx, subscription.id, charge);
+          }
+        });
+        renewed++;
+      } catch (error) {
+        // Aracı olmayan müşterinin üyeliği ücretlendirilemez; diğer üyelikler yine yenilenir
+        console.error(`Üyelik #${subscription.id} otomatik yenilenemedi:`, error);
+      }
+    }
+    
+    return renewed;
+  }
+  
+  async getSubscriptionReport(expiringDays: number): Promise<SubscriptionReport> {
+    const rows = await this.selectSubscriptionDetails()
+      .where(eq(customerSubscriptions.status, "aktif"))
+      .orderBy(customerSubscriptions.endDate);
+    const subscriptionsData = await this.withSubscriptionDetails(rows);
+    
+    const now = new Date();
+    const expiringBefore = addDays(now, expiringDays);
+    const active = subscriptionsData.filter(sub => sub.startDate <= now && sub.endDate > now);
+    
+    return {
+      active,
+      expiring: active.filter(sub => !sub.autoRenew && sub.endDate <= expiringBefore),
+      lapsed: subscriptionsData.filter(sub => sub.endDate <= now).reverse(),
+      monthlyRecurringRevenue: active.reduce((total, sub) => total + Number(sub.price) / sub.periodMonths, 0)
+    };
+  }
+  
+  // User methods
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(desc(users.id));
+  }
+  
+  async getUser(id: number): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.id, id));
+    return result[0];
+  }
+  
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.username, username));
+    return result[0];
+  }
+  
+  async createUser(user: InsertUser): Promise<User> {
+    const result = await db.insert(users).values({
+      ...user,
+      isAdmin: user.role === "admin"
+    }).returning();
+    return result[0];
+  }
+  
+  async updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined> {
+    // isAdmin alanı rol ile senkron tutulur
+    const userData = user.role !== undefined
+      ? { ...user, isAdmin: user.role === "admin" }
+      : user;
+    
+    const result = await db.update(users).set(userData).where(eq(users.id, id)).returning();
+    return result[0];
+  }
+  
+  async deleteUser(id: number): Promise<boolean> {
+    try {
+      await db.delete(users).where(eq(users.id, id));
+      return true;
+    } catch (error) {
+      console.error("Kullanıcı silinirken hata oluştu:", error);
+      return false;
+    }
+  }
+
+  // Rol alanı eklenmeden önce yönetici olan kullanıcılara admin rolü ver (veritabanı migrasyonu için)
+  async backfillUserRoles(): Promise<number> {
+    const result = await db.execute(sql`
+      UPDATE users SET role = 'admin'
+      WHERE is_admin = true AND role != 'admin'
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  // Expense methods
+  async getExpenses(): Promise<Expense[]> {
+    return await db.select().from(expenses).orderBy(desc(expenses.date));
+  }
+  
+  async getExpensesByCategory(category: string): Promise<Expense[]> {
+    return await db
+      .select()
+      .from(expenses)
+      .where(eq(expenses.category, category))
+      .orderBy(desc(expenses.date));
+  }
+  
+  async getExpensesByDateRange(startDate: string, endDate: string): Promise<Expense[]> {
+    const { start, end } = await this.resolveBusinessDays(startDate, endDate);
+    
+    return await db
+      .select()
+      .from(expenses)
+      .where(
+        and(
+          sql`${expenses.date} >= ${start}`,
+          sql`${expenses.date} < ${end}`
+        )
+      )
+      .orderBy(desc(expenses.date));
+  }
+  
+  async getExpense(id: number): Promise<Expense | undefined> {
+    const result = await db.select().from(expenses).where(eq(expenses.id, id));
+    return result[0];
+  }
+  
+  async createExpense(expense: InsertExpense): Promise<Expense> {
+    const result = await db.insert(expenses).values(await this.toExpenseRow(expense)).returning();
+    return result[0];
+  }
+  
+  private async toExpenseRow(expense: InsertExpense) {
+    // Amount'u string'e çevir ve tutara dahil KDV'yi ayır
+    const vatRate = Number(expense.vatRate ?? 0);
+    return {
+      ...expense,
+      amount: expense.amount.toString(),
+      vatAmount: splitVat(Number(expense.amount), vatRate).vat.toFixed(2),
+      // Nakit giderler açık kasa oturumundan düşülür
+      cashSessionId: (expense.paymentMethod ?? "nakit") === "nakit" ? await this.getOpenCashSessionId() : null
+    };
+  }
+  
+  async updateExpense(id: number, expense: Partial<InsertExpense>): Promise<Expense | undefined> {
+    const expenseData: any = {...expense};
+    
+    // Eğer amount varsa string'e çevir
+    if (expenseData.amount !== undefined) {
+      expenseData.amount = expenseData.amount.toString();
+    }
+    
+    // Tutar veya KDV oranı değiştiyse indirilecek KDV'yi yeniden hesapla
+    if (expense.amount !== undefined || expense.vatRate !== undefined) {
+      const existing = await this.getExpense(id);
+      if (!existing) return undefined;
+      
+      const amount = Number(expense.amount ?? existing.amount);
+      const vatRate = Number(expense.vatRate ?? existing.vatRate);
+      expenseData.vatAmount = splitVat(amount, vatRate).vat.toFixed(2);
+    }
+    
+    // Sonradan nakde çevrilen gider henüz bir oturuma bağlı değilse açık oturuma bağla
+    if (expense.paymentMethod === "nakit") {
+      const existing = await this.getExpense(id);
+      if (!existing) return undefined;
+      
+      if (existing.cashSessionId === null) {
+        expenseData.cashSessionId = await this.getOpenCashSessionId();
+      }
+    }
+    
+    const result = await db.update(expenses).set(expenseData).where(eq(expenses.id, id)).returning();
+    return result[0];
+  }
+  
+  async deleteExpense(id: number): Promise<boolean> {
+    try {
+      await db.delete(expenses).where(eq(expenses.id, id));
+      return true;
+    } catch (error) {
+      console.error("Gider silinirken hata oluştu:", error);
+      return false;
+    }
+  }
+
+  // Cash register methods
+  private async getOpenCashSessionId(): Promise<number | null> {
+    const result = await db
+      .select({ id: cashSessions.id })
+      .from(cashSessions)
+      .where(eq(cashSessions.status, "acik"))
+      .orderBy(desc(cashSessions.id))
+      .limit(1);
+    return result[0]?.id ?? null;
+  }
+  
+  private selectCashSessions() {
+    const closers = alias(users, "closers");
+    return db
+      .select({
+        session: cashSessions,
+        openedByName: users.fullName,
+        closedByName: closers.fullName
+      })
+      .from(cashSessions)
+      .leftJoin(users, eq(cashSessions.openedBy, users.id))
+      .leftJoin(closers, eq(cashSessions.closedBy, closers.id));
+  }
+  
+  // Açık oturumda tahsilat ve giderleri anlık hesapla; kapalı oturumda kapanışta sabitlenen değerleri kullan
+  private async withCashSessionTotals(
+    rows: Awaited<ReturnType<DatabaseStorage["selectCashSessions"]>>
+  ): Promise<CashSessionDetail[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+    
+    const movementTotals = await db
+      .select({
+        sessionId: cashMovements.sessionId,
+        type: cashMovements.type,
+        total: sql<string>`SUM(CAST(${cashMovements.amount} AS numeric))`
+      })
+      .from(cashMovements)
+      .where(inArray(cashMovements.sessionId, rows.map(row => row.session.id)))
+      .groupBy(cashMovements.sessionId, cashMovements.type);
+    
+    const details: CashSessionDetail[] = [];
+    for (const { session, ...names } of rows) {
+      const movementTotal = (type: string) => Number(
+        movementTotals.find(row => row.sessionId === session.id && row.type === type)?.total ?? 0
+      );
+      const live = session.status === "acik" ? await this.getCashSessionFlows(session) : undefined;
+      
+      const openingFloat = Number(session.openingFloat);
+      const cashPayments = live ? live.cashPayments : Number(session.cashPayments ?? 0);
+      const cashExpenses = live ? live.cashExpenses : Number(session.cashExpenses ?? 0);
+      const cashIn = movementTotal("giris");
+      const cashOut = movementTotal("cikis");
+      
+      details.push({
+        ...session,
+        ...names,
+        totals: {
+          openingFloat,
+          cashPayments,
+          cashIn,
+          cashOut,
+          cashExpenses,
+          expectedAmount: session.status === "acik"
+            ? openingFloat + cashPayments + cashIn - cashOut - cashExpenses
+            : Number(session.expectedAmount ?? 0)
+        }
+      });
+    }
+    return details;
+  }
+  
+  // Oturuma bağlı nakit tahsilatlar (iptal edilen işler hariç), nakit hediye kartı yüklemeleri ve nakit giderler
+  private async getCashSessionFlows(session: CashSession): Promise<{ cashPayments: number; cashExpenses: number }> {
+    const paymentsResult = await db.execute(sql`
+      SELECT SUM(total) AS total FROM (
+        SELECT CAST(payments.amount AS numeric) AS total
+        FROM payments
+        INNER JOIN jobs ON jobs.id = payments.job_id
+        WHERE payments.cash_session_id = ${session.id}
+        AND payments.method = 'nakit'
+        AND jobs.status != 'iptal'
+        UNION ALL
+        SELECT CAST(amount AS numeric) AS total
+        FROM gift_card_transactions
+        WHERE cash_session_id = ${session.id}
+        AND type = 'yukleme'
+        AND method = 'nakit'
+      ) AS cash_in
+    `);
+    
+    const expensesResult = await db.execute(sql`
+      SELECT SUM(CAST(amount AS numeric)) AS total
+      FROM expenses
+      WHERE cash_session_id = ${session.id}
+      AND payment_method = 'nakit'
+    `);
+    
+    return {
+      cashPayments: Number(paymentsResult.rows[0]?.total ?? 0),
+      cashExpenses: Number(expensesResult.rows[0]?.total ?? 0)
+    };
+  }
+  
+  async getCashSessions(filter: { userId?: number } = {}): Promise<CashSessionDetail[]> {
+    const rows = await this.selectCashSessions()
+      .where(filter.userId !== undefined ? eq(cashSessions.openedBy, filter.userId) : undefined)
+      .orderBy(desc(cashSessions.openedAt), desc(cashSessions.id));
+    
+    return await this.withCashSessionTotals(rows);
+  }
+  
+  async getCashSession(id: number): Promise<CashSessionReport | undefined> {
+    const rows = await this.selectCashSessions().where(eq(cashSessions.id, id));
+    const [detail] = await this.withCashSessionTotals(rows);
+    if (!detail) return undefined;
+    
+    const movements = await db
+      .select({
+        id: cashMovements.id,
+        sessionId: cashMovements.sessionId,
+        type: cashMovements.type,
+        amount: cashMovements.amount,
+        reason: cashMovements.reason,
+        userId: cashMovements.userId,
+        createdAt: cashMovements.createdAt,
+        userName: users.fullName
+      })
+      .from(cashMovements)
+      .leftJoin(users, eq(cashMovements.userId, users.id))
+      .where(eq(cashMovements.sessionId, id))
+      .orderBy(cashMovements.createdAt, cashMovements.id);
+    
+    return { ...detail, movements };
+  }
+  
+  async getOpenCashSession(): Promise<CashSessionReport | undefined> {
+    const id = await this.getOpenCashSessionId();
+    return id === null ? undefined : await this.getCashSession(id);
+  }
+  
+  async openCashSession(data: OpenCashSession, userId: number): Promise<CashSession | undefined> {
+    // Aynı anda yalnızca bir açık oturum olabilir; eşzamanlı isteklerde tekil indeks ikinciyi reddeder
+    const result = await db.insert(cashSessions).values({
+      openedBy: userId,
+      openingFloat: data.openingFloat.toString(),
+      notes: data.notes || null
+    }).onConflictDoNothing().returning();
+    return result[0];
+  }
+  
+  async addCashMovement(sessionId: number, movement: InsertCashMovement, userId: number): Promise<CashMovement | undefined> {
+    const session = await db.select().from(cashSessions).where(eq(cashSessions.id, sessionId));
+    if (session[0]?.status !== "acik") {
+      return undefined;
+    }
+    
+    const result = await db.insert(cashMovements).values({ ...movement, sessionId, userId }).returning();
+    return result[0];
+  }
+  
+  async closeCashSession(id: number, data: CloseCashSession, userId: number): Promise<CashSession | undefined> {
+    const [detail] = await this.withCashSessionTotals(await this.selectCashSessions().where(eq(cashSessions.id, id)));
+    if (!detail || detail.status !== "acik") {
+      return undefined;
+    }
+    
+    const closedAt = new Date();
+    const flows = await this.getCashSessionFlows(detail);
+    const { openingFloat, cashIn, cashOut } = detail.totals;
+    const expectedAmount = openingFloat + flows.cashPayments + cashIn - cashOut - flows.cashExpenses;
+    
+    // Durum koşulu, aynı oturumun iki kez kapatılmasını engeller
+    const result = await db
+      .update(cashSessions)
+      .set({
+        status: "kapali",
+        closedBy: userId,
+        closedAt,
+        cashPayments: flows.cashPayments.toFixed(2),
+        cashExpenses: flows.cashExpenses.toFixed(2),
+        expectedAmount: expectedAmount.toFixed(2),
+        countedAmount: data.countedAmount.toFixed(2),
+        variance: (data.countedAmount - expectedAmount).toFixed(2),
+        notes: data.notes || detail.notes
+      })
+      .where(and(eq(cashSessions.id, id), eq(cashSessions.status, "acik")))
+      .returning();
+    return result[0];
+  }
+
+  // Loyalty methods
+  async getLoyaltySummary(customerId: number): Promise<LoyaltySummary> {
+    const [balance] = await db
+      .select({
+        points: sql<number>`COALESCE(SUM(${loyaltyTransactions.points}), 0)`.mapWith(Number),
+        stamps: sql<number>`COALESCE(SUM(${loyaltyTransactions.stamps}), 0)`.mapWith(Number),
+      })
+      .from(loyaltyTransactions)
+      .where(eq(loyaltyTransactions.customerId, customerId));
+    
+    const appSettings = await this.getAppSettings();
+    const freeWashEvery = appSettings.loyaltyFreeWashEvery;
+    
+    return {
+      customerId,
+      enabled: appSettings.loyaltyEnabled,
+      points: balance.points,
+      pointValue: appSettings.loyaltyPointValue,
+      stamps: balance.stamps,
+      freeWashEvery,
+      availableFreeWashes: freeWashEvery > 0 ? Math.floor(balance.stamps / freeWashEvery) : 0,
+    };
+  }
+  
+  async getCustomerLoyalty(customerId: number): Promise<CustomerLoyalty> {
+    const summary = await this.getLoyaltySummary(customerId);
+    const transactions = await db
+      .select()
+      .from(loyaltyTransactions)
+      .where(eq(loyaltyTransactions.customerId, customerId))
+      .orderBy(desc(loyaltyTransactions.createdAt), desc(loyaltyTransactions.id));
+    
+    return { ...summary, transactions };
+  }
+  
+  // İşin sadakat kayıtlarını işin güncel durumuna eşitle. Tamamlanan iş puan ve (ücretsiz yıkama kullanılmadıysa)
+  // damga kazandırır; iptal edilen veya silinen işte kazanılanlar geri alınır, satırlarla harcananlar iade edilir.
+  // Kayıtlar değiştirilmez, fark yeni bir hareket olarak eklenir.
+  private async syncJobLoyalty(jobId: number, executor: DbExecutor = db): Promise<void> {
+    const [job] = await executor.select().from(jobs).where(eq(jobs.id, jobId));
+    const entries = await executor.select().from(loyaltyTransactions).where(eq(loyaltyTransactions.jobId, jobId));
+    if (!job && entries.length === 0) return;
+    
+    const appSettings = await this.getAppSettings();
+    const cancelled = !job || job.status === "iptal";
+    const lines = cancelled
+      ? []
+      : await executor.select().from(jobServices).where(eq(jobServices.jobId, jobId)).orderBy(jobServices.id);
+    const usedFreeWash = lines.some(line => line.loyaltyStamps > 0);
+    
+    // İşin müşterisi değiştiyse eski müşterinin kayıtları da sıfırlanır
+    const customerIds = new Set(entries.map(entry => entry.customerId));
+    if (job) customerIds.add(job.customerId);
+    
+    const newEntries: (typeof loyaltyTransactions.$inferInsert)[] = [];
+    customerIds.forEach(customerId => {
+      const ownEntries = entries.filter(entry => entry.customerId === customerId);
+      const total = (types: string[]) => ownEntries
+        .filter(entry => types.includes(entry.type))
+        .reduce((acc, entry) => ({ points: acc.points + entry.points, stamps: acc.stamps + entry.stamps }), { points: 0, stamps: 0 });
+      
+      const isJobCustomer = job?.customerId === customerId;
+      const earned = total(["kazanim", "iptal", "duzeltme"]);
+      const spent = total(["kullanim", "iade"]);
+      
+      // Program kapalıyken kazanılmış puanlar olduğu gibi bırakılır
+      let targetEarned = { points: 0, stamps: 0 };
+      if (isJobCustomer && !appSettings.loyaltyEnabled) {
+        targetEarned = earned;
+      } else if (isJobCustomer && job?.status === "tamamlandi" && job.subscriptionId === null) {
+        // Üyelik ücreti bir ziyaret sayılmaz, puan ve damga kazandırmaz
+        targetEarned = {
+          points: Math.max(0, Math.floor(Number(job.totalAmount) * appSettings.loyaltyPointsPerTl)) + appSettings.loyaltyPointsPerJob,
+          stamps: appSettings.loyaltyFreeWashEvery > 0 && !usedFreeWash ? 1 : 0,
+        };
+      }
+      
+      // Harcananlar hareketlerde eksi tutulur
+      const targetSpent = isJobCustomer
+        ? {
+            points: -lines.reduce((acc, line) => acc + line.loyaltyPoints, 0),
+            stamps: -lines.reduce((acc, line) => acc + line.loyaltyStamps, 0),
+          }
+        : { points: 0, stamps: 0 };
+      
+      const earnedDelta = { points: targetEarned.points - earned.points, stamps: targetEarned.stamps - earned.stamps };
+      if (earnedDelta.points !== 0 || earnedDelta.stamps !== 0) {
+        const type = targetEarned.points === 0 && targetEarned.stamps === 0 && cancelled
+          ? "iptal"
+          : earned.points === 0 && earned.stamps === 0 ? "kazanim" : "duzeltme";
+        newEntries.push({ customerId, jobId, type, ...earnedDelta, description: `İş emri #${jobId}` });
+      }
+      
+      const spentDelta = { points: targetSpent.points - spent.points, stamps: targetSpent.stamps - spent.stamps };
+      if (spentDelta.points !== 0 || spentDelta.stamps !== 0) {
+        const type = spentDelta.points + spentDelta.stamps < 0 ? "kullanim" : "iade";
+        newEntries.push({ customerId, jobId, type, ...spentDelta, description: `İş emri #${jobId}` });
+      }
+    });
+    
+    if (newEntries.length > 0) {
+      await executor.insert(loyaltyTransactions).values(newEntries);
+    }
+  }
+
+  // Gift card methods
+  private selectGiftCards() {
+    return db
+      .select({
+        id: giftCards.id,
+        code: giftCards.code,
+        customerId: giftCards.customerId,
+        isActive: giftCards.isActive,
+        notes: giftCards.notes,
+        createdBy: giftCards.createdBy,
+        createdAt: giftCards.createdAt,
+        customerName: customers.name,
+        balance: sql<number>`COALESCE((
+          SELECT SUM(CAST(gift_card_transactions.amount AS numeric))
+          FROM gift_card_transactions
+          WHERE gift_card_transactions.card_id = ${giftCards.id}
+        ), 0)`.mapWith(Number)
+      })
+      .from(giftCards)
+      .leftJoin(customers, eq(giftCards.customerId, customers.id))
+      .$dynamic();
+  }
+  
+  async getGiftCards(): Promise<GiftCardDetail[]> {
+    return await this.selectGiftCards().orderBy(desc(giftCards.createdAt), desc(giftCards.id));
+  }
+  
+  async getGiftCard(id: number): Promise<GiftCardReport | undefined> {
+    const [card] = await this.selectGiftCards().where(eq(giftCards.id, id));
+    if (!card) return undefined;
+    
+    const transactions: GiftCardTransactionDetail[] = await db
+      .select({
+        id: giftCardTransactions.id,
+        cardId: giftCardTransactions.cardId,
+        type: giftCardTransactions.type,
+        amount: giftCardTransactions.amount,
+        method: giftCardTransactions.method,
+        paymentId: giftCardTransactions.paymentId,
+        cashSessionId: giftCardTransactions.cashSessionId,
+        userId: giftCardTransactions.userId,
+        notes: giftCardTransactions.notes,
+        createdAt: giftCardTransactions.createdAt,
+        userName: users.fullName,
+        jobId: payments.jobId
+      })
+      .from(giftCardTransactions)
+      .leftJoin(users, eq(giftCardTransactions.userId, users.id))
+      .leftJoin(payments, eq(giftCardTransactions.paymentId, payments.id))
+      .where(eq(giftCardTransactions.cardId, id))
+      .orderBy(desc(giftCardTransactions.createdAt), desc(giftCardTransactions.id));
+    
+    return { ...card, transactions };
+  }
+  
+  async getGiftCardByCode(code: string): Promise<GiftCardDetail | undefined> {
+    const [card] = await this.selectGiftCards().where(eq(giftCards.code, code.trim().toUpperCase()));
+    return card;
+  }
+  
+  async createGiftCard(card: InsertGiftCard, userId: number): Promise<GiftCard | undefined> {
+    let code = card.code;
+    if (code) {
+      // Elle girilen kod benzersiz olmalı
+      if (await this.getGiftCardByCode(code)) return undefined;
+    } else {
+      do {
+        code = generateGiftCardCode();
+      } while (await this.getGiftCardByCode(code));
+    }
+    
+    const cashSessionId = card.method === "nakit" ? await this.getOpenCashSessionId() : null;
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(giftCards).values({
+        code,
+        customerId: card.customerId ?? null,
+        isActive: card.isActive ?? true,
+        notes: card.notes || null,
+        createdBy: userId
+      }).returning();
+      
+      if (card.initialAmount) {
+        await tx.insert(giftCardTransactions).values({
+          cardId: created.id,
+          type: "yukleme",
+          amount: card.initialAmount,
+          method: card.method,
+          cashSessionId,
+          userId,
+          notes: "İlk yükleme"
+        });
+      }
+      return created;
+    });
+  }
+  
+  async updateGiftCard(id: number, card: Partial<Pick<GiftCard, "customerId" | "isActive" | "notes">>): Promise<GiftCard | undefined> {
+    const result = await db.update(giftCards).set(card).where(eq(giftCards.id, id)).returning();
+    return result[0];
+  }
+  
+  async topUpGiftCard(id: number, topUp: GiftCardTopUp, userId: number): Promise<GiftCardTransaction | undefined> {
+    const [card] = await db.select().from(giftCards).where(eq(giftCards.id, id));
+    if (!card?.isActive) {
+      return undefined;
+    }
+    
+    const result = await db.insert(giftCardTransactions).values({
+      cardId: id,
+      type: "yukleme",
+      amount: topUp.amount,
+      method: topUp.method,
+      cashSessionId: topUp.method === "nakit" ? await this.getOpenCashSessionId() : null,
+      userId,
+      notes: topUp.notes || null
+    }).returning();
+    return result[0];
+  }
+  
+  // Kart satırı kilitlenerek bakiye kontrol edilir; aynı karttan eşzamanlı harcamalar bakiyeyi aşamaz.
+  // Kart pasifse veya bakiye yetersizse tahsilat yapılmaz.
+  async createGiftCardPayment(payment: InsertPayment & { giftCardId: number }): Promise<Payment | undefined> {
+    const created = await db.transaction(async (tx) => {
+      const [card] = await tx.select().from(giftCards).where(eq(giftCards.id, payment.giftCardId)).for("update");
+      if (!card?.isActive) return undefined;
+      
+      const [{ balance }] = await tx
+        .select({ balance: sql<number>`COALESCE(SUM(CAST(${giftCardTransactions.amount} AS numeric)), 0)`.mapWith(Number) })
+        .from(giftCardTransactions)
+        .where(eq(giftCardTransactions.cardId, card.id));
+      if (Number(payment.amount) > balance) return undefined;
+      
+      const [result] = await tx.insert(payments).values({ ...payment, method: "hediye_karti" }).returning();
+      await tx.insert(giftCardTransactions).values({
+        cardId: card.id,
+        type: "harcama",
+        amount: (-Number(payment.amount)).toFixed(2),
+        paymentId: result.id,
+        userId: payment.userId ?? null,
+        notes: `#${payment.jobId} iş emri tahsilatı`
+      });
+      return result;
+    });
+    
+    if (created) {
+      await this.syncJobPaidAmount(created.jobId);
+    }
+    return created;
+  }
+  
+  // Dönem içindeki yükleme/harcama/iade toplamları ile rapor anındaki kullanılmamış bakiye (yükümlülük)
+  async getGiftCardLiabilityReport(startDate: string, endDate: string): Promise<GiftCardLiabilityReport> {
+    const { start, end } = await this.resolveBusinessDays(startDate, endDate);
+    
+    const periodResult = await db.execute(sql`
+      SELECT type, SUM(CAST(amount AS numeric)) AS total
+      FROM gift_card_transactions
+      WHERE created_at >= ${start}
+      AND created_at < ${end}
+      GROUP BY type
+    `);
+    const periodTotal = (type: string) =>
+      Number(periodResult.rows.find(row => row.type === type)?.total ?? 0);
+    
+    const cards = await this.selectGiftCards();
+    const withBalance = cards
+      .filter(card => card.balance > 0)
+      .sort((a, b) => b.balance - a.balance);
+    
+    return {
+      outstandingLiability: withBalance.reduce((total, card) => total + card.balance, 0),
+      cardsWithBalance: withBalance.length,
+      topUps: periodTotal("yukleme"),
+      spent: -periodTotal("harcama"),
+      refunds: periodTotal("iade"),
+      topCards: withBalance.slice(0, 10)
+    };
+  }
+
+  // Corporate account methods
+  async getCustomerServicePrices(customerId: number): Promise<CustomerServicePrice[]> {
+    return await db
+      .select()
+      .from(customerServicePrices)
+      .where(eq(customerServicePrices.customerId, customerId))
+      .orderBy(customerServicePrices.serviceId);
+  }
+  
+  async setCustomerServicePrices(customerId: number, prices: { serviceId: number; price: string }[]): Promise<CustomerServicePrice[]> {
+    await db.transaction(async (tx) => {
+      await tx.delete(customerServicePrices).where(eq(customerServicePrices.customerId, customerId));
+      if (prices.length > 0) {
+        await tx.insert(customerServicePrices).values(prices.map(price => ({ ...price, customerId })));
+      }
+    });
+    return await this.getCustomerServicePrices(customerId);
+  }
+  
+  // İşin müşterisi için anlaşmalı fiyat; yalnızca kurumsal müşterilerde geçerlidir
+  private async getNegotiatedPrice(jobId: number, serviceId: number): Promise<string | undefined> {
+    const [row] = await db
+      .select({ price: customerServicePrices.price })
+      .from(jobs)
+      .innerJoin(customers, eq(customers.id, jobs.customerId))
+      .innerJoin(customerServicePrices, and(
+        eq(customerServicePrices.customerId, jobs.customerId),
+        eq(customerServicePrices.serviceId, serviceId)
+      ))
+      .where(and(eq(jobs.id, jobId), eq(customers.isCorporate, true)));
+    return row?.price;
+  }
+  
+  private selectAccountInvoices() {
+    return db
+      .select({
+        id: accountInvoices.id,
+        customerId: accountInvoices.customerId,
+        period: accountInvoices.period,
+        netAmount: accountInvoices.netAmount,
+        vatAmount: accountInvoices.vatAmount,
+        totalAmount: accountInvoices.totalAmount,
+        dueDate: accountInvoices.dueDate,
+        status: accountInvoices.status,
+        notes: accountInvoices.notes,
+        createdBy: accountInvoices.createdBy,
+        createdAt: accountInvoices.createdAt,
+        customerName: customers.name,
+        jobCount: sql<number>`(
+          SELECT COUNT(*) FROM jobs WHERE jobs.invoice_id = ${accountInvoices.id}
+        )`.mapWith(Number),
+        paidAmount: sql<number>`COALESCE((
+          SELECT SUM(CAST(jobs.paid_amount AS numeric)) FROM jobs WHERE jobs.invoice_id = ${accountInvoices.id}
+        ), 0)`.mapWith(Number)
+      })
+      .from(accountInvoices)
+      .innerJoin(customers, eq(accountInvoices.customerId, customers.id))
+      .$dynamic();
+  }
+  
+  private withInvoiceRemaining(rows: Omit<AccountInvoiceDetail, "remaining">[]): AccountInvoiceDetail[] {
+    return rows.map(row => ({
+      ...row,
+      remaining: row.status === "iptal" ? 0 : Math.max(Number(row.totalAmount) - row.paidAmount, 0)
+    }));
+  }
+  
+  async getAccountInvoices(filter: { customerId?: number } = {}): Promise<AccountInvoiceDetail[]> {
+    const rows = await this.selectAccountInvoices()
+      .where(filter.customerId !== undefined ? eq(accountInvoices.customerId, filter.customerId) : undefined)
+      .orderBy(desc(accountInvoices.createdAt), desc(accountInvoices.id));
+    return this.withInvoiceRemaining(rows);
+  }
+  
+  async getAccountInvoice(id: number): Promise<AccountInvoiceReport | undefined> {
+    const [detail] = this.withInvoiceRemaining(await this.selectAccountInvoices().where(eq(accountInvoices.id, id)));
+    if (!detail) return undefined;
+    
+    const customer = await this.getCustomer(detail.customerId);
+    const invoiceJobs: AccountInvoiceJob[] = await db
+      .select({
+        id: jobs.id,
+        receiptNumber: jobs.receiptNumber,
+        vehiclePlate: vehicles.plate,
+        services: sql<string>`COALESCE((
+          SELECT STRING_AGG(job_services.label, ', ' ORDER BY job_services.id)
+          FROM job_services WHERE job_services.job_id = ${jobs.id}
+        ), '')`,
+        totalAmount: jobs.totalAmount,
+        paidAmount: jobs.paidAmount,
+        createdAt: jobs.createdAt
+      })
+      .from(jobs)
+      .innerJoin(vehicles, eq(jobs.vehicleId, vehicles.id))
+      .where(eq(jobs.invoiceId, id))
+      .orderBy(jobs.createdAt, jobs.id);
+    
+    return { ...detail, customer: customer!, jobs: invoiceJobs };
+  }
+  
+  // Dönem sonuna kadar tamamlanmış, faturalanmamış cari hesap işleri tek faturada toplanır;
+  // önceki dönemlerden kalan işler de dahil edilir. Faturalanacak iş yoksa fatura kesilmez.
+  async createAccountInvoice(data: CreateAccountInvoice, userId: number): Promise<AccountInvoice | undefined> {
+    const customer = await this.getCustomer(data.customerId);
+    if (!customer) return undefined;
+    
+    const [year, month] = data.period.split("-").map(Number);
+    const { end } = await this.resolveBusinessDays(format(new Date(year, month, 0), "yyyy-MM-dd"));
+    
+    return await db.transaction(async (tx) => {
+      const invoiceJobs = await tx
+        .select({ id: jobs.id, totalAmount: jobs.totalAmount })
+        .from(jobs)
+        .where(and(
+          eq(jobs.customerId, data.customerId),
+          eq(jobs.onAccount, true),
+          isNull(jobs.invoiceId),
+          eq(jobs.status, "tamamlandi"),
+          sql`${jobs.createdAt} < ${end}`
+        ))
+        .for("update");
+      if (invoiceJobs.length === 0) return undefined;
+      
+      const jobIds = invoiceJobs.map(job => job.id);
+      const [vatTotals] = await tx
+        .select({
+          net: sql<number>`COALESCE(SUM(CAST(${jobServices.netAmount} AS numeric)), 0)`.mapWith(Number),
+          vat: sql<number>`COALESCE(SUM(CAST(${jobServices.vatAmount} AS numeric)), 0)`.mapWith(Number)
+        })
+        .from(jobServices)
+        .where(inArray(jobServices.jobId, jobIds));
+      
+      const [invoice] = await tx.insert(accountInvoices).values({
+        customerId: data.customerId,
+        period: data.period,
+        netAmount: vatTotals.net.toFixed(2),
+        vatAmount: vatTotals.vat.toFixed(2),
+        totalAmount: invoiceJobs.reduce((total, job) => total + Number(job.totalAmount), 0).toFixed(2),
+        dueDate: addDays(new Date(), customer.paymentTermDays),
+        notes: data.notes || null,
+        createdBy: userId
+      }).returning();
+      
+      await tx.update(jobs).set({ invoiceId: invoice.id }).where(inArray(jobs.id, jobIds));
+      return invoice;
+    });
+  }
+  
+  // İptal edilen faturanın işleri serbest kalır ve sonraki faturaya girebilir; alınan tahsilatlar işlerde kalır
+  async cancelAccountInvoice(id: number): Promise<AccountInvoice | undefined> {
+    return await db.transaction(async (tx) => {
+      const [invoice] = await tx
+        .update(accountInvoices)
+        .set({ status: "iptal" })
+        .where(and(eq(accountInvoices.id, id), eq(accountInvoices.status, "acik")))
+        .returning();
+      if (!invoice) return undefined;
+      
+      await tx.update(jobs).set({ invoiceId: null }).where(eq(jobs.invoiceId, id));
+      return invoice;
+    });
+  }
+  
+  // Fatura ödemesi, faturadaki işlerin kalan tutarlarına en eskiden başlayarak dağıtılır.
+  // Tutar faturanın kalanını aşarsa ödeme alınmaz.
+  async payAccountInvoice(id: number, payment: AccountInvoicePayment, userId: number): Promise<Payment[] | undefined> {
+    const invoice = await this.getAccountInvoice(id);
+    if (!invoice || invoice.status !== "acik" || payment.amount > invoice.remaining + 0.005) {
+      return undefined;
+    }
+    
+    return await this.allocatePayment(invoice.jobs.map(job => job.id), payment, userId);
+  }
+  
+  // Ödemeyi verilen sıradaki işlerin kalan tutarlarına dağıtarak her iş için ayrı tahsilat kaydı oluştur.
+  // İşler kilitlenip kalan tutar işlem içinde yeniden hesaplanır: eşzamanlı iki ödeme kalanı birlikte aşamaz,
+  // bir kayıt yazılamazsa hiçbir tahsilat kalmaz. Tutar kalanı aşarsa ödeme alınmaz.
+  private async allocatePayment(
+    jobIds: number[],
+    payment: AccountInvoicePayment,
+    userId: number
+  ): Promise<Payment[] | undefined> {
+    const cashSessionId = payment.method === "nakit" ? await this.getOpenCashSessionId() : null;
+    
+    return await db.transaction(async (tx) => {
+      const lockedJobs = await tx
+        .select({ id: jobs.id, status: jobs.status, totalAmount: jobs.totalAmount, paidAmount: jobs.paidAmount })
+        .from(jobs)
+        .where(inArray(jobs.id, jobIds))
+        .orderBy(asc(jobs.id))
+        .for("update");
+      const targetJobs = jobIds
+        .map(id => lockedJobs.find(job => job.id === id))
+        .filter((job): job is (typeof lockedJobs)[number] => job !== undefined && job.status !== "iptal")
+        .map(job => ({ id: job.id, remaining: Number(job.totalAmount) - Number(job.paidAmount) }))
+        .filter(job => job.remaining > 0);
+      
+      const remaining = targetJobs.reduce((total, job) => total + job.remaining, 0);
+      if (targetJobs.length === 0 || payment.amount > remaining + 0.005) {
+        return undefined;
+      }
+      
+      const created: Payment[] = [];
+      let left = payment.amount;
+      for (const job of targetJobs) {
+        if (left <= 0.005) break;
+        
+        const amount = Math.min(left, job.remaining);
+        const [row] = await tx.insert(payments).values({
+          jobId: job.id,
+          amount: amount.toFixed(2),
+          method: payment.method,
+          userId,
+          // Nakit tahsilatlar açık kasa oturumuna eklenir
+          cashSessionId
+        }).returning();
+        await this.syncJobPaidAmount(job.id, tx);
+        created.push(row);
+        left -= amount;
+      }
+      return created;
+    });
+  }
+  
+  // Kurumsal müşterilerin açık alacakları: faturalı tutarlar vadeden bu yana geçen güne göre,
+  // faturalanmamış cari hesap işleri ayrı grupta
+  async getReceivablesAging(): Promise<ReceivablesAging> {
+    const emptyBuckets = (): ReceivablesAgingBuckets => ({
+      unbilled: 0, current: 0, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0
+    });
+    const rowsByCustomer = new Map<number, ReceivablesAging["rows"][number]>();
+    const getRow = (customerId: number, customerName: string) => {
+      let row = rowsByCustomer.get(customerId);
+      if (!row) {
+        row = { customerId, customerName, ...emptyBuckets() };
+        rowsByCustomer.set(customerId, row);
+      }
+      return row;
+    };
+    
+    const now = new Date();
+    const openInvoices = (await this.getAccountInvoices()).filter(invoice => invoice.remaining > 0);
+    for (const invoice of openInvoices) {
+      const row = getRow(invoice.customerId, invoice.customerName);
+      const overdueDays = differenceInCalendarDays(now, invoice.dueDate);
+      const bucket: keyof ReceivablesAgingBuckets =
+        overdueDays <= 0 ? "current" :
+        overdueDays <= 30 ? "days1to30" :
+        overdueDays <= 60 ? "days31to60" :
+        overdueDays <= 90 ? "days61to90" : "over90";
+      row[bucket] += invoice.remaining;
+    }
+    
+    const unbilledResult = await db.execute(sql`
+      SELECT jobs.customer_id AS customer_id, customers.name AS customer_name,
+        SUM(CAST(jobs.total_amount AS numeric) - CAST(jobs.paid_amount AS numeric)) AS remaining
+      FROM jobs
+      INNER JOIN customers ON customers.id = jobs.customer_id
+      WHERE jobs.on_account = true
+      AND jobs.invoice_id IS NULL
+      AND jobs.status != 'iptal'
+      GROUP BY jobs.customer_id, customers.name
+      HAVING SUM(CAST(jobs.total_amount AS numeric) - CAST(jobs.paid_amount AS numeric)) > 0
+    `);
+    for (const unbilled of unbilledResult.rows) {
+      getRow(Number(unbilled.customer_id), String(unbilled.customer_name)).unbilled += Number(unbilled.remaining);
+    }
+    
+    const totals = emptyBuckets();
+    const rows = Array.from(rowsByCustomer.values());
+    for (const row of rows) {
+      row.total = row.unbilled + row.current + row.days1to30 + row.days31to60 + row.days61to90 + row.over90;
+      for (const key of Object.keys(totals) as (keyof ReceivablesAgingBuckets)[]) {
+        totals[key] += row[key];
+      }
+    }
+    
+    return {
+      rows: rows.sort((a, b) => b.total - a.total),
+      totals
+    };
+  }
+
+  // Receivables methods
+  private async selectOpenJobs(condition: SQL | undefined): Promise<(OpenJob & { customerId: number })[]> {
+    const rows = await db
+      .select({
+        id: jobs.id,
+        customerId: jobs.customerId,
+        receiptNumber: jobs.receiptNumber,
+        vehiclePlate: vehicles.plate,
+        totalAmount: jobs.totalAmount,
+        paidAmount: jobs.paidAmount,
+        invoiceId: jobs.invoiceId,
+        createdAt: jobs.createdAt
+      })
+      .from(jobs)
+      .innerJoin(vehicles, eq(jobs.vehicleId, vehicles.id))
+      .where(and(
+        ne(jobs.status, "iptal"),
+        sql`CAST(${jobs.totalAmount} AS numeric) > CAST(${jobs.paidAmount} AS numeric)`,
+        condition
+      ))
+      .orderBy(jobs.createdAt, jobs.id);
+    
+    const now = new Date();
+    return rows.map(row => ({
+      ...row,
+      remaining: Number(row.totalAmount) - Number(row.paidAmount),
+      ageDays: differenceInCalendarDays(now, row.createdAt)
+    }));
+  }
+  
+  async getOpenJobs(customerId: number): Promise<OpenJob[]> {
+    return await this.selectOpenJobs(eq(jobs.customerId, customerId));
+  }
+  
+  // Ödenmemiş işler müşteri bazında iş tarihinden bu yana geçen güne göre gruplanır
+  async getOpenBalances(): Promise<OpenBalances> {
+    const openJobs = await this.selectOpenJobs(undefined);
+    const customerList = await this.getCustomers();
+    const customerById = new Map(customerList.map(customer => [customer.id, customer]));
+    
+    const rowsByCustomer = new Map<number, OpenBalanceRow>();
+    for (const job of openJobs) {
+      let row = rowsByCustomer.get(job.customerId);
+      if (!row) {
+        const customer = customerById.get(job.customerId);
+        row = {
+          customerId: job.customerId,
+          customerName: customer?.name ?? "-",
+          customerPhone: customer?.phone ?? null,
+          jobCount: 0,
+          oldestJobDate: job.createdAt,
+          days0to30: 0,
+          days31to60: 0,
+          over60: 0,
+          total: 0
+        };
+        rowsByCustomer.set(job.customerId, row);
+      }
+      
+      row.jobCount++;
+      row.total += job.remaining;
+      if (job.ageDays <= 30) row.days0to30 += job.remaining;
+      else if (job.ageDays <= 60) row.days31to60 += job.remaining;
+      else row.over60 += job.remaining;
+    }
+    
+    const rows = Array.from(rowsByCustomer.values()).sort((a, b) => b.total - a.total);
+    return {
+      rows,
+      totals: rows.reduce((totals, row) => ({
+        jobCount: totals.jobCount + row.jobCount,
+        days0to30: totals.days0to30 + row.days0to30,
+        days31to60: totals.days31to60 + row.days31to60,
+        over60: totals.over60 + row.over60,
+        total: totals.total + row.total
+      }), { jobCount: 0, days0to30: 0, days31to60: 0, over60: 0, total: 0 })
+    };
+  }
+  
+  // İptal edilen işler ve bu işlere alınan ödemeler ekstreye girmez
+  async getCustomerStatement(customerId: number, startDate?: string, endDate?: string): Promise<CustomerStatement | undefined> {
+    const customer = await this.getCustomer(customerId);
+    if (!customer) return undefined;
+    
+    const range = startDate ? await this.resolveBusinessDays(startDate, endDate) : undefined;
+    
+    const jobRows = await db
+      .select({
+        id: jobs.id,
+        receiptNumber: jobs.receiptNumber,
+        vehiclePlate: vehicles.plate,
+        totalAmount: jobs.totalAmount,
+        createdAt: jobs.createdAt
+      })
+      .from(jobs)
+      .innerJoin(vehicles, eq(jobs.vehicleId, vehicles.id))
+      .where(and(eq(jobs.customerId, customerId), ne(jobs.status, "iptal")));
+    
+    const paymentRows = await db
+      .select({
+        id: payments.id,
+        jobId: payments.jobId,
+        amount: payments.amount,
+        method: payments.method,
+        createdAt: payments.createdAt
+      })
+      .from(payments)
+      .innerJoin(jobs, eq(payments.jobId, jobs.id))
+      .where(and(eq(jobs.customerId, customerId), ne(jobs.status, "iptal")));
+    
+    const movements = [
+      ...jobRows.map(job => ({
+        date: job.createdAt,
+        type: "is" as const,
+        jobId: job.id,
+        description: `${job.receiptNumber ? `Fiş ${job.receiptNumber}` : `İş emri #${job.id}`} - ${job.vehiclePlate}`,
+        debit: Number(job.totalAmount),
+        credit: 0
+      })),
+      ...paymentRows.map(payment => ({
+        date: payment.createdAt,
+        type: "odeme" as const,
+        jobId: payment.jobId,
+        description: `Tahsilat (${PAYMENT_METHOD_LABELS[payment.method as PaymentMethod] ?? payment.method})`,
+        debit: 0,
+        credit: Number(payment.amount)
+      }))
+    ].sort((a, b) => a.date.getTime() - b.date.getTime() || (a.type === b.type ? 0 : a.type === "is" ? -1 : 1));
+    
+    let openingBalance = 0;
+    let balance = 0;
+    const entries: CustomerStatementEntry[] = [];
+    for (const movement of movements) {
+      if (range && movement.date < range.start) {
+        openingBalance += movement.debit - movement.credit;
+        balance = openingBalance;
+        continue;
+      }
+      if (range && movement.date >= range.end) continue;
+      
+      balance += movement.debit - movement.credit;
+      entries.push({ ...movement, balance });
+    }
+    
+    const openJobs = await this.getOpenJobs(customerId);
+    return {
+      customer,
+      startDate: startDate ?? null,
+      endDate: endDate ?? null,
+      openingBalance,
+      entries,
+      closingBalance: balance,
+      openJobs
+    };
+  }
+  
+  // Tek ödemeyi müşterinin açık işlerine en eskiden başlayarak dağıt.
+  // Seçilen iş açık değilse veya tutar seçilen işlerin kalanını aşarsa ödeme alınmaz.
+  async settleCustomerJobs(customerId: number, settlement: CustomerSettlement, userId: number): Promise<Payment[] | undefined> {
+    const openJobs = await this.getOpenJobs(customerId);
+    const targetJobs = settlement.jobIds
+      ? openJobs.filter(job => settlement.jobIds!.includes(job.id))
+      : openJobs;
+    
+    if (settlement.jobIds && targetJobs.length !== settlement.jobIds.length) {
+      return undefined;
+    }
+    
+    const remaining = targetJobs.reduce((total, job) => total + job.remaining, 0);
+    if (targetJobs.length === 0 || settlement.amount > remaining + 0.005) {
+      return undefined;
+    }
+    
+    return await this.allocatePayment(targetJobs.map(job => job.id), settlement, userId);
+  }
+
+  // Inventory methods
+  private selectInventoryProducts() {
+    return db
+      .select({
+        id: inventoryProducts.id,
+        name: inventoryProducts.name,
+        unit: inventoryProducts.unit,
+        minStock: inventoryProducts.minStock,
+        isActive: inventoryProducts.isActive,
+        notes: inventoryProducts.notes,
+        createdAt: inventoryProducts.createdAt,
+        stock: sql<number>`COALESCE((
+          SELECT SUM(CAST(inventory_movements.quantity AS numeric))
+          FROM inventory_movements WHERE inventory_movements.product_id = ${inventoryProducts.id}
+        ), 0)`.mapWith(Number),
+        averageUnitCost: sql<number>`COALESCE((
+          SELECT SUM(CAST(inventory_movements.total_cost AS numeric)) / NULLIF(SUM(CAST(inventory_movements.quantity AS numeric)), 0)
+          FROM inventory_movements
+          WHERE inventory_movements.product_id = ${inventoryProducts.id}
+          AND inventory_movements.type = 'alim'
+          AND inventory_movements.total_cost IS NOT NULL
+        ), 0)`.mapWith(Number)
+      })
+      .from(inventoryProducts)
+      .$dynamic();
   }
   
-  async createExpense(expense: InsertExpense): Promise<Expense> {
-    // Amount'u string'e çevir
-    const expenseData = {
-      ...expense,
-      amount: expense.amount.toString()
+  private withLowStockFlag(rows: Omit<InventoryProductDetail, "isLow">[]): InventoryProductDetail[] {
+    return rows.map(row => ({ ...row, isLow: row.isActive && row.stock < Number(row.minStock) }));
+  }
+  
+  async getInventoryProducts(): Promise<InventoryProductDetail[]> {
+    return this.withLowStockFlag(await this.selectInventoryProducts().orderBy(inventoryProducts.name));
+  }
+  
+  async getInventoryProduct(id: number): Promise<InventoryProductReport | undefined> {
+    const [product] = this.withLowStockFlag(await this.selectInventoryProducts().where(eq(inventoryProducts.id, id)));
+    if (!product) return undefined;
+    
+    const movements: InventoryMovementDetail[] = await db
+      .select({
+        id: inventoryMovements.id,
+        productId: inventoryMovements.productId,
+        type: inventoryMovements.type,
+        quantity: inventoryMovements.quantity,
+        totalCost: inventoryMovements.totalCost,
+        jobId: inventoryMovements.jobId,
+        jobServiceId: inventoryMovements.jobServiceId,
+        recipeQuantity: inventoryMovements.recipeQuantity,
+        expenseId: inventoryMovements.expenseId,
+        userId: inventoryMovements.userId,
+        notes: inventoryMovements.notes,
+        createdAt: inventoryMovements.createdAt,
+        userName: users.fullName
+      })
+      .from(inventoryMovements)
+      .leftJoin(users, eq(inventoryMovements.userId, users.id))
+      .where(eq(inventoryMovements.productId, id))
+      .orderBy(desc(inventoryMovements.createdAt), desc(inventoryMovements.id));
+    
+    return { ...product, movements };
+  }
+  
+  async createInventoryProduct(product: InsertInventoryProduct): Promise<InventoryProduct> {
+    const [created] = await db.insert(inventoryProducts).values(product).returning();
+    return created;
+  }
+  
+  async updateInventoryProduct(id: number, product: Partial<InsertInventoryProduct>): Promise<InventoryProduct | undefined> {
+    const [updated] = await db.update(inventoryProducts).set(product).where(eq(inventoryProducts.id, id)).returning();
+    return updated;
+  }
+  
+  // Alım stoğu artırır; istenirse aynı tutarda malzeme gideri oluşturulup harekete bağlanır
+  // Gider ve alım hareketi aynı işlemde yazılır; biri başarısız olursa diğeri de geri alınır
+  async recordInventoryPurchase(productId: number, purchase: InventoryPurchase, userId: number): Promise<InventoryMovement> {
+    let expenseRow: Awaited<ReturnType<DatabaseStorage["toExpenseRow"]>> | undefined;
+    if (purchase.createExpense) {
+      const [product] = await db.select().from(inventoryProducts).where(eq(inventoryProducts.id, productId));
+      expenseRow = await this.toExpenseRow({
+        name: `Stok alımı: ${product.name} (${Number(purchase.quantity)} ${product.unit})`,
+        amount: Number(purchase.totalCost),
+        category: "malzeme",
+        notes: purchase.notes || null,
+        vatRate: purchase.vatRate,
+        paymentMethod: purchase.paymentMethod
+      });
+    }
+    
+    return await db.transaction(async (tx) => {
+      const [expense] = expenseRow ? await tx.insert(expenses).values(expenseRow).returning() : [];
+      const [movement] = await tx.insert(inventoryMovements).values({
+        productId,
+        type: "alim",
+        quantity: purchase.quantity,
+        totalCost: purchase.totalCost,
+        expenseId: expense?.id ?? null,
+        userId,
+        notes: purchase.notes || null
+      }).returning();
+      return movement;
+    });
+  }
+  
+  // Sayılan stok ile kayıtlı stok arasındaki fark sayım hareketi olarak yazılır; fark yoksa hareket oluşmaz
+  async recordInventoryCount(productId: number, stockCount: InventoryStockCount, userId: number): Promise<InventoryMovement | undefined> {
+    const [product] = await this.selectInventoryProducts().where(eq(inventoryProducts.id, productId));
+    if (!product) return undefined;
+    
+    const difference = Math.round((stockCount.countedStock - product.stock) * 1000) / 1000;
+    if (difference === 0) return undefined;
+    
+    const [movement] = await db.insert(inventoryMovements).values({
+      productId,
+      type: "sayim",
+      quantity: difference.toFixed(3),
+      userId,
+      notes: stockCount.notes || null
+    }).returning();
+    return movement;
+  }
+  
+  async getServiceConsumptions(serviceId?: number): Promise<ServiceConsumption[]> {
+    return await db
+      .select()
+      .from(serviceConsumptions)
+      .where(serviceId !== undefined ? eq(serviceConsumptions.serviceId, serviceId) : undefined)
+      .orderBy(serviceConsumptions.serviceId, serviceConsumptions.productId);
+  }
+  
+  // Reçete değişikliği yalnızca sonraki tamamlanan işleri etkiler: tüketilen satırlar reçetenin
+  // tüketim hareketlerindeki kopyasıyla hesaplanır (bkz. syncJobConsumption)
+  async setServiceConsumptions(serviceId: number, items: { productId: number; quantity: string }[]): Promise<ServiceConsumption[]> {
+    await db.transaction(async (tx) => {
+      await tx.delete(serviceConsumptions).where(eq(serviceConsumptions.serviceId, serviceId));
+      if (items.length > 0) {
+        await tx.insert(serviceConsumptions).values(items.map(item => ({ ...item, serviceId })));
+      }
+    });
+    return await this.getServiceConsumptions(serviceId);
+  }
+  
+  // Tamamlanan işin satırlarına göre reçetedeki malzemeyi stoktan düş. Mevcut tüketim hareketleriyle
+  // satır ve ürün bazında karşılaştırılıp yalnızca fark yazılır; iş tamamlanmaktan çıkar veya silinirse
+  // tüketim iade edilir. Bir satır ilk kez tüketildiğinde reçete hareketlere kopyalanır; sonraki
+  // hesaplarda (adet değişikliği gibi) güncel reçete değil bu kopya kullanılır.
+  private async syncJobConsumption(jobId: number, executor: DbExecutor = db): Promise<void> {
+    const [job] = await executor.select().from(jobs).where(eq(jobs.id, jobId));
+    const entries = await executor
+      .select({
+        productId: inventoryMovements.productId,
+        jobServiceId: inventoryMovements.jobServiceId,
+        quantity: inventoryMovements.quantity,
+        recipeQuantity: inventoryMovements.recipeQuantity
+      })
+      .from(inventoryMovements)
+      .where(and(eq(inventoryMovements.jobId, jobId), inArray(inventoryMovements.type, ["tuketim", "iade"])));
+    if (!job && entries.length === 0) return;
+    
+    type ConsumptionKey = { jobServiceId: number | null; productId: number; recipeQuantity: string | null };
+    const keyOf = (jobServiceId: number | null, productId: number) => `${jobServiceId ?? "-"}:${productId}`;
+    
+    const current = new Map<string, ConsumptionKey & { quantity: number }>();
+    for (const entry of entries) {
+      const key = keyOf(entry.jobServiceId, entry.productId);
+      const existing = current.get(key);
+      current.set(key, {
+        jobServiceId: entry.jobServiceId,
+        productId: entry.productId,
+        recipeQuantity: existing?.recipeQuantity ?? entry.recipeQuantity,
+        quantity: (existing?.quantity ?? 0) + Number(entry.quantity)
+      });
+    }
+    
+    const lines = job?.status === "tamamlandi"
+      ? await executor.select().from(jobServices).where(eq(jobServices.jobId, jobId)).orderBy(jobServices.id)
+      : [];
+    
+    // Satıra bağlanmadan önce yazılmış eski tüketimin reçetesi bilinmez; iş tamamlandığı sürece olduğu gibi kalır
+    const hasLegacyConsumption = Array.from(current.values())
+      .some(entry => entry.jobServiceId === null && Math.round(entry.quantity * 1000) !== 0);
+    if (lines.length > 0 && hasLegacyConsumption) return;
+    
+    // Reçete kopyası olmayan satırlar için güncel reçete
+    const snapshots = new Map<number, { productId: number; quantity: string }[]>();
+    current.forEach(entry => {
+      if (entry.jobServiceId === null || entry.recipeQuantity === null) return;
+      snapshots.set(entry.jobServiceId, [
+        ...(snapshots.get(entry.jobServiceId) ?? []),
+        { productId: entry.productId, quantity: entry.recipeQuantity }
+      ]);
+    });
+    const serviceIds = Array.from(new Set(lines
+      .filter(line => !snapshots.has(line.id))
+      .map(line => line.serviceId)
+      .filter((id): id is number => id !== null)));
+    const recipes = serviceIds.length > 0
+      ? await executor.select().from(serviceConsumptions).where(inArray(serviceConsumptions.serviceId, serviceIds))
+      : [];
+    
+    // Hedef: satır ve ürün başına eksi tüketim miktarı
+    const target = new Map<string, ConsumptionKey & { quantity: number }>();
+    for (const line of lines) {
+      const recipe = snapshots.get(line.id) ?? recipes.filter(recipe => recipe.serviceId === line.serviceId);
+      for (const item of recipe) {
+        target.set(keyOf(line.id, item.productId), {
+          jobServiceId: line.id,
+          productId: item.productId,
+          recipeQuantity: item.quantity,
+          quantity: -Number(item.quantity) * line.quantity
+        });
+      }
+    }
+    
+    const keys = new Set([...Array.from(target.keys()), ...Array.from(current.keys())]);
+    const newEntries: (typeof inventoryMovements.$inferInsert)[] = [];
+    keys.forEach(key => {
+      const wanted = target.get(key);
+      const existing = current.get(key);
+      const delta = Math.round(((wanted?.quantity ?? 0) - (existing?.quantity ?? 0)) * 1000) / 1000;
+      if (delta === 0) return;
+      const entry = (wanted ?? existing)!;
+      newEntries.push({
+        productId: entry.productId,
+        type: delta < 0 ? "tuketim" : "iade",
+        quantity: delta.toFixed(3),
+        jobId,
+        jobServiceId: entry.jobServiceId,
+        recipeQuantity: entry.recipeQuantity,
+        notes: `İş emri #${jobId}`
+      });
+    });
+    
+    if (newEntries.length > 0) {
+      await executor.insert(inventoryMovements).values(newEntries);
+    }
+  }
+  
+  // Dönem içindeki alım ve tüketim; tüketim maliyeti ürünün ortalama alım maliyetiyle hesaplanır
+  async getInventoryReport(startDate: string, endDate: string): Promise<InventoryReport> {
+    const { start, end } = await this.resolveBusinessDays(startDate, endDate);
+    const products = await this.getInventoryProducts();
+    
+    const periodTotals = await db
+      .select({
+        productId: inventoryMovements.productId,
+        purchased: sql<number>`COALESCE(SUM(CASE WHEN ${inventoryMovements.type} = 'alim' THEN CAST(${inventoryMovements.quantity} AS numeric) END), 0)`.mapWith(Number),
+        purchaseCost: sql<number>`COALESCE(SUM(CASE WHEN ${inventoryMovements.type} = 'alim' THEN CAST(${inventoryMovements.totalCost} AS numeric) END), 0)`.mapWith(Number),
+        consumed: sql<number>`COALESCE(-SUM(CASE WHEN ${inventoryMovements.type} IN ('tuketim', 'iade') THEN CAST(${inventoryMovements.quantity} AS numeric) END), 0)`.mapWith(Number)
+      })
+      .from(inventoryMovements)
+      .where(and(
+        sql`${inventoryMovements.createdAt} >= ${start}`,
+        sql`${inventoryMovements.createdAt} < ${end}`
+      ))
+      .groupBy(inventoryMovements.productId);
+    const totalsByProduct = new Map(periodTotals.map(row => [row.productId, row]));
+    
+    const rows = products
+      .filter(product => product.isActive || totalsByProduct.has(product.id))
+      .map(product => {
+        const period = totalsByProduct.get(product.id);
+        const consumed = period?.consumed ?? 0;
+        return {
+          productId: product.id,
+          name: product.name,
+          unit: product.unit,
+          purchased: period?.purchased ?? 0,
+          purchaseCost: period?.purchaseCost ?? 0,
+          consumed,
+          consumptionCost: Math.round(consumed * product.averageUnitCost * 100) / 100,
+          stock: product.stock
+        };
+      });
+    
+    return {
+      rows,
+      totals: {
+        purchaseCost: rows.reduce((total, row) => total + row.purchaseCost, 0),
+        consumptionCost: rows.reduce((total, row) => total + row.consumptionCost, 0)
+      }
     };
+  }
+
+  // Staff and payroll methods
+  async getStaffMembers(): Promise<StaffMember[]> {
+    return await db
+      .select({ id: users.id, fullName: users.fullName, role: users.role })
+      .from(users)
+      .orderBy(users.fullName);
+  }
+  
+  async getJobStaff(jobId: number): Promise<StaffMember[]> {
+    return await db
+      .select({ id: users.id, fullName: users.fullName, role: users.role })
+      .from(jobStaff)
+      .innerJoin(users, eq(jobStaff.userId, users.id))
+      .where(eq(jobStaff.jobId, jobId))
+      .orderBy(users.fullName);
+  }
+  
+  async setJobStaff(jobId: number, userIds: number[]): Promise<StaffMember[]> {
+    await db.transaction(async (tx) => {
+      await tx.delete(jobStaff).where(eq(jobStaff.jobId, jobId));
+      if (userIds.length > 0) {
+        await tx.insert(jobStaff).values(userIds.map(userId => ({ jobId, userId })));
+      }
+    });
+    return await this.getJobStaff(jobId);
+  }
+  
+  // Dönemde tamamlanan işlerin primi, iş satırına kopyalanan prim kuralıyla (kopya yoksa hizmetin güncel kuralıyla) hesaplanıp işteki personele eşit bölünür
+  async getPayrollReport(period: string, startDate: string, endDate: string): Promise<PayrollReport> {
+    const { start, end } = await this.resolveBusinessDays(startDate, endDate);
     
-    const result = await db.insert(expenses).values(expenseData).returning();
-    return result[0];
+    // Dönem, işin tamamlandığı zamana göre belirlenir (tamamlanan işte son durum değişikliği)
+    const assignments = await db
+      .select({ jobId: jobStaff.jobId, userId: jobStaff.userId })
+      .from(jobStaff)
+      .innerJoin(jobs, eq(jobStaff.jobId, jobs.id))
+      .where(and(
+        eq(jobs.status, "tamamlandi"),
+        sql`${jobs.statusChangedAt} >= ${start}`,
+        sql`${jobs.statusChangedAt} < ${end}`
+      ));
+    const jobIds = Array.from(new Set(assignments.map(row => row.jobId)));
+    
+    const lines = jobIds.length > 0
+      ? await db
+          .select({
+            jobId: jobServices.jobId,
+            quantity: jobServices.quantity,
+            netAmount: jobServices.netAmount,
+            // Kural kopyalanmamış satırda (eski kayıt) hizmetin güncel kuralı kullanılır
+            commissionType: sql<string>`COALESCE(${jobServices.commissionType}, ${services.commissionType}, 'yok')`,
+            commissionValue: sql<string>`COALESCE(${jobServices.commissionValue}, ${services.commissionValue}, 0)`
+          })
+          .from(jobServices)
+          .leftJoin(services, eq(jobServices.serviceId, services.id))
+          .where(inArray(jobServices.jobId, jobIds))
+      : [];
+    
+    const jobTotals = new Map<number, { commission: number; serviceCount: number; staffCount: number }>();
+    for (const line of lines) {
+      const totals = jobTotals.get(line.jobId) ?? { commission: 0, serviceCount: 0, staffCount: 0 };
+      totals.commission += calculateLineCommission(line, line);
+      totals.serviceCount += line.quantity;
+      jobTotals.set(line.jobId, totals);
+    }
+    for (const assignment of assignments) {
+      const totals = jobTotals.get(assignment.jobId);
+      if (totals) totals.staffCount++;
+    }
+    
+    const payouts = await db.select().from(staffPayouts).where(eq(staffPayouts.period, period));
+    const staff = await this.getStaffMembers();
+    
+    const rowsByUser = new Map<number, PayrollRow>();
+    const getRow = (userId: number) => {
+      let row = rowsByUser.get(userId);
+      if (!row) {
+        const member = staff.find(member => member.id === userId);
+        row = {
+          userId,
+          fullName: member?.fullName ?? `Silinmiş kullanıcı #${userId}`,
+          role: member?.role ?? "",
+          jobCount: 0,
+          serviceCount: 0,
+          commission: 0,
+          payout: payouts.find(payout => payout.userId === userId) ?? null
+        };
+        rowsByUser.set(userId, row);
+      }
+      return row;
+    };
+    
+    for (const assignment of assignments) {
+      const row = getRow(assignment.userId);
+      const totals = jobTotals.get(assignment.jobId);
+      row.jobCount++;
+      if (totals) {
+        row.serviceCount += totals.serviceCount / totals.staffCount;
+        row.commission += totals.commission / totals.staffCount;
+      }
+    }
+    // İşlenmiş ama artık işi görünmeyen personel de listelenir
+    payouts.forEach(payout => getRow(payout.userId));
+    
+    const rows = Array.from(rowsByUser.values())
+      .map(row => ({
+        ...row,
+        serviceCount: Math.round(row.serviceCount * 100) / 100,
+        commission: Math.round(row.commission * 100) / 100
+      }))
+      .sort((a, b) => a.fullName.localeCompare(b.fullName, "tr"));
+    
+    return {
+      period,
+      rows,
+      totalCommission: rows.reduce((total, row) => total + row.commission, 0)
+    };
   }
   
-  async updateExpense(id: number, expense: Partial<InsertExpense>): Promise<Expense | undefined> {
-    const expenseData: any = {...expense};
+  // Henüz işlenmemiş primler personel başına "personel" gideri olarak kaydedilir.
+  // Ödeme kaydı ve gideri aynı işlemde yazılır; aynı dönem için eşzamanlı ikinci istek çakışmaya düşer.
+  async postPayroll(payroll: PostPayroll, startDate: string, endDate: string, userId: number): Promise<StaffPayout[]> {
+    const report = await this.getPayrollReport(payroll.period, startDate, endDate);
+    const posted: StaffPayout[] = [];
     
-    // Eğer amount varsa string'e çevir
-    if (expenseData.amount !== undefined) {
-      expenseData.amount = expenseData.amount.toString();
+    for (const row of report.rows) {
+      if (row.payout || row.commission <= 0) continue;
+      
+      const expenseRow = await this.toExpenseRow({
+        name: `Personel primi: ${row.fullName} (${payroll.period})`,
+        amount: row.commission,
+        category: "personel",
+        notes: `${row.jobCount} iş emri`,
+        paymentMethod: payroll.paymentMethod
+      });
+      
+      const updated = await db.transaction(async (tx) => {
+        const [payout] = await tx.insert(staffPayouts).values({
+          userId: row.userId,
+          period: payroll.period,
+          amount: row.commission.toFixed(2),
+          jobCount: row.jobCount,
+          createdBy: userId
+        }).onConflictDoNothing().returning();
+        if (!payout) return undefined;
+        
+        const [expense] = await tx.insert(expenses).values(expenseRow).returning();
+        const [result] = await tx
+          .update(staffPayouts)
+          .set({ expenseId: expense.id })
+          .where(eq(staffPayouts.id, payout.id))
+          .returning();
+        return result;
+      });
+      if (updated) posted.push(updated);
     }
     
-    const result = await db.update(expenses).set(expenseData).where(eq(expenses.id, id)).returning();
-    return result[0];
+    return posted;
+  }
+
+  // Job photo and damage methods
+  async getJobPhotos(jobId: number): Promise<JobPhoto[]> {
+    return await db
+      .select()
+      .from(jobPhotos)
+      .where(eq(jobPhotos.jobId, jobId))
+      .orderBy(jobPhotos.createdAt, jobPhotos.id);
   }
   
-  async deleteExpense(id: number): Promise<boolean> {
-    try {
-      await db.delete(expenses).where(eq(expenses.id, id));
-      return true;
-    } catch (error) {
-      console.error("Gider silinirken hata oluştu:", error);
-      return false;
+  async getJobPhoto(jobId: number, photoId: number): Promise<JobPhoto | undefined> {
+    const [photo] = await db
+      .select()
+      .from(jobPhotos)
+      .where(and(eq(jobPhotos.jobId, jobId), eq(jobPhotos.id, photoId)));
+    return photo;
+  }
+  
+  async createJobPhoto(photo: Omit<JobPhoto, "id" | "createdAt">): Promise<JobPhoto> {
+    const [created] = await db.insert(jobPhotos).values(photo).returning();
+    return created;
+  }
+  
+  async deleteJobPhoto(jobId: number, photoId: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(jobPhotos)
+      .where(and(eq(jobPhotos.jobId, jobId), eq(jobPhotos.id, photoId)))
+      .returning();
+    if (!deleted) return false;
+    
+    await deleteJobPhotoFiles(deleted.fileName);
+    return true;
+  }
+  
+  async getJobDamageMarks(jobId: number): Promise<JobDamageMark[]> {
+    return await db
+      .select()
+      .from(jobDamageMarks)
+      .where(eq(jobDamageMarks.jobId, jobId));
+  }
+  
+  async setJobDamageMarks(jobId: number, marks: JobDamageMarkInput[]): Promise<JobDamageMark[]> {
+    await db.transaction(async (tx) => {
+      await tx.delete(jobDamageMarks).where(eq(jobDamageMarks.jobId, jobId));
+      if (marks.length > 0) {
+        await tx.insert(jobDamageMarks).values(marks.map(mark => ({ ...mark, jobId, note: mark.note || null })));
+      }
+    });
+    return await this.getJobDamageMarks(jobId);
+  }
+
+  // Audit log methods
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const [created] = await db.insert(auditLogs).values(entry).returning();
+    return created;
+  }
+
+  async getAuditLogs(query: AuditLogQuery): Promise<AuditLogResult> {
+    const conditions: SQL[] = [];
+    if (query.userId) {
+      conditions.push(eq(auditLogs.userId, query.userId));
+    }
+    if (query.entityType) {
+      conditions.push(eq(auditLogs.entityType, query.entityType));
+    }
+    if (query.entityId) {
+      conditions.push(eq(auditLogs.entityId, query.entityId));
+    }
+    if (query.dateFrom) {
+      const { start } = await this.resolveBusinessDays(query.dateFrom);
+      conditions.push(sql`${auditLogs.createdAt} >= ${start}`);
     }
+    if (query.dateTo) {
+      const { end } = await this.resolveBusinessDays(query.dateTo);
+      conditions.push(sql`${auditLogs.createdAt} < ${end}`);
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    
+    const items = await db
+      .select()
+      .from(auditLogs)
+      .where(where)
+      .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    
+    const [{ total }] = await db.select({ total: count() }).from(auditLogs).where(where);
+    
+    return { items, total, page: query.page, pageSize: query.pageSize };
+  }
+
+  async getAuditEntityTypes(): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ entityType: auditLogs.entityType })
+      .from(auditLogs)
+      .orderBy(asc(auditLogs.entityType));
+    return rows.map(row => row.entityType);
   }
 
   // Statistics methods
-  async getDailyStats(date: Date): Promise<{
+  async getDailyStats(date: string): Promise<{
     totalAmount: number;
     totalPaid: number;
     totalJobs: number;
     pendingPayments: number;
   }> {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
+    const { start: startOfDay, end: endOfDay } = await this.resolveBusinessDays(date);
     
-    console.log("Günlük istatistik için tarih aralığı:", startOfDay, endOfDay);
-    console.log("Gelen tarih:", date);
-    
-    // Bugünkü işleri SQL formatinda sorgu ile bul
+    // Bugünkü işleri ve bu işlere yapılan toplam ödemeyi SQL ile bul
     const todayJobs = await db.execute(sql`
-      SELECT * FROM jobs 
+      SELECT 
+        jobs.total_amount,
+        COALESCE((SELECT SUM(CAST(amount AS numeric)) FROM payments WHERE payments.job_id = jobs.id), 0) AS paid
+      FROM jobs 
       WHERE created_at >= ${startOfDay} 
-      AND created_at <= ${endOfDay}
+      AND created_at < ${endOfDay}
+      AND status != 'iptal'
     `);
     
-    console.log("Bulunan işler:", todayJobs);
+    // Bugün alınan tahsilatlar (önceki günlerin işlerine yapılan ödemeler dahil)
+    const todayPayments = await db.execute(sql`
+      SELECT SUM(CAST(payments.amount AS numeric)) AS total
+      FROM payments
+      INNER JOIN jobs ON jobs.id = payments.job_id
+      WHERE payments.created_at >= ${startOfDay}
+      AND payments.created_at < ${endOfDay}
+      AND jobs.status != 'iptal'
+    `);
     
     // İstatistikleri hesapla
     let totalAmount = 0;
-    let totalPaid = 0;
     let pendingPayments = 0;
     
     for (const job of todayJobs.rows) {
-      if (job.status !== 'iptal') { // İptal olan işleri hesaba katma
-        const amount = parseFloat(job.total_amount);
-        totalAmount += amount;
-        
-        const paidAmount = parseFloat(job.paid_amount);
-        if (paidAmount >= amount) { // Tamamen ödenmişse
-          totalPaid += amount;
-        } else {
-          pendingPayments += (amount - paidAmount);
-          totalPaid += paidAmount;
-        }
+      const amount = parseFloat(job.total_amount as string);
+      const paid = parseFloat(job.paid as string);
+      totalAmount += amount;
+      
+      if (paid < amount) {
+        pendingPayments += (amount - paid);
       }
     }
     
     return {
       totalAmount,
-      totalPaid,
-      totalJobs: todayJobs.rows.filter(job => job.status !== 'iptal').length,
+      totalPaid: parseFloat((todayPayments.rows[0]?.total as string) || '0'),
+      totalJobs: todayJobs.rows.length,
       pendingPayments
     };
   }
@@ -524,44 +3617,42 @@ export class DatabaseStorage implements IStorage {
     count: number;
     total: number;
   }[]> {
-    const stats: { method: string; count: number; total: number }[] = [];
-    
-    // Ödeme yöntemlerine göre istatistik
-    const methods = ['nakit', 'kredi_karti', 'havale_eft'];
+    // Ödeme kayıtlarını yöntemlerine göre grupla (iptal edilen işler hariç)
+    const result = await db.execute(sql`
+      SELECT 
+        payments.method AS method,
+        COUNT(*) AS count,
+        SUM(CAST(payments.amount AS numeric)) AS total
+      FROM payments
+      INNER JOIN jobs ON jobs.id = payments.job_id
+      WHERE jobs.status != 'iptal'
+      GROUP BY payments.method
+    `);
     
-    for (const method of methods) {
-      // Sadece tamamen ödenmiş işleri say (paid_amount >= total_amount)
-      const result = await db.execute(sql`
-        SELECT 
-          COUNT(*) as count,
-          SUM(CAST(total_amount AS numeric)) as total
-        FROM jobs
-        WHERE payment_method = ${method}
-        AND CAST(paid_amount AS numeric) >= CAST(total_amount AS numeric)
-        AND status != 'iptal'
-      `);
-      
-      stats.push({
+    // Hiç ödeme olmayan yöntemler de listede yer alsın
+    return paymentMethodEnum.options.map(method => {
+      const row = result.rows.find(r => r.method === method);
+      return {
         method,
-        count: parseInt(result.rows[0]?.count || '0'),
-        total: parseFloat(result.rows[0]?.total || '0')
-      });
-    }
-    
-    return stats;
+        count: parseInt((row?.count as string) || '0'),
+        total: parseFloat((row?.total as string) || '0')
+      };
+    });
   }
   
-  async getNetProfit(startDate: Date, endDate: Date): Promise<{
+  async getNetProfit(startDate: string, endDate: string): Promise<{
     totalRevenue: number;
     totalExpenses: number;
     netProfit: number;
   }> {
+    const { start, end } = await this.resolveBusinessDays(startDate, endDate);
+    
     // Bu tarih aralığındaki tüm gelirler (iptal edilmeyen işlerden)
     const revenueResult = await db.execute(sql`
       SELECT SUM(CAST(total_amount AS numeric)) AS total
       FROM jobs
-      WHERE created_at >= ${startDate}
-      AND created_at <= ${endDate}
+      WHERE created_at >= ${start}
+      AND created_at < ${end}
       AND status != 'iptal'
     `);
     
@@ -569,8 +3660,8 @@ export class DatabaseStorage implements IStorage {
     const expensesResult = await db.execute(sql`
       SELECT SUM(CAST(amount AS numeric)) AS total
       FROM expenses
-      WHERE date >= ${startDate}
-      AND date <= ${endDate}
+      WHERE date >= ${start}
+      AND date < ${end}
     `);
     
     const totalRevenue = parseFloat(revenueResult.rows[0]?.total || '0');
@@ -583,6 +3674,166 @@ export class DatabaseStorage implements IStorage {
     };
   }
   
+  async getVatReport(startDate: string, endDate: string): Promise<VatReport> {
+    const { start, end } = await this.resolveBusinessDays(startDate, endDate);
+    
+    // Hesaplanan KDV: iptal edilmeyen işlerin satırları
+    const outputResult = await db.execute(sql`
+      SELECT job_services.vat_rate AS vat_rate,
+        SUM(job_services.net_amount) AS net,
+        SUM(job_services.vat_amount) AS vat,
+        SUM(job_services.gross_amount) AS gross
+      FROM job_services
+      INNER JOIN jobs ON jobs.id = job_services.job_id
+      WHERE jobs.created_at >= ${start}
+      AND jobs.created_at < ${end}
+      AND jobs.status != 'iptal'
+      GROUP BY job_services.vat_rate
+      ORDER BY job_services.vat_rate
+    `);
+    
+    // İndirilecek KDV: KDV'li giderler
+    const inputResult = await db.execute(sql`
+      SELECT vat_rate,
+        SUM(amount - vat_amount) AS net,
+        SUM(vat_amount) AS vat,
+        SUM(amount) AS gross
+      FROM expenses
+      WHERE date >= ${start}
+      AND date < ${end}
+      AND vat_rate > 0
+      GROUP BY vat_rate
+      ORDER BY vat_rate
+    `);
+    
+    const toSummary = (row: Record<string, unknown>): VatRateSummary => ({
+      vatRate: Number(row.vat_rate),
+      net: Number(row.net ?? 0),
+      vat: Number(row.vat ?? 0),
+      gross: Number(row.gross ?? 0)
+    });
+    const output = outputResult.rows.map(toSummary);
+    const input = inputResult.rows.map(toSummary);
+    
+    const outputVat = output.reduce((total, row) => total + row.vat, 0);
+    const inputVat = input.reduce((total, row) => total + row.vat, 0);
+    
+    return {
+      startDate,
+      endDate,
+      output,
+      input,
+      outputVat,
+      inputVat,
+      payableVat: outputVat - inputVat
+    };
+  }
+  
+  async getRevenueReport(startDate: string, endDate: string, groupBy: RevenueReportGroupBy, compare: boolean): Promise<RevenueReport> {
+    const options = getBusinessDayOptions(await this.getAppSettings());
+    const current = await this.getRevenuePeriod(startDate, endDate, groupBy, options);
+    
+    let previous: RevenueReportPeriod | null = null;
+    if (compare) {
+      const range = getPreviousPeriod(startDate, endDate);
+      previous = await this.getRevenuePeriod(range.startDate, range.endDate, groupBy, options);
+    }
+    
+    return { ...current, groupBy, previous };
+  }
+  
+  // Verilen iş günlerini (dahil) dönemlere böl; işi, tahsilatı veya gideri olmayan dönemler de sıfırla listelenir
+  private async getRevenuePeriod(
+    startDate: string,
+    endDate: string,
+    groupBy: RevenueReportGroupBy,
+    options: BusinessDayOptions
+  ): Promise<RevenueReportPeriod> {
+    const { start, end } = getBusinessDayRange(startDate, endDate, options);
+    
+    const result = await db.execute(sql`
+      WITH buckets AS (
+        SELECT generate_series(
+          date_trunc(${groupBy}, ${startDate}::date::timestamp),
+          date_trunc(${groupBy}, ${endDate}::date::timestamp),
+          ${`1 ${groupBy}`}::interval
+        ) AS bucket
+      ),
+      job_totals AS (
+        SELECT date_trunc(${groupBy}, ${toBusinessTime(sql`created_at`, options)}) AS bucket,
+          COUNT(*) AS job_count,
+          SUM(CAST(total_amount AS numeric)) AS revenue
+        FROM jobs
+        WHERE created_at >= ${start}
+        AND created_at < ${end}
+        AND status != 'iptal'
+        GROUP BY 1
+      ),
+      payment_totals AS (
+        SELECT date_trunc(${groupBy}, ${toBusinessTime(sql`payments.created_at`, options)}) AS bucket,
+          SUM(CAST(payments.amount AS numeric)) AS collected
+        FROM payments
+        INNER JOIN jobs ON jobs.id = payments.job_id
+        WHERE payments.created_at >= ${start}
+        AND payments.created_at < ${end}
+        AND jobs.status != 'iptal'
+        GROUP BY 1
+      ),
+      expense_totals AS (
+        SELECT date_trunc(${groupBy}, ${toBusinessTime(sql`date`, options)}) AS bucket,
+          SUM(CAST(amount AS numeric)) AS expenses
+        FROM expenses
+        WHERE date >= ${start}
+        AND date < ${end}
+        GROUP BY 1
+      )
+      SELECT to_char(buckets.bucket, 'YYYY-MM-DD') AS period,
+        COALESCE(job_totals.revenue, 0) AS revenue,
+        COALESCE(payment_totals.collected, 0) AS collected,
+        COALESCE(job_totals.job_count, 0) AS job_count,
+        COALESCE(expense_totals.expenses, 0) AS expenses
+      FROM buckets
+      LEFT JOIN job_totals ON job_totals.bucket = buckets.bucket
+      LEFT JOIN payment_totals ON payment_totals.bucket = buckets.bucket
+      LEFT JOIN expense_totals ON expense_totals.bucket = buckets.bucket
+      ORDER BY buckets.bucket
+    `);
+    
+    const buckets = result.rows.map(row => {
+      const revenue = Number(row.revenue);
+      const expenses = Number(row.expenses);
+      return {
+        period: row.period as string,
+        revenue,
+        collected: Number(row.collected),
+        jobCount: Number(row.job_count),
+        expenses,
+        netProfit: revenue - expenses
+      };
+    });
+    
+    const totals = buckets.reduce(
+      (sum, bucket) => ({
+        revenue: sum.revenue + bucket.revenue,
+        collected: sum.collected + bucket.collected,
+        jobCount: sum.jobCount + bucket.jobCount,
+        expenses: sum.expenses + bucket.expenses,
+        netProfit: sum.netProfit + bucket.netProfit
+      }),
+      { revenue: 0, collected: 0, jobCount: 0, expenses: 0, netProfit: 0 }
+    );
+    
+    return {
+      startDate,
+      endDate,
+      buckets,
+      totals: {
+        ...totals,
+        averageTicket: totals.jobCount > 0 ? totals.revenue / totals.jobCount : 0
+      }
+    };
+  }
+  
   // Backup & Restore methods
   async exportBackup(): Promise<{
     customers: Customer[];
@@ -590,8 +3841,30 @@ export class DatabaseStorage implements IStorage {
     services: Service[];
     jobs: Job[];
     jobServices: JobService[];
+    payments: Payment[];
+    washBays: WashBay[];
+    appointments: Appointment[];
+    appointmentServices: { appointmentId: number; serviceId: number }[];
+    subscriptionPlans: SubscriptionPlan[];
+    subscriptionPlanServices: { planId: number; serviceId: number }[];
+    customerSubscriptions: CustomerSubscription[];
     users: User[];
     expenses: Expense[];
+    cashSessions: CashSession[];
+    cashMovements: CashMovement[];
+    loyaltyTransactions: LoyaltyTransaction[];
+    giftCards: GiftCard[];
+    giftCardTransactions: GiftCardTransaction[];
+    customerServicePrices: CustomerServicePrice[];
+    accountInvoices: AccountInvoice[];
+    inventoryProducts: InventoryProduct[];
+    inventoryMovements: InventoryMovement[];
+    serviceConsumptions: ServiceConsumption[];
+    jobStaff: { jobId: number; userId: number }[];
+    staffPayouts: StaffPayout[];
+    jobPhotos: JobPhoto[];
+    jobPhotoFiles: JobPhotoBackupFile[];
+    jobDamageMarks: JobDamageMark[];
     timestamp: string;
     version: string;
   }> {
@@ -603,8 +3876,30 @@ export class DatabaseStorage implements IStorage {
     
     // JobServices verisini al
     const jobServicesData = await db.select().from(jobServices).execute();
+    const paymentsData = await db.select().from(payments).execute();
+    const washBaysData = await this.getWashBays();
+    const appointmentsData = await db.select().from(appointments).execute();
+    const appointmentServicesData = await db.select().from(appointmentServices).execute();
+    const subscriptionPlansData = await db.select().from(subscriptionPlans).execute();
+    const subscriptionPlanServicesData = await db.select().from(subscriptionPlanServices).execute();
+    const customerSubscriptionsData = await db.select().from(customerSubscriptions).execute();
     const usersData = await this.getUsers();
     const expensesData = await this.getExpenses();
+    const cashSessionsData = await db.select().from(cashSessions).execute();
+    const cashMovementsData = await db.select().from(cashMovements).execute();
+    const loyaltyTransactionsData = await db.select().from(loyaltyTransactions).execute();
+    const giftCardsData = await db.select().from(giftCards).execute();
+    const giftCardTransactionsData = await db.select().from(giftCardTransactions).execute();
+    const customerServicePricesData = await db.select().from(customerServicePrices).execute();
+    const accountInvoicesData = await db.select().from(accountInvoices).execute();
+    const inventoryProductsData = await db.select().from(inventoryProducts).execute();
+    const inventoryMovementsData = await db.select().from(inventoryMovements).execute();
+    const serviceConsumptionsData = await db.select().from(serviceConsumptions).execute();
+    const jobStaffData = await db.select().from(jobStaff).execute();
+    const staffPayoutsData = await db.select().from(staffPayouts).execute();
+    const jobPhotosData = await db.select().from(jobPhotos).execute();
+    const jobPhotoFilesData = await readJobPhotoBackupFiles(jobPhotosData.map(photo => photo.fileName));
+    const jobDamageMarksData = await db.select().from(jobDamageMarks).execute();
     
     // Şu anki zaman damgası ile yedek ver
     return {
@@ -613,111 +3908,160 @@ export class DatabaseStorage implements IStorage {
       services: servicesData,
       jobs: jobsData,
       jobServices: jobServicesData,
+      payments: paymentsData,
+      washBays: washBaysData,
+      appointments: appointmentsData,
+      appointmentServices: appointmentServicesData,
+      subscriptionPlans: subscriptionPlansData,
+      subscriptionPlanServices: subscriptionPlanServicesData,
+      customerSubscriptions: customerSubscriptionsData,
       users: usersData,
       expenses: expensesData,
+      cashSessions: cashSessionsData,
+      cashMovements: cashMovementsData,
+      loyaltyTransactions: loyaltyTransactionsData,
+      giftCards: giftCardsData,
+      giftCardTransactions: giftCardTransactionsData,
+      customerServicePrices: customerServicePricesData,
+      accountInvoices: accountInvoicesData,
+      inventoryProducts: inventoryProductsData,
+      inventoryMovements: inventoryMovementsData,
+      serviceConsumptions: serviceConsumptionsData,
+      jobStaff: jobStaffData,
+      staffPayouts: staffPayoutsData,
+      jobPhotos: jobPhotosData,
+      jobPhotoFiles: jobPhotoFilesData,
+      jobDamageMarks: jobDamageMarksData,
       timestamp: new Date().toISOString(),
-      version: "1.0.0" // Uygulama sürümü
+      version: BACKUP_VERSION
     };
   }
   
-  async importBackup(data: {
-    customers: Customer[];
-    vehicles: Vehicle[];
-    services: Service[];
-    jobs: Job[];
-    jobServices: JobService[];
-    users: User[];
-    expenses: Expense[];
-    timestamp: string;
-    version: string;
-  }): Promise<boolean> {
-    // Veritabanını sıfırla (mevcut verileri temizle)
+  async importBackup(data: BackupFile, options: { dryRun?: boolean; user?: Pick<User, "id" | "username"> } = {}): Promise<BackupRestoreReport> {
+    const dryRun = options.dryRun ?? false;
+    
+    // 1.0.0 yedeklerinde iş satırlarının ID'si yok, mevcut en büyük ID'den devam et
+    let nextLineId = Math.max(0, ...data.jobServices.map(line => line.id ?? 0));
+    const jobServiceRows = data.jobServices.map(line => ({ ...line, id: line.id ?? ++nextLineId }));
+    
+    // Silme sırası önemli: bağımlı tablolar önce; ekleme sırası bunun tersi
+    const restoreTables: RestoreTable[] = [
+      restoreTable("appointmentServices", appointmentServices, data.appointmentServices),
+      restoreTable("inventoryMovements", inventoryMovements, data.inventoryMovements),
+      restoreTable("serviceConsumptions", serviceConsumptions, data.serviceConsumptions),
+      restoreTable("jobStaff", jobStaff, data.jobStaff),
+      restoreTable("jobPhotos", jobPhotos, data.jobPhotos),
+      restoreTable("jobDamageMarks", jobDamageMarks, data.jobDamageMarks),
+      restoreTable("staffPayouts", staffPayouts, data.staffPayouts),
+      restoreTable("inventoryProducts", inventoryProducts, data.inventoryProducts),
+      restoreTable("appointments", appointments, data.appointments),
+      restoreTable("giftCardTransactions", giftCardTransactions, data.giftCardTransactions),
+      restoreTable("payments", payments, data.payments),
+      restoreTable("giftCards", giftCards, data.giftCards),
+      restoreTable("loyaltyTransactions", loyaltyTransactions, data.loyaltyTransactions),
+      restoreTable("jobServices", jobServices, jobServiceRows),
+      restoreTable("customerSubscriptions", customerSubscriptions, data.customerSubscriptions),
+      restoreTable("subscriptionPlanServices", subscriptionPlanServices, data.subscriptionPlanServices),
+      restoreTable("subscriptionPlans", subscriptionPlans, data.subscriptionPlans),
+      restoreTable("jobs", jobs, data.jobs),
+      restoreTable("accountInvoices", accountInvoices, data.accountInvoices),
+      restoreTable("customerServicePrices", customerServicePrices, data.customerServicePrices),
+      restoreTable("vehicles", vehicles, data.vehicles),
+      restoreTable("customers", customers, data.customers),
+      restoreTable("services", services, data.services),
+      restoreTable("washBays", washBays, data.washBays),
+      restoreTable("expenses", expenses, data.expenses),
+      restoreTable("cashMovements", cashMovements, data.cashMovements),
+      restoreTable("cashSessions", cashSessions, data.cashSessions),
+      restoreTable("users", users, data.users),
+    ];
+    
+    const report: BackupRestoreReport = {
+      dryRun,
+      version: data.version,
+      timestamp: data.timestamp,
+      tables: [],
+      warnings: findBackupReferenceWarnings(data),
+    };
+    
     try {
-      // İlişkisel bütünlüğü korumak için silme sırası önemli
-      await db.delete(jobServices);
-      await db.delete(jobs);
-      await db.delete(vehicles);
-      await db.delete(expenses);
-      await db.delete(customers);
-      
-      // Servisleri silme - Sadece sistem servisleri dışındakileri sil
-      const allServices = await db.select().from(services);
-      for (const service of allServices) {
-        if (service.id > 10) { // Sistem servisleri ID'leri 1-10 arasında varsayalım
-          await db.delete(services).where(eq(services.id, service.id));
+      await db.transaction(async (tx) => {
+        for (const { name, table, rows } of restoreTables) {
+          const currentRows: object[] = await tx.select().from(table);
+          report.tables.push(compareBackupRows(name, currentRows, rows));
         }
-      }
-      
-      // Admin kullanıcıları silmemek için sadece normal kullanıcıları temizle
-      const allUsers = await db.select().from(users);
-      for (const user of allUsers) {
-        if (!user.isAdmin) { // isAdmin alanını kullan, role yok
-          await db.delete(users).where(eq(users.id, user.id));
+        
+        for (const { table } of restoreTables) {
+          await tx.delete(table);
         }
-      }
-      
-      // Verileri yükle
-      for (const customer of data.customers) {
-        await db.insert(customers).values({
-          ...customer,
-          id: undefined // ID'yi otomatik olarak oluştur
-        });
-      }
-      
-      for (const vehicle of data.vehicles) {
-        await db.insert(vehicles).values({
-          ...vehicle,
-          id: undefined
-        });
-      }
-      
-      for (const service of data.services) {
-        // Mevcut sistem servislerini atla
-        const existingService = allServices.find(s => s.name === service.name);
-        if (!existingService) {
-          await db.insert(services).values({
-            ...service,
-            id: undefined
-          });
+        
+        // ID'ler korunarak eklenir, böylece ilişkiler yedekteki gibi kalır
+        for (const restore of [...restoreTables].reverse()) {
+          await restore.insertRows(tx);
         }
-      }
-      
-      for (const job of data.jobs) {
-        await db.insert(jobs).values({
-          ...job,
-          id: undefined
-        });
-      }
-      
-      for (const jobService of data.jobServices) {
-        await db.insert(jobServices).values({
-          jobId: jobService.jobId,
-          serviceId: jobService.serviceId
-        });
-      }
-      
-      for (const user of data.users) {
-        // Admin olmayan kullanıcıları ekle
-        if (!user.isAdmin) {
-          await db.insert(users).values({
-            ...user,
-            id: undefined
-          });
+        
+        // Yeni kayıtlar yedekteki ID'lerle çakışmasın diye sayaçları güncelle
+        for (const tableName of SERIAL_BACKUP_TABLES) {
+          await tx.execute(sql`
+            SELECT setval(
+              pg_get_serial_sequence(${tableName}, 'id'),
+              COALESCE((SELECT MAX(id) FROM ${sql.identifier(tableName)}), 0) + 1,
+              false
+            )
+          `);
         }
-      }
-      
-      for (const expense of data.expenses) {
-        await db.insert(expenses).values({
-          ...expense,
-          id: undefined
+        
+        // Eski sürüm yedeklerde bulunmayan fiyat kopyalarını ve tahsilatları tamamla; biri başarısız olursa
+        // geri yükleme de geri alınır
+        await this.backfillJobServiceSnapshots(tx);
+        await this.backfillJobServiceVatAmounts(tx);
+        await this.backfillPaymentsFromJobs(tx);
+        await this.backfillCashSessionLinks(tx);
+        await this.backfillJobServiceCommissions(undefined, tx);
+        await this.backfillVehiclePlates(tx);
+        await this.syncReceiptNumberSequence(tx);
+        
+        // Deneme modunda tüm değişiklikler geri alınır; gerçek geri yükleme aynı işlemde denetim kaydına yazılır
+        if (dryRun) {
+          tx.rollback();
+        }
+        
+        // Fotoğraf dosyaları işlem onaylanmadan yazılır: yazılamazsa veritabanı değişmez, işlem sonradan
+        // başarısız olursa yalnızca hiçbir kayda bağlı olmayan dosyalar kalır. İçeriği istekte olmayan
+        // dosyalar /api/backup/photos ile önceden gönderilmiş olmalıdır.
+        const embeddedPhotoFiles: JobPhotoBackupFile[] = [];
+        const missingPhotoFiles: string[] = [];
+        for (const file of data.jobPhotoFiles) {
+          if (file.image && file.thumbnail) {
+            embeddedPhotoFiles.push({ fileName: file.fileName, image: file.image, thumbnail: file.thumbnail });
+          } else if (!(await hasJobPhotoFiles(file.fileName))) {
+            missingPhotoFiles.push(file.fileName);
+          }
+        }
+        if (missingPhotoFiles.length > 0) {
+          throw new Error(`${missingPhotoFiles.length} fotoğraf dosyası sunucuya yüklenmemiş (${missingPhotoFiles.slice(0, 5).join(", ")})`);
+        }
+        await writeJobPhotoBackupFiles(embeddedPhotoFiles);
+        await tx.insert(auditLogs).values({
+          userId: options.user?.id ?? null,
+          username: options.user?.username ?? null,
+          action: "restore",
+          entityType: "backup",
+          entityId: null,
+          method: null,
+          path: null,
+          before: null,
+          after: null,
+          details: { version: report.version, timestamp: report.timestamp, tables: report.tables, warnings: report.warnings },
         });
-      }
-      
-      return true;
+      });
     } catch (error) {
-      console.error("Yedekten geri yükleme hatası:", error);
-      return false;
+      if (!(dryRun && error instanceof TransactionRollbackError)) {
+        throw error;
+      }
     }
+    
+    return report;
   }
   
   // Settings methods
@@ -731,27 +4075,11 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
-  async setSetting(key: string, value: string): Promise<void> {
-    try {
-      // Önce ayarın var olup olmadığını kontrol et
-      const existing = await db.select().from(settings).where(eq(settings.key, key));
-      
-      if (existing.length > 0) {
-        // Ayar varsa güncelle
-        await db.update(settings)
-          .set({ value, updatedAt: new Date() })
-          .where(eq(settings.key, key));
-      } else {
-        // Ayar yoksa ekle
-        await db.insert(settings).values({
-          key,
-          value,
-          updatedAt: new Date()
-        });
-      }
-    } catch (error) {
-      console.error(`Ayar kaydedilemedi: ${key}=${value}`, error);
-    }
+  // Kayıt hatası çağırana iletilir; ayar kaydedilemediyse istek başarılı görünmemeli
+  async setSetting(key: string, value: string, executor: DbExecutor = db): Promise<void> {
+    await executor.insert(settings)
+      .values({ key, value, updatedAt: new Date() })
+      .onConflictDoUpdate({ target: settings.key, set: { value, updatedAt: new Date() } });
   }
   
   async getAllSettings(): Promise<Setting[]> {
@@ -762,6 +4090,34 @@ export class DatabaseStorage implements IStorage {
       return [];
     }
   }
+  
+  // İş günü tarihlerini (ikisi de dahil) işletme saat dilimi ve kapanış saatine göre [start, end) aralığına çevir
+  private async resolveBusinessDays(startDate: string, endDate: string = startDate): Promise<{ start: Date; end: Date }> {
+    return getBusinessDayRange(startDate, endDate, getBusinessDayOptions(await this.getAppSettings()));
+  }
+  
+  async getAppSettings(): Promise<AppSettings> {
+    const stored = new Map((await this.getAllSettings()).map(setting => [setting.key, setting.value]));
+    
+    const result = { ...DEFAULT_APP_SETTINGS };
+    for (const name of Object.keys(SETTING_DEFINITIONS) as SettingName[]) {
+      (result as Record<SettingName, unknown>)[name] = parseSettingValue(name, stored.get(SETTING_DEFINITIONS[name].key));
+    }
+    return result;
+  }
+  
+  // Ayarların hepsi kaydedilir ya da hiçbiri
+  async updateAppSettings(values: Partial<AppSettings>): Promise<AppSettings> {
+    await db.transaction(async (tx) => {
+      for (const name of Object.keys(values) as SettingName[]) {
+        const value = values[name];
+        if (value !== undefined) {
+          await this.setSetting(SETTING_DEFINITIONS[name].key, serializeSettingValue(value), tx);
+        }
+      }
+    });
+    return await this.getAppSettings();
+  }
 }
 
 export const storage = new DatabaseStorage();
\ No newline at end of file
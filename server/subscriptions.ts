@@ -0,0 +1,58 @@
+import { storage } from "./storage";
+
+// Otomatik yenileme kontrol aralığı (1 saat)
+const RENEWAL_CHECK_INTERVAL = 60 * 60 * 1000;
+
+// Otomatik yenilenen üyelikleri uzat
+export async function performSubscriptionRenewals(): Promise<number> {
+  try {
+    const renewed = await storage.renewDueSubscriptions();
+    if (renewed > 0) {
+      console.log(`${renewed} üyelik otomatik olarak yenilendi`);
+    }
+    return renewed;
+  } catch (error) {
+    console.error("Üyelik yenileme hatası:", error);
+    return 0;
+  }
+}
+
+// Yenilemeleri başlangıçta ve sonra her saat çalıştır
+export function scheduleSubscriptionRenewals(): NodeJS.Timeout {
+  performSubscriptionRenewals();
+  return setInterval(performSubscriptionRenewals, RENEWAL_CHECK_INTERVAL);
+}
+
+// Bir iş satırının üyelik kapsamında ücretsiz verilip verilemeyeceğini kontrol et.
+// Uygunsa null, değilse kullanıcıya gösterilecek hata mesajını döndürür.
+export async function checkSubscriptionCoverage(jobId: number, subscriptionId: number, serviceId: number | null | undefined): Promise<string | null> {
+  const job = await storage.getJob(jobId);
+  if (!job) {
+    return "İş emri bulunamadı";
+  }
+
+  const subscription = await storage.getCustomerSubscription(subscriptionId);
+  if (!subscription || subscription.customerId !== job.customerId) {
+    return "Üyelik bu müşteriye ait değil";
+  }
+  if (subscription.vehicleId !== null && subscription.vehicleId !== job.vehicleId) {
+    return "Üyelik bu araç için geçerli değil";
+  }
+
+  const now = new Date();
+  if (subscription.status !== "aktif" || subscription.startDate > now || subscription.endDate <= now) {
+    return "Üyelik aktif değil";
+  }
+  if (!serviceId || !subscription.serviceIds.includes(serviceId)) {
+    return "Hizmet üyelik paketine dahil değil";
+  }
+
+  // Aynı iş emrindeki ek satırlar yeni bir ziyaret sayılmaz
+  const jobLines = await storage.getJobServices(jobId);
+  const alreadyCounted = jobLines.some(line => line.subscriptionId === subscriptionId);
+  if (!alreadyCounted && subscription.visitLimit !== null && subscription.visitsUsed >= subscription.visitLimit) {
+    return "Bu dönem için üyelik ziyaret hakkı dolmuş";
+  }
+
+  return null;
+}
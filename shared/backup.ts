@@ -0,0 +1,256 @@
+import { z } from "zod";
+import { createSelectSchema } from "drizzle-zod";
+import {
+  customers,
+  vehicles,
+  services,
+  jobs,
+  jobServices,
+  payments,
+  washBays,
+  appointments,
+  appointmentServices,
+  subscriptionPlans,
+  subscriptionPlanServices,
+  customerSubscriptions,
+  users,
+  expenses,
+  cashSessions,
+  cashMovements,
+  loyaltyTransactions,
+  giftCards,
+  giftCardTransactions,
+  customerServicePrices,
+  accountInvoices,
+  inventoryProducts,
+  inventoryMovements,
+  serviceConsumptions,
+  jobStaff,
+  staffPayouts,
+  jobPhotos,
+  jobDamageMarks,
+} from "./schema";
+import { userRoleEnum } from "./permissions";
+
+// Yedek dosyası biçiminin sürümü - tablo yapısı değiştiğinde artırılır
+export const BACKUP_VERSION = "1.15.0";
+
+// Aynı ana sürümdeki yedekler geri yüklenebilir
+export function isSupportedBackupVersion(version: string): boolean {
+  return version.split(".")[0] === BACKUP_VERSION.split(".")[0];
+}
+
+// JSON'da tarihler metin olarak saklandığı için tarih alanları dönüştürülür.
+// Sonradan eklenen sütunlar eski yedeklerde bulunmadığından varsayılan değer alır.
+const backupCustomerSchema = createSelectSchema(customers).extend({
+  isCorporate: z.boolean().default(false),
+  taxNumber: z.string().nullable().default(null),
+  taxOffice: z.string().nullable().default(null),
+  address: z.string().nullable().default(null),
+  paymentTermDays: z.number().int().default(30),
+  createdAt: z.coerce.date(),
+});
+
+const backupVehicleSchema = createSelectSchema(vehicles).extend({
+  plateNormalized: z.string().nullable().default(null),
+  createdAt: z.coerce.date(),
+});
+
+const backupServiceSchema = createSelectSchema(services).extend({
+  durationMinutes: z.number().int().default(30),
+  vatRate: z.string().default("20"),
+  commissionType: z.string().default("yok"),
+  commissionValue: z.string().default("0"),
+});
+
+const backupJobSchema = createSelectSchema(jobs).extend({
+  receiptNumber: z.number().int().nullable().default(null),
+  onAccount: z.boolean().default(false),
+  invoiceId: z.number().int().nullable().default(null),
+  subscriptionId: z.number().int().nullable().default(null),
+  statusChangedAt: z.coerce.date().optional(), // Eski yedeklerde yok, geri yüklemede o anın zamanı alınır
+  createdAt: z.coerce.date(),
+});
+
+const backupJobServiceSchema = createSelectSchema(jobServices).extend({
+  id: z.number().int().optional(), // 1.0.0 yedeklerinde satır ID'si yok
+  serviceId: z.number().int().nullable(),
+  label: z.string().default(""),
+  unitPrice: z.string().default("0"),
+  quantity: z.number().int().default(1),
+  discount: z.string().default("0"),
+  vatRate: z.string().default("20"),
+  netAmount: z.string().default("0"),
+  vatAmount: z.string().default("0"),
+  grossAmount: z.string().default("0"),
+  subscriptionId: z.number().int().nullable().default(null),
+  loyaltyPoints: z.number().int().default(0),
+  loyaltyStamps: z.number().int().default(0),
+  commissionType: z.string().nullable().default(null),
+  commissionValue: z.string().nullable().default(null),
+});
+
+const backupPaymentSchema = createSelectSchema(payments).extend({
+  giftCardId: z.number().int().nullable().default(null),
+  cashSessionId: z.number().int().nullable().default(null),
+  createdAt: z.coerce.date(),
+});
+
+const backupWashBaySchema = createSelectSchema(washBays);
+
+const backupAppointmentSchema = createSelectSchema(appointments).extend({
+  startTime: z.coerce.date(),
+  createdAt: z.coerce.date(),
+});
+
+const backupAppointmentServiceSchema = createSelectSchema(appointmentServices);
+
+const backupSubscriptionPlanSchema = createSelectSchema(subscriptionPlans).extend({
+  createdAt: z.coerce.date(),
+});
+
+const backupSubscriptionPlanServiceSchema = createSelectSchema(subscriptionPlanServices);
+
+const backupCustomerSubscriptionSchema = createSelectSchema(customerSubscriptions).extend({
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  createdAt: z.coerce.date(),
+});
+
+const backupUserSchema = createSelectSchema(users).extend({
+  role: userRoleEnum.optional(),
+}).transform((user) => {
+  // Rol sütunundan önceki yedeklerde rol isAdmin alanından türetilir
+  const role = user.role ?? (user.isAdmin ? "admin" : "cashier");
+  return { ...user, role, isAdmin: role === "admin" };
+});
+
+const backupExpenseSchema = createSelectSchema(expenses).extend({
+  date: z.coerce.date(),
+  vatRate: z.string().default("0"),
+  vatAmount: z.string().default("0"),
+  paymentMethod: z.string().default("nakit"),
+  cashSessionId: z.number().int().nullable().default(null),
+});
+
+const backupCashSessionSchema = createSelectSchema(cashSessions).extend({
+  openedAt: z.coerce.date(),
+  closedAt: z.coerce.date().nullable(),
+});
+
+const backupCashMovementSchema = createSelectSchema(cashMovements).extend({
+  createdAt: z.coerce.date(),
+});
+
+const backupLoyaltyTransactionSchema = createSelectSchema(loyaltyTransactions).extend({
+  createdAt: z.coerce.date(),
+});
+
+const backupGiftCardSchema = createSelectSchema(giftCards).extend({
+  createdAt: z.coerce.date(),
+});
+
+const backupGiftCardTransactionSchema = createSelectSchema(giftCardTransactions).extend({
+  cashSessionId: z.number().int().nullable().default(null),
+  createdAt: z.coerce.date(),
+});
+
+const backupCustomerServicePriceSchema = createSelectSchema(customerServicePrices);
+
+const backupAccountInvoiceSchema = createSelectSchema(accountInvoices).extend({
+  dueDate: z.coerce.date(),
+  createdAt: z.coerce.date(),
+});
+
+const backupInventoryProductSchema = createSelectSchema(inventoryProducts).extend({
+  createdAt: z.coerce.date(),
+});
+
+const backupInventoryMovementSchema = createSelectSchema(inventoryMovements).extend({
+  jobServiceId: z.number().int().nullable().default(null),
+  recipeQuantity: z.string().nullable().default(null),
+  createdAt: z.coerce.date(),
+});
+
+const backupServiceConsumptionSchema = createSelectSchema(serviceConsumptions);
+
+const backupJobStaffSchema = createSelectSchema(jobStaff);
+
+const backupStaffPayoutSchema = createSelectSchema(staffPayouts).extend({
+  createdAt: z.coerce.date(),
+});
+
+const backupJobPhotoSchema = createSelectSchema(jobPhotos).extend({
+  createdAt: z.coerce.date(),
+});
+
+// Fotoğraf dosyaları yedeğe base64 olarak gömülür. Geri yüklemede dosyalar istek boyutu sınırı aşılmasın diye
+// /api/backup/photos ile tek tek gönderilir; geri yükleme isteğinde yalnızca dosya adları kalır.
+export const backupJobPhotoFileSchema = z.object({
+  fileName: z.string().regex(/^[\w-]+\.(jpg|png)$/),
+  image: z.string().regex(/^[A-Za-z0-9+/=]+$/),
+  thumbnail: z.string().regex(/^[A-Za-z0-9+/=]+$/),
+});
+
+export type JobPhotoBackupFile = z.infer<typeof backupJobPhotoFileSchema>;
+
+const backupJobDamageMarkSchema = createSelectSchema(jobDamageMarks);
+
+export const backupFileSchema = z.object({
+  version: z.string().refine(isSupportedBackupVersion, {
+    message: `Desteklenmeyen yedek sürümü. Bu sürüm ${BACKUP_VERSION.split(".")[0]}.x yedeklerini geri yükleyebilir.`,
+  }),
+  timestamp: z.string(),
+  customers: z.array(backupCustomerSchema),
+  vehicles: z.array(backupVehicleSchema),
+  services: z.array(backupServiceSchema),
+  jobs: z.array(backupJobSchema),
+  jobServices: z.array(backupJobServiceSchema),
+  payments: z.array(backupPaymentSchema).default([]),
+  washBays: z.array(backupWashBaySchema).default([]),
+  appointments: z.array(backupAppointmentSchema).default([]),
+  appointmentServices: z.array(backupAppointmentServiceSchema).default([]),
+  subscriptionPlans: z.array(backupSubscriptionPlanSchema).default([]),
+  subscriptionPlanServices: z.array(backupSubscriptionPlanServiceSchema).default([]),
+  customerSubscriptions: z.array(backupCustomerSubscriptionSchema).default([]),
+  users: z.array(backupUserSchema),
+  expenses: z.array(backupExpenseSchema),
+  cashSessions: z.array(backupCashSessionSchema).default([]),
+  cashMovements: z.array(backupCashMovementSchema).default([]),
+  loyaltyTransactions: z.array(backupLoyaltyTransactionSchema).default([]),
+  giftCards: z.array(backupGiftCardSchema).default([]),
+  giftCardTransactions: z.array(backupGiftCardTransactionSchema).default([]),
+  customerServicePrices: z.array(backupCustomerServicePriceSchema).default([]),
+  accountInvoices: z.array(backupAccountInvoiceSchema).default([]),
+  inventoryProducts: z.array(backupInventoryProductSchema).default([]),
+  inventoryMovements: z.array(backupInventoryMovementSchema).default([]),
+  serviceConsumptions: z.array(backupServiceConsumptionSchema).default([]),
+  jobStaff: z.array(backupJobStaffSchema).default([]),
+  staffPayouts: z.array(backupStaffPayoutSchema).default([]),
+  jobPhotos: z.array(backupJobPhotoSchema).default([]),
+  jobPhotoFiles: z.array(backupJobPhotoFileSchema.partial({ image: true, thumbnail: true })).default([]),
+  jobDamageMarks: z.array(backupJobDamageMarkSchema).default([]),
+}).refine((data) => data.users.some((user) => user.role === "admin"), {
+  message: "Yedekte en az bir yönetici hesabı bulunmalıdır",
+  path: ["users"],
+});
+
+export type BackupFile = z.infer<typeof backupFileSchema>;
+
+// Geri yükleme (veya deneme) sonrasında her tablo için özet
+export interface BackupTableReport {
+  table: string;
+  current: number; // Veritabanındaki mevcut kayıt sayısı
+  incoming: number; // Yedekteki kayıt sayısı
+  added: number; // Yalnızca yedekte olan ID'ler
+  updated: number; // Her ikisinde olup üzerine yazılacak ID'ler
+  removed: number; // Yalnızca veritabanında olan ve silinecek ID'ler
+}
+
+export interface BackupRestoreReport {
+  dryRun: boolean;
+  version: string;
+  timestamp: string;
+  tables: BackupTableReport[];
+  warnings: string[]; // Yedekteki kopuk ilişkiler vb.
+}
@@ -0,0 +1,89 @@
+// İş günü hesapları: gün sınırları işletmenin saat dilimine ve gün kapanış saatine göre belirlenir.
+// Örn. kapanış saati 2 ise 15 Ocak iş günü 15 Ocak 02:00 - 16 Ocak 02:00 arasıdır.
+
+export type BusinessDayOptions = {
+  timeZone: string; // IANA saat dilimi, örn. Europe/Istanbul
+  cutoffHour: number; // 0-23
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Verilen anın saat dilimindeki duvar saati bileşenleri
+function getZonedParts(at: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(at);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+// Saat diliminin verilen andaki UTC farkı (milisaniye)
+function getTimeZoneOffset(at: Date, timeZone: string): number {
+  const parts = getZonedParts(at, timeZone);
+  const wallTimeAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallTimeAsUtc - (at.getTime() - at.getMilliseconds());
+}
+
+// Saat dilimindeki duvar saatine karşılık gelen an (gün taşmaları Date.UTC ile düzelir)
+function zonedWallTimeToDate(timeZone: string, year: number, month: number, day: number, hour: number): Date {
+  const wallTimeAsUtc = Date.UTC(year, month - 1, day, hour);
+  const offset = getTimeZoneOffset(new Date(wallTimeAsUtc), timeZone);
+  const result = new Date(wallTimeAsUtc - offset);
+
+  // Yaz saati geçişinde fark değiştiyse ikinci tahmini kullan
+  const correctedOffset = getTimeZoneOffset(result, timeZone);
+  return correctedOffset === offset ? result : new Date(wallTimeAsUtc - correctedOffset);
+}
+
+// "YYYY-AA-GG" iş gününün başladığı an
+export function getBusinessDayStart(date: string, options: BusinessDayOptions): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return zonedWallTimeToDate(options.timeZone, year, month, day, options.cutoffHour);
+}
+
+// İki iş günü (ikisi de dahil) arasını kapsayan [start, end) aralığı
+export function getBusinessDayRange(startDate: string, endDate: string, options: BusinessDayOptions): { start: Date; end: Date } {
+  const [year, month, day] = endDate.split("-").map(Number);
+  return {
+    start: getBusinessDayStart(startDate, options),
+    end: zonedWallTimeToDate(options.timeZone, year, month, day + 1, options.cutoffHour),
+  };
+}
+
+// Verilen anın ait olduğu iş günü (YYYY-AA-GG)
+export function getBusinessDate(at: Date, options: BusinessDayOptions): string {
+  const parts = getZonedParts(new Date(at.getTime() - options.cutoffHour * 60 * 60 * 1000), options.timeZone);
+  return [
+    parts.year.toString().padStart(4, "0"),
+    parts.month.toString().padStart(2, "0"),
+    parts.day.toString().padStart(2, "0"),
+  ].join("-");
+}
+
+// Yerel alanları işletme saat dilimindeki duvar saatine eşit bir Date (fiş gibi biçimlendirmeler için)
+export function toBusinessWallTime(at: Date, timeZone: string): Date {
+  const parts = getZonedParts(at, timeZone);
+  return new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
@@ -0,0 +1,112 @@
+import { z } from "zod";
+
+// Kullanıcı rolleri
+export const USER_ROLES = ["admin", "cashier", "washer", "accountant"] as const;
+export const userRoleEnum = z.enum(USER_ROLES);
+export type UserRole = z.infer<typeof userRoleEnum>;
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Yönetici",
+  cashier: "Kasiyer",
+  washer: "Yıkamacı",
+  accountant: "Muhasebeci",
+};
+
+// Yetkiler - "<kaynak>.<işlem>" biçiminde
+export const PERMISSIONS = [
+  "customers.view",
+  "customers.manage",
+  "vehicles.view",
+  "vehicles.manage",
+  "services.view",
+  "services.manage",
+  "jobs.view",
+  "jobs.manage",
+  "jobs.status", // Sadece iş durumunu güncelleme
+  "jobs.delete",
+  "payments.manage",
+  "appointments.view",
+  "appointments.manage",
+  "subscriptions.view",
+  "subscriptions.manage",
+  "expenses.view",
+  "expenses.manage",
+  "cash.view",
+  "cash.manage", // Kasa açma/kapama ve kasa hareketleri
+  "giftCards.view",
+  "giftCards.manage", // Kart oluşturma ve bakiye yükleme
+  "accounts.view",
+  "accounts.manage", // Kurumsal fiyat listeleri, fatura kesme ve fatura tahsilatı
+  "receivables.view", // Açık bakiyeler ve müşteri hesap ekstresi
+  "inventory.view",
+  "inventory.manage", // Ürün tanımı, alım, sayım ve hizmet reçeteleri
+  "reports.view",
+  "settings.manage",
+  "backup.manage",
+  "users.manage",
+  "audit.view", // Denetim kayıtları; yalnızca yönetici
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+// Rol - yetki matrisi
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  cashier: [
+    "customers.view",
+    "customers.manage",
+    "vehicles.view",
+    "vehicles.manage",
+    "services.view",
+    "jobs.view",
+    "jobs.manage",
+    "jobs.status",
+    "payments.manage",
+    "appointments.view",
+    "appointments.manage",
+    "subscriptions.view",
+    "subscriptions.manage",
+    "cash.view",
+    "cash.manage",
+    "giftCards.view",
+    "giftCards.manage",
+    "accounts.view",
+    "receivables.view",
+    "inventory.view",
+  ],
+  washer: [
+    "customers.view",
+    "vehicles.view",
+    "services.view",
+    "jobs.view",
+    "jobs.status",
+    "appointments.view",
+  ],
+  accountant: [
+    "customers.view",
+    "vehicles.view",
+    "services.view",
+    "jobs.view",
+    "appointments.view",
+    "subscriptions.view",
+    "expenses.view",
+    "expenses.manage",
+    "cash.view",
+    "giftCards.view",
+    "accounts.view",
+    "accounts.manage",
+    "receivables.view",
+    "inventory.view",
+    "inventory.manage",
+    "reports.view",
+  ],
+};
+
+// Kullanıcının verilen yetkiye sahip olup olmadığını kontrol et
+export function hasPermission(user: { role: string } | null | undefined, permission: Permission): boolean {
+  if (!user) return false;
+  
+  const parsedRole = userRoleEnum.safeParse(user.role);
+  if (!parsedRole.success) return false;
+  
+  return ROLE_PERMISSIONS[parsedRole.data].includes(permission);
+}
@@ -0,0 +1,98 @@
+import { z } from "zod";
+
+// Türk plakaları: il kodu (01-81) + 1-3 harf + 2-5 rakam.
+// Harf ve rakam sayıları birbirine bağlıdır: "34 A 1234", "34 AB 123", "34 ABC 12" gibi.
+// Veritabanında karşılaştırma için boşluksuz büyük harfli biçim ("34ABC123"),
+// ekranda gösterim için boşluklu biçim ("34 ABC 123") saklanır.
+
+// Harf sayısına göre izin verilen rakam sayıları
+const DIGIT_COUNTS_BY_LETTER_COUNT: Record<number, number[]> = {
+  1: [4, 5],
+  2: [3, 4],
+  3: [2, 3],
+};
+
+export type ParsedPlate = {
+  provinceCode: string;
+  letters: string;
+  digits: string;
+};
+
+// Boşluk, tire, nokta ve alt çizgiyi atıp büyük harfe çevirir.
+// toLocaleUpperCase("tr") kullanılmaz: "i" harfi "İ" değil "I" olmalı.
+export function normalizePlate(plate: string): string {
+  return plate.toUpperCase().replace(/[\s\-._]/g, "");
+}
+
+export function parsePlate(plate: string): ParsedPlate | null {
+  const match = /^(\d{2})([A-Z]{1,3})(\d{2,5})$/.exec(normalizePlate(plate));
+  if (!match) return null;
+
+  const [, provinceCode, letters, digits] = match;
+  const province = Number(provinceCode);
+  if (province < 1 || province > 81) return null;
+  if (!DIGIT_COUNTS_BY_LETTER_COUNT[letters.length].includes(digits.length)) return null;
+
+  return { provinceCode, letters, digits };
+}
+
+export function isValidPlate(plate: string): boolean {
+  return parsePlate(plate) !== null;
+}
+
+// Geçerli plakayı "34 ABC 123" biçiminde döndürür; geçersizse normalize edilmiş hali döner
+export function formatPlate(plate: string): string {
+  const parsed = parsePlate(plate);
+  if (!parsed) return normalizePlate(plate);
+  return `${parsed.provinceCode} ${parsed.letters} ${parsed.digits}`;
+}
+
+// Form ve API girişleri için: plakayı doğrular ve gösterim biçimine çevirir.
+// Düzenlenen aracın mevcut plakası (yabancı/eski biçimli olabilir) değiştirilmeden gönderilirse olduğu gibi kabul edilir.
+export function createPlateSchema(currentPlate?: string) {
+  const isCurrentPlate = (plate: string) =>
+    currentPlate !== undefined && normalizePlate(plate) === normalizePlate(currentPlate);
+  return z
+    .string()
+    .trim()
+    .min(1, "Plaka numarası zorunludur")
+    .refine(plate => isCurrentPlate(plate) || isValidPlate(plate), "Geçersiz plaka (örn. 34 ABC 123)")
+    .transform(plate => isCurrentPlate(plate) ? currentPlate! : formatPlate(plate));
+}
+
+export const plateSchema = createPlateSchema();
+
+// Plaka okuma (OCR) sonuçlarında sık karışan karakterler aynı karaktere indirgenir
+const CONFUSABLE_CHARACTERS: Record<string, string> = {
+  O: "0",
+  Q: "0",
+  D: "0",
+  I: "1",
+  L: "1",
+  Z: "2",
+  S: "5",
+  G: "6",
+  B: "8",
+};
+
+function foldConfusables(plate: string): string {
+  return Array.from(normalizePlate(plate), char => CONFUSABLE_CHARACTERS[char] ?? char).join("");
+}
+
+// İki plaka arasındaki düzenleme uzaklığı; karışan karakterler (O/0, B/8 gibi) fark sayılmaz
+export function plateDistance(a: string, b: string): number {
+  const source = foldConfusables(a);
+  const target = foldConfusables(b);
+  let previous = Array.from({ length: target.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= target.length; j++) {
+      const substitution = previous[j - 1] + (source[i - 1] === target[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return previous[target.length];
+}
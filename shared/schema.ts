@@ -1,15 +1,75 @@
-import { pgTable, text, serial, integer, boolean, numeric, timestamp, primaryKey } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, numeric, timestamp, primaryKey, unique, uniqueIndex, jsonb, pgSequence } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { userRoleEnum } from "./permissions";
+import { createPlateSchema, plateSchema } from "./plate";
 
 // Define payment method enum
-export const paymentMethodEnum = z.enum(["nakit", "kredi_karti", "havale_eft"]);
+export const paymentMethodEnum = z.enum(["nakit", "kredi_karti", "havale_eft", "hediye_karti"]);
 export type PaymentMethod = z.infer<typeof paymentMethodEnum>;
 
+// Gider ve hediye kartı yüklemeleri yalnızca gerçek para ile ödenir
+export const moneyPaymentMethodEnum = paymentMethodEnum.exclude(["hediye_karti"]);
+export type MoneyPaymentMethod = z.infer<typeof moneyPaymentMethodEnum>;
+
+// Türkiye'de uygulanan KDV oranları (%)
+export const VAT_RATES = [0, 1, 10, 20] as const;
+export const vatRateSchema = z.union([z.number(), z.string()])
+  .transform(val => Number(val))
+  .refine(val => (VAT_RATES as readonly number[]).includes(val), "Geçersiz KDV oranı")
+  .transform(val => val.toString());
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  nakit: "Nakit",
+  kredi_karti: "Kredi Kartı",
+  havale_eft: "Havale/EFT",
+  hediye_karti: "Hediye Kartı / Bakiye",
+};
+
 // Define job status enum
 export const jobStatusEnum = z.enum(["bekliyor", "devam_ediyor", "tamamlandi", "iptal"]);
 export type JobStatus = z.infer<typeof jobStatusEnum>;
 
+// Define appointment status enum
+export const appointmentStatusEnum = z.enum(["planlandi", "geldi", "iptal"]);
+export type AppointmentStatus = z.infer<typeof appointmentStatusEnum>;
+
+// Define customer subscription status enum (süresi dolanlar bitiş tarihinden anlaşılır)
+export const subscriptionStatusEnum = z.enum(["aktif", "iptal"]);
+export type SubscriptionStatus = z.infer<typeof subscriptionStatusEnum>;
+
+// Kasa oturumu durumları ve kasa hareket tipleri
+export const cashSessionStatusEnum = z.enum(["acik", "kapali"]);
+export type CashSessionStatus = z.infer<typeof cashSessionStatusEnum>;
+export const cashMovementTypeEnum = z.enum(["giris", "cikis"]);
+export type CashMovementType = z.infer<typeof cashMovementTypeEnum>;
+
+// Sadakat hareket tipleri: kazanım/iptal/düzeltme işin kazandırdığı puanı, kullanım/iade harcanan puanı değiştirir
+export const loyaltyTransactionTypeEnum = z.enum(["kazanim", "iptal", "duzeltme", "kullanim", "iade"]);
+export type LoyaltyTransactionType = z.infer<typeof loyaltyTransactionTypeEnum>;
+
+// Hediye kartı hareket tipleri: yükleme bakiyeyi artırır, harcama azaltır, iade silinen harcamayı geri verir
+export const giftCardTransactionTypeEnum = z.enum(["yukleme", "harcama", "iade"]);
+export type GiftCardTransactionType = z.infer<typeof giftCardTransactionTypeEnum>;
+
+// Stok hareket tipleri: alım stoğu artırır, tüketim tamamlanan işte reçeteye göre düşer,
+// iade işten geri alınan tüketimi stoğa ekler, sayım fiili stokla farkı kaydeder
+export const inventoryMovementTypeEnum = z.enum(["alim", "tuketim", "iade", "sayim"]);
+export type InventoryMovementType = z.infer<typeof inventoryMovementTypeEnum>;
+
+export const INVENTORY_UNITS = ["adet", "lt", "ml", "kg", "gr", "paket"] as const;
+export const inventoryUnitEnum = z.enum(INVENTORY_UNITS);
+export type InventoryUnit = z.infer<typeof inventoryUnitEnum>;
+
+// Hizmet başına personel primi: sabit tutar (adet başına) veya satır net tutarının yüzdesi
+export const commissionTypeEnum = z.enum(["yok", "sabit", "yuzde"]);
+export type CommissionType = z.infer<typeof commissionTypeEnum>;
+
+// Cari hesap faturası durumları; ödeme durumu işlerin tahsilatlarından hesaplanır
+export const accountInvoiceStatusEnum = z.enum(["acik", "iptal"]);
+export type AccountInvoiceStatus = z.infer<typeof accountInvoiceStatusEnum>;
+
 // Define expense categories
 export const EXPENSE_CATEGORIES = ["malzeme", "kira", "su", "elektrik", "personel", "diger"] as const;
 export const expenseCategoryEnum = z.enum(EXPENSE_CATEGORIES);
@@ -21,6 +81,12 @@ export const customers = pgTable("customers", {
   name: text("name").notNull(),
   phone: text("phone"),
   email: text("email"),
+  // Kurumsal (filo) müşteri: işler cari hesaba yazılıp aylık faturalanabilir
+  isCorporate: boolean("is_corporate").default(false).notNull(),
+  taxNumber: text("tax_number"), // VKN (10 hane) veya TCKN (11 hane)
+  taxOffice: text("tax_office"),
+  address: text("address"),
+  paymentTermDays: integer("payment_term_days").default(30).notNull(), // Fatura vadesi (gün)
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -29,12 +95,36 @@ export const insertCustomerSchema = createInsertSchema(customers).omit({
   createdAt: true,
 }).extend({
   name: z.string().min(1, "Müşteri adı zorunludur"),
+  taxNumber: z.string().trim().regex(/^(\d{10}|\d{11})?$/, "Vergi numarası 10, T.C. kimlik numarası 11 haneli olmalıdır").nullable().optional(),
+  paymentTermDays: z.number().int().min(0, "Vade negatif olamaz").max(365, "Vade en fazla 365 gün olabilir").optional(),
+});
+
+// Kurumsal müşterilere özel anlaşmalı hizmet fiyatları (KDV dahil)
+export const customerServicePrices = pgTable("customer_service_prices", {
+  customerId: integer("customer_id").notNull(),
+  serviceId: integer("service_id").notNull(),
+  price: numeric("price").notNull(),
+}, (table) => {
+  return {
+    pk: primaryKey({ columns: [table.customerId, table.serviceId] }),
+  };
 });
 
+// Müşterinin fiyat listesi tek seferde kaydedilir; listede olmayan hizmetlerde liste fiyatı geçerlidir
+export const customerServicePricesSchema = z.array(z.object({
+  serviceId: z.number().int().positive(),
+  price: z.union([z.number(), z.string()])
+    .transform(val => Number(val))
+    .refine(val => !isNaN(val) && val >= 0, "Fiyat negatif olamaz")
+    .transform(val => val.toFixed(2)),
+})).refine(prices => new Set(prices.map(price => price.serviceId)).size === prices.length, "Aynı hizmet birden fazla kez eklenemez");
+
 // Vehicles table
 export const vehicles = pgTable("vehicles", {
   id: serial("id").primaryKey(),
-  plate: text("plate").notNull().unique(),
+  plate: text("plate").notNull().unique(), // Gösterim biçimi, örn. "34 ABC 123"
+  // Karşılaştırma biçimi, örn. "34ABC123". Eski kayıtlarda çakışan plakalar birleştirilene kadar boş kalır
+  plateNormalized: text("plate_normalized").unique(),
   brand: text("brand").notNull(),
   model: text("model"),
   color: text("color"),
@@ -42,13 +132,24 @@ export const vehicles = pgTable("vehicles", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const insertVehicleSchema = createInsertSchema(vehicles).omit({
-  id: true,
-  createdAt: true,
-}).extend({
-  plate: z.string().min(1, "Plaka numarası zorunludur"),
-  brand: z.string().min(1, "Araç markası zorunludur"),
-  customerId: z.number().positive("Lütfen müşteri seçiniz"),
+// Düzenlemede aracın mevcut plakası verilir; eski biçimli plakalar değiştirilmedikçe reddedilmez
+export function createVehicleSchema(currentPlate?: string) {
+  return createInsertSchema(vehicles).omit({
+    id: true,
+    plateNormalized: true,
+    createdAt: true,
+  }).extend({
+    plate: createPlateSchema(currentPlate),
+    brand: z.string().min(1, "Araç markası zorunludur"),
+    customerId: z.number().positive("Lütfen müşteri seçiniz"),
+  });
+}
+
+export const insertVehicleSchema = createVehicleSchema();
+
+// Aynı plakanın eski kayıtlarını tek araçta birleştirme: iş, randevu ve üyelikler hedef araca taşınır
+export const mergeVehiclesSchema = z.object({
+  sourceIds: z.array(z.number().int().positive()).min(1, "Birleştirilecek araç seçilmelidir"),
 });
 
 // Services table
@@ -57,13 +158,29 @@ export const services = pgTable("services", {
   name: text("name").notNull(),
   price: numeric("price").notNull(),
   description: text("description"),
+  durationMinutes: integer("duration_minutes").default(30).notNull(), // Randevu süresi tahmini için
+  vatRate: numeric("vat_rate").default("20").notNull(), // Fiyata dahil KDV oranı (%)
+  commissionType: text("commission_type").default("yok").notNull(), // yok, sabit, yuzde
+  commissionValue: numeric("commission_value").default("0").notNull(), // TL veya %
 });
 
 export const insertServiceSchema = createInsertSchema(services).omit({
   id: true,
+}).extend({
+  durationMinutes: z.number().int().positive("Süre sıfırdan büyük olmalıdır").optional(),
+  vatRate: vatRateSchema.optional(),
+  commissionType: commissionTypeEnum.optional(),
+  commissionValue: z.union([z.number(), z.string()])
+    .transform(val => Number(val))
+    .refine(val => !isNaN(val) && val >= 0, "Prim negatif olamaz")
+    .transform(val => val.toFixed(2))
+    .optional(),
 });
 
 // Jobs table
+// Fiş numaraları: eşzamanlı fiş kesmede aynı numara verilmesin diye sayaçtan alınır, kullanılan numara geri dönmez
+export const receiptNumberSequence = pgSequence("receipt_number_seq", { startWith: 1 });
+
 export const jobs = pgTable("jobs", {
   id: serial("id").primaryKey(),
   vehicleId: integer("vehicle_id").notNull(),
@@ -73,25 +190,255 @@ export const jobs = pgTable("jobs", {
   paymentMethod: text("payment_method").default("nakit").notNull(), // nakit, kredi_karti, havale_eft
   status: text("status").notNull().default("bekliyor"), // bekliyor, devam_ediyor, tamamlandi, iptal
   notes: text("notes"),
+  receiptNumber: integer("receipt_number").unique(), // Fiş kesildiğinde receipt_number_seq'ten sırayla verilir
+  onAccount: boolean("on_account").default(false).notNull(), // Kurumsal müşterinin cari hesabına yazılan iş
+  invoiceId: integer("invoice_id"), // İşin dahil edildiği aylık cari hesap faturası
+  subscriptionId: integer("subscription_id"), // Üyelik satışı veya yenilemesi için açılan ücret kaydı
+  statusChangedAt: timestamp("status_changed_at").defaultNow().notNull(), // Panodaki süre sayacı için
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const insertJobSchema = createInsertSchema(jobs).omit({
   id: true,
+  receiptNumber: true,
+  invoiceId: true,
+  subscriptionId: true,
+  statusChangedAt: true,
   createdAt: true,
 });
 
-// JobServices junction table
+// JobServices table - her satır, satış anındaki fiyatın bir kopyasını saklar
 export const jobServices = pgTable("job_services", {
+  id: serial("id").primaryKey(),
   jobId: integer("job_id").notNull(),
+  serviceId: integer("service_id"),
+  label: text("label").default("").notNull(),
+  unitPrice: numeric("unit_price").default("0").notNull(),
+  quantity: integer("quantity").default(1).notNull(),
+  discount: numeric("discount").default("0").notNull(),
+  // KDV tutarları satır kaydedilirken hesaplanır (fiyatlar KDV dahildir)
+  vatRate: numeric("vat_rate").default("20").notNull(),
+  netAmount: numeric("net_amount").default("0").notNull(),
+  vatAmount: numeric("vat_amount").default("0").notNull(),
+  grossAmount: numeric("gross_amount").default("0").notNull(),
+  subscriptionId: integer("subscription_id"), // Üyelik kapsamında ücretsiz verilen satır
+  // Sadakat kullanımı: puan indirimi satırında harcanan puan, ücretsiz yıkama satırında harcanan damga
+  loyaltyPoints: integer("loyalty_points").default(0).notNull(),
+  loyaltyStamps: integer("loyalty_stamps").default(0).notNull(),
+  // Personel primi kuralı iş tamamlandığında hizmetten kopyalanır; sonradan değişen kural geçmiş işleri etkilemez
+  commissionType: text("commission_type"),
+  commissionValue: numeric("commission_value"),
+});
+
+export const insertJobServiceSchema = createInsertSchema(jobServices).omit({
+  id: true,
+  netAmount: true,
+  vatAmount: true,
+  grossAmount: true,
+  commissionType: true,
+  commissionValue: true,
+}).extend({
+  quantity: z.number().int().positive("Adet en az 1 olmalıdır").default(1),
+  unitPrice: z.union([z.number(), z.string()])
+    .refine(val => !isNaN(Number(val)) && Number(val) >= 0, "Birim fiyat sıfırdan küçük olamaz")
+    .transform(val => val.toString())
+    .optional(),
+  discount: z.union([z.number(), z.string()])
+    .refine(val => !isNaN(Number(val)) && Number(val) >= 0, "İndirim sıfırdan küçük olamaz")
+    .transform(val => val.toString())
+    .optional(),
+  vatRate: vatRateSchema.optional(),
+});
+
+// İndirim satırın brüt tutarını (birim fiyat x adet) aşamaz. Birim fiyat istekte olmayabilir
+// (hizmetten veya anlaşmalı fiyattan kopyalanır), bu yüzden satır kaydedilirken denetlenir.
+export function validateJobLineDiscount(line: { unitPrice: string | number; quantity: number; discount: string | number }): void {
+  if (Number(line.discount || 0) > Math.max(Number(line.unitPrice) * line.quantity, 0)) {
+    throw new z.ZodError([{ code: z.ZodIssueCode.custom, path: ["discount"], message: "İndirim satır tutarını aşamaz" }]);
+  }
+}
+
+// Bir iş satırının tutarı: birim fiyat x adet - indirim (eksi birim fiyatlı indirim satırları hariç sıfırın altına inmez)
+export function calculateJobLineTotal(line: { unitPrice: string | number; quantity: number; discount: string | number }): number {
+  const total = Number(line.unitPrice) * line.quantity - Number(line.discount || 0);
+  return total > 0 || Number(line.unitPrice) < 0 ? total : 0;
+}
+
+// KDV dahil tutarı matrah ve KDV olarak ayır (kuruşa yuvarlanır)
+export function splitVat(gross: number, vatRate: number): { net: number; vat: number } {
+  const net = Math.round(gross / (1 + vatRate / 100) * 100) / 100;
+  return { net, vat: Math.round((gross - net) * 100) / 100 };
+}
+
+// İş satırında saklanan KDV tutarları
+export function calculateJobLineVat(line: { unitPrice: string | number; quantity: number; discount: string | number; vatRate: string | number }) {
+  const gross = Math.round(calculateJobLineTotal(line) * 100) / 100;
+  const { net, vat } = splitVat(gross, Number(line.vatRate));
+  return {
+    grossAmount: gross.toFixed(2),
+    netAmount: net.toFixed(2),
+    vatAmount: vat.toFixed(2),
+  };
+}
+
+// İş satırının personel primi: sabit prim adet başına, yüzde prim satırın KDV hariç tutarı üzerinden
+export function calculateLineCommission(
+  line: { quantity: number; netAmount: string | number },
+  rule: { commissionType: string; commissionValue: string | number }
+): number {
+  if (rule.commissionType === "sabit") {
+    return Number(rule.commissionValue) * line.quantity;
+  }
+  if (rule.commissionType === "yuzde") {
+    return Math.max(Number(line.netAmount), 0) * Number(rule.commissionValue) / 100;
+  }
+  return 0;
+}
+
+// Payments table - bir işe ait her tahsilat ayrı satır olarak tutulur
+export const payments = pgTable("payments", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull(),
+  amount: numeric("amount").notNull(),
+  method: text("method").default("nakit").notNull(), // nakit, kredi_karti, havale_eft, hediye_karti
+  userId: integer("user_id"),
+  giftCardId: integer("gift_card_id"), // Hediye kartı / ön ödemeli bakiye ile yapılan tahsilat
+  cashSessionId: integer("cash_session_id"), // Nakit tahsilatlar, alındığında açık olan kasa oturumuna bağlanır
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertPaymentSchema = createInsertSchema(payments).omit({
+  id: true,
+  cashSessionId: true,
+  createdAt: true,
+}).extend({
+  amount: z.union([z.number(), z.string()])
+    .transform(val => typeof val === 'string' ? parseFloat(val) : val)
+    .refine(val => !isNaN(val) && val > 0, "Ödeme tutarı sıfırdan büyük olmalıdır")
+    .transform(val => val.toString()),
+  method: paymentMethodEnum,
+});
+
+// Tahsilat isteği: hediye kartıyla ödemede kart kodu gönderilir, kart sunucuda bulunur
+export const createPaymentSchema = insertPaymentSchema.omit({
+  giftCardId: true,
+}).extend({
+  giftCardCode: z.string().trim().optional(),
+}).refine(payment => payment.method !== "hediye_karti" || !!payment.giftCardCode, {
+  message: "Hediye kartı kodu zorunludur",
+  path: ["giftCardCode"],
+});
+
+// Wash bays table - randevuların atandığı yıkama alanları
+export const washBays = pgTable("wash_bays", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+});
+
+export const insertWashBaySchema = createInsertSchema(washBays).omit({
+  id: true,
+}).extend({
+  name: z.string().min(1, "Yıkama alanı adı zorunludur"),
+});
+
+// Appointments table
+export const appointments = pgTable("appointments", {
+  id: serial("id").primaryKey(),
+  customerId: integer("customer_id").notNull(),
+  vehicleId: integer("vehicle_id").notNull(),
+  bayId: integer("bay_id"),
+  startTime: timestamp("start_time").notNull(),
+  durationMinutes: integer("duration_minutes").notNull(),
+  status: text("status").notNull().default("planlandi"), // planlandi, geldi, iptal
+  notes: text("notes"),
+  jobId: integer("job_id"), // Randevu iş emrine dönüştürüldüğünde
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertAppointmentSchema = createInsertSchema(appointments).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  customerId: z.number().positive("Lütfen müşteri seçiniz"),
+  vehicleId: z.number().positive("Lütfen araç seçiniz"),
+  startTime: z.coerce.date(),
+  // Verilmezse seçilen hizmetlerin sürelerinden hesaplanır
+  durationMinutes: z.number().int().positive().optional(),
+  status: appointmentStatusEnum.optional(),
+  serviceIds: z.array(z.number()).default([]),
+});
+
+// AppointmentServices junction table
+export const appointmentServices = pgTable("appointment_services", {
+  appointmentId: integer("appointment_id").notNull(),
+  serviceId: integer("service_id").notNull(),
+}, (table) => {
+  return {
+    pk: primaryKey({ columns: [table.appointmentId, table.serviceId] }),
+  };
+});
+
+// Üyelik paketleri - aylık sınırsız yıkama vb.
+export const subscriptionPlans = pgTable("subscription_plans", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  price: numeric("price").notNull(), // Dönem başına ücret
+  periodMonths: integer("period_months").default(1).notNull(),
+  visitLimit: integer("visit_limit"), // Dönem başına ziyaret hakkı, boşsa sınırsız
+  isActive: boolean("is_active").default(true).notNull(), // Pasif paketler yeni üyelikte seçilemez
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertSubscriptionPlanSchema = createInsertSchema(subscriptionPlans).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().min(1, "Paket adı zorunludur"),
+  price: z.union([z.number(), z.string()]).transform(val => val.toString()),
+  periodMonths: z.number().int().min(1, "Dönem en az 1 ay olmalıdır").max(24),
+  visitLimit: z.number().int().positive("Ziyaret hakkı en az 1 olmalıdır").nullable().optional(),
+  serviceIds: z.array(z.number()).min(1, "En az bir hizmet seçiniz"),
+});
+
+// Paketin kapsadığı hizmetler
+export const subscriptionPlanServices = pgTable("subscription_plan_services", {
+  planId: integer("plan_id").notNull(),
   serviceId: integer("service_id").notNull(),
 }, (table) => {
   return {
-    pk: primaryKey({ columns: [table.jobId, table.serviceId] }),
+    pk: primaryKey({ columns: [table.planId, table.serviceId] }),
   };
 });
 
-export const insertJobServiceSchema = createInsertSchema(jobServices);
+// Müşteri üyelikleri - dönemler başlangıç tarihinden itibaren paket süresi kadardır
+export const customerSubscriptions = pgTable("customer_subscriptions", {
+  id: serial("id").primaryKey(),
+  customerId: integer("customer_id").notNull(),
+  planId: integer("plan_id").notNull(),
+  vehicleId: integer("vehicle_id"), // Boşsa müşterinin tüm araçlarında geçerli
+  price: numeric("price").notNull(), // Üyelik alındığındaki dönem ücreti
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(), // Bu tarihten itibaren geçersiz
+  autoRenew: boolean("auto_renew").default(false).notNull(),
+  status: text("status").default("aktif").notNull(), // aktif, iptal
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertCustomerSubscriptionSchema = createInsertSchema(customerSubscriptions).omit({
+  id: true,
+  price: true,
+  endDate: true,
+  createdAt: true,
+}).extend({
+  customerId: z.number().positive("Lütfen müşteri seçiniz"),
+  planId: z.number().positive("Lütfen paket seçiniz"),
+  vehicleId: z.number().positive().nullable().optional(),
+  startDate: z.coerce.date(),
+  status: subscriptionStatusEnum.optional(),
+});
 
 // Users table
 export const users = pgTable("users", {
@@ -99,12 +446,15 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   fullName: text("full_name").notNull(),
-  isAdmin: boolean("is_admin").default(false).notNull(),
+  role: text("role").default("cashier").notNull(), // admin, cashier, washer, accountant
+  isAdmin: boolean("is_admin").default(false).notNull(), // role === "admin" ile senkron tutulur
 });
 
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   isAdmin: true,
+}).extend({
+  role: userRoleEnum.optional(),
 });
 
 // Expenses table
@@ -115,15 +465,427 @@ export const expenses = pgTable("expenses", {
   category: text("category").notNull(), // malzeme, kira, su, elektrik, personel, diğer
   date: timestamp("date").defaultNow().notNull(),
   notes: text("notes"),
+  // İndirilecek KDV: tutara dahil KDV oranı ve tutarı (faturasız giderlerde 0)
+  vatRate: numeric("vat_rate").default("0").notNull(),
+  vatAmount: numeric("vat_amount").default("0").notNull(),
+  paymentMethod: text("payment_method").default("nakit").notNull(), // nakit, kredi_karti, havale_eft
+  cashSessionId: integer("cash_session_id"), // Nakit giderler, kaydedildiğinde açık olan kasa oturumuna bağlanır
 });
 
 export const insertExpenseSchema = createInsertSchema(expenses).omit({
   id: true,
+  vatAmount: true,
+  cashSessionId: true,
 }).extend({
+  vatRate: vatRateSchema.optional(),
   amount: z.union([z.number(), z.string()]).transform(val => 
     typeof val === 'string' ? parseFloat(val) : val
   ),
   category: expenseCategoryEnum,
+  paymentMethod: moneyPaymentMethodEnum.optional(),
+});
+
+// Kasa oturumları (gün sonu / Z raporu) - aynı anda tek açık oturum bulunur
+export const cashSessions = pgTable("cash_sessions", {
+  id: serial("id").primaryKey(),
+  status: text("status").default("acik").notNull(), // acik, kapali
+  openedBy: integer("opened_by").notNull(),
+  openedAt: timestamp("opened_at").defaultNow().notNull(),
+  openingFloat: numeric("opening_float").default("0").notNull(), // Açılıştaki kasa avansı
+  closedBy: integer("closed_by"),
+  closedAt: timestamp("closed_at"),
+  // Kapanışta hesaplanıp sabitlenen tutarlar; kapalı oturum değiştirilemez
+  cashPayments: numeric("cash_payments"),
+  cashExpenses: numeric("cash_expenses"),
+  expectedAmount: numeric("expected_amount"),
+  countedAmount: numeric("counted_amount"),
+  variance: numeric("variance"), // Sayılan - beklenen; negatifse kasa açığı
+  notes: text("notes"),
+}, (table) => {
+  return {
+    // Aynı anda yalnızca bir açık oturum olabilir; eşzamanlı açma isteklerini veritabanı engeller
+    oneOpen: uniqueIndex("cash_sessions_one_open").on(table.status).where(sql`status = 'acik'`),
+  };
+});
+
+const cashAmountSchema = z.union([z.number(), z.string()])
+  .transform(val => Number(val))
+  .refine(val => !isNaN(val) && val >= 0, "Tutar sıfır veya daha büyük olmalıdır");
+
+export const openCashSessionSchema = z.object({
+  openingFloat: cashAmountSchema,
+  notes: z.string().optional(),
+});
+
+export const closeCashSessionSchema = z.object({
+  countedAmount: cashAmountSchema,
+  notes: z.string().optional(),
+});
+
+// Açık oturumdaki elle kasa girişi / çıkışı (bankaya yatırma, bozuk para vb.)
+export const cashMovements = pgTable("cash_movements", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  type: text("type").notNull(), // giris, cikis
+  amount: numeric("amount").notNull(),
+  reason: text("reason").notNull(),
+  userId: integer("user_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertCashMovementSchema = createInsertSchema(cashMovements).omit({
+  id: true,
+  sessionId: true,
+  userId: true,
+  createdAt: true,
+}).extend({
+  type: cashMovementTypeEnum,
+  amount: z.union([z.number(), z.string()])
+    .transform(val => Number(val))
+    .refine(val => !isNaN(val) && val > 0, "Tutar sıfırdan büyük olmalıdır")
+    .transform(val => val.toString()),
+  reason: z.string().min(1, "Açıklama zorunludur"),
+});
+
+// Sadakat hareketleri - müşterinin puan ve damga bakiyesi bu kayıtların toplamıdır
+export const loyaltyTransactions = pgTable("loyalty_transactions", {
+  id: serial("id").primaryKey(),
+  customerId: integer("customer_id").notNull(),
+  jobId: integer("job_id"),
+  type: text("type").notNull(), // kazanim, iptal, duzeltme, kullanim, iade
+  points: integer("points").default(0).notNull(),
+  stamps: integer("stamps").default(0).notNull(), // Ücretli ziyaret damgası; yeterli damga ücretsiz yıkamaya çevrilir
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// İşe sadakat kullanımı ekle: puan indirimi satırı veya bir hizmetin ücretsiz yıkama olarak eklenmesi
+export const loyaltyRedemptionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("puan"),
+    points: z.number().int().positive("Puan sıfırdan büyük olmalıdır"),
+  }),
+  z.object({
+    type: z.literal("ucretsiz_yikama"),
+    serviceId: z.number().positive("Lütfen hizmet seçiniz"),
+  }),
+]);
+
+// Hediye kartları / ön ödemeli müşteri bakiyeleri - bakiye hareketlerin toplamıdır
+export const giftCards = pgTable("gift_cards", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  customerId: integer("customer_id"), // Ön ödemeli müşteri bakiyesinde kartın sahibi
+  isActive: boolean("is_active").default(true).notNull(),
+  notes: text("notes"),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+const giftCardAmountSchema = z.union([z.number(), z.string()])
+  .transform(val => Number(val))
+  .refine(val => !isNaN(val) && val > 0, "Tutar sıfırdan büyük olmalıdır")
+  .transform(val => val.toFixed(2));
+
+export const insertGiftCardSchema = createInsertSchema(giftCards).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+}).extend({
+  // Boş bırakılırsa benzersiz kod üretilir
+  code: z.string().trim().toUpperCase().regex(/^[A-Z0-9-]{4,32}$/, "Kod 4-32 harf, rakam veya tireden oluşmalıdır").optional(),
+  customerId: z.number().positive().nullable().optional(),
+  // Kart oluşturulurken yapılan ilk yükleme
+  initialAmount: giftCardAmountSchema.optional(),
+  method: moneyPaymentMethodEnum.default("nakit"),
+});
+
+export const giftCardTransactions = pgTable("gift_card_transactions", {
+  id: serial("id").primaryKey(),
+  cardId: integer("card_id").notNull(),
+  type: text("type").notNull(), // yukleme, harcama, iade
+  amount: numeric("amount").notNull(), // Harcamada eksi
+  method: text("method"), // Yüklemede alınan ödemenin yöntemi
+  paymentId: integer("payment_id"), // Harcama ve iadede ilgili tahsilat
+  cashSessionId: integer("cash_session_id"), // Nakit yüklemeler, yapıldığında açık olan kasa oturumuna bağlanır
+  userId: integer("user_id"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const giftCardTopUpSchema = z.object({
+  amount: giftCardAmountSchema,
+  method: moneyPaymentMethodEnum,
+  notes: z.string().optional(),
+});
+
+// Kurumsal müşterilerin aylık cari hesap faturaları - dönem sonuna kadar tamamlanan, henüz faturalanmamış
+// cari hesap işlerini toplar. Tutarlar fatura kesilirken kopyalanır; faturalı işler değiştirilemez.
+export const accountInvoices = pgTable("account_invoices", {
+  id: serial("id").primaryKey(),
+  customerId: integer("customer_id").notNull(),
+  period: text("period").notNull(), // YYYY-AA
+  netAmount: numeric("net_amount").default("0").notNull(),
+  vatAmount: numeric("vat_amount").default("0").notNull(),
+  totalAmount: numeric("total_amount").default("0").notNull(),
+  dueDate: timestamp("due_date").notNull(),
+  status: text("status").default("acik").notNull(), // acik, iptal
+  notes: text("notes"),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Fatura dönemi (YYYY-AA)
+export const billingPeriodSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Dönem YYYY-AA biçiminde olmalı");
+
+export const createAccountInvoiceSchema = z.object({
+  customerId: z.number().int().positive(),
+  period: billingPeriodSchema,
+  notes: z.string().optional(),
+});
+
+export const accountInvoicePaymentSchema = z.object({
+  amount: z.union([z.number(), z.string()])
+    .transform(val => Number(val))
+    .refine(val => !isNaN(val) && val > 0, "Ödeme tutarı sıfırdan büyük olmalıdır"),
+  method: moneyPaymentMethodEnum,
+});
+
+// Müşterinin açık işlerini tek ödemeyle kapatma; jobIds verilmezse tüm açık işler en eskiden başlayarak kapatılır
+export const customerSettlementSchema = accountInvoicePaymentSchema.extend({
+  jobIds: z.array(z.number().int().positive()).min(1, "En az bir iş seçiniz").optional(),
+});
+
+// Sarf malzemeleri (şampuan, cila, mikrofiber...) - stok miktarı hareketlerin toplamıdır
+export const inventoryProducts = pgTable("inventory_products", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  unit: text("unit").default("adet").notNull(),
+  minStock: numeric("min_stock").default("0").notNull(), // Bu miktarın altında stok uyarısı verilir
+  isActive: boolean("is_active").default(true).notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Stok miktarları en fazla 3 ondalık basamakla tutulur
+const inventoryQuantitySchema = z.union([z.number(), z.string()])
+  .transform(val => Number(val))
+  .refine(val => !isNaN(val) && val > 0, "Miktar sıfırdan büyük olmalıdır")
+  .transform(val => val.toFixed(3));
+
+export const insertInventoryProductSchema = createInsertSchema(inventoryProducts).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().min(1, "Ürün adı zorunludur"),
+  unit: inventoryUnitEnum,
+  minStock: z.union([z.number(), z.string()])
+    .transform(val => Number(val))
+    .refine(val => !isNaN(val) && val >= 0, "Minimum stok negatif olamaz")
+    .transform(val => val.toFixed(3))
+    .optional(),
+});
+
+export const inventoryMovements = pgTable("inventory_movements", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull(),
+  type: text("type").notNull(), // alim, tuketim, iade, sayim
+  quantity: numeric("quantity").notNull(), // Stoktan çıkışta eksi
+  totalCost: numeric("total_cost"), // Alımda ödenen toplam tutar (KDV dahil)
+  jobId: integer("job_id"), // Tüketim ve iadede ilgili iş emri
+  jobServiceId: integer("job_service_id"), // Tüketim ve iadede ilgili iş satırı
+  recipeQuantity: numeric("recipe_quantity"), // Tüketimde hizmetin bir adedi için reçete miktarı (reçetenin kopyası)
+  expenseId: integer("expense_id"), // Alımla birlikte oluşturulan gider
+  userId: integer("user_id"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// İşi yapan personel; prim işteki personel arasında eşit bölünür
+export const jobStaff = pgTable("job_staff", {
+  jobId: integer("job_id").notNull(),
+  userId: integer("user_id").notNull(),
+}, (table) => {
+  return {
+    pk: primaryKey({ columns: [table.jobId, table.userId] }),
+  };
+});
+
+export const jobStaffSchema = z.array(z.number().int().positive())
+  .refine(ids => new Set(ids).size === ids.length, "Aynı personel birden fazla kez eklenemez");
+
+// Dönem primlerinin gider olarak işlenmesi; aynı personele aynı dönem için ikinci kez işlenmez
+export const staffPayouts = pgTable("staff_payouts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  period: text("period").notNull(), // YYYY-AA
+  amount: numeric("amount").notNull(),
+  jobCount: integer("job_count").notNull(),
+  expenseId: integer("expense_id"),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    userPeriodUnique: unique("staff_payouts_user_period_unique").on(table.userId, table.period),
+  };
+});
+
+export const postPayrollSchema = z.object({
+  period: billingPeriodSchema,
+  paymentMethod: moneyPaymentMethodEnum.default("havale_eft"),
+});
+
+// İş emri fotoğrafları: araç kabulde (giriş) ve teslimde (çıkış) çekilir.
+// Dosyalar diskte saklanır; küçük önizleme tarayıcıda üretilip fotoğrafla birlikte yüklenir.
+export const jobPhotoStageEnum = z.enum(["giris", "cikis"]);
+export type JobPhotoStage = z.infer<typeof jobPhotoStageEnum>;
+
+export const JOB_PHOTO_STAGE_LABELS: Record<JobPhotoStage, string> = {
+  giris: "Giriş",
+  cikis: "Çıkış",
+};
+
+export const jobPhotos = pgTable("job_photos", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull(),
+  stage: text("stage").notNull(), // giris, cikis
+  fileName: text("file_name").notNull(), // uploads/job-photos altındaki dosya
+  mimeType: text("mime_type").notNull(),
+  caption: text("caption"),
+  uploadedBy: integer("uploaded_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Fiş PDF'ine de eklenebilmesi için yalnızca JPEG ve PNG kabul edilir; önizleme her zaman JPEG'dir
+export const uploadJobPhotoSchema = z.object({
+  stage: jobPhotoStageEnum,
+  image: z.string().regex(/^data:image\/(jpeg|png);base64,[A-Za-z0-9+/=]+$/, "Fotoğraf JPEG veya PNG olmalıdır"),
+  thumbnail: z.string().regex(/^data:image\/jpeg;base64,[A-Za-z0-9+/=]+$/, "Önizleme JPEG olmalıdır"),
+  caption: z.string().trim().max(200, "Açıklama en fazla 200 karakter olabilir").optional(),
+});
+
+// Hasar şeması: aracın üstten görünümündeki paneller
+export const VEHICLE_PANELS = [
+  "on_tampon", "kaput", "on_cam", "tavan", "arka_cam", "bagaj", "arka_tampon",
+  "sol_on_camurluk", "sol_on_kapi", "sol_arka_kapi", "sol_arka_camurluk", "sol_ayna",
+  "sag_on_camurluk", "sag_on_kapi", "sag_arka_kapi", "sag_arka_camurluk", "sag_ayna",
+] as const;
+export const vehiclePanelEnum = z.enum(VEHICLE_PANELS);
+export type VehiclePanel = z.infer<typeof vehiclePanelEnum>;
+
+export const VEHICLE_PANEL_LABELS: Record<VehiclePanel, string> = {
+  on_tampon: "Ön tampon",
+  kaput: "Kaput",
+  on_cam: "Ön cam",
+  tavan: "Tavan",
+  arka_cam: "Arka cam",
+  bagaj: "Bagaj",
+  arka_tampon: "Arka tampon",
+  sol_on_camurluk: "Sol ön çamurluk",
+  sol_on_kapi: "Sol ön kapı",
+  sol_arka_kapi: "Sol arka kapı",
+  sol_arka_camurluk: "Sol arka çamurluk",
+  sol_ayna: "Sol ayna",
+  sag_on_camurluk: "Sağ ön çamurluk",
+  sag_on_kapi: "Sağ ön kapı",
+  sag_arka_kapi: "Sağ arka kapı",
+  sag_arka_camurluk: "Sağ arka çamurluk",
+  sag_ayna: "Sağ ayna",
+};
+
+export const damageTypeEnum = z.enum(["cizik", "gocuk", "kirik", "boya", "diger"]);
+export type DamageType = z.infer<typeof damageTypeEnum>;
+
+export const DAMAGE_TYPE_LABELS: Record<DamageType, string> = {
+  cizik: "Çizik",
+  gocuk: "Göçük",
+  kirik: "Kırık / Çatlak",
+  boya: "Boya hasarı",
+  diger: "Diğer",
+};
+
+// Araç kabulünde tespit edilen hasarlar; her panel için tek kayıt tutulur
+export const jobDamageMarks = pgTable("job_damage_marks", {
+  jobId: integer("job_id").notNull(),
+  panel: text("panel").notNull(),
+  damageType: text("damage_type").notNull(),
+  note: text("note"),
+}, (table) => {
+  return {
+    pk: primaryKey({ columns: [table.jobId, table.panel] }),
+  };
+});
+
+// İşin hasar şeması tek seferde kaydedilir
+export const jobDamageMarksSchema = z.array(z.object({
+  panel: vehiclePanelEnum,
+  damageType: damageTypeEnum,
+  note: z.string().trim().max(200, "Not en fazla 200 karakter olabilir").optional(),
+})).refine(marks => new Set(marks.map(mark => mark.panel)).size === marks.length, "Aynı panel birden fazla kez işaretlenemez");
+
+// Denetim kaydı: veri değiştiren her istek ve yedekten geri yükleme eklenir.
+// Kayıtlar güncellenmez ve silinmez; yedeğe de alınmaz ki geri yükleme izi silmesin.
+export const auditActionEnum = z.enum(["create", "update", "delete", "restore"]);
+export type AuditAction = z.infer<typeof auditActionEnum>;
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Ekleme",
+  update: "Güncelleme",
+  delete: "Silme",
+  restore: "Geri yükleme",
+};
+
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id"),
+  username: text("username"), // Kullanıcı sonradan silinse de kim olduğu görünsün
+  action: text("action").notNull(),
+  entityType: text("entity_type").notNull(), // API yolundaki kaynak, örn. "jobs", "inventory/products"
+  entityId: integer("entity_id"),
+  method: text("method"), // Geri yüklemede boş
+  path: text("path"),
+  before: jsonb("before"), // Değişiklik öncesi kayıt
+  after: jsonb("after"), // Değişiklik sonrası kayıt
+  details: jsonb("details"), // İstek gövdesi veya geri yükleme raporu
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Hizmet reçetesi: hizmetin bir adedinde tüketilen malzeme miktarı
+export const serviceConsumptions = pgTable("service_consumptions", {
+  serviceId: integer("service_id").notNull(),
+  productId: integer("product_id").notNull(),
+  quantity: numeric("quantity").notNull(),
+}, (table) => {
+  return {
+    pk: primaryKey({ columns: [table.serviceId, table.productId] }),
+  };
+});
+
+// Hizmetin reçetesi tek seferde kaydedilir
+export const serviceConsumptionsSchema = z.array(z.object({
+  productId: z.number().int().positive(),
+  quantity: inventoryQuantitySchema,
+})).refine(items => new Set(items.map(item => item.productId)).size === items.length, "Aynı ürün birden fazla kez eklenemez");
+
+// Malzeme alımı; istenirse aynı tutarda "malzeme" gideri de oluşturulur
+export const inventoryPurchaseSchema = z.object({
+  quantity: inventoryQuantitySchema,
+  totalCost: z.union([z.number(), z.string()])
+    .transform(val => Number(val))
+    .refine(val => !isNaN(val) && val >= 0, "Tutar negatif olamaz")
+    .transform(val => val.toFixed(2)),
+  createExpense: z.boolean().default(false),
+  paymentMethod: moneyPaymentMethodEnum.default("nakit"),
+  vatRate: vatRateSchema.optional(),
+  notes: z.string().optional(),
+});
+
+// Sayım: fiili stok girilir, fark sayım hareketi olarak kaydedilir
+export const inventoryStockCountSchema = z.object({
+  countedStock: z.union([z.number(), z.string()])
+    .transform(val => Number(val))
+    .refine(val => !isNaN(val) && val >= 0, "Stok negatif olamaz"),
+  notes: z.string().optional(),
 });
 
 // Customer Analysis view for aggregating customer spending
@@ -145,9 +907,11 @@ export const settings = pgTable("settings", {
 // Types for our schema
 export type Customer = typeof customers.$inferSelect;
 export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+export type CustomerServicePrice = typeof customerServicePrices.$inferSelect;
 
 export type Vehicle = typeof vehicles.$inferSelect;
 export type InsertVehicle = z.infer<typeof insertVehicleSchema>;
+export type MergeVehicles = z.infer<typeof mergeVehiclesSchema>;
 
 export type Service = typeof services.$inferSelect;
 export type InsertService = z.infer<typeof insertServiceSchema>;
@@ -158,6 +922,48 @@ export type InsertJob = z.infer<typeof insertJobSchema>;
 export type JobService = typeof jobServices.$inferSelect;
 export type InsertJobService = z.infer<typeof insertJobServiceSchema>;
 
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type PaymentWithUser = Payment & { userName: string | null; giftCardCode: string | null };
+
+export type WashBay = typeof washBays.$inferSelect;
+export type InsertWashBay = z.infer<typeof insertWashBaySchema>;
+
+export type Appointment = typeof appointments.$inferSelect;
+export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+export type AppointmentDetail = Appointment & {
+  customerName: string | null;
+  vehiclePlate: string | null;
+  serviceIds: number[];
+};
+
+export type SubscriptionPlan = typeof subscriptionPlans.$inferSelect;
+export type InsertSubscriptionPlan = z.infer<typeof insertSubscriptionPlanSchema>;
+export type SubscriptionPlanDetail = SubscriptionPlan & {
+  serviceIds: number[];
+};
+
+export type CustomerSubscription = typeof customerSubscriptions.$inferSelect;
+export type InsertCustomerSubscription = z.infer<typeof insertCustomerSubscriptionSchema>;
+export type CustomerSubscriptionDetail = CustomerSubscription & {
+  customerName: string | null;
+  vehiclePlate: string | null;
+  planName: string | null;
+  periodMonths: number;
+  visitLimit: number | null;
+  serviceIds: number[];
+  periodStart: string; // İçinde bulunulan dönemin başlangıcı
+  visitsUsed: number; // Bu dönemde üyelikle yapılan ziyaret sayısı
+};
+
+// Üyelik raporu: aktif, yakında bitecek ve süresi dolmuş (yenilenmemiş) üyelikler
+export type SubscriptionReport = {
+  active: CustomerSubscriptionDetail[];
+  expiring: CustomerSubscriptionDetail[];
+  lapsed: CustomerSubscriptionDetail[];
+  monthlyRecurringRevenue: number; // Aktif üyeliklerin aylık karşılığı
+};
+
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
@@ -166,10 +972,462 @@ export type InsertExpense = z.infer<typeof insertExpenseSchema>;
 
 export type CustomerAnalytic = typeof customerAnalytics.$inferSelect;
 
+export type CashSession = typeof cashSessions.$inferSelect;
+export type OpenCashSession = z.infer<typeof openCashSessionSchema>;
+export type CloseCashSession = z.infer<typeof closeCashSessionSchema>;
+export type CashMovement = typeof cashMovements.$inferSelect;
+export type InsertCashMovement = z.infer<typeof insertCashMovementSchema>;
+export type CashMovementDetail = CashMovement & { userName: string | null };
+
+// Kasa oturumu özeti; açık oturumda tutarlar anlık hesaplanır, kapalıda kapanıştaki değerlerdir
+export type CashSessionDetail = CashSession & {
+  openedByName: string | null;
+  closedByName: string | null;
+  totals: {
+    openingFloat: number;
+    cashPayments: number; // Oturum süresince alınan nakit tahsilatlar ve nakit hediye kartı yüklemeleri
+    cashIn: number;
+    cashOut: number;
+    cashExpenses: number; // Oturuma bağlı nakit giderler
+    expectedAmount: number; // Avans + tahsilat + giriş - çıkış - gider
+  };
+};
+
+export type CashSessionReport = CashSessionDetail & {
+  movements: CashMovementDetail[];
+};
+
+export type AccountInvoice = typeof accountInvoices.$inferSelect;
+export type CreateAccountInvoice = z.infer<typeof createAccountInvoiceSchema>;
+export type AccountInvoicePayment = z.infer<typeof accountInvoicePaymentSchema>;
+export type AccountInvoiceDetail = AccountInvoice & {
+  customerName: string;
+  jobCount: number;
+  paidAmount: number; // Faturadaki işlere alınan tahsilatlar
+  remaining: number;
+};
+export type AccountInvoiceJob = {
+  id: number;
+  receiptNumber: number | null;
+  vehiclePlate: string;
+  services: string; // Satır etiketleri, virgülle ayrılmış
+  totalAmount: string;
+  paidAmount: string;
+  createdAt: Date;
+};
+// Hesap ekstresi / fatura dökümü
+export type AccountInvoiceReport = AccountInvoiceDetail & {
+  customer: Customer;
+  jobs: AccountInvoiceJob[];
+};
+
+// Kurumsal alacak yaşlandırması: faturalı alacaklar vade tarihine göre gruplanır
+export type ReceivablesAgingBuckets = {
+  unbilled: number; // Henüz faturalanmamış cari hesap işleri
+  current: number; // Vadesi gelmemiş
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+  total: number;
+};
+export type ReceivablesAgingRow = ReceivablesAgingBuckets & {
+  customerId: number;
+  customerName: string;
+};
+export type ReceivablesAging = {
+  rows: ReceivablesAgingRow[];
+  totals: ReceivablesAgingBuckets;
+};
+
+export type CustomerSettlement = z.infer<typeof customerSettlementSchema>;
+
+// Ödenmemiş (iptal dışı, ödenen < tutar) iş
+export type OpenJob = {
+  id: number;
+  receiptNumber: number | null;
+  vehiclePlate: string;
+  totalAmount: string;
+  paidAmount: string;
+  remaining: number;
+  ageDays: number; // İşin açılışından bu yana geçen gün
+  invoiceId: number | null;
+  createdAt: Date;
+};
+
+// Açık bakiyeler: müşteri bazında ödenmemiş işler, iş tarihine göre yaşlandırılır
+export type OpenBalanceBuckets = {
+  days0to30: number;
+  days31to60: number;
+  over60: number;
+  total: number;
+};
+export type OpenBalanceRow = OpenBalanceBuckets & {
+  customerId: number;
+  customerName: string;
+  customerPhone: string | null;
+  jobCount: number;
+  oldestJobDate: Date;
+};
+export type OpenBalances = {
+  rows: OpenBalanceRow[];
+  totals: OpenBalanceBuckets & { jobCount: number };
+};
+
+// Müşteri hesap ekstresi: işler borç, tahsilatlar alacak olarak yürüyen bakiyeyle listelenir
+export type CustomerStatementEntry = {
+  date: Date;
+  type: "is" | "odeme";
+  jobId: number;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+};
+export type CustomerStatement = {
+  customer: Customer;
+  startDate: string | null;
+  endDate: string | null;
+  openingBalance: number;
+  entries: CustomerStatementEntry[];
+  closingBalance: number;
+  openJobs: OpenJob[];
+};
+
+export type InventoryProduct = typeof inventoryProducts.$inferSelect;
+export type InsertInventoryProduct = z.infer<typeof insertInventoryProductSchema>;
+export type InventoryMovement = typeof inventoryMovements.$inferSelect;
+export type ServiceConsumption = typeof serviceConsumptions.$inferSelect;
+export type InventoryPurchase = z.infer<typeof inventoryPurchaseSchema>;
+export type InventoryStockCount = z.infer<typeof inventoryStockCountSchema>;
+export type InventoryProductDetail = InventoryProduct & {
+  stock: number;
+  averageUnitCost: number; // Alımların ağırlıklı ortalama birim maliyeti
+  isLow: boolean; // Stok minimum seviyenin altında
+};
+export type InventoryMovementDetail = InventoryMovement & {
+  userName: string | null;
+};
+export type InventoryProductReport = InventoryProductDetail & {
+  movements: InventoryMovementDetail[];
+};
+
+// Dönem içindeki alım ve tüketim (tüketim maliyeti ortalama birim maliyetle hesaplanır)
+export type InventoryReportRow = {
+  productId: number;
+  name: string;
+  unit: string;
+  purchased: number;
+  purchaseCost: number;
+  consumed: number;
+  consumptionCost: number;
+  stock: number; // Güncel stok
+};
+export type InventoryReport = {
+  rows: InventoryReportRow[];
+  totals: {
+    purchaseCost: number;
+    consumptionCost: number;
+  };
+};
+
+// İş akışı panosundaki kart
+export type JobBoardItem = {
+  id: number;
+  status: string;
+  plate: string;
+  vehicle: string; // Marka model
+  customerName: string;
+  services: string[];
+  staff: string[];
+  notes: string | null;
+  createdAt: Date;
+  statusChangedAt: Date;
+};
+
+// Sunucudan anlık gönderilen iş emri olayı
+export type JobEvent = {
+  jobId: number;
+  action: "created" | "updated" | "deleted";
+};
+
+// Plakayla hızlı kabul: kayıtlı araç seçilir ya da araç (gerekirse müşteriyle birlikte) aynı istekte açılır
+export const createCheckInSchema = z.object({
+  vehicleId: z.number().int().positive().optional(),
+  newVehicle: z.object({
+    plate: plateSchema,
+    brand: z.string().trim().min(1, "Araç markası zorunludur"),
+    model: z.string().optional(),
+    color: z.string().optional(),
+  }).optional(),
+  customerId: z.number().int().positive().optional(),
+  newCustomer: z.object({
+    name: z.string().trim().min(1, "Müşteri adı zorunludur"),
+    phone: z.string().optional(),
+  }).optional(),
+  serviceIds: z.array(z.number().int().positive()).min(1, "En az bir hizmet seçilmelidir"),
+  notes: z.string().optional(),
+}).superRefine((data, ctx) => {
+  if (!data.vehicleId === !data.newVehicle) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["vehicleId"], message: "Kayıtlı araç veya yeni araç bilgisi verilmelidir" });
+  }
+  if (data.newVehicle && !data.customerId === !data.newCustomer) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["customerId"], message: "Yeni araç için kayıtlı müşteri veya yeni müşteri bilgisi verilmelidir" });
+  }
+});
+
+export type CreateCheckIn = z.infer<typeof createCheckInSchema>;
+
+export type CheckInVisit = {
+  id: number;
+  status: string;
+  totalAmount: string;
+  services: string[];
+  createdAt: Date;
+};
+
+export type CheckInUsualService = {
+  serviceId: number;
+  name: string;
+  price: string; // Kurumsal müşteride anlaşmalı fiyat
+  count: number; // Son ziyaretlerde kaç kez alındığı
+};
+
+// Resepsiyonda plaka girildiğinde gösterilen araç, müşteri ve geçmiş bilgisi
+export type CheckInContext = {
+  plate: string; // Gösterim biçimi
+  isValidPlate: boolean;
+  vehicle: Vehicle | null;
+  customer: Customer | null;
+  activeJob: CheckInVisit | null; // Bekleyen veya devam eden iş varsa ikinci kez açılmaması için
+  recentVisits: CheckInVisit[];
+  openBalance: number;
+  openJobCount: number;
+  usualServices: CheckInUsualService[];
+};
+
+// Kamera görüntüsünden okunan plaka adayı; güven 0-1 arasıdır
+export type PlateCandidate = {
+  plate: string;
+  confidence: number;
+};
+
+// Plaka tanıma sonucu: okunan adaylar ve kayıtlı araçla eşleşme
+export type PlateRecognitionResult = {
+  candidates: PlateCandidate[];
+  plate: string | null; // Eşleşen aracın ya da en güvenilir adayın plakası
+  confidence: number | null;
+  match: "exact" | "fuzzy" | "none";
+  vehicle: Vehicle | null;
+  customer: Customer | null;
+  lastJob: CheckInVisit | null;
+};
+
+export type JobStaff = typeof jobStaff.$inferSelect;
+export type StaffMember = Pick<User, "id" | "fullName" | "role">;
+export type StaffPayout = typeof staffPayouts.$inferSelect;
+export type PostPayroll = z.infer<typeof postPayrollSchema>;
+
+export type JobPhoto = typeof jobPhotos.$inferSelect;
+export type UploadJobPhoto = z.infer<typeof uploadJobPhotoSchema>;
+export type JobDamageMark = typeof jobDamageMarks.$inferSelect;
+export type JobDamageMarkInput = z.infer<typeof jobDamageMarksSchema>[number];
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = Omit<AuditLog, "id" | "createdAt">;
+
+// Dönem prim bordrosu: dönemde tamamlanan işlerin satırlarından, iş tamamlandığında kopyalanan prim kuralıyla hesaplanır
+export type PayrollRow = {
+  userId: number;
+  fullName: string;
+  role: string;
+  jobCount: number;
+  serviceCount: number; // Hizmet adedi (satır miktarlarının toplamı)
+  commission: number;
+  payout: StaffPayout | null; // Gider olarak işlendiyse
+};
+export type PayrollReport = {
+  period: string;
+  rows: PayrollRow[];
+  totalCommission: number;
+};
+
+export type GiftCard = typeof giftCards.$inferSelect;
+export type InsertGiftCard = z.infer<typeof insertGiftCardSchema>;
+export type GiftCardTopUp = z.infer<typeof giftCardTopUpSchema>;
+export type GiftCardDetail = GiftCard & {
+  customerName: string | null;
+  balance: number;
+};
+export type GiftCardTransaction = typeof giftCardTransactions.$inferSelect;
+export type GiftCardTransactionDetail = GiftCardTransaction & {
+  userName: string | null;
+  jobId: number | null; // Harcama ve iadede tahsilatın ait olduğu iş emri
+};
+export type GiftCardReport = GiftCardDetail & {
+  transactions: GiftCardTransactionDetail[];
+};
+
+// Hediye kartı raporu: güncel yükümlülük ve dönem içindeki hareketler
+export type GiftCardLiabilityReport = {
+  outstandingLiability: number; // Tüm kartlardaki kullanılmamış bakiye
+  cardsWithBalance: number;
+  topUps: number;
+  spent: number;
+  refunds: number;
+  topCards: GiftCardDetail[]; // En yüksek bakiyeli kartlar
+};
+
+export type LoyaltyTransaction = typeof loyaltyTransactions.$inferSelect;
+export type LoyaltyRedemption = z.infer<typeof loyaltyRedemptionSchema>;
+
+// Müşterinin sadakat bakiyesi ve program kuralları
+export type LoyaltySummary = {
+  customerId: number;
+  enabled: boolean;
+  points: number;
+  pointValue: number; // 1 puanın TL karşılığı
+  stamps: number;
+  freeWashEvery: number; // 0 ise ücretsiz yıkama kuralı kapalı
+  availableFreeWashes: number;
+};
+
+export type CustomerLoyalty = LoyaltySummary & {
+  transactions: LoyaltyTransaction[];
+};
+
 export const insertSettingSchema = createInsertSchema(settings).omit({
   id: true,
   updatedAt: true,
 });
 
 export type Setting = typeof settings.$inferSelect;
-export type InsertSetting = z.infer<typeof insertSettingSchema>;
\ No newline at end of file
+export type InsertSetting = z.infer<typeof insertSettingSchema>;
+
+// Aylık KDV raporu: hesaplanan (satış) ve indirilecek (gider) KDV, oran bazında
+export type VatRateSummary = {
+  vatRate: number;
+  net: number;
+  vat: number;
+  gross: number;
+};
+
+export type VatReport = {
+  startDate: string;
+  endDate: string;
+  output: VatRateSummary[];
+  input: VatRateSummary[];
+  outputVat: number;
+  inputVat: number;
+  payableVat: number; // Negatifse sonraki aya devreden KDV
+};
+
+// İş günü tarihi (YYYY-AA-GG); sınırlar işletme saat dilimi ve gün kapanış saatine göre hesaplanır
+export const businessDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Tarih YYYY-AA-GG biçiminde olmalı");
+
+// İş emri listesi (GET /api/jobs?page=...) - sunucu tarafı sayfalama, filtre ve sıralama
+export const JOB_LIST_SORT_FIELDS = ["id", "plate", "vehicle", "customer", "total", "paid", "remaining", "date", "status"] as const;
+export type JobListSortField = (typeof JOB_LIST_SORT_FIELDS)[number];
+
+export const jobListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+  sort: z.enum(JOB_LIST_SORT_FIELDS).default("date"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  status: jobStatusEnum.optional(),
+  paymentMethod: paymentMethodEnum.optional(), // Bu yöntemle en az bir tahsilatı olan işler
+  dateFrom: businessDateSchema.optional(), // İş günü, dahil
+  dateTo: businessDateSchema.optional(), // İş günü, dahil
+  customerId: z.coerce.number().int().positive().optional(),
+  plate: z.string().trim().min(1).optional(),
+  q: z.string().trim().min(1).optional(), // Plaka, marka/model, müşteri adı/telefonu veya iş no
+});
+
+export type JobListQuery = z.infer<typeof jobListQuerySchema>;
+
+export type JobListItem = Job & {
+  customerName: string | null;
+  customerPhone: string | null;
+  vehiclePlate: string | null;
+  vehicleBrand: string | null;
+  vehicleModel: string | null;
+};
+
+export type JobListResult = {
+  items: JobListItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+// Gelir raporu (GET /api/reports/revenue) - gün/hafta/ay/yıl bazında SQL ile gruplanır
+export const REVENUE_REPORT_GROUP_BY = ["day", "week", "month", "year"] as const;
+export type RevenueReportGroupBy = (typeof REVENUE_REPORT_GROUP_BY)[number];
+
+export const revenueReportQuerySchema = z.object({
+  startDate: businessDateSchema, // Dahil
+  endDate: businessDateSchema, // Dahil
+  groupBy: z.enum(REVENUE_REPORT_GROUP_BY).default("day"),
+  compare: z.enum(["true", "false"]).default("true").transform(value => value === "true"), // Önceki dönemle karşılaştır
+}).refine(query => query.startDate <= query.endDate, {
+  message: "Bitiş tarihi başlangıç tarihinden önce olamaz",
+  path: ["endDate"],
+});
+
+export type RevenueReportQuery = z.infer<typeof revenueReportQuerySchema>;
+
+// Hesap ekstresi dönemi; verilmezse tüm hareketler listelenir
+export const customerStatementQuerySchema = z.object({
+  startDate: businessDateSchema.optional(), // Dahil
+  endDate: businessDateSchema.optional(), // Dahil
+}).refine(query => !query.startDate === !query.endDate, {
+  message: "Başlangıç ve bitiş tarihi birlikte verilmelidir",
+  path: ["endDate"],
+}).refine(query => !query.startDate || !query.endDate || query.startDate <= query.endDate, {
+  message: "Bitiş tarihi başlangıç tarihinden önce olamaz",
+  path: ["endDate"],
+});
+
+// Denetim kaydı listesi (GET /api/audit-logs) - en yeni kayıt önce, sunucu tarafı sayfalama
+export const auditLogQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50),
+  userId: z.coerce.number().int().positive().optional(),
+  entityType: z.string().trim().min(1).optional(),
+  entityId: z.coerce.number().int().positive().optional(),
+  dateFrom: businessDateSchema.optional(), // İş günü, dahil
+  dateTo: businessDateSchema.optional(), // İş günü, dahil
+});
+
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+
+export type AuditLogResult = {
+  items: AuditLog[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+export type RevenueReportTotals = {
+  revenue: number; // İptal edilmeyen işlerin toplamı
+  collected: number; // Dönem içinde alınan tahsilatlar
+  jobCount: number;
+  expenses: number;
+  netProfit: number; // revenue - expenses
+  averageTicket: number; // İş başına ortalama tutar
+};
+
+export type RevenueReportBucket = Omit<RevenueReportTotals, "averageTicket"> & {
+  period: string; // Dönem başlangıcı (YYYY-AA-GG), haftalar pazartesi başlar
+};
+
+export type RevenueReportPeriod = {
+  startDate: string; // İş günü, dahil
+  endDate: string; // İş günü, dahil
+  buckets: RevenueReportBucket[];
+  totals: RevenueReportTotals;
+};
+
+export type RevenueReport = RevenueReportPeriod & {
+  groupBy: RevenueReportGroupBy;
+  previous: RevenueReportPeriod | null; // Aynı uzunluktaki bir önceki dönem
+};
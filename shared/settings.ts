@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { isValidTimeZone, type BusinessDayOptions } from "./businessDay";
+import { VAT_RATES } from "./schema";
+
+// Görünüm ayarlarındaki tema renkleri
+export const themeColorEnum = z.enum(["blue", "green", "purple", "red", "gray"]);
+export type ThemeColor = z.infer<typeof themeColorEnum>;
+
+// Ayar kayıt defteri: her ayarın veritabanı anahtarı, tipi ve varsayılan değeri.
+// Değerler settings tablosunda metin olarak saklanır.
+export const SETTING_DEFINITIONS = {
+  // Sistem
+  companyName: { key: "company_name", schema: z.string().max(200), defaultValue: "ZENITH CAR Oto Yıkama" },
+  taxId: { key: "tax_id", schema: z.string().max(50), defaultValue: "" },
+  address: { key: "company_address", schema: z.string().max(500), defaultValue: "" },
+  phone: { key: "company_phone", schema: z.string().max(50), defaultValue: "" },
+  email: { key: "company_email", schema: z.string().email("Geçerli bir e-posta adresi giriniz").or(z.literal("")), defaultValue: "" },
+  receiptFooter: { key: "receipt_footer", schema: z.string().max(1000), defaultValue: "Bizi tercih ettiğiniz için teşekkür ederiz. Tekrar bekleriz!" },
+  vatRate: { key: "vat_rate", schema: z.number().refine(val => (VAT_RATES as readonly number[]).includes(val), "Geçersiz KDV oranı"), defaultValue: 20 }, // Yeni hizmet ve serbest satırlar için varsayılan KDV oranı (%), satır oranlarıyla aynı listeden
+  businessTimeZone: { key: "business_time_zone", schema: z.string().refine(isValidTimeZone, "Geçersiz saat dilimi"), defaultValue: "Europe/Istanbul" },
+  dayCutoffHour: { key: "day_cutoff_hour", schema: z.number().int().min(0).max(23), defaultValue: 0 }, // İş günü bu saatte kapanır (örn. 2 = gece 02:00)
+  subscriptionAutoRenew: { key: "subscription_auto_renew", schema: z.boolean(), defaultValue: false }, // Açıkken otomatik yenilemeli üyelikler dönem sonunda ücretlendirilip uzatılır
+
+  // Bildirimler
+  emailNotifications: { key: "notify_email", schema: z.boolean(), defaultValue: true },
+  smsNotifications: { key: "notify_sms", schema: z.boolean(), defaultValue: false },
+  appointmentReminders: { key: "notify_appointment_reminders", schema: z.boolean(), defaultValue: true },
+  promotionalMessages: { key: "notify_promotional", schema: z.boolean(), defaultValue: false },
+  dailySummary: { key: "notify_daily_summary", schema: z.boolean(), defaultValue: true },
+
+  // Sadakat programı
+  loyaltyEnabled: { key: "loyalty_enabled", schema: z.boolean(), defaultValue: false },
+  loyaltyPointsPerTl: { key: "loyalty_points_per_tl", schema: z.number().min(0), defaultValue: 1 }, // Harcanan her 1 TL için puan
+  loyaltyPointsPerJob: { key: "loyalty_points_per_job", schema: z.number().int().min(0), defaultValue: 0 }, // Tamamlanan her iş için sabit puan
+  loyaltyPointValue: { key: "loyalty_point_value", schema: z.number().positive(), defaultValue: 0.1 }, // Kullanımda 1 puanın TL karşılığı
+  loyaltyFreeWashEvery: { key: "loyalty_free_wash_every", schema: z.number().int().min(0), defaultValue: 10 }, // Bu kadar ücretli ziyarette bir ücretsiz yıkama (0 = kapalı)
+
+  // Görünüm
+  themeColor: { key: "theme_color", schema: themeColorEnum, defaultValue: "blue" as ThemeColor },
+} as const;
+
+export type SettingName = keyof typeof SETTING_DEFINITIONS;
+
+export type AppSettings = {
+  [K in SettingName]: z.infer<(typeof SETTING_DEFINITIONS)[K]["schema"]>;
+};
+
+export const DEFAULT_APP_SETTINGS = Object.fromEntries(
+  Object.entries(SETTING_DEFINITIONS).map(([name, definition]) => [name, definition.defaultValue])
+) as AppSettings;
+
+// PUT /api/settings gövdesi - yalnızca değişen ayarlar gönderilebilir
+export const updateAppSettingsSchema = z.object(
+  Object.fromEntries(
+    Object.entries(SETTING_DEFINITIONS).map(([name, definition]) => [name, definition.schema.optional()])
+  ) as { [K in SettingName]: z.ZodOptional<(typeof SETTING_DEFINITIONS)[K]["schema"]> }
+).strict();
+
+// Veritabanındaki metin değeri ayarın tipine çevir; geçersizse varsayılanı kullan
+export function parseSettingValue<K extends SettingName>(name: K, raw: string | undefined): AppSettings[K] {
+  const definition = SETTING_DEFINITIONS[name];
+  if (raw === undefined) {
+    return definition.defaultValue as AppSettings[K];
+  }
+
+  const value =
+    typeof definition.defaultValue === "boolean" ? raw === "true" :
+    typeof definition.defaultValue === "number" ? Number(raw) :
+    raw;
+  const parsed = definition.schema.safeParse(value);
+  return (parsed.success ? parsed.data : definition.defaultValue) as AppSettings[K];
+}
+
+export function serializeSettingValue(value: AppSettings[SettingName]): string {
+  return String(value);
+}
+
+// Raporlarda ve günlük listelerde kullanılan iş günü ayarları
+export function getBusinessDayOptions(settings: AppSettings): BusinessDayOptions {
+  return { timeZone: settings.businessTimeZone, cutoffHour: settings.dayCutoffHour };
+}